@@ -56,3 +56,9 @@ global.console = {
   warn: jest.fn(),
   error: jest.fn(),
 }
+
+// Keep TF-IDF corpora in memory so tests never write to disk
+process.env.CORPUS_DIR = ''
+
+// Keep imported knowledge-base entities in memory as well
+process.env.KNOWLEDGE_BASE_FILE = ''
@@ -0,0 +1,254 @@
+/**
+ * Named Entity Recognizer Training
+ * Fills sentence templates with gazetteer names and invented names, trains the averaged perceptron
+ * and writes the weights to src/config/ner/model.json. Invented names make the tagger learn context
+ * and word shape instead of memorizing the gazetteer.
+ *
+ * Usage: npm run train-ner
+ */
+
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { AnnotatedSentence, NamedEntityRecognizer, parseAnnotatedSentence } from '../src/lib/named-entity-recognizer';
+import gazetteer from '../src/config/ner/gazetteer.json';
+
+// Fixed seed so the same templates always produce the same model
+const SEED = 2024;
+const SENTENCES = 4000;
+const ITERATIONS = 10;
+const OUTPUT = path.join(__dirname, '../src/config/ner/model.json');
+
+// Sentences with entity slots; {person} and friends are replaced by annotated names
+const TEMPLATES = [
+  '{person} is a developer at {organization}.',
+  '{person} joined {organization} as chief technology officer last year.',
+  'According to {person}, the new {product} sold out in two days.',
+  '{organization} opened a new office in {location}.',
+  '{organization} is headquartered in {city}, {region}.',
+  'The company is located in {city}, {region}.',
+  'Our team in {location} builds {technology} applications for {organization}.',
+  'Written by {person}, senior editor at {organization}.',
+  'Dr. {person} leads the research group at {organization}.',
+  'Prof. {person} presented the findings in {location} on Tuesday.',
+  'Mr. {person} and Ms. {person} founded {organization} in 2015.',
+  'We interviewed {person} about building sites with {technology} and {technology}.',
+  'This tutorial shows how to deploy a {technology} app to {technology}.',
+  'Learn {technology} from scratch with hands-on examples.',
+  '{technology} is a popular framework for building user interfaces.',
+  'The backend uses {technology}, {technology} and {technology}.',
+  'Migrating from {technology} to {technology} cut our build times in half.',
+  'Many developers compare {technology} with {technology} before starting a project.',
+  'The {product} runs {product} out of the box.',
+  'We tested the {product} against the {product} for a week.',
+  '{organization} announced the {product} at its event in {location}.',
+  'Buy the {product} today and get free shipping to {location}.',
+  'Is the {product} worth the upgrade?',
+  'Customers in {location} and {location} can now order from {organization}.',
+  '{person} moved from {location} to {location} in 2019.',
+  'Flights from {location} to {location} are cheaper in spring.',
+  'The conference takes place in {city}, {region} next March.',
+  '{organization} and {organization} signed a partnership in {location}.',
+  'Contact {person} at our {location} office for a quote.',
+  '{person} said the {organization} report was accurate.',
+  'In an interview, {person} explained why {organization} chose {technology}.',
+  '{organization} uses {technology} to power its recommendations.',
+  'A guide to {technology} for beginners by {person}.',
+  'Photo by {person} for {organization}.',
+  'The best restaurants in {location} according to locals.',
+  'Visit {location} to see the famous harbor.',
+  '{location} is known for its museums and parks.',
+  'Shipping to {location}, {location} and {location} takes three days.',
+  'Thanks to {person} and {person} for reviewing this article.',
+  '{person} recommends the {product} for students.',
+  '{organization} shares rose after the {product} launch.',
+  'Sign in with your {organization} account to continue.',
+  'Integrate {technology} with {product} in five minutes.',
+  'Our agency has helped {organization} grow organic traffic since 2020.',
+  'The {organization} team in {location} is hiring {technology} engineers.',
+  'Read the full story from {organization}.',
+  'Reviewed by {person}, MD.',
+  'Founded by {person}, {organization} now employs 200 people.',
+  '{person}, CEO of {organization}, spoke at the summit in {location}.',
+  'After leaving {organization}, {person} started a consultancy in {location}.',
+  'Download the {product} app for free.',
+  'We built the dashboard with {technology} on top of {technology}.',
+  'Why {organization} bet on {technology} for its infrastructure.',
+  'Hotels near {location} with free parking.',
+  '{person} is the author of three books on {technology}.',
+  'When {person} visited {location}, the team showed a demo of the {product}.',
+  'Jobs at {organization} in {city}, {region}.',
+  '{organization} acquired {organization} for an undisclosed sum.',
+  'How to set up {technology} on {product}.',
+  'Ask {person} about pricing for {organization} customers.',
+  'Email {person} with any questions about your order.',
+  'Call {person} to book a consultation in {location}.',
+  '{person} works as a designer at {organization} in {location}.',
+  '{person} writes about {technology} and {technology} on her blog.',
+  'The startup {organization} raised funding from investors in {location}.',
+  '{organization} ships orders across {location} within two days.',
+  'Our clinic partners with {organization} and {organization}.',
+  'Chef {person} opened a restaurant in {location} last month.',
+  '{organization} released the {product} for early testers.',
+  'Photo credit: {person}.',
+  '{technology} and {technology} play well together in production.',
+  '{technology} makes testing easy for small teams.',
+  'We use {technology} in every project and {technology} for deployments.',
+  'Both {technology} and {technology} run on most hosting plans.',
+  '{product} comes with a faster processor this year.',
+  '{person} lives in {location} with two cats.'
+];
+
+// Sentences without entities, including capitalized sentence starts, headings and ambiguous words
+const NEGATIVE_TEMPLATES = [
+  'This is a test content about web development.',
+  'The company is growing quickly.',
+  'Best Practices For Modern Web Design',
+  'How To Improve Your Search Rankings',
+  'Getting Started',
+  'Frequently Asked Questions',
+  'Contact Us Today For A Free Quote',
+  'Our Services',
+  'Read More',
+  'Water the plants every morning and let the soil dry out.',
+  'We go to the market every Saturday.',
+  'Rust can damage old garden tools.',
+  'Children react quickly to new sounds.',
+  'Take a swift decision and rest for a while.',
+  'The express train leaves at noon.',
+  'An apple a day keeps the doctor away.',
+  'Keep your target audience in mind when you write.',
+  'Spring is the best time to plant tulips.',
+  'Our team answers every email within one business day.',
+  'Monday through Friday, nine to five.',
+  'Privacy Policy and Terms of Service',
+  'Free shipping on orders over fifty dollars.',
+  'Content marketing helps small businesses grow.',
+  'Search engines reward pages that answer questions clearly.',
+  'A programming language is a set of instructions.',
+  'The framework is popular among developers.',
+  'Click the button below to subscribe.',
+  'All rights reserved.',
+  'Step One: Choose A Plan',
+  'Local SEO Tips For Small Businesses',
+  'Prices start at ten dollars per month.',
+  'The report covers the first quarter.',
+  'Every Tuesday we publish a new guide.',
+  'Fresh bread is baked daily.',
+  'Use short paragraphs and clear headings.',
+  'Questions about your order?',
+  'Customer reviews help other shoppers decide.',
+  'Limited Time Offer On All Orders This Week',
+  'New Arrivals In Our Online Store',
+  'Why Choose Our Team',
+  'It ships orders to most countries within a week.',
+  'They opened a new office last year.',
+  'She joined the team in 2019 and leads research.',
+  'He works as a designer and writes about typography.',
+  'We moved to a bigger office in the spring.',
+  'It is located near the station.'
+];
+
+const ONSETS = ['Br', 'K', 'M', 'T', 'V', 'Z', 'L', 'D', 'S', 'R', 'G', 'N', 'P', 'H', 'C', 'F', 'W', 'J', 'Qu', 'Th', 'St', 'Gr'];
+const VOWELS = ['a', 'e', 'i', 'o', 'u', 'ai', 'ou', 'ea', 'y'];
+const CODAS = ['n', 'r', 'l', 'x', 'th', 'nd', 'rk', 's', 'v', 'm', '', 'ck', 'ng', 'tt'];
+
+const ORGANIZATION_SUFFIXES = ['Inc', 'Corp', 'LLC', 'Ltd', 'Group', 'Labs', 'Technologies', 'Systems', 'Solutions', 'Partners', 'Agency', 'Studio', 'Media', 'Foundation', 'Consulting', 'Holdings'];
+const ORGANIZATION_INDUSTRIES = ['Health', 'Analytics', 'Digital', 'Energy', 'Bakery', 'Coffee', 'Motors', 'Logistics', 'Design', 'Software', 'Capital', 'Dental', 'Fitness', 'Realty', 'Insurance', 'Marketing', 'Airlines', 'Bank'];
+const ORGANIZATION_ENDINGS = ['Corp', 'Soft', 'Works', 'Logic', 'Data', 'Labs', 'Hub', 'Stack', 'ly', 'io'];
+const PLACE_PATTERNS = ['{name}ville', '{name}burg', 'Port {name}', 'Lake {name}', '{name} Springs', 'North {name}', '{name}ton'];
+const PRODUCT_MODELS = ['Pro', 'Max', 'Mini', 'Ultra', 'Air', 'Plus', 'X5', 'S3', '2', '10', '500'];
+
+let seed = SEED;
+const random = () => {
+  // mulberry32
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+const chance = (probability: number) => random() < probability;
+
+const regions = new Set(gazetteer.regions);
+const cities = gazetteer.location.filter(name => !regions.has(name));
+
+/**
+ * Invented capitalized word such as "Brailand" or "Zeck"
+ */
+function inventName(): string {
+  const syllables = chance(0.6) ? 2 : 1;
+  let word = '';
+  for (let i = 0; i < syllables; i++) word += pick(ONSETS) + pick(VOWELS) + pick(CODAS);
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function person(): string {
+  const roll = random();
+  if (roll < 0.15) return pick(gazetteer.person);
+  if (roll < 0.6) return `${pick(gazetteer.first_names)} ${inventName()}`;
+  if (roll < 0.8) return `${inventName()} ${inventName()}`;
+  return `${pick(gazetteer.first_names)} ${String.fromCharCode(65 + Math.floor(random() * 26))}. ${inventName()}`;
+}
+
+function organization(): string {
+  const roll = random();
+  if (roll < 0.25) return pick(gazetteer.organization);
+  if (roll < 0.45) return `${inventName()} ${pick(ORGANIZATION_SUFFIXES)}`;
+  if (roll < 0.65) return `${inventName()} ${pick(ORGANIZATION_INDUSTRIES)}${chance(0.4) ? ` ${pick(ORGANIZATION_SUFFIXES)}` : ''}`;
+  if (roll < 0.85) return `${inventName()}${pick(ORGANIZATION_ENDINGS)}${chance(0.4) ? ' Inc' : ''}`;
+  if (roll < 0.92) return inventName();
+  return chance(0.5) ? `${inventName()} & ${inventName()}` : `University of ${inventName()}`;
+}
+
+function location(): string {
+  if (chance(0.75)) return pick(gazetteer.location);
+  return pick(PLACE_PATTERNS).replace('{name}', inventName());
+}
+
+function product(): string {
+  const roll = random();
+  if (roll < 0.5) return pick(gazetteer.product);
+  if (roll < 0.75) return `${inventName()} ${pick(PRODUCT_MODELS)}`;
+  return `${pick(gazetteer.product)} ${pick(PRODUCT_MODELS)}`;
+}
+
+function technology(): string {
+  const name = pick(gazetteer.technology);
+  return chance(0.25) ? name.toLowerCase() : name;
+}
+
+const FILLERS: Record<string, () => string> = {
+  person: () => `[person ${person()}]`,
+  organization: () => `[organization ${organization()}]`,
+  location: () => `[location ${location()}]`,
+  city: () => `[location ${chance(0.8) ? pick(cities) : pick(PLACE_PATTERNS).replace('{name}', inventName())}]`,
+  region: () => `[location ${pick(gazetteer.regions)}]`,
+  product: () => `[product ${product()}]`,
+  technology: () => `[technology ${technology()}]`
+};
+
+/**
+ * Sentence without entities; some are turned into Title Case headings
+ */
+function negative(): string {
+  const sentence = pick(NEGATIVE_TEMPLATES);
+  return chance(0.3) ? sentence.replace(/\b\p{Ll}/gu, letter => letter.toUpperCase()) : sentence;
+}
+
+/**
+ * Short passages of one to three sentences, so context crosses sentence boundaries
+ */
+function generate(): AnnotatedSentence[] {
+  const passages: AnnotatedSentence[] = [];
+  for (let i = 0; i < SENTENCES; i++) {
+    const sentences = Array.from({ length: 1 + Math.floor(random() * 3) }, () =>
+      chance(0.25) ? negative() : pick(TEMPLATES).replace(/\{(\w+)\}/g, (_, slot: string) => FILLERS[slot]())
+    );
+    passages.push(parseAnnotatedSentence(sentences.join(' ')));
+  }
+  return passages;
+}
+
+const model = NamedEntityRecognizer.train(generate(), ITERATIONS, random);
+writeFileSync(OUTPUT, JSON.stringify(model) + '\n');
+console.log(`Wrote ${Object.keys(model.weights).length} features to ${OUTPUT}`);
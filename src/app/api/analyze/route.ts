@@ -5,25 +5,34 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { SEOAnalyzer } from '@/lib/seo-analyzer';
+import { checkRateLimit, getClientIP, validateUrlSecurity } from '@/lib/request-guards';
 import { AnalysisRequest } from '@/types/seo-analysis';
+import { config } from '@/config/environment';
 import { z } from 'zod';
 
-// Request validation schema
+// Request validation schema; with html the url is optional and only used as the page's virtual address
 const AnalysisRequestSchema = z.object({
-  url: z.string().url('Invalid URL format'),
+  url: z.string().url('Invalid URL format').optional(),
+  html: z.string().max(config.maxHtmlBytes, 'HTML content is too large').optional(),
   include_ai_analysis: z.boolean().optional().default(true),
-  analysis_depth: z.enum(['basic', 'standard', 'comprehensive']).optional().default('comprehensive')
+  respect_robots_txt: z.boolean().optional().default(true),
+  analysis_depth: z.enum(['basic', 'standard', 'comprehensive']).optional().default('comprehensive'),
+  selector_profile: z.string().optional().refine(
+    name => name === undefined || config.contentSelectorProfiles.some(profile => profile.name === name),
+    { message: `selector_profile must be one of: ${config.contentSelectorProfiles.map(profile => profile.name).join(', ')}` }
+  ),
+  keyword_extractor: z.enum(['rake', 'yake', 'textrank']).optional(),
+  project: z.string().regex(/^[\w.-]{1,100}$/, 'project may only contain letters, digits, ".", "-" and "_"').optional()
+}).refine(data => !!data.url || data.html !== undefined, {
+  message: 'Provide a url to fetch or html content to analyze'
 });
 
-// Rate limiting store (in-memory for simplicity)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
   try {
-    // Parse and validate request body
-    const body = await request.json();
+    // Parse and validate request body (JSON or a multipart HTML file upload)
+    const body = await readRequestBody(request);
     const validationResult = AnalysisRequestSchema.safeParse(body);
     
     if (!validationResult.success) {
@@ -41,11 +50,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { url, include_ai_analysis, analysis_depth } = validationResult.data;
+    const { html, include_ai_analysis, respect_robots_txt, analysis_depth, selector_profile, keyword_extractor, project } = validationResult.data;
+    const url = validationResult.data.url || config.defaultVirtualUrl;
 
     // Rate limiting
     const clientIP = getClientIP(request);
-    if (!checkRateLimit(clientIP)) {
+    if (!checkRateLimit(clientIP, 'analyze')) {
       return NextResponse.json(
         { 
           success: false, 
@@ -59,8 +69,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Enhanced URL validation with security checks
-    const urlValidation = validateUrlSecurity(url);
+    // Enhanced URL validation with security checks (supplied HTML is never fetched)
+    const urlValidation = html === undefined ? validateUrlSecurity(url) : { isValid: true, message: '' };
     if (!urlValidation.isValid) {
       return NextResponse.json(
         { 
@@ -85,18 +95,28 @@ export async function POST(request: NextRequest) {
     const analysisRequest: AnalysisRequest = {
       url,
       include_ai_analysis: include_ai_analysis && !!geminiApiKey,
-      analysis_depth
+      respect_robots_txt,
+      analysis_depth,
+      selector_profile,
+      keyword_extractor,
+      project
     };
 
     // Perform deterministic analysis
-    const result = await analyzer.analyzeURL(analysisRequest);
+    const result = html === undefined
+      ? await analyzer.analyzeURL(analysisRequest)
+      : await analyzer.analyzeHTML(html, url, analysisRequest);
 
     if (!result.success || !result.data) {
-      return NextResponse.json(result, { status: 500 });
+      // Pages disallowed by robots.txt and redirects to private addresses are a refusal, not a server failure
+      const status = result.error?.type === 'ROBOTS_BLOCKED' ? 403 : result.error?.type === 'URL_INVALID' ? 400 : 500;
+      return NextResponse.json(result, { status });
     }
 
-    // If AI analysis is requested and API key is available, call internal AI endpoint
-    if (include_ai_analysis && geminiApiKey) {
+    // If AI analysis is requested, allowed at this depth, the page is indexable and API key is available, call internal AI endpoint
+    const aiAllowed = SEOAnalyzer.getStagesForDepth(analysis_depth).includes('ai_analysis') &&
+      result.data.indexability?.is_indexable !== false;
+    if (include_ai_analysis && geminiApiKey && aiAllowed) {
       try {
         const aiResponse = await fetch(`${getBaseUrl(request)}/api/ai-analyze`, {
           method: 'POST',
@@ -116,6 +136,9 @@ export async function POST(request: NextRequest) {
               ...result.data.gemini_analysis,
               ...aiResult.data
             };
+            if (!result.data.stages_run?.includes('ai_analysis')) {
+              result.data.stages_run = [...(result.data.stages_run || []), 'ai_analysis'];
+            }
           }
         } else {
           console.warn('AI analysis failed, returning deterministic analysis only');
@@ -131,7 +154,7 @@ export async function POST(request: NextRequest) {
     result.data.processing_time_ms = totalProcessingTime;
 
     // Log successful analysis
-    console.log(`Analysis completed in ${totalProcessingTime}ms for URL: ${url}`);
+    console.log(`Analysis completed in ${totalProcessingTime}ms for ${html === undefined ? 'URL' : 'supplied HTML at'}: ${url}`);
 
     return NextResponse.json(result, { status: 200 });
 
@@ -154,111 +177,30 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Enhanced URL validation with security checks
+ * Normalize JSON and multipart bodies into the schema shape
  */
-function validateUrlSecurity(url: string): { isValid: boolean; message: string } {
-  try {
-    const urlObj = new URL(url);
-    
-    // Only allow HTTP and HTTPS
-    if (!['http:', 'https:'].includes(urlObj.protocol)) {
-      return { isValid: false, message: 'Only HTTP and HTTPS URLs are allowed' };
-    }
-
-    // Check for private/localhost IPs (SSRF protection)
-    if (urlObj.hostname === 'localhost' || 
-        urlObj.hostname === '127.0.0.1' ||
-        urlObj.hostname.startsWith('192.168.') ||
-        urlObj.hostname.startsWith('10.') ||
-        urlObj.hostname.startsWith('172.') ||
-        urlObj.hostname === '0.0.0.0') {
-      return { isValid: false, message: 'Private/localhost URLs are not allowed' };
-    }
-
-    // Check for suspicious patterns
-    const suspiciousPatterns = [
-      /file:\/\//,
-      /ftp:\/\//,
-      /gopher:\/\//,
-      /data:/,
-      /javascript:/,
-      /vbscript:/
-    ];
-
-    if (suspiciousPatterns.some(pattern => pattern.test(url))) {
-      return { isValid: false, message: 'Suspicious URL pattern detected' };
-    }
-
-    return { isValid: true, message: '' };
-  } catch {
-    return { isValid: false, message: 'Invalid URL format' };
+async function readRequestBody(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return request.json();
   }
-}
 
-/**
- * Get client IP address
- */
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
-  }
-  
-  return 'unknown';
-}
-
-/**
- * Check rate limit for client IP
- */
-function checkRateLimit(clientIP: string): boolean {
-  const now = Date.now();
-  const windowMs = 60 * 1000; // 1 minute window
-  const maxRequests = 10; // Max 10 requests per minute per IP
-
-  const key = `analyze_${clientIP}`;
-  const current = rateLimitStore.get(key);
-
-  if (!current || now > current.resetTime) {
-    // Reset or create new entry
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + windowMs
-    });
-    return true;
-  }
-
-  if (current.count >= maxRequests) {
-    return false;
-  }
-
-  // Increment count
-  current.count++;
-  rateLimitStore.set(key, current);
-
-  // Clean up expired entries periodically
-  if (Math.random() < 0.1) { // 10% chance
-    cleanupExpiredEntries();
-  }
-
-  return true;
-}
-
-/**
- * Clean up expired rate limit entries
- */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, value] of rateLimitStore.entries()) {
-    if (now > value.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
+  const formData = await request.formData();
+  const file = formData.get('file');
+  const includeAI = formData.get('include_ai_analysis');
+  const respectRobots = formData.get('respect_robots_txt');
+
+  return {
+    url: formData.get('url') || undefined,
+    html: file instanceof Blob ? await file.text() : formData.get('html') ?? undefined,
+    include_ai_analysis: includeAI === null ? undefined : includeAI === 'true',
+    // Anything but "true" or "false" is passed on for the schema to reject, rather than read as false
+    respect_robots_txt: respectRobots === 'true' ? true : respectRobots === 'false' ? false : respectRobots ?? undefined,
+    analysis_depth: formData.get('analysis_depth') || undefined,
+    selector_profile: formData.get('selector_profile') || undefined,
+    keyword_extractor: formData.get('keyword_extractor') || undefined,
+    project: formData.get('project') || undefined
+  };
 }
 
 /**
@@ -281,12 +223,17 @@ export async function GET() {
       message: 'SEO Analysis API',
       version: '1.0.0',
       endpoints: {
-        'POST /api/analyze': 'Analyze a URL for SEO insights'
+        'POST /api/analyze': 'Analyze a URL, or supplied HTML (JSON html field or multipart file upload), for SEO insights'
       },
       parameters: {
-        url: 'string (required) - URL to analyze',
+        url: 'string (required unless html is given) - URL to analyze; with html, the virtual URL of the page',
+        html: 'string (optional) - Raw HTML to analyze without fetching; alternatively upload it as multipart field "file"',
         include_ai_analysis: 'boolean (optional) - Include AI-powered analysis',
-        analysis_depth: 'string (optional) - Analysis depth: basic, standard, comprehensive'
+        respect_robots_txt: 'boolean (optional) - Refuse pages disallowed by robots.txt for the analyzer bot (default true); findings are reported either way',
+        analysis_depth: 'string (optional) - Analysis depth: basic (metadata, headings, indexability, keywords), standard (+ structured data, page audits, semantic analysis), comprehensive (+ E-E-A-T, query fan-out, AI)',
+        selector_profile: `string (optional) - Content selector profile: ${config.contentSelectorProfiles.map(profile => profile.name).join(', ')}; by default chosen from the URL's domain`,
+        keyword_extractor: `string (optional) - Candidate phrase scoring: rake, yake or textrank (default ${config.defaultKeywordExtractor})`,
+        project: 'string (optional) - TF-IDF corpus to score against; fetched pages are added to it. Defaults to the URL\'s host'
       }
     },
     { status: 200 }
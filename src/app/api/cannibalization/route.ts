@@ -0,0 +1,110 @@
+/**
+ * Keyword Cannibalization API Route
+ * Compares the primary keywords of previously exported analysis results and reports pages competing for the same term
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CannibalizationDetector } from '@/lib/cannibalization-detector';
+import { checkRateLimit, getClientIP } from '@/lib/request-guards';
+import { config } from '@/config/environment';
+import { SEOAnalysisResult } from '@/types/seo-analysis';
+import { z } from 'zod';
+
+// Fields of an exported analysis result the detector and link graph read; the rest passes through
+const AnalysisResultSchema = z.object({
+  page_metadata: z.object({
+    url: z.string().url('Each result needs a page_metadata.url'),
+    title_tag: z.string()
+  }).passthrough(),
+  structured_on_page_data: z.object({
+    word_count: z.number(),
+    headings_and_keywords: z.array(z.object({ tag: z.string(), text: z.string() }).passthrough()),
+    links: z.array(z.object({ href: z.string(), internal: z.boolean(), rel: z.array(z.string()) }).passthrough()).optional()
+  }).passthrough(),
+  inferred_keywords: z.object({
+    primary: z.object({ keywords: z.array(z.object({ term: z.string() }).passthrough()) }).passthrough(),
+    secondary: z.object({ keywords: z.array(z.object({ term: z.string() }).passthrough()) }).passthrough()
+  }).passthrough()
+}).passthrough();
+
+// Request validation schema
+const CannibalizationRequestSchema = z.object({
+  results: z.array(AnalysisResultSchema)
+    .min(2, 'Provide at least two analysis results')
+    .max(config.maxCannibalizationResults, `At most ${config.maxCannibalizationResults} results per request`)
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = CannibalizationRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validationResult.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'cannibalization', 10)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    const results = validationResult.data.results as unknown as SEOAnalysisResult[];
+    const conflicts = new CannibalizationDetector(results).detect();
+
+    return NextResponse.json({ success: true, data: { pages_compared: results.length, keyword_cannibalization: conflicts } }, { status: 200 });
+
+  } catch (error) {
+    console.error('Cannibalization API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          type: 'PARSE_ERROR',
+          message: 'Failed to compare analysis results',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      message: 'SEO Keyword Cannibalization API',
+      version: '1.0.0',
+      endpoints: {
+        'POST /api/cannibalization': 'Find primary keywords targeted by more than one page in exported analysis results'
+      },
+      parameters: {
+        results: `array (required) - 2 to ${config.maxCannibalizationResults} JSON exports of /api/analyze results; later results replace earlier ones for the same URL`
+      }
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * TF-IDF Corpus API Route
+ * Imports HTML or text files into a project's document-frequency corpus and reports its size
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentFrequencyStore } from '@/lib/document-frequency-store';
+import { checkRateLimit, getClientIP } from '@/lib/request-guards';
+import { config } from '@/config/environment';
+import { z } from 'zod';
+
+const ProjectSchema = z.string().regex(/^[\w.-]{1,100}$/, 'project may only contain letters, digits, ".", "-" and "_"');
+
+// Request validation schema
+const CorpusImportSchema = z.object({
+  project: ProjectSchema,
+  documents: z.array(z.object({
+    name: z.string().min(1, 'Every document needs a name').max(200),
+    content: z.string().max(config.maxHtmlBytes, 'Document is too large')
+  })).min(1, 'Provide at least one document').max(config.maxCorpusImportFiles, `At most ${config.maxCorpusImportFiles} documents per import`)
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Accept JSON or a multipart upload with one or more "file" fields
+    const body = await readRequestBody(request);
+    const validationResult = CorpusImportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validationResult.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'corpus', 5)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    const { project, documents } = validationResult.data;
+    const corpus = await DocumentFrequencyStore.open(project);
+    const imported = corpus.importDocuments(documents);
+    await corpus.save();
+
+    console.log(`Imported ${imported} of ${documents.length} documents into TF-IDF corpus: ${project}`);
+
+    return NextResponse.json({ success: true, data: { imported, ...corpus.getStats() } }, { status: 200 });
+
+  } catch (error) {
+    console.error('Corpus API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          type: 'PARSE_ERROR',
+          message: 'Failed to import corpus documents',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Normalize JSON and multipart bodies into the schema shape
+ */
+async function readRequestBody(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return request.json();
+  }
+
+  const formData = await request.formData();
+  const files = formData.getAll('file').filter((file): file is File => file instanceof File);
+
+  return {
+    project: formData.get('project') || undefined,
+    documents: await Promise.all(files.map(async file => ({ name: file.name, content: await file.text() })))
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const project = request.nextUrl.searchParams.get('project');
+
+  if (project !== null) {
+    const validation = ProjectSchema.safeParse(project);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validation.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'corpus-stats')) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    // Unknown projects report an empty corpus without loading or caching a store
+    const corpus = await DocumentFrequencyStore.exists(project)
+      ? await DocumentFrequencyStore.open(project)
+      : new DocumentFrequencyStore(project);
+    return NextResponse.json({ success: true, data: corpus.getStats() }, { status: 200 });
+  }
+
+  return NextResponse.json(
+    {
+      message: 'SEO TF-IDF Corpus API',
+      version: '1.0.0',
+      endpoints: {
+        'POST /api/corpus': 'Import HTML or text files into a project corpus (JSON documents array or multipart "file" uploads)',
+        'GET /api/corpus?project=<name>': 'Document count, vocabulary size and last update of a project corpus'
+      },
+      parameters: {
+        project: 'string (required) - Corpus name; analyses use the page\'s host unless a project is given',
+        documents: `array (required for JSON) - Up to ${config.maxCorpusImportFiles} { name, content } objects; .html/.htm files are parsed for their main content`
+      }
+    },
+    { status: 200 }
+  );
+}
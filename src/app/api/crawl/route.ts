@@ -0,0 +1,128 @@
+/**
+ * Site Crawl API Route
+ * Crawls internal links from a seed URL and returns a site-level SEO report
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOAnalyzer } from '@/lib/seo-analyzer';
+import { SiteCrawler } from '@/lib/site-crawler';
+import { checkRateLimit, getClientIP, validateUrlSecurity } from '@/lib/request-guards';
+import { config } from '@/config/environment';
+import { z } from 'zod';
+
+// Request validation schema
+const CrawlRequestSchema = z.object({
+  url: z.string().url('Invalid URL format'),
+  max_depth: z.number().int().min(0).max(config.maxCrawlDepth).optional().default(2),
+  max_pages: z.number().int().min(1).max(config.maxCrawlPages).optional().default(20),
+  scope: z.enum(['same-host', 'same-domain']).optional().default('same-host'),
+  analysis_depth: z.enum(['basic', 'standard', 'comprehensive']).optional().default('basic'),
+  project: z.string().regex(/^[\w.-]{1,100}$/, 'project may only contain letters, digits, ".", "-" and "_"').optional()
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = CrawlRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validationResult.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { url, max_depth, max_pages, scope, analysis_depth, project } = validationResult.data;
+
+    // Crawls are expensive, so they get a tighter per-IP budget than single-page analysis
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'crawl', 3)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    const urlValidation = validateUrlSecurity(url);
+    if (!urlValidation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'URL_INVALID',
+            message: urlValidation.message,
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const crawler = new SiteCrawler(new SEOAnalyzer(), {
+      maxDepth: max_depth,
+      maxPages: max_pages,
+      scope,
+      analysisDepth: analysis_depth,
+      project,
+      validateUrl: validateUrlSecurity
+    });
+    const report = await crawler.crawl(url);
+
+    console.log(`Crawl completed in ${report.processing_time_ms}ms for ${report.pages.length} pages from: ${url}`);
+
+    return NextResponse.json({ success: true, data: report }, { status: 200 });
+
+  } catch (error) {
+    console.error('Crawl API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          type: 'PARSE_ERROR',
+          message: 'Internal server error',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      message: 'SEO Site Crawl API',
+      version: '1.0.0',
+      endpoints: {
+        'POST /api/crawl': 'Crawl internal links from a seed URL and build a site-level report'
+      },
+      parameters: {
+        url: 'string (required) - Seed URL to start crawling from',
+        max_depth: `number (optional) - Link depth to follow from the seed, 0-${config.maxCrawlDepth} (default 2)`,
+        max_pages: `number (optional) - Maximum pages to analyze, 1-${config.maxCrawlPages} (default 20)`,
+        scope: 'string (optional) - same-host (default) or same-domain (includes subdomains)',
+        analysis_depth: 'string (optional) - Per-page analysis depth: basic (default), standard, comprehensive',
+        project: 'string (optional) - TF-IDF corpus the pages are added to; defaults to the seed URL\'s host'
+      }
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Entity Knowledge Base API Route
+ * Imports Wikidata JSON dump subsets into the local knowledge base used for entity linking and reports its size
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { KnowledgeBase } from '@/lib/knowledge-base';
+import { checkRateLimit, getClientIP } from '@/lib/request-guards';
+import { config } from '@/config/environment';
+import { z } from 'zod';
+
+// Request validation schema
+const KnowledgeBaseImportSchema = z.object({
+  language: z.string().regex(/^[a-z]{2,3}$/, 'language must be a Wikidata language code such as "en"').default('en'),
+  entities: z.array(z.record(z.unknown()))
+    .min(1, 'Provide at least one entity')
+    .max(config.maxKnowledgeBaseImportEntities, `At most ${config.maxKnowledgeBaseImportEntities} entities per import`)
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Accept JSON or a multipart upload with one or more Wikidata dump "file" fields;
+    // a body or dump that does not parse is the client's error, not the server's
+    let body: unknown;
+    try {
+      body = await readRequestBody(request);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Request body is not valid JSON',
+            details: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+    const validationResult = KnowledgeBaseImportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validationResult.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'knowledge-base', 5)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    const { language, entities } = validationResult.data;
+    const knowledgeBase = await KnowledgeBase.open();
+    const { imported, skipped } = knowledgeBase.importWikidata(entities, language);
+    await knowledgeBase.save();
+
+    console.log(`Imported ${imported} of ${entities.length} entities into the knowledge base (${skipped} skipped)`);
+
+    return NextResponse.json({ success: true, data: { imported, skipped, ...knowledgeBase.getStats() } }, { status: 200 });
+
+  } catch (error) {
+    console.error('Knowledge Base API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          type: 'PARSE_ERROR',
+          message: 'Failed to import knowledge-base entities',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Normalize JSON and multipart bodies into the schema shape
+ */
+async function readRequestBody(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return request.json();
+  }
+
+  const formData = await request.formData();
+  const files = formData.getAll('file').filter((file): file is File => file instanceof File);
+  const dumps = await Promise.all(files.map(async file => {
+    try {
+      return KnowledgeBase.parseWikidataDump(await file.text());
+    } catch (error) {
+      throw new Error(`${file.name} is not a Wikidata JSON dump: ${error instanceof Error ? error.message : error}`);
+    }
+  }));
+
+  return {
+    language: formData.get('language') || undefined,
+    entities: dumps.flat()
+  };
+}
+
+export async function GET() {
+  const knowledgeBase = await KnowledgeBase.open();
+
+  return NextResponse.json(
+    {
+      message: 'SEO Entity Knowledge Base API',
+      version: '1.0.0',
+      data: knowledgeBase.getStats(),
+      endpoints: {
+        'POST /api/knowledge-base': 'Import Wikidata entities (JSON entities array or multipart "file" uploads of dump subsets)',
+        'GET /api/knowledge-base': 'Entity counts of the knowledge base'
+      },
+      parameters: {
+        entities: `array (required for JSON) - Up to ${config.maxKnowledgeBaseImportEntities} Wikidata entity objects with id, labels, descriptions, aliases, claims (P31 instance of, P856 website) and sitelinks`,
+        language: 'string (optional) - Language of labels, aliases, descriptions and the Wikipedia sameAs link (default: en)'
+      }
+    },
+    { status: 200 }
+  );
+}
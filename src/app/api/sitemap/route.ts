@@ -0,0 +1,154 @@
+/**
+ * Sitemap Audit API Route
+ * Analyzes every URL listed in a sitemap (by URL or uploaded XML) and flags problem entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SEOAnalyzer } from '@/lib/seo-analyzer';
+import { SitemapAuditor } from '@/lib/sitemap-auditor';
+import { checkRateLimit, getClientIP, validateUrlSecurity } from '@/lib/request-guards';
+import { config } from '@/config/environment';
+import { z } from 'zod';
+
+// Request validation schema; exactly one sitemap source is required
+const SitemapRequestSchema = z.object({
+  sitemap_url: z.string().url('Invalid sitemap URL format').optional(),
+  sitemap_xml: z.string().max(config.maxSitemapBytes, 'Sitemap XML is too large').optional(),
+  max_urls: z.number().int().min(1).max(config.maxSitemapUrls).optional().default(50),
+  analysis_depth: z.enum(['basic', 'standard', 'comprehensive']).optional().default('basic'),
+  project: z.string().regex(/^[\w.-]{1,100}$/, 'project may only contain letters, digits, ".", "-" and "_"').optional()
+}).refine(data => !!data.sitemap_url !== !!data.sitemap_xml, {
+  message: 'Provide either sitemap_url or sitemap_xml'
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Accept JSON or a multipart upload with the sitemap in a "file" field
+    const body = await readRequestBody(request);
+    const validationResult = SitemapRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details: validationResult.error.errors.map(e => e.message).join(', '),
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sitemap_url, sitemap_xml, max_urls, analysis_depth, project } = validationResult.data;
+
+    // Every sitemap entry is a full page analysis, so share the crawl budget
+    const clientIP = getClientIP(request);
+    if (!checkRateLimit(clientIP, 'sitemap', 3)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            type: 'RATE_LIMITED',
+            message: 'Too many requests. Please try again later.',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 429 }
+      );
+    }
+
+    if (sitemap_url) {
+      const urlValidation = validateUrlSecurity(sitemap_url);
+      if (!urlValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              type: 'URL_INVALID',
+              message: urlValidation.message,
+              timestamp: new Date().toISOString()
+            }
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const auditor = new SitemapAuditor(new SEOAnalyzer(), {
+      maxUrls: max_urls,
+      maxSitemaps: config.maxSitemapFiles,
+      analysisDepth: analysis_depth,
+      project,
+      validateUrl: validateUrlSecurity
+    });
+    const report = sitemap_url
+      ? await auditor.auditUrl(sitemap_url)
+      : await auditor.auditXml(sitemap_xml as string);
+
+    console.log(`Sitemap audit completed in ${report.processing_time_ms}ms for ${report.entries.length} URLs from: ${report.source}`);
+
+    return NextResponse.json({ success: true, data: report }, { status: 200 });
+
+  } catch (error) {
+    console.error('Sitemap API Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          type: 'PARSE_ERROR',
+          message: 'Failed to process sitemap',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Normalize JSON and multipart bodies into the schema shape
+ */
+async function readRequestBody(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return request.json();
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+  const maxUrls = formData.get('max_urls');
+  const analysisDepth = formData.get('analysis_depth');
+
+  return {
+    sitemap_url: formData.get('sitemap_url') || undefined,
+    sitemap_xml: file instanceof Blob ? await file.text() : undefined,
+    max_urls: maxUrls ? Number(maxUrls) : undefined,
+    analysis_depth: analysisDepth || undefined,
+    project: formData.get('project') || undefined
+  };
+}
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      message: 'SEO Sitemap Audit API',
+      version: '1.0.0',
+      endpoints: {
+        'POST /api/sitemap': 'Analyze every URL in a sitemap or sitemap index (JSON body or multipart upload)'
+      },
+      parameters: {
+        sitemap_url: 'string - URL of a sitemap or sitemap index (.xml or .xml.gz)',
+        sitemap_xml: 'string - Raw sitemap XML; alternatively upload it as multipart field "file"',
+        max_urls: `number (optional) - Maximum URLs to analyze, 1-${config.maxSitemapUrls} (default 50)`,
+        analysis_depth: 'string (optional) - Per-page analysis depth: basic (default), standard, comprehensive',
+        project: 'string (optional) - TF-IDF corpus the pages are added to; defaults to each page\'s host'
+      }
+    },
+    { status: 200 }
+  );
+}
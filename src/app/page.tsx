@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { AnalysisForm } from '@/components/analysis-form'
 import { AnalysisResults } from '@/components/analysis-results'
+import { SitemapAudit } from '@/components/sitemap-audit'
 import { AnalysisResponse, SEOAnalysisResult } from '@/types/seo-analysis'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Search, Brain, Target, Zap } from 'lucide-react'
@@ -10,6 +11,7 @@ import { Search, Brain, Target, Zap } from 'lucide-react'
 export default function Home() {
   const [analysisResult, setAnalysisResult] = useState<SEOAnalysisResult | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [mode, setMode] = useState<'page' | 'sitemap'>('page')
 
   const handleAnalysisComplete = (response: AnalysisResponse) => {
     setIsLoading(false)
@@ -82,11 +84,29 @@ export default function Home() {
         {/* Main Content */}
         {!analysisResult ? (
           <div className="flex flex-col items-center">
-            <AnalysisForm 
-              onAnalysisComplete={handleAnalysisComplete}
-              isLoading={isLoading}
-              onStartLoading={() => setIsLoading(true)}
-            />
+            <div className="flex gap-2 mb-6">
+              {(['page', 'sitemap'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {option === 'page' ? 'Single Page' : 'Sitemap Audit'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'page' ? (
+              <AnalysisForm 
+                onAnalysisComplete={handleAnalysisComplete}
+                isLoading={isLoading}
+                onStartLoading={() => setIsLoading(true)}
+              />
+            ) : (
+              <SitemapAudit />
+            )}
             
             {/* Instructions */}
             <Card className="w-full max-w-2xl mt-8">
@@ -4,8 +4,9 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Search, Loader2, AlertCircle } from 'lucide-react'
-import { AnalysisRequest, AnalysisResponse } from '@/types/seo-analysis'
+import { Search, Loader2, AlertCircle, Code } from 'lucide-react'
+import { AnalysisDepth, AnalysisRequest, AnalysisResponse, KeywordExtractorName } from '@/types/seo-analysis'
+import { selectorProfiles } from '@/config/selector-profiles'
 
 interface AnalysisFormProps {
   onAnalysisComplete: (result: AnalysisResponse) => void
@@ -14,19 +15,39 @@ interface AnalysisFormProps {
 }
 
 export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }: AnalysisFormProps) => {
+  const [inputMode, setInputMode] = useState<'url' | 'html'>('url')
   const [url, setUrl] = useState('')
+  const [html, setHtml] = useState('')
   const [includeAI, setIncludeAI] = useState(true)
+  const [analysisDepth, setAnalysisDepth] = useState<AnalysisDepth>('comprehensive')
+  const [selectorProfile, setSelectorProfile] = useState('')
+  const [keywordExtractor, setKeywordExtractor] = useState<KeywordExtractorName | ''>('')
   const [error, setError] = useState('')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
 
-    if (!url.trim()) {
+    if (inputMode === 'url' && !url.trim()) {
       setError('Please enter a valid URL')
       return
     }
 
+    if (inputMode === 'html' && !html.trim()) {
+      setError('Please paste or upload the page HTML')
+      return
+    }
+
+    // In HTML mode the URL is optional and only serves as the page's virtual address
+    const payload: Partial<AnalysisRequest> = {
+      url: url.trim() || undefined,
+      html: inputMode === 'html' ? html : undefined,
+      include_ai_analysis: includeAI,
+      analysis_depth: analysisDepth,
+      selector_profile: selectorProfile || undefined,
+      keyword_extractor: keywordExtractor || undefined
+    }
+
     try {
       onStartLoading()
       const response = await fetch('/api/analyze', {
@@ -34,11 +55,7 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          url: url.trim(),
-          include_ai_analysis: includeAI,
-          analysis_depth: 'comprehensive'
-        } as AnalysisRequest),
+        body: JSON.stringify(payload),
       })
 
       const result: AnalysisResponse = await response.json()
@@ -54,6 +71,13 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
     }
   }
 
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setHtml(await file.text())
+    }
+  }
+
   const isValidUrl = (url: string) => {
     try {
       new URL(url)
@@ -63,6 +87,10 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
     }
   }
 
+  const canSubmit = inputMode === 'url'
+    ? !!url.trim() && isValidUrl(url)
+    : !!html.trim() && (!url.trim() || isValidUrl(url))
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
@@ -71,14 +99,56 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
           SEO Analysis Tool
         </CardTitle>
         <CardDescription>
-          Enter a URL to perform comprehensive SEO analysis with AI-powered insights
+          Enter a URL, or paste a page&apos;s HTML, to perform comprehensive SEO analysis with AI-powered insights
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-2" role="tablist">
+            {(['url', 'html'] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                role="tab"
+                aria-selected={inputMode === mode}
+                onClick={() => setInputMode(mode)}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-sm font-medium ${
+                  inputMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                disabled={isLoading}
+              >
+                {mode === 'url' ? <Search className="h-4 w-4" /> : <Code className="h-4 w-4" />}
+                {mode === 'url' ? 'Fetch URL' : 'Paste HTML'}
+              </button>
+            ))}
+          </div>
+
+          {inputMode === 'html' && (
+            <div className="space-y-2">
+              <label htmlFor="html" className="text-sm font-medium">
+                Page HTML
+              </label>
+              <textarea
+                id="html"
+                placeholder="<html>...</html>"
+                value={html}
+                onChange={(e) => setHtml(e.target.value)}
+                className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs"
+                disabled={isLoading}
+              />
+              <input
+                type="file"
+                accept=".html,.htm,text/html"
+                onChange={handleFileUpload}
+                className="block w-full text-sm"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
           <div className="space-y-2">
             <label htmlFor="url" className="text-sm font-medium">
-              Website URL
+              {inputMode === 'url' ? 'Website URL' : 'Page URL (optional, used for URL analysis and links)'}
             </label>
             <Input
               id="url"
@@ -97,6 +167,59 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
             )}
           </div>
 
+          <div className="space-y-2">
+            <label htmlFor="analysis-depth" className="text-sm font-medium">
+              Analysis Depth
+            </label>
+            <select
+              id="analysis-depth"
+              value={analysisDepth}
+              onChange={(e) => setAnalysisDepth(e.target.value as AnalysisDepth)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              disabled={isLoading}
+            >
+              <option value="basic">Basic — metadata, headings, indexability and keywords</option>
+              <option value="standard">Standard — adds page audits and semantic analysis</option>
+              <option value="comprehensive">Comprehensive — adds E-E-A-T, query fan-out and AI</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="selector-profile" className="text-sm font-medium">
+              Content Selector Profile
+            </label>
+            <select
+              id="selector-profile"
+              value={selectorProfile}
+              onChange={(e) => setSelectorProfile(e.target.value)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              disabled={isLoading}
+            >
+              <option value="">Auto — chosen from the URL&apos;s domain</option>
+              {selectorProfiles.map(profile => (
+                <option key={profile.name} value={profile.name}>{profile.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="keyword-extractor" className="text-sm font-medium">
+              Keyword Extractor
+            </label>
+            <select
+              id="keyword-extractor"
+              value={keywordExtractor}
+              onChange={(e) => setKeywordExtractor(e.target.value as KeywordExtractorName | '')}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              disabled={isLoading}
+            >
+              <option value="">Default</option>
+              <option value="rake">RAKE — phrases between stop words, scored by word co-occurrence</option>
+              <option value="yake">YAKE — statistical features: casing, position, frequency, context</option>
+              <option value="textrank">TextRank — graph ranking of co-occurring words</option>
+            </select>
+          </div>
+
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -104,7 +227,7 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
               checked={includeAI}
               onChange={(e) => setIncludeAI(e.target.checked)}
               className="rounded border-gray-300"
-              disabled={isLoading}
+              disabled={isLoading || analysisDepth !== 'comprehensive'}
             />
             <label htmlFor="include-ai" className="text-sm font-medium">
               Include AI-powered analysis (requires Gemini API key)
@@ -131,7 +254,7 @@ export const AnalysisForm = ({ onAnalysisComplete, isLoading, onStartLoading }:
           <Button 
             type="submit" 
             className="w-full" 
-            disabled={isLoading || !url.trim() || !isValidUrl(url)}
+            disabled={isLoading || !canSubmit}
           >
             {isLoading ? (
               <>
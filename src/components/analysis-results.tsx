@@ -5,7 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { 
   SEOAnalysisResult, 
-  KeywordAnalysis
+  KeywordAnalysis,
+  SocialPlatform,
+  HeadingNode,
+  HeadingIssue
 } from '@/types/seo-analysis'
 import { 
   formatConfidenceScore, 
@@ -23,9 +26,68 @@ import {
   Brain,
   FileText,
   Users,
-  Zap
+  Zap,
+  AlertTriangle
 } from 'lucide-react'
 
+// Display names for the social share previews
+const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  facebook: 'Facebook',
+  linkedin: 'LinkedIn',
+  x: 'X'
+}
+
+interface HeadingOutlineTreeProps {
+  nodes: HeadingNode[]
+  severities: Map<number, HeadingIssue['severity']>
+}
+
+/**
+ * Collapsible h1-h6 outline; headings with issues are colored by their worst severity
+ */
+const HeadingOutlineTree = ({ nodes, severities }: HeadingOutlineTreeProps) => (
+  <ul className="space-y-1 pl-4 border-l border-gray-200">
+    {nodes.map((node) => {
+      const severity = severities.get(node.position)
+      const label = (
+        <span className={severity === 'error' ? 'text-red-700' : severity === 'warning' ? 'text-yellow-800' : 'text-gray-900'}>
+          <span className="mr-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-700 text-xs font-mono">H{node.level}</span>
+          {node.text || <em className="text-gray-500">(empty)</em>}
+          {node.image_only && <span className="ml-2 text-xs text-gray-500">image</span>}
+        </span>
+      )
+
+      return (
+        <li key={node.position} className="text-sm">
+          {node.children.length > 0 ? (
+            <details open>
+              <summary className="cursor-pointer">{label}</summary>
+              <HeadingOutlineTree nodes={node.children} severities={severities} />
+            </details>
+          ) : (
+            <div className="pl-3">{label}</div>
+          )}
+        </li>
+      )
+    })}
+  </ul>
+)
+
+/**
+ * Worst issue severity per heading position
+ */
+const getHeadingSeverities = (issues: HeadingIssue[]): Map<number, HeadingIssue['severity']> => {
+  const rank = { info: 0, warning: 1, error: 2 }
+  const severities = new Map<number, HeadingIssue['severity']>()
+  issues.forEach((issue) => {
+    issue.positions.forEach((position) => {
+      const current = severities.get(position)
+      if (!current || rank[issue.severity] > rank[current]) severities.set(position, issue.severity)
+    })
+  })
+  return severities
+}
+
 interface AnalysisResultsProps {
   result: SEOAnalysisResult
 }
@@ -237,14 +299,14 @@ export const AnalysisResults = ({ result }: AnalysisResultsProps) => {
 
   const exportToCSV = (result: SEOAnalysisResult): string => {
     const lines: string[] = []
-    lines.push('Type,Keyword,Confidence Score,Source Locations')
+    lines.push('Type,Keyword,Confidence Score,Source Locations,Variants')
     
     result.inferred_keywords.primary.keywords.forEach(kw => {
-      lines.push(`Primary,${kw.term},${kw.confidence_score || 0},${kw.extracted_from.join(';')}`)
+      lines.push(`Primary,${kw.term},${kw.confidence_score || 0},${kw.extracted_from.join(';')},${(kw.variants || []).join(';')}`)
     })
 
     result.inferred_keywords.secondary.keywords.forEach(kw => {
-      lines.push(`Secondary,${kw.term},${kw.confidence_score || 0},${kw.extracted_from.join(';')}`)
+      lines.push(`Secondary,${kw.term},${kw.confidence_score || 0},${kw.extracted_from.join(';')},${(kw.variants || []).join(';')}`)
     })
     
     return lines.join('\n')
@@ -312,7 +374,21 @@ export const AnalysisResults = ({ result }: AnalysisResultsProps) => {
               </CardTitle>
               <CardDescription>
                 {formatTimestamp(result.analysis_timestamp)} • {result.processing_time_ms}ms
+                {result.analysis_depth && ` • ${result.analysis_depth} depth`}
+                {result.input_source === 'html' && ' • supplied HTML (not fetched)'}
+                {result.structured_on_page_data.content_selector && (
+                  ` • content area: ${result.structured_on_page_data.content_selector.selector} (${result.structured_on_page_data.content_selector.profile} profile, ${result.structured_on_page_data.content_selector.source})`
+                )}
               </CardDescription>
+              {result.stages_run && result.stages_run.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {result.stages_run.map((stage) => (
+                    <span key={stage} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                      {stage.replace(/_/g, ' ')}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="flex gap-2">
               <Button variant="outline" size="sm" onClick={handleCopyResults}>
@@ -332,6 +408,33 @@ export const AnalysisResults = ({ result }: AnalysisResultsProps) => {
         </CardHeader>
       </Card>
 
+      {/* Indexability warning: keyword advice does not apply to pages that cannot be indexed */}
+      {result.indexability && result.indexability.verdict !== 'indexable' && (
+        <div
+          className={`flex items-start gap-3 p-4 rounded-lg border ${
+            result.indexability.verdict === 'non_indexable'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          <AlertTriangle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-medium">
+              {result.indexability.verdict === 'non_indexable'
+                ? `This page cannot be indexed by ${result.indexability.evaluated_for}; keyword recommendations do not apply`
+                : 'Another URL is indexed in place of this page'}
+            </div>
+            <ul className="mt-1 text-sm space-y-0.5">
+              {result.indexability.reasons
+                .filter((reason) => reason.severity !== 'info')
+                .map((reason, index) => (
+                  <li key={index}>• {reason.message}</li>
+                ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
         {tabs.map((tab) => {
@@ -1503,6 +1606,551 @@ export const AnalysisResults = ({ result }: AnalysisResultsProps) => {
             </CardContent>
           </Card>
 
+          {result.page_metadata.social_metadata && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Social Share Previews</CardTitle>
+                <CardDescription>
+                  How the page appears when shared, built from its Open Graph and Twitter Card tags
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {result.page_metadata.social_metadata.previews.map((preview) => (
+                      <div key={preview.platform}>
+                        <div className="text-xs font-medium text-gray-500 mb-1">{SOCIAL_PLATFORM_LABELS[preview.platform]}</div>
+                        <div
+                          className={`border overflow-hidden bg-white ${preview.platform === 'x' ? 'rounded-xl' : 'rounded'} ${
+                            preview.large_image ? '' : 'flex'
+                          }`}
+                        >
+                          <div
+                            className={`bg-gray-100 bg-cover bg-center flex items-center justify-center text-xs text-gray-400 ${
+                              preview.large_image ? 'w-full aspect-[1.91/1]' : 'w-24 h-24 flex-shrink-0'
+                            }`}
+                            style={preview.image_url ? { backgroundImage: `url("${preview.image_url}")` } : undefined}
+                          >
+                            {!preview.image_url && 'No image'}
+                          </div>
+                          <div className={`p-2 min-w-0 ${preview.platform === 'facebook' ? 'bg-gray-50' : ''}`}>
+                            {preview.platform === 'facebook' && (
+                              <div className="text-xs uppercase text-gray-500 truncate">{preview.domain}</div>
+                            )}
+                            <div className="text-sm font-semibold text-gray-900 line-clamp-2">{preview.title || 'Untitled'}</div>
+                            {preview.platform !== 'linkedin' && (
+                              <div className="text-xs text-gray-600 line-clamp-2">{preview.description}</div>
+                            )}
+                            {preview.platform !== 'facebook' && (
+                              <div className="text-xs text-gray-500 truncate">{preview.domain}</div>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {result.page_metadata.social_metadata.issues.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                      {result.page_metadata.social_metadata.issues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                            }`}
+                          >
+                            {issue.tag}
+                          </span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="text-sm text-green-700">Open Graph and Twitter Card tags look complete</div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.http_analysis && (
+            <Card>
+              <CardHeader>
+                <CardTitle>HTTP Response</CardTitle>
+                <CardDescription>
+                  HTTP {result.http_analysis.status_code} • {result.http_analysis.total_time_ms}ms
+                  {result.http_analysis.redirected && ` • ${result.http_analysis.redirect_chain.length - 1} redirect(s)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <ol className="space-y-1 text-sm">
+                    {result.http_analysis.redirect_chain.map((hop, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${
+                            hop.location ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {hop.status_code}
+                        </span>
+                        <span className="break-all">
+                          {hop.url}
+                          {hop.location && <span className="text-gray-500"> → {hop.location}</span>}
+                        </span>
+                        <span className="ml-auto text-xs text-gray-500 whitespace-nowrap">{hop.duration_ms}ms</span>
+                      </li>
+                    ))}
+                  </ol>
+
+                  {Object.keys(result.http_analysis.headers).length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      {Object.entries(result.http_analysis.headers).map(([name, value]) => (
+                        <div key={name}>
+                          <strong>{name.replace(/_/g, '-')}:</strong> <span className="font-mono text-xs">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {result.http_analysis.warnings.length > 0 && (
+                    <ul className="space-y-1 text-sm text-yellow-800">
+                      {result.http_analysis.warnings.map((warning, index) => (
+                        <li key={index}>⚠️ {warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.indexability && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Indexability</CardTitle>
+                <CardDescription>
+                  Verdict for {result.indexability.evaluated_for}: {result.indexability.verdict.replace(/_/g, ' ')}
+                  {result.indexability.canonical.url && ` • canonical: ${result.indexability.canonical.url}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {result.indexability.reasons.map((reason, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          reason.severity === 'blocking'
+                            ? 'bg-red-100 text-red-800'
+                            : reason.severity === 'warning'
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {reason.severity}
+                      </span>
+                      <span>{reason.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.robots_txt && (
+            <Card>
+              <CardHeader>
+                <CardTitle>robots.txt</CardTitle>
+                <CardDescription>
+                  {result.robots_txt.found
+                    ? result.robots_txt.robots_txt_url
+                    : `No robots.txt found${result.robots_txt.status_code ? ` (HTTP ${result.robots_txt.status_code})` : ''} — all crawlers allowed`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {result.robots_txt.user_agents.map((agent) => (
+                      <span
+                        key={agent.user_agent}
+                        title={agent.matched_rule}
+                        className={`px-2 py-1 rounded text-xs font-medium ${
+                          agent.allowed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {agent.user_agent}: {agent.allowed ? 'allowed' : 'disallowed'}
+                      </span>
+                    ))}
+                  </div>
+                  {result.robots_txt.findings.length > 0 && (
+                    <ul className="space-y-1 text-sm text-yellow-800">
+                      {result.robots_txt.findings.map((finding, index) => (
+                        <li key={index}>⚠️ {finding}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.heading_audit && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Heading Outline</CardTitle>
+                <CardDescription>
+                  {result.heading_audit.heading_count} headings • {result.heading_audit.h1_count} H1
+                  {result.heading_audit.issues.length > 0 && ` • ${result.heading_audit.issues.length} issue(s)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {result.heading_audit.outline.length > 0 && (
+                    <HeadingOutlineTree
+                      nodes={result.heading_audit.outline}
+                      severities={getHeadingSeverities(result.heading_audit.issues)}
+                    />
+                  )}
+                  {result.heading_audit.issues.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {result.heading_audit.issues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              issue.severity === 'error'
+                                ? 'bg-red-100 text-red-800'
+                                : issue.severity === 'warning'
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : 'bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {issue.severity}
+                          </span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.image_audit && result.image_audit.total_images > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Image SEO</CardTitle>
+                <CardDescription>
+                  {result.image_audit.total_images} images • {result.image_audit.images_with_issues} with issues
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {Object.keys(result.image_audit.issue_counts).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(result.image_audit.issue_counts).map(([type, count]) => (
+                        <span key={type} className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs">
+                          {type.replace(/_/g, ' ')}: {count}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                          <th className="py-2 pr-4">Image</th>
+                          <th className="py-2 pr-4">Alt text</th>
+                          <th className="py-2 pr-4">Format</th>
+                          <th className="py-2">Issues</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.image_audit.images.map((image, index) => (
+                          <tr key={index} className="border-b last:border-0 align-top">
+                            <td className="py-2 pr-4 break-all">
+                              {truncateText(image.filename || image.src || '(no src)', 40)}
+                              {image.above_the_fold && <span className="ml-1 text-xs text-gray-500">(above fold)</span>}
+                            </td>
+                            <td className={`py-2 pr-4 ${image.alt_status === 'missing' ? 'text-red-700' : image.alt_status === 'empty' ? 'text-yellow-700' : ''}`}>
+                              {image.alt_status === 'present' ? truncateText(image.alt || '', 60) : image.alt_status}
+                            </td>
+                            <td className="py-2 pr-4">{image.format || '—'}</td>
+                            <td className="py-2">
+                              {image.issues.length === 0 ? (
+                                <span className="text-green-700">✓</span>
+                              ) : (
+                                <ul className="space-y-1">
+                                  {image.issues.map((issue) => (
+                                    <li
+                                      key={issue.type}
+                                      className={
+                                        issue.severity === 'error'
+                                          ? 'text-red-700'
+                                          : issue.severity === 'warning'
+                                            ? 'text-yellow-800'
+                                            : 'text-gray-600'
+                                      }
+                                    >
+                                      {issue.message}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.hreflang && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Hreflang &amp; Language</CardTitle>
+                <CardDescription>
+                  {result.hreflang.links.length} hreflang alternates • html lang: {result.hreflang.html_lang || 'missing'}
+                  {result.hreflang.detected_language &&
+                    ` • content reads as ${result.hreflang.detected_language.language} (${Math.round(result.hreflang.detected_language.confidence * 100)}% confidence)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {result.hreflang.links.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 border-b">
+                            <th className="py-2 pr-4">hreflang</th>
+                            <th className="py-2">URL</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.hreflang.links.map((link, index) => (
+                            <tr key={index} className="border-b last:border-0 align-top">
+                              <td className="py-2 pr-4 font-mono">
+                                {link.hreflang}
+                                {link.hreflang === result.hreflang?.self_hreflang && (
+                                  <span className="ml-1 text-xs text-gray-500">(this page)</span>
+                                )}
+                              </td>
+                              <td className="py-2 break-all">{link.href}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  {result.hreflang.content_language_header && (
+                    <div className="text-sm text-gray-600">
+                      Content-Language header: {result.hreflang.content_language_header}
+                    </div>
+                  )}
+                  {result.hreflang.issues.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {result.hreflang.issues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              issue.severity === 'error'
+                                ? 'bg-red-100 text-red-800'
+                                : issue.severity === 'warning'
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : 'bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {issue.severity}
+                          </span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.structured_on_page_data.structured_data && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Structured Data</CardTitle>
+                <CardDescription>
+                  {result.structured_on_page_data.structured_data.entities.length > 0
+                    ? `${result.structured_on_page_data.structured_data.entities.length} entities found in ${result.structured_on_page_data.structured_data.formats_found.join(', ')}`
+                    : 'No JSON-LD, Microdata or RDFa found'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {result.structured_on_page_data.structured_data.entities.map((entity, index) => (
+                    <div key={index} className="p-3 border rounded-lg space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${
+                            !entity.validated_as
+                              ? 'bg-gray-100 text-gray-700'
+                              : entity.is_valid
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {!entity.validated_as ? 'not validated' : entity.is_valid ? 'valid' : 'invalid'}
+                        </span>
+                        <strong>{entity.type}</strong>
+                        {entity.name && <span className="text-gray-600">{truncateText(entity.name, 60)}</span>}
+                        <span className="ml-auto text-xs text-gray-500">{entity.format}</span>
+                      </div>
+                      {entity.missing_required.length > 0 && (
+                        <div className="text-red-700">Missing required: {entity.missing_required.join(', ')}</div>
+                      )}
+                      {entity.missing_recommended.length > 0 && (
+                        <div className="text-yellow-800">Missing recommended: {entity.missing_recommended.join(', ')}</div>
+                      )}
+                      {entity.warnings.map((warning, warningIndex) => (
+                        <div key={warningIndex} className="text-yellow-800">⚠️ {warning}</div>
+                      ))}
+                    </div>
+                  ))}
+                  {result.structured_on_page_data.structured_data.parse_errors.length > 0 && (
+                    <ul className="space-y-1 text-sm text-red-700">
+                      {result.structured_on_page_data.structured_data.parse_errors.map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.link_analysis && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Links &amp; Anchor Text</CardTitle>
+                <CardDescription>
+                  {result.link_analysis.internal_links} internal ({result.link_analysis.unique_internal_targets} unique) • {result.link_analysis.external_links} external
+                  {result.link_analysis.nofollow_links > 0 && ` • ${result.link_analysis.nofollow_links} nofollow`}
+                  {result.link_analysis.sponsored_links > 0 && ` • ${result.link_analysis.sponsored_links} sponsored`}
+                  {result.link_analysis.ugc_links > 0 && ` • ${result.link_analysis.ugc_links} ugc`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(result.link_analysis.by_location).map(([location, count]) => (
+                      <span key={location} className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs">
+                        {location}: {count}
+                      </span>
+                    ))}
+                  </div>
+
+                  {result.link_analysis.anchor_keywords.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 border-b">
+                            <th className="py-2 pr-4">Keyword</th>
+                            <th className="py-2 pr-4">Internal anchors</th>
+                            <th className="py-2">Anchor texts</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.link_analysis.anchor_keywords.map((usage) => (
+                            <tr key={`${usage.keyword_type}-${usage.keyword}`} className="border-b last:border-0 align-top">
+                              <td className="py-2 pr-4">
+                                {usage.keyword}
+                                <span className="ml-1 text-xs text-gray-500">({usage.keyword_type})</span>
+                              </td>
+                              <td className={`py-2 pr-4 ${usage.internal_anchor_count === 0 ? 'text-yellow-700' : ''}`}>
+                                {usage.internal_anchor_count}
+                              </td>
+                              <td className="py-2 text-gray-600">{usage.anchors.join(', ') || '—'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {(result.link_analysis.generic_anchors.length > 0 || result.link_analysis.empty_anchors > 0) && (
+                    <ul className="space-y-1 text-sm text-yellow-800">
+                      {result.link_analysis.generic_anchors.length > 0 && (
+                        <li>⚠️ Generic internal anchors: {result.link_analysis.generic_anchors.map(text => `"${text}"`).join(', ')}</li>
+                      )}
+                      {result.link_analysis.empty_anchors > 0 && (
+                        <li>⚠️ {result.link_analysis.empty_anchors} link(s) have no anchor text or image alt</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result.inferred_keywords.extraction && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Extracted Phrases</CardTitle>
+                <CardDescription>
+                  Scored by {result.inferred_keywords.extraction.extractor.toUpperCase()} from the main content, before keyword inference
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {result.inferred_keywords.extraction.candidates.length === 0 ? (
+                  <p className="text-sm text-gray-600">The main content yielded no candidate phrases.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {result.inferred_keywords.extraction.candidates.map((candidate, index) => (
+                      <span key={index} className="px-2 py-1 bg-gray-100 rounded text-sm text-black">
+                        {candidate.phrase} ({candidate.score.toFixed(2)})
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {result.keyword_clusters && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Keyword Clusters</CardTitle>
+                <CardDescription>
+                  Inferred keywords grouped by {result.keyword_clusters.similarity === 'embedding' ? `${result.keyword_clusters.embedding_provider} embedding` : 'co-occurrence'} similarity
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {result.keyword_clusters.clusters.length === 0 ? (
+                  <p className="text-sm text-gray-600">No keywords were similar enough to group.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {result.keyword_clusters.clusters.map((cluster, index) => (
+                      <div key={index} className="p-3 border rounded-lg">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-medium">{cluster.name}</span>
+                          <span className="text-sm text-gray-600">Cohesion: {cluster.cohesion.toFixed(2)}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {cluster.keywords.map((keyword, kIndex) => (
+                            <span key={kIndex} className={`px-2 py-1 rounded text-xs ${keyword === cluster.head_term ? 'bg-blue-100 text-blue-800 font-medium' : 'bg-gray-100 text-gray-700'}`}>
+                              {keyword}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Content Analysis</CardTitle>
@@ -1535,12 +2183,52 @@ export const AnalysisResults = ({ result }: AnalysisResultsProps) => {
                       <div className="text-sm text-gray-600">Technologies: {result.semantic_analysis.entity_extraction.technologies.length}</div>
                     </div>
                   </div>
+                  {result.semantic_analysis.entity_extraction.entities && result.semantic_analysis.entity_extraction.entities.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {[...result.semantic_analysis.entity_extraction.entities]
+                        .sort((a, b) => b.count - a.count)
+                        .slice(0, 10)
+                        .map((entity, index) => (
+                          <span key={index} className="px-2 py-1 bg-gray-100 rounded text-sm text-black" title={entity.type}>
+                            {entity.text} ({entity.count})
+                          </span>
+                        ))}
+                    </div>
+                  )}
                 </div>
+                {result.semantic_analysis.core_topic_analysis.inferred_entities.linked && result.semantic_analysis.core_topic_analysis.inferred_entities.linked.length > 0 && (
+                  <div>
+                    <strong>Linked Entities:</strong>
+                    <div className="mt-2 space-y-1">
+                      {result.semantic_analysis.core_topic_analysis.inferred_entities.linked.map((entity, index) => (
+                        <div key={index} className="text-sm text-gray-600">
+                          {entity.mention} → <a href={entity.same_as[0]} target="_blank" rel="noopener noreferrer" className="underline">{entity.label} ({entity.id})</a> · {entity.type} · {formatConfidenceScore(entity.confidence)}
+                        </div>
+                      ))}
+                    </div>
+                    <pre className="mt-2 p-2 bg-gray-900 rounded text-xs text-green-400 font-mono overflow-x-auto">
+                      {JSON.stringify({
+                        '@context': 'https://schema.org',
+                        '@type': 'WebPage',
+                        mentions: result.semantic_analysis.core_topic_analysis.inferred_entities.linked.map(entity => ({
+                          '@type': entity.schema_type,
+                          name: entity.label,
+                          sameAs: entity.same_as
+                        }))
+                      }, null, 2)}
+                    </pre>
+                  </div>
+                )}
                 <div>
                   <strong>Top Frequent Terms:</strong>
+                  {result.semantic_analysis.tf_idf_corpus && (
+                    <div className="text-sm text-gray-600">
+                      Ranked by TF-IDF against {result.semantic_analysis.tf_idf_corpus.document_count} page(s) in project &quot;{result.semantic_analysis.tf_idf_corpus.project}&quot;
+                    </div>
+                  )}
                   <div className="mt-2 flex flex-wrap gap-2">
                     {result.semantic_analysis.top_frequent_terms.slice(0, 10).map((term, index) => (
-                      <span key={index} className="px-2 py-1 bg-gray-100 rounded text-sm text-black">
+                      <span key={index} className="px-2 py-1 bg-gray-100 rounded text-sm text-black" title={term.variants?.join(', ')}>
                         {term.keyword} ({term.count})
                       </span>
                     ))}
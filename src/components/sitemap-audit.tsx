@@ -0,0 +1,381 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { FileText, Loader2, AlertCircle, CheckCircle } from 'lucide-react'
+import { AnalysisDepth, SitemapReport } from '@/types/seo-analysis'
+
+interface SitemapAuditResponse {
+  success: boolean
+  data?: SitemapReport
+  error?: { message: string; details?: string }
+}
+
+export const SitemapAudit = () => {
+  const [sitemapUrl, setSitemapUrl] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [maxUrls, setMaxUrls] = useState(50)
+  const [analysisDepth, setAnalysisDepth] = useState<AnalysisDepth>('basic')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [report, setReport] = useState<SitemapReport | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!sitemapUrl.trim() && !file) {
+      setError('Enter a sitemap URL or upload a sitemap file')
+      return
+    }
+
+    // Uploaded files go as multipart; URLs as JSON
+    const formData = new FormData()
+    if (file) {
+      formData.append('file', file)
+      formData.append('max_urls', String(maxUrls))
+      formData.append('analysis_depth', analysisDepth)
+    }
+
+    try {
+      setIsLoading(true)
+      const response = await fetch('/api/sitemap', file
+        ? { method: 'POST', body: formData }
+        : {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              sitemap_url: sitemapUrl.trim(),
+              max_urls: maxUrls,
+              analysis_depth: analysisDepth
+            })
+          })
+
+      const result: SitemapAuditResponse = await response.json()
+
+      if (result.success && result.data) {
+        setReport(result.data)
+      } else {
+        setError(result.error?.details || result.error?.message || 'Sitemap audit failed')
+      }
+    } catch (err) {
+      setError('Network error. Please try again.')
+      console.error('Sitemap audit error:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="w-full space-y-6">
+      <Card className="w-full max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-6 w-6" />
+            Sitemap Audit
+          </CardTitle>
+          <CardDescription>
+            Analyze every URL in an XML sitemap or sitemap index in one run
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="sitemap-url" className="text-sm font-medium">
+                Sitemap URL
+              </label>
+              <Input
+                id="sitemap-url"
+                type="url"
+                placeholder="https://example.com/sitemap.xml"
+                value={sitemapUrl}
+                onChange={(e) => setSitemapUrl(e.target.value)}
+                disabled={isLoading || !!file}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="sitemap-file" className="text-sm font-medium">
+                Or upload sitemap XML
+              </label>
+              <input
+                id="sitemap-file"
+                type="file"
+                accept=".xml,text/xml,application/xml"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="sitemap-max-urls" className="text-sm font-medium">
+                  Max URLs
+                </label>
+                <Input
+                  id="sitemap-max-urls"
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={maxUrls}
+                  onChange={(e) => setMaxUrls(Number(e.target.value) || 1)}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="sitemap-depth" className="text-sm font-medium">
+                  Analysis Depth
+                </label>
+                <select
+                  id="sitemap-depth"
+                  value={analysisDepth}
+                  onChange={(e) => setAnalysisDepth(e.target.value as AnalysisDepth)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  disabled={isLoading}
+                >
+                  <option value="basic">Basic</option>
+                  <option value="standard">Standard</option>
+                  <option value="comprehensive">Comprehensive</option>
+                </select>
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Auditing sitemap...
+                </>
+              ) : (
+                <>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Audit Sitemap
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Sitemap Results</CardTitle>
+            <CardDescription>
+              {report.entries.length} of {report.urls_found} URLs analyzed
+              {report.truncated && ' (limited by max URLs)'} • {report.urls_with_issues} with issues
+              {' '}• {report.duplicate_titles.length} duplicate titles
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">URL</th>
+                    <th className="py-2 pr-4">Last Modified</th>
+                    <th className="py-2 pr-4">Priority</th>
+                    <th className="py-2 pr-4">Primary Keywords</th>
+                    <th className="py-2">Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.entries.map((entry) => (
+                    <tr key={entry.loc} className="border-b align-top">
+                      <td className="py-2 pr-4 break-all">{entry.loc}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{entry.lastmod || '—'}</td>
+                      <td className="py-2 pr-4">{entry.priority ?? '—'}</td>
+                      <td className="py-2 pr-4">{entry.primary_keywords.join(', ') || '—'}</td>
+                      <td className="py-2">
+                        {entry.issues.length === 0 ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ul className="space-y-1 text-red-700">
+                            {entry.issues.map((issue, index) => (
+                              <li key={index}>{issue.message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report?.link_graph && report.link_graph.nodes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Internal Link Graph</CardTitle>
+            <CardDescription>
+              {report.link_graph.edges} internal links between {report.link_graph.nodes.length} URLs
+              {' '}• {report.link_graph.orphan_pages.length} orphan pages
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">URL</th>
+                      <th className="py-2 pr-4">Link Strength</th>
+                      <th className="py-2 pr-4">Inbound</th>
+                      <th className="py-2">Outbound</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.link_graph.nodes.map((node) => (
+                      <tr key={node.url} className="border-b align-top">
+                        <td className="py-2 pr-4 break-all">
+                          {node.url}
+                          {node.is_orphan && (
+                            <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">orphan</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{node.internal_link_strength}/100</td>
+                        <td className="py-2 pr-4">{node.inbound_links}</td>
+                        <td className="py-2">{node.outbound_links}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {report.link_graph.link_suggestions.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-2">Suggested Internal Links</h4>
+                  <ul className="space-y-2 text-sm">
+                    {report.link_graph.link_suggestions.map((suggestion, index) => (
+                      <li key={index} className="p-2 border rounded">
+                        <div className="break-all">
+                          {suggestion.source_url} → {suggestion.target_url}
+                        </div>
+                        <div>
+                          Anchor: <strong>{suggestion.anchor_text}</strong>
+                          <span className="text-gray-500"> — {suggestion.reason}</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report?.keyword_clusters && report.keyword_clusters.clusters.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Topic Clusters</CardTitle>
+            <CardDescription>
+              {report.keyword_clusters.clusters.length} keyword clusters across the analyzed pages
+              {' '}• {report.keyword_clusters.unclustered.length} unclustered keywords
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-3 text-sm">
+              {report.keyword_clusters.clusters.map((cluster, index) => (
+                <li key={index} className="p-2 border rounded">
+                  <div className="font-medium">
+                    {cluster.name}
+                    <span className="text-gray-500 font-normal"> — head term: {cluster.head_term}, cohesion {cluster.cohesion.toFixed(2)}</span>
+                  </div>
+                  <div className="text-gray-700">{cluster.keywords.join(', ')}</div>
+                  <ul className="mt-1 space-y-1">
+                    {cluster.urls.map((page) => (
+                      <li key={page.url} className="break-all text-gray-600">
+                        {page.url} ({page.keywords.length} keywords, score {page.score})
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {report?.keyword_cannibalization && report.keyword_cannibalization.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Keyword Cannibalization</CardTitle>
+            <CardDescription>
+              {report.keyword_cannibalization.length} primary keywords targeted by more than one page
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-3 text-sm">
+              {report.keyword_cannibalization.map((conflict, index) => (
+                <li key={index} className="p-2 border rounded">
+                  <div className="font-medium">
+                    {conflict.keyword}
+                    <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
+                      conflict.severity === 'high' ? 'bg-red-100 text-red-800' :
+                      conflict.severity === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-gray-100 text-gray-800'
+                    }`}>
+                      {conflict.severity}
+                    </span>
+                  </div>
+                  {conflict.variants.length > 0 && (
+                    <div className="text-gray-500">Variants: {conflict.variants.join(', ')}</div>
+                  )}
+                  <div className="text-gray-500">
+                    Overlap: title {conflict.overlap.title.toFixed(2)}, H1 {conflict.overlap.h1.toFixed(2)}, URL {conflict.overlap.url.toFixed(2)}
+                  </div>
+                  <ul className="mt-1 space-y-1">
+                    {conflict.pages.map((page) => (
+                      <li key={page.url} className="break-all text-gray-600">
+                        {page.url === conflict.suggested_winner && (
+                          <span className="mr-2 px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">winner</span>
+                        )}
+                        {page.url} ({page.word_count} words, link strength {page.internal_link_strength}/100, score {page.score})
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="mt-1 text-gray-700">{conflict.recommendation}</div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {report?.hreflang_issues && report.hreflang_issues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Hreflang Return Links</CardTitle>
+            <CardDescription>
+              {report.hreflang_issues.length} alternates that do not link back
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {report.hreflang_issues.map((issue, index) => (
+                <li key={index} className="p-2 border rounded">
+                  <div className="break-all font-medium">{issue.url}</div>
+                  <div className="text-red-700">{issue.message}</div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
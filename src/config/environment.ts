@@ -3,6 +3,8 @@
  * Centralized configuration for the SEO analysis application
  */
 
+import { selectorProfiles } from './selector-profiles'
+
 export const config = {
   // Gemini API Configuration
   geminiApiKey: process.env.GEMINI_API_KEY || '',
@@ -15,6 +17,56 @@ export const config = {
   apiTimeout: 10000,
   maxRetries: 3,
   
+  // Crawler Identity & Politeness
+  botUserAgent: process.env.SEO_BOT_USER_AGENT || 'PageKeywordAnalyzer/1.0 (+https://github.com/afajohn/page-keyword-analyzer)',
+  robotsCheckUserAgents: ['Googlebot', 'Bingbot'],
+  maxCrawlDelaySeconds: 10,
+  maxRedirects: 10,
+  
+  // Crawl Settings
+  maxCrawlDepth: 5,
+  maxCrawlPages: 100,
+  
+  // Keyword Cannibalization (results accepted per /api/cannibalization request)
+  maxCannibalizationResults: 500,
+  
+  // Raw HTML Analysis
+  maxHtmlBytes: 5 * 1024 * 1024,
+  defaultVirtualUrl: 'https://draft.local/',
+  
+  // Sitemap Settings
+  maxSitemapUrls: 200,
+  maxSitemapFiles: 20,
+  maxSitemapBytes: 10 * 1024 * 1024,
+  
+  // TF-IDF Corpus (one document-frequency file per project; set CORPUS_DIR to an empty string to keep corpora in memory only)
+  corpusDirectory: process.env.CORPUS_DIR ?? '.corpus',
+  maxCorpusDocuments: 5000,
+  maxCorpusImportFiles: 200,
+  maxOpenCorpora: 50,
+  
+  // Entity Knowledge Base (bundled entities plus imported Wikidata subsets; set KNOWLEDGE_BASE_FILE to an empty string to keep imports in memory only)
+  knowledgeBaseFile: process.env.KNOWLEDGE_BASE_FILE ?? '.knowledge-base.json',
+  maxKnowledgeBaseImportEntities: 10000,
+  minEntityLinkConfidence: 0.35,
+  
+  // Sentence Embeddings (directory with model.onnx and vocab.txt of a MiniLM-style model; without one, or without
+  // onnxruntime-node installed, hashed character and word n-grams are used)
+  embeddingModelDirectory: process.env.EMBEDDING_MODEL_DIR ?? '',
+  maxEmbeddingTokens: 128,
+  embeddingBatchSize: 32,
+  hashedEmbeddingDimensions: 512,
+  
+  // Keyword Clustering (average-linkage merging stops below the threshold for the similarity in use)
+  keywordClusterThresholds: { embedding: 0.45, co_occurrence: 0.25 },
+  maxClusterKeywords: 300,
+  
+  // Keyword Extraction (rake, yake or textrank; requests can pick another with keyword_extractor)
+  defaultKeywordExtractor: 'rake',
+  
+  // Content Selector Profiles (add `domains` to apply a profile to a site automatically)
+  contentSelectorProfiles: selectorProfiles,
+  
   // UI Settings
   maxKeywordsDisplay: 50,
   maxContextSentences: 3,
@@ -0,0 +1,168 @@
+/**
+ * Language Profiles
+ * Stop words, elided prefixes and reference text for every language the text pipeline supports
+ */
+
+import { LanguageProfile, SupportedLanguage } from '@/types/seo-analysis'
+
+export const languageProfiles: Record<SupportedLanguage, LanguageProfile> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    stop_words: [
+      'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+      'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down',
+      'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him',
+      'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'may', 'me', 'might', 'more', 'most', 'must',
+      'my', 'no', 'nor', 'not', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same',
+      'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these', 'they',
+      'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when',
+      'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours'
+    ],
+    elisions: [],
+    sample: 'The best way to understand what people search for is to look at the questions they ask. This guide explains how ' +
+      'search engines read a page, which signals they use to rank it, and what you can do to make your content more ' +
+      'useful. We will walk through the steps one by one, with examples from real websites that have grown their traffic ' +
+      'over the last few years. If you are new to the topic, start with the basics: write for your readers first, keep ' +
+      'the structure of each page clear, and make sure that every heading describes the section below it. There is no ' +
+      'single trick that works for everyone, but there are habits that make a difference when they are followed ' +
+      'consistently. Most of them are simple, and all of them can be checked with a few minutes of work each week.'
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    stop_words: [
+      'a', 'al', 'algo', 'algunos', 'ante', 'antes', 'aquí', 'así', 'aunque', 'cada', 'como', 'con', 'contra', 'cual',
+      'cuando', 'de', 'del', 'desde', 'donde', 'dos', 'durante', 'e', 'el', 'ella', 'ellas', 'ellos', 'en', 'entre', 'era',
+      'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta', 'está', 'estaba', 'están', 'estas', 'este', 'esto', 'estos', 'fue',
+      'ha', 'hace', 'han', 'hasta', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'mis', 'mucho', 'muy',
+      'nada', 'ni', 'no', 'nos', 'nosotros', 'nuestra', 'nuestro', 'o', 'otra', 'otro', 'otros', 'para', 'pero', 'poco',
+      'por', 'porque', 'puede', 'que', 'qué', 'quien', 'se', 'sea', 'según', 'ser', 'si', 'sí', 'sin', 'sobre', 'son', 'su',
+      'sus', 'también', 'tanto', 'te', 'tiene', 'todo', 'todos', 'tu', 'tus', 'un', 'una', 'uno', 'unos', 'usted', 'y', 'ya', 'yo'
+    ],
+    elisions: [],
+    sample: 'La mejor forma de entender lo que buscan las personas es fijarse en las preguntas que hacen. Esta guía explica ' +
+      'cómo leen una página los motores de búsqueda, qué señales usan para posicionarla y qué puede hacer usted para que ' +
+      'su contenido sea más útil. Vamos a ver los pasos uno por uno, con ejemplos de sitios web reales que han aumentado ' +
+      'su tráfico durante los últimos años. Si el tema es nuevo para usted, empiece por lo básico: escriba primero para ' +
+      'sus lectores, mantenga clara la estructura de cada página y asegúrese de que cada título describe la sección que ' +
+      'tiene debajo. No hay un truco único que funcione para todos, pero hay hábitos que marcan la diferencia cuando se ' +
+      'siguen de manera constante. La mayoría son sencillos, y todos se pueden comprobar con unos minutos de trabajo cada semana.'
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    stop_words: [
+      'aber', 'alle', 'allem', 'allen', 'aller', 'als', 'also', 'am', 'an', 'andere', 'auch', 'auf', 'aus', 'bei', 'bin',
+      'bis', 'bist', 'da', 'damit', 'dann', 'das', 'dass', 'dein', 'dem', 'den', 'denn', 'der', 'des', 'dich', 'die', 'dies',
+      'diese', 'diesem', 'diesen', 'dieser', 'dieses', 'dir', 'doch', 'dort', 'du', 'durch', 'ein', 'eine', 'einem', 'einen',
+      'einer', 'eines', 'er', 'es', 'etwas', 'euch', 'für', 'gegen', 'hat', 'hatte', 'haben', 'hier', 'hin', 'ich', 'ihm',
+      'ihn', 'ihr', 'ihre', 'ihren', 'im', 'in', 'ist', 'jede', 'jedem', 'jeden', 'jeder', 'jetzt', 'kann', 'kein', 'keine',
+      'man', 'mehr', 'mein', 'mich', 'mir', 'mit', 'muss', 'nach', 'nicht', 'noch', 'nun', 'nur', 'ob', 'oder', 'ohne',
+      'sehr', 'sein', 'seine', 'sich', 'sie', 'sind', 'so', 'um', 'und', 'uns', 'unser', 'unter', 'viel', 'vom', 'von',
+      'vor', 'war', 'waren', 'was', 'weil', 'wenn', 'wer', 'werden', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur', 'über'
+    ],
+    elisions: [],
+    sample: 'Der beste Weg, um zu verstehen, wonach Menschen suchen, ist ein Blick auf die Fragen, die sie stellen. Dieser ' +
+      'Leitfaden erklärt, wie Suchmaschinen eine Seite lesen, welche Signale sie für das Ranking nutzen und was Sie tun ' +
+      'können, damit Ihre Inhalte nützlicher werden. Wir gehen die einzelnen Schritte nacheinander durch, mit Beispielen ' +
+      'von echten Websites, die ihren Traffic in den letzten Jahren gesteigert haben. Wenn das Thema neu für Sie ist, ' +
+      'beginnen Sie mit den Grundlagen: Schreiben Sie zuerst für Ihre Leser, halten Sie die Struktur jeder Seite klar und ' +
+      'achten Sie darauf, dass jede Überschrift den Abschnitt darunter beschreibt. Es gibt keinen einzelnen Trick, der für ' +
+      'alle funktioniert, aber es gibt Gewohnheiten, die einen Unterschied machen, wenn man sie konsequent befolgt. Die ' +
+      'meisten sind einfach, und alle lassen sich mit wenigen Minuten Arbeit pro Woche überprüfen.'
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    stop_words: [
+      'a', 'afin', 'ai', 'ainsi', 'alors', 'au', 'aucun', 'aussi', 'autre', 'aux', 'avec', 'avoir', 'bien', 'c', 'ce', 'ceci',
+      'cela', 'celle', 'celui', 'ces', 'cet', 'cette', 'chaque', 'comme', 'comment', 'd', 'dans', 'de', 'des', 'donc', 'dont',
+      'du', 'elle', 'elles', 'en', 'encore', 'est', 'et', 'été', 'être', 'eu', 'fait', 'il', 'ils', 'j', 'je', 'l', 'la', 'le',
+      'les', 'leur', 'leurs', 'lui', 'm', 'ma', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'n', 'ne', 'ni', 'nos', 'notre',
+      'nous', 'on', 'ont', 'ou', 'où', 'par', 'pas', 'peu', 'peut', 'plus', 'pour', 'quand', 'que', 'quel', 'quelle', 'qui',
+      's', 'sa', 'sans', 'se', 'ses', 'si', 'son', 'sont', 'sous', 'sur', 't', 'ta', 'te', 'tes', 'toi', 'ton', 'tous', 'tout',
+      'toute', 'très', 'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y'
+    ],
+    elisions: ['l', 'd', 'j', 'm', 'n', 's', 't', 'c', 'qu', 'jusqu', 'lorsqu', 'puisqu'],
+    sample: 'La meilleure façon de comprendre ce que les gens recherchent est de regarder les questions qu\'ils posent. Ce ' +
+      'guide explique comment les moteurs de recherche lisent une page, quels signaux ils utilisent pour la classer et ce ' +
+      'que vous pouvez faire pour rendre votre contenu plus utile. Nous allons passer en revue les étapes une par une, avec ' +
+      'des exemples de sites web réels qui ont augmenté leur trafic au cours des dernières années. Si le sujet est nouveau ' +
+      'pour vous, commencez par les bases : écrivez d\'abord pour vos lecteurs, gardez une structure claire pour chaque ' +
+      'page et assurez-vous que chaque titre décrit la section qui se trouve en dessous. Il n\'existe pas d\'astuce unique ' +
+      'qui fonctionne pour tout le monde, mais certaines habitudes font la différence lorsqu\'elles sont suivies avec ' +
+      'régularité. La plupart sont simples, et toutes peuvent être vérifiées en quelques minutes de travail par semaine.'
+  },
+  pt: {
+    code: 'pt',
+    name: 'Portuguese',
+    stop_words: [
+      'a', 'ao', 'aos', 'aquela', 'aquele', 'as', 'até', 'à', 'às', 'com', 'como', 'da', 'das', 'de', 'dela', 'dele', 'deles',
+      'depois', 'do', 'dos', 'e', 'é', 'ela', 'elas', 'ele', 'eles', 'em', 'entre', 'era', 'essa', 'essas', 'esse', 'esses',
+      'esta', 'está', 'estas', 'este', 'estes', 'eu', 'foi', 'há', 'isso', 'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'mesmo',
+      'meu', 'minha', 'muito', 'na', 'nas', 'nem', 'no', 'nos', 'nós', 'nossa', 'nosso', 'num', 'numa', 'não', 'o', 'os',
+      'ou', 'para', 'pela', 'pelas', 'pelo', 'pelos', 'por', 'porque', 'qual', 'quando', 'que', 'quem', 'se', 'sem', 'ser',
+      'seu', 'seus', 'só', 'sua', 'suas', 'são', 'também', 'te', 'tem', 'têm', 'um', 'uma', 'umas', 'uns', 'você', 'vocês'
+    ],
+    elisions: [],
+    sample: 'A melhor forma de entender o que as pessoas procuram é observar as perguntas que elas fazem. Este guia explica ' +
+      'como os mecanismos de busca leem uma página, quais sinais usam para classificá-la e o que você pode fazer para ' +
+      'tornar o seu conteúdo mais útil. Vamos analisar os passos um por um, com exemplos de sites reais que aumentaram o ' +
+      'seu tráfego nos últimos anos. Se o assunto é novo para você, comece pelo básico: escreva primeiro para os seus ' +
+      'leitores, mantenha clara a estrutura de cada página e garanta que cada título descreve a seção que está abaixo ' +
+      'dele. Não existe um truque único que funcione para todos, mas há hábitos que fazem diferença quando são seguidos ' +
+      'de forma consistente. A maioria é simples, e todos podem ser verificados com alguns minutos de trabalho por semana.'
+  },
+  it: {
+    code: 'it',
+    name: 'Italian',
+    stop_words: [
+      'a', 'ad', 'agli', 'ai', 'al', 'alla', 'alle', 'allo', 'anche', 'ancora', 'che', 'chi', 'ci', 'come', 'con', 'cosa',
+      'così', 'da', 'dal', 'dalla', 'dalle', 'dei', 'del', 'della', 'delle', 'dello', 'di', 'dove', 'e', 'è', 'ed', 'era',
+      'essere', 'gli', 'ha', 'hanno', 'ho', 'i', 'il', 'in', 'io', 'la', 'le', 'lei', 'li', 'lo', 'loro', 'lui', 'ma', 'mi',
+      'mio', 'molto', 'ne', 'negli', 'nei', 'nel', 'nella', 'nelle', 'no', 'noi', 'non', 'nostro', 'o', 'ogni', 'per',
+      'perché', 'più', 'poi', 'proprio', 'quale', 'quando', 'quella', 'quello', 'questa', 'questo', 'se', 'sei', 'si',
+      'sia', 'sono', 'su', 'sua', 'sue', 'sui', 'sul', 'sulla', 'suo', 'suoi', 'ti', 'tra', 'tu', 'tutti', 'tutto', 'un',
+      'una', 'uno', 'vi', 'voi'
+    ],
+    elisions: ['l', 'un', 'dell', 'all', 'dall', 'nell', 'sull', 'quell', 'quest', 'c', 'd', 'po'],
+    sample: 'Il modo migliore per capire che cosa cercano le persone è guardare le domande che fanno. Questa guida spiega ' +
+      'come i motori di ricerca leggono una pagina, quali segnali usano per posizionarla e che cosa puoi fare per rendere ' +
+      'i tuoi contenuti più utili. Vedremo i passaggi uno alla volta, con esempi di siti web reali che hanno aumentato il ' +
+      'loro traffico negli ultimi anni. Se l\'argomento è nuovo per te, parti dalle basi: scrivi prima di tutto per i tuoi ' +
+      'lettori, mantieni chiara la struttura di ogni pagina e assicurati che ogni titolo descriva la sezione che si trova ' +
+      'sotto. Non esiste un trucco unico che funzioni per tutti, ma ci sono abitudini che fanno la differenza quando ' +
+      'vengono seguite con costanza. La maggior parte sono semplici, e tutte si possono controllare con pochi minuti di ' +
+      'lavoro ogni settimana.'
+  },
+  nl: {
+    code: 'nl',
+    name: 'Dutch',
+    stop_words: [
+      'aan', 'al', 'alle', 'als', 'altijd', 'ben', 'bij', 'dan', 'dat', 'de', 'der', 'deze', 'die', 'dit', 'doch', 'doen',
+      'door', 'dus', 'een', 'en', 'er', 'ge', 'geen', 'had', 'heb', 'hebben', 'heeft', 'hem', 'het', 'hier', 'hij', 'hoe',
+      'hun', 'iets', 'ik', 'in', 'is', 'ja', 'je', 'jij', 'jou', 'jouw', 'kan', 'kon', 'kunnen', 'maar', 'me', 'meer', 'men',
+      'met', 'mij', 'mijn', 'moet', 'na', 'naar', 'niet', 'niets', 'nog', 'nu', 'of', 'om', 'omdat', 'ons', 'onze', 'ook',
+      'op', 'over', 'te', 'tegen', 'toch', 'toen', 'tot', 'u', 'uit', 'uw', 'van', 'veel', 'voor', 'want', 'was', 'wat', 'we',
+      'wel', 'werd', 'wie', 'wij', 'wil', 'word', 'wordt', 'worden', 'zal', 'ze', 'zelf', 'zich', 'zij', 'zijn', 'zo', 'zonder', 'zou'
+    ],
+    elisions: [],
+    sample: 'De beste manier om te begrijpen waar mensen naar zoeken, is kijken naar de vragen die ze stellen. Deze gids ' +
+      'legt uit hoe zoekmachines een pagina lezen, welke signalen ze gebruiken om die te rangschikken en wat u kunt doen ' +
+      'om uw inhoud nuttiger te maken. We lopen de stappen een voor een door, met voorbeelden van echte websites die hun ' +
+      'verkeer de afgelopen jaren hebben laten groeien. Als het onderwerp nieuw voor u is, begin dan met de basis: schrijf ' +
+      'eerst voor uw lezers, houd de structuur van elke pagina duidelijk en zorg ervoor dat elke kop de sectie eronder ' +
+      'beschrijft. Er is geen enkele truc die voor iedereen werkt, maar er zijn gewoonten die het verschil maken als ze ' +
+      'consequent worden gevolgd. De meeste zijn eenvoudig, en ze kunnen allemaal met een paar minuten werk per week ' +
+      'worden gecontroleerd.'
+  }
+}
+
+/**
+ * Profile for a BCP 47 tag such as "pt-BR", by its primary language subtag; undefined when the language is not supported
+ */
+export function getLanguageProfile(tag?: string): LanguageProfile | undefined {
+  const code = (tag || '').split(/[-_]/)[0].toLowerCase()
+  return Object.keys(languageProfiles).includes(code) ? languageProfiles[code as SupportedLanguage] : undefined
+}
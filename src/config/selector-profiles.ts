@@ -0,0 +1,76 @@
+/**
+ * Content Selector Profiles
+ * Where to find the main content of a page, per site template
+ */
+
+import { ContentSelectorProfile } from '@/types/seo-analysis'
+
+// Boilerplate that is never part of the main content
+const COMMON_EXCLUDES = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'nav',
+  '[role="navigation"]',
+  '#cookie-banner',
+  '.cookie-banner',
+  '.cookie-consent',
+  '#onetrust-banner-sdk',
+  '.related-posts'
+]
+
+// Generic content containers, tried when a profile's own selectors find nothing
+const GENERIC_FALLBACKS = [
+  'main',
+  'article',
+  '[role="main"]',
+  '.content',
+  '.post-content',
+  '.entry-content',
+  '#content'
+]
+
+export const selectorProfiles: ContentSelectorProfile[] = [
+  {
+    name: 'default',
+    label: 'Default — blog templates, then generic content areas',
+    include: ['.blog-hero-container', '.blog-content-container', '#main-content-wrapper', '.content-area'],
+    exclude: COMMON_EXCLUDES,
+    fallback: GENERIC_FALLBACKS
+  },
+  {
+    name: 'wordpress',
+    label: 'WordPress — entry content without share and comment widgets',
+    include: ['article .entry-content', '.entry-content', '.post-content'],
+    exclude: [...COMMON_EXCLUDES, '.sharedaddy', '.jp-relatedposts', '.yarpp-related', '#comments', '.comments-area'],
+    fallback: GENERIC_FALLBACKS
+  },
+  {
+    name: 'semantic-html',
+    label: 'Semantic HTML — <main> and <article> only',
+    include: ['main article', 'main', 'article', '[role="main"]'],
+    exclude: [...COMMON_EXCLUDES, 'header', 'footer', 'aside'],
+    fallback: []
+  }
+]
+
+/**
+ * Pick a profile by name, else the profile registered for the URL's domain, else the default
+ */
+export function getSelectorProfile(name?: string, url?: string): ContentSelectorProfile {
+  const byName = name ? selectorProfiles.find(profile => profile.name === name) : undefined
+  if (byName) return byName
+
+  let hostname = ''
+  try {
+    hostname = url ? new URL(url).hostname.toLowerCase() : ''
+  } catch {
+    // Unparsable URLs use the default profile
+  }
+
+  const byDomain = selectorProfiles.find(profile =>
+    (profile.domains || []).some(domain => hostname === domain || hostname.endsWith(`.${domain}`))
+  )
+  return byDomain || selectorProfiles[0]
+}
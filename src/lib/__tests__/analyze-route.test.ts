@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ *
+ * Analyze Route Test Suite
+ * Tests for reading JSON and multipart analysis requests
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/analyze/route';
+
+const PAGE = '<html><head><title>Garden Tools</title></head><body><h1>Garden Tools</h1><p>Spades and rakes.</p></body></html>';
+
+const mockFetch = global.fetch as jest.Mock;
+
+const multipart = (fields: Record<string, string>, clientIP: string) => {
+  const form = new FormData();
+  Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+  return new NextRequest('http://localhost/api/analyze', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': clientIP },
+    body: form
+  });
+};
+
+describe('POST /api/analyze', () => {
+  const fields = { url: 'https://example.com/tools', analysis_depth: 'basic', include_ai_analysis: 'false' };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: () => null },
+      text: async () => (url.endsWith('/robots.txt') ? 'User-agent: *\nDisallow: /' : PAGE)
+    }));
+  });
+
+  it('should honor respect_robots_txt sent as a form field', async () => {
+    const ignored = await POST(multipart({ ...fields, respect_robots_txt: 'false' }, '203.0.113.1'));
+    const respected = await POST(multipart({ ...fields, respect_robots_txt: 'true' }, '203.0.113.1'));
+
+    expect(ignored.status).toBe(200);
+    expect((await ignored.json()).data.robots_txt.allowed).toBe(false);
+    expect(respected.status).toBe(403);
+    expect((await respected.json()).error.type).toBe('ROBOTS_BLOCKED');
+  });
+
+  it('should reject a respect_robots_txt form field that is not true or false', async () => {
+    const response = await POST(multipart({ ...fields, respect_robots_txt: 'no' }, '203.0.113.2'));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.type).toBe('VALIDATION_ERROR');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ *
+ * Cannibalization Detector Test Suite
+ * Tests for finding primary keywords shared by several pages, their overlap, severity and suggested winner
+ */
+
+import { CannibalizationDetector } from '../cannibalization-detector';
+import { SEOAnalysisResult } from '@/types/seo-analysis';
+
+interface TestPage {
+  url: string;
+  title: string;
+  h1?: string;
+  keywords: string[];
+  wordCount?: number;
+  links?: string[];
+  language?: string;
+}
+
+// Only the fields the detector and the link graph read
+const result = ({ url, title, h1, keywords, wordCount = 500, links = [], language = 'en' }: TestPage) => ({
+  page_metadata: { url, title_tag: title },
+  structured_on_page_data: {
+    word_count: wordCount,
+    content_language: language,
+    headings_and_keywords: h1 ? [{ tag: 'h1', text: h1, keywords: [] }] : [],
+    links: links.map(href => ({ href, text: href, internal: true, rel: [] }))
+  },
+  inferred_keywords: {
+    primary: { confidence_score: 0.8, keywords: keywords.map(term => ({ term })), reasoning_summary: '' },
+    secondary: { confidence_score: 0.6, keywords: [], reasoning_summary: '' }
+  }
+}) as unknown as SEOAnalysisResult;
+
+describe('CannibalizationDetector', () => {
+  it('should flag stemmed variants of a primary keyword on different pages', () => {
+    const conflicts = new CannibalizationDetector([
+      result({ url: 'https://example.com/running-shoes', title: 'Running Shoes', h1: 'Running Shoes', keywords: ['running shoes'] }),
+      result({ url: 'https://example.com/shop/running-shoe', title: 'Buy a Running Shoe', keywords: ['Running Shoe'] }),
+      result({ url: 'https://example.com/cakes', title: 'Chocolate Cakes', keywords: ['chocolate cake'] })
+    ]).detect();
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].keyword).toBe('running shoes');
+    expect(conflicts[0].variants).toEqual(['running shoe']);
+    expect(conflicts[0].pages.map(page => page.url).sort()).toEqual([
+      'https://example.com/running-shoes',
+      'https://example.com/shop/running-shoe'
+    ]);
+  });
+
+  it('should match near duplicates and one extra word', () => {
+    const conflicts = new CannibalizationDetector([
+      result({ url: 'https://example.com/a', title: 'A', keywords: ['e-mail marketing'] }),
+      result({ url: 'https://example.com/b', title: 'B', keywords: ['email marketing'] }),
+      result({ url: 'https://example.com/c', title: 'C', keywords: ['keyword research tools'] }),
+      result({ url: 'https://example.com/d', title: 'D', keywords: ['keyword research'] }),
+      result({ url: 'https://example.com/e', title: 'E', keywords: ['marketing'] })
+    ]).detect();
+
+    expect(conflicts.map(conflict => conflict.pages.map(page => page.url).sort()).sort()).toEqual([
+      ['https://example.com/a', 'https://example.com/b'],
+      ['https://example.com/c', 'https://example.com/d']
+    ]);
+  });
+
+  it('should only group keywords that are near duplicates of every other keyword in the conflict', () => {
+    const conflicts = new CannibalizationDetector([
+      result({ url: 'https://example.com/red', title: 'Red', keywords: ['red running shoes'] }),
+      result({ url: 'https://example.com/shoes', title: 'Shoes', keywords: ['running shoes'] }),
+      result({ url: 'https://example.com/shop/shoes', title: 'Shop', keywords: ['running shoes'] }),
+      result({ url: 'https://example.com/sale', title: 'Sale', keywords: ['running shoes sale'] })
+    ]).detect();
+
+    // "red running shoes" and "running shoes sale" both match "running shoes" but not each other
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].keyword).toBe('running shoes');
+    expect(conflicts[0].pages.map(page => page.url).sort()).toEqual([
+      'https://example.com/red',
+      'https://example.com/shoes',
+      'https://example.com/shop/shoes'
+    ]);
+  });
+
+  it('should not flag the same keyword in different content languages', () => {
+    const conflicts = new CannibalizationDetector([
+      result({ url: 'https://example.com/en/hotel', title: 'Hotel Berlin', keywords: ['hotel berlin'] }),
+      result({ url: 'https://example.com/de/hotel', title: 'Hotel Berlin', keywords: ['hotel berlin'], language: 'de' })
+    ]).detect();
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should rate severity by title, H1 and URL overlap', () => {
+    const [high, low] = new CannibalizationDetector([
+      result({ url: 'https://example.com/garden-tools', title: 'Garden Tools Guide', h1: 'Garden Tools', keywords: ['garden tools'] }),
+      result({ url: 'https://example.com/blog/garden-tools', title: 'Garden Tools Guide', h1: 'Garden Tools', keywords: ['garden tools'] }),
+      result({ url: 'https://example.com/roses', title: 'Growing Roses', keywords: ['pruning'] }),
+      result({ url: 'https://example.com/hedges', title: 'Hedge Trimming Basics', keywords: ['pruning'] })
+    ]).detect();
+
+    expect(high).toMatchObject({ keyword: 'garden tools', severity: 'high', overlap: { title: 1, h1: 1, url: 0.67 } });
+    expect(low).toMatchObject({ keyword: 'pruning', severity: 'low', overlap: { title: 0, h1: 0, url: 0 } });
+    expect(low.recommendation).toContain('"pruning"');
+  });
+
+  it('should suggest the deepest, best-linked page as the winner', () => {
+    const conflict = new CannibalizationDetector([
+      result({ url: 'https://example.com/', title: 'Home', keywords: ['home'], links: ['https://example.com/guide', 'https://example.com/tips'] }),
+      result({ url: 'https://example.com/tips', title: 'Tips', keywords: ['seo audit'], wordCount: 300, links: ['https://example.com/guide'] }),
+      result({ url: 'https://example.com/guide', title: 'Guide', keywords: ['seo audit'], wordCount: 1200 })
+    ]).detect()[0];
+
+    expect(conflict.suggested_winner).toBe('https://example.com/guide');
+    expect(conflict.pages[0]).toMatchObject({ url: 'https://example.com/guide', inbound_links: 2, internal_link_strength: 100 });
+    expect(conflict.pages[0].score).toBeGreaterThan(conflict.pages[1].score);
+    expect(conflict.recommendation).toContain('https://example.com/guide');
+  });
+
+  it('should compare each URL once when it was analyzed more than once', () => {
+    const conflicts = new CannibalizationDetector([
+      result({ url: 'https://example.com/shoes', title: 'Shoes', keywords: ['running shoes'] }),
+      result({ url: 'https://example.com/shoes/', title: 'Shoes', keywords: ['running shoes'] }),
+      result({ url: 'https://example.com/boots', title: 'Boots', keywords: ['hiking boots'] })
+    ]).detect();
+
+    expect(conflicts).toEqual([]);
+  });
+});
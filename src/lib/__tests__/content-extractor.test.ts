@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ *
+ * Content Extractor Test Suite
+ * Tests for Readability-style main content scoring
+ */
+
+import { load } from 'cheerio';
+import { ContentExtractor } from '../content-extractor';
+
+const PARAGRAPH = 'Long-tail keywords are longer, more specific phrases, which usually have lower search volume, but convert better.';
+
+const HTML = `
+  <html><body>
+    <div id="cookie-banner"><p>We use cookies to improve your experience on this website, accept them all.</p></div>
+    <nav><ul><li><a href="/">Home</a></li><li><a href="/blog">Blog</a></li></ul></nav>
+    <div id="page">
+      <div class="sidebar"><p>Subscribe to our newsletter for weekly tips, tricks, and updates.</p></div>
+      <div class="link-list">
+        <div><a href="/a">A guide to keyword research for small business websites</a></div>
+        <div><a href="/b">Another guide to keyword research for online stores</a></div>
+      </div>
+      <article class="post">
+        <h1>Long-tail keywords</h1>
+        <p>${PARAGRAPH}</p>
+        <p>${PARAGRAPH} See <a href="/tools">our tools</a>.</p>
+        <div class="share-buttons"><p>Share this article on Facebook, Twitter, and LinkedIn today.</p></div>
+      </article>
+    </div>
+    <footer><p>Copyright 2024 Example Inc, all rights reserved, worldwide.</p></footer>
+  </body></html>
+`;
+
+describe('ContentExtractor', () => {
+  it('should pick the article and return its text without boilerplate', () => {
+    const candidate = new ContentExtractor(load(HTML)).extract();
+
+    expect(candidate?.path).toBe('html > body > div#page > article.post');
+    expect(candidate?.text).toBe(`Long-tail keywords ${PARAGRAPH} ${PARAGRAPH} See our tools.`);
+    expect(candidate?.link_density).toBeCloseTo(9 / candidate!.text.length, 3);
+    expect(candidate?.score).toBeGreaterThan(0);
+  });
+
+  it('should drop elements matching extra exclude selectors', () => {
+    const candidate = new ContentExtractor(load(HTML), ['h1']).extract();
+
+    expect(candidate?.text.startsWith(PARAGRAPH)).toBe(true);
+  });
+
+  it('should return null when nothing can be scored', () => {
+    expect(new ContentExtractor(load('<html><body><nav><p>Only navigation links live here, nothing else.</p></nav></body></html>')).extract()).toBeNull();
+  });
+});
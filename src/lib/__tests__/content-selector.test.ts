@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ *
+ * Content Selector Test Suite
+ * Tests for profile lookup and content-area selection in the HTML parser
+ */
+
+import { HTMLParser } from '../html-parser';
+import { getSelectorProfile, selectorProfiles } from '@/config/selector-profiles';
+import { ContentSelectorProfile } from '@/types/seo-analysis';
+
+const LONG_TEXT = 'Keyword research starts with understanding what your audience searches for. '.repeat(4);
+
+const page = (body: string) => `<html><body>${body}</body></html>`;
+
+describe('getSelectorProfile', () => {
+  const custom: ContentSelectorProfile = {
+    name: 'docs',
+    label: 'Docs',
+    domains: ['docs.example.com'],
+    include: ['.docs-body'],
+    exclude: [],
+    fallback: []
+  };
+
+  beforeAll(() => selectorProfiles.push(custom));
+  afterAll(() => selectorProfiles.splice(selectorProfiles.indexOf(custom), 1));
+
+  it('should prefer the named profile, then the domain profile, then the default', () => {
+    expect(getSelectorProfile('wordpress', 'https://docs.example.com/').name).toBe('wordpress');
+    expect(getSelectorProfile(undefined, 'https://eu.docs.example.com/start').name).toBe('docs');
+    expect(getSelectorProfile('unknown', 'https://example.com/').name).toBe('default');
+    expect(getSelectorProfile(undefined, 'not a url').name).toBe('default');
+  });
+});
+
+describe('HTMLParser content area', () => {
+  it('should read the include selector with the most text and drop excluded elements', () => {
+    const parser = new HTMLParser(page(`
+      <h1>Site header</h1>
+      <div class="content-area">Short teaser</div>
+      <div class="blog-content-container">
+        <h2>Finding keywords</h2>
+        <p>${LONG_TEXT}</p>
+        <nav><h2>Related links</h2><img src="/nav.png" alt="Navigation icon"></nav>
+        <img src="/chart.png" alt="Search volume chart">
+        <script>trackPageView()</script>
+      </div>
+    `), 'https://example.com/blog/post');
+
+    expect(parser.getContentArea().match).toEqual({ profile: 'default', selector: '.blog-content-container', source: 'include' });
+    expect(parser.extractMainContent()).toContain('Finding keywords');
+    expect(parser.extractMainContent()).not.toMatch(/Related links|trackPageView|Short teaser/);
+
+    const data = parser.buildStructuredOnPageData();
+    expect(data.headings_and_keywords.map(heading => heading.text)).toEqual(['Finding keywords']);
+    expect(data.meta_data_analysis.image_alt_texts.map(image => image.text)).toEqual(['Search volume chart']);
+    expect(data.content_selector?.selector).toBe('.blog-content-container');
+  });
+
+  it('should score content blocks, then fall back to generic containers and the body', () => {
+    const scored = new HTMLParser(page(`<header>Menu</header><article><p>${LONG_TEXT}</p></article>`), 'https://example.com/');
+    expect(scored.getContentArea().match).toEqual({ profile: 'default', selector: 'html > body > article', source: 'scored', score: 9 });
+
+    const fallback = new HTMLParser(page(`<header>Menu</header><main>${LONG_TEXT}</main>`), 'https://example.com/');
+    expect(fallback.getContentArea().match).toEqual({ profile: 'default', selector: 'main', source: 'fallback' });
+
+    const body = new HTMLParser(page('<p>Tiny page</p>'), 'https://example.com/');
+    expect(body.getContentArea().match).toEqual({ profile: 'default', selector: 'body', source: 'body' });
+    expect(body.extractMainContent()).toBe('Tiny page');
+  });
+
+  it('should use the profile passed to the parser', () => {
+    const parser = new HTMLParser(
+      page(`<div class="blog-content-container">${LONG_TEXT}</div><main><p>${LONG_TEXT}</p><aside>Sidebar</aside></main>`),
+      'https://example.com/',
+      getSelectorProfile('semantic-html')
+    );
+
+    expect(parser.getContentArea().match).toEqual({ profile: 'semantic-html', selector: 'main', source: 'include' });
+    expect(parser.extractMainContent()).not.toContain('Sidebar');
+  });
+});
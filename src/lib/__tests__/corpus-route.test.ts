@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ *
+ * Corpus Route Test Suite
+ * Tests for reading project corpus statistics
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/corpus/route';
+import { DocumentFrequencyStore } from '../document-frequency-store';
+
+const stats = (project: string, clientIP: string) => GET(new NextRequest(
+  `http://localhost/api/corpus?project=${project}`,
+  { headers: { 'x-forwarded-for': clientIP } }
+));
+
+describe('GET /api/corpus', () => {
+  it('should report an empty corpus for an unknown project without opening a store', async () => {
+    const open = jest.spyOn(DocumentFrequencyStore, 'open');
+    try {
+      const response = await stats('never-imported', '203.0.113.10');
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ project: 'never-imported', document_count: 0, term_count: 0 });
+      expect(open).not.toHaveBeenCalled();
+      expect(await DocumentFrequencyStore.exists('never-imported')).toBe(false);
+    } finally {
+      open.mockRestore();
+    }
+  });
+
+  it('should report the statistics of an open corpus', async () => {
+    const corpus = await DocumentFrequencyStore.open('route-stats');
+    corpus.addDocument('/a', 'Roses need sun', 'en');
+
+    const response = await stats('route-stats', '203.0.113.11');
+
+    expect((await response.json()).data).toMatchObject({ project: 'route-stats', document_count: 1, term_count: 3 });
+  });
+
+  it('should rate limit statistics requests', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await stats(`project-${i}`, '203.0.113.12')).status);
+    }
+
+    expect(statuses.slice(0, 10).every(status => status === 200)).toBe(true);
+    expect(statuses[10]).toBe(429);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ *
+ * Document Frequency Store Test Suite
+ * Tests for the per-project TF-IDF corpus, its persistence and its use in term scoring
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DocumentFrequencyStore } from '../document-frequency-store';
+import { AdvancedSemanticAnalyzer } from '../advanced-semantic-analyzer';
+import { SEOAnalyzer } from '../seo-analyzer';
+
+const BOILERPLATE = 'Acme Gardens newsletter signup and contact details.';
+
+describe('DocumentFrequencyStore', () => {
+  it('should count each term once per document and smooth the IDF', () => {
+    const corpus = new DocumentFrequencyStore('example.com', '');
+    corpus.addDocument('/a', 'Roses need sun. Roses need water.', 'en');
+    corpus.addDocument('/b', 'Tulips need cold winters.', 'en');
+
+    const rose = corpus.getTermKey('roses', 'en');
+    expect(corpus.documentCount).toBe(2);
+    expect(corpus.getDocumentFrequency(rose)).toBe(1);
+    expect(corpus.getDocumentFrequency(corpus.getTermKey('need', 'en'))).toBe(2);
+    expect(corpus.inverseDocumentFrequency(corpus.getTermKey('need', 'en'))).toBe(1);
+    expect(corpus.inverseDocumentFrequency(rose)).toBeCloseTo(Math.log(3 / 2) + 1);
+    expect(corpus.inverseDocumentFrequency('unseen')).toBeCloseTo(Math.log(3) + 1);
+  });
+
+  it('should replace a document that is added again', () => {
+    const corpus = new DocumentFrequencyStore('example.com', '');
+    corpus.addDocument('/a', 'Roses and tulips', 'en');
+    corpus.addDocument('/a', 'Orchids bloom', 'en');
+
+    expect(corpus.documentCount).toBe(1);
+    expect(corpus.getDocumentFrequency(corpus.getTermKey('roses', 'en'))).toBe(0);
+    expect(corpus.getStats()).toMatchObject({ project: 'example.com', document_count: 1, term_count: 2 });
+  });
+
+  it('should import HTML main content and plain text', () => {
+    const corpus = new DocumentFrequencyStore('imports', '');
+    const imported = corpus.importDocuments([
+      { name: 'page.html', content: '<html><body><nav>Menu</nav><main><p>Pruning roses in early spring keeps them healthy.</p></main></body></html>' },
+      { name: 'notes.txt', content: 'Watering tulips after planting helps the bulbs root.' },
+      { name: 'empty.txt', content: '   ' }
+    ]);
+
+    expect(imported).toBe(2);
+    expect(corpus.getDocumentFrequency(corpus.getTermKey('roses', 'en'))).toBe(1);
+    expect(corpus.getDocumentFrequency(corpus.getTermKey('tulips', 'en'))).toBe(1);
+  });
+
+  it('should persist the corpus per project and reload it', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    try {
+      const corpus = new DocumentFrequencyStore('Example.com/../x', directory);
+      corpus.addDocument('/a', 'Roses need sun', 'en');
+      await corpus.save();
+
+      const saved = await readFile(path.join(directory, 'example.com_.._x.json'), 'utf8');
+      expect(JSON.parse(saved).documents['/a']).toHaveLength(3);
+
+      const reloaded = await DocumentFrequencyStore.open('Example.com/../x', directory);
+      expect(reloaded.documentCount).toBe(1);
+      expect(reloaded.getDocumentFrequency(reloaded.getTermKey('roses', 'en'))).toBe(1);
+      expect(await DocumentFrequencyStore.open('Example.com/../x', directory)).toBe(reloaded);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should share one store between projects that map to the same file', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    try {
+      const upper = await DocumentFrequencyStore.open('Shop', directory);
+      expect(await DocumentFrequencyStore.open('shop', directory)).toBe(upper);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should start empty and set a corrupt corpus file aside', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      await writeFile(path.join(directory, 'broken.example.json'), '{"project":"broken.example","documents":{"/a":[');
+
+      const corpus = await DocumentFrequencyStore.open('broken.example', directory);
+      expect(corpus.documentCount).toBe(0);
+      expect(await readFile(path.join(directory, 'broken.example.json.corrupt'), 'utf8')).toContain('"/a"');
+
+      corpus.addDocument('/b', 'Roses need sun', 'en');
+      await corpus.save();
+      expect(JSON.parse(await readFile(path.join(directory, 'broken.example.json'), 'utf8')).documents['/b']).toHaveLength(3);
+    } finally {
+      warn.mockRestore();
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should report whether a project has a corpus without opening one', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    try {
+      expect(await DocumentFrequencyStore.exists('Garden', directory)).toBe(false);
+      await new DocumentFrequencyStore('garden', directory).save();
+      expect(await DocumentFrequencyStore.exists('Garden', directory)).toBe(true);
+
+      expect(await DocumentFrequencyStore.exists('memory-only', '')).toBe(false);
+      await DocumentFrequencyStore.open('memory-only', '');
+      expect(await DocumentFrequencyStore.exists('memory-only', '')).toBe(true);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should default the project to the host without www', () => {
+    expect(DocumentFrequencyStore.projectForUrl('https://WWW.Example.com/page')).toBe('example.com');
+    expect(DocumentFrequencyStore.projectForUrl('not a url')).toBe('default');
+  });
+});
+
+describe('Corpus-based TF-IDF', () => {
+  it('should rank site boilerplate below terms specific to the page', () => {
+    const corpus = new DocumentFrequencyStore('acme', '');
+    ['Planting bulbs in autumn.', 'Choosing a lawn mower.', 'Composting kitchen scraps.'].forEach((text, index) => {
+      corpus.addDocument(`/page-${index}`, `${text} ${BOILERPLATE}`, 'en');
+    });
+
+    const content = `Pruning roses keeps roses healthy. ${BOILERPLATE} ${BOILERPLATE}`;
+    corpus.addDocument('/roses', content, 'en');
+    const analysis = new AdvancedSemanticAnalyzer(content, [], [], [], undefined, 'en').analyzeSemantics({ corpus });
+    const score = (keyword: string) => analysis.top_frequent_terms.find(term => term.keyword === keyword)!.tf_idf_score!;
+
+    expect(score('roses')).toBeGreaterThan(score('newsletter'));
+    expect(analysis.tf_idf_corpus).toMatchObject({ project: 'acme', document_count: 4 });
+  });
+
+  it('should score supplied HTML against the project corpus without adding it', async () => {
+    const corpus = await DocumentFrequencyStore.open('drafts.example');
+    corpus.addDocument('/published', `Composting kitchen scraps. ${BOILERPLATE}`, 'en');
+
+    const html = `<html lang="en"><head><title>Pruning roses</title></head><body><main>
+      <h1>Pruning roses</h1><p>Pruning roses in spring keeps them healthy. ${BOILERPLATE}</p>
+    </main></body></html>`;
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.com/draft', {
+      analysis_depth: 'standard',
+      project: 'drafts.example'
+    });
+
+    expect(response.data!.semantic_analysis.tf_idf_corpus).toMatchObject({ project: 'drafts.example', document_count: 1 });
+    expect(corpus.documentCount).toBe(1);
+  });
+});
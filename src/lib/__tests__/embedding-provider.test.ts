@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ *
+ * Embedding Provider Test Suite
+ * Tests for the hashed n-gram fallback, the ONNX provider's tokenization and pooling, and embedding-based co-occurrence
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  EmbeddingIndex,
+  HashedNgramEmbeddingProvider,
+  OnnxEmbeddingProvider,
+  cosineSimilarity,
+  loadEmbeddingProvider
+} from '../embedding-provider';
+import { AdvancedSemanticAnalyzer } from '../advanced-semantic-analyzer';
+
+// Fake runtime: each token's hidden state is a one-hot vector of its id, so pooling can be checked by hand.
+// "pooled" models return one [3, 4] vector per text instead, "scalar" ones a single number per text
+const runs: Array<Record<string, { data: BigInt64Array; dims: number[] }>> = [];
+let outputShape: 'tokens' | 'pooled' | 'scalar' = 'tokens';
+
+jest.mock('onnxruntime-node', () => ({
+  Tensor: class {
+    constructor(public type: string, public data: BigInt64Array, public dims: number[]) {}
+  },
+  InferenceSession: {
+    create: async () => ({
+      inputNames: ['input_ids', 'attention_mask'],
+      outputNames: ['last_hidden_state'],
+      run: async (feeds: Record<string, { data: BigInt64Array; dims: number[] }>) => {
+        runs.push(feeds);
+        const [batch, length] = feeds.input_ids.dims;
+        if (outputShape === 'pooled') {
+          const pooled = new Float32Array(batch * 8);
+          for (let row = 0; row < batch; row++) pooled.set([3, 4], row * 8 + row);
+          return { last_hidden_state: { data: pooled, dims: [batch, 8] } };
+        }
+        if (outputShape === 'scalar') return { last_hidden_state: { data: new Float32Array(batch), dims: [batch] } };
+        const data = new Float32Array(batch * length * 8);
+        feeds.input_ids.data.forEach((id, i) => { data[i * 8 + Number(id)] = 1; });
+        return { last_hidden_state: { data, dims: [batch, length, 8] } };
+      }
+    })
+  }
+}), { virtual: true });
+
+const VOCABULARY = ['[PAD]', '[UNK]', '[CLS]', '[SEP]', 'run', '##ning', 'shoes', '!'];
+
+describe('HashedNgramEmbeddingProvider', () => {
+  const provider = new HashedNgramEmbeddingProvider();
+
+  it('should return deterministic unit vectors', async () => {
+    const [first, second, empty] = await provider.embed(['Trail running shoes', 'trail  RUNNING shoes', '...']);
+
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1, 5);
+    expect(Array.from(second)).toEqual(Array.from(first));
+    expect(empty.every(value => value === 0)).toBe(true);
+  });
+
+  it('should place texts sharing words and stems closer than unrelated texts', async () => {
+    const [query, related, inflected, unrelated] = await provider.embed([
+      'running shoes',
+      'the best shoes for running on trails',
+      'runner shoe reviews',
+      'chocolate cake recipe'
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.3);
+    expect(cosineSimilarity(query, inflected)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('EmbeddingIndex', () => {
+  it('should compare embedded texts regardless of case and spacing', async () => {
+    const index = await EmbeddingIndex.create(new HashedNgramEmbeddingProvider(), ['Running Shoes', 'running  shoes guide', '']);
+
+    expect(index.provider).toBe('hashed-ngram');
+    expect(index.has('running shoes')).toBe(true);
+    expect(index.similarity('RUNNING SHOES', 'running shoes')).toBeCloseTo(1, 5);
+    expect(index.similarity('running shoes', 'running shoes guide')).toBeGreaterThan(0.5);
+    expect(index.similarity('running shoes', 'not embedded')).toBeUndefined();
+  });
+});
+
+describe('OnnxEmbeddingProvider', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'embedding-model-'));
+    await writeFile(path.join(directory, 'model.onnx'), '');
+    await writeFile(path.join(directory, 'vocab.txt'), VOCABULARY.join('\n'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should feed WordPiece ids and mean-pool the token vectors under the attention mask', async () => {
+    const provider = await OnnxEmbeddingProvider.load(directory);
+    const [running, shoes] = await provider.embed(['Running!', 'shoes']);
+    const feeds = runs[runs.length - 1];
+
+    expect(Object.keys(feeds)).toEqual(['input_ids', 'attention_mask']);
+    expect(Array.from(feeds.input_ids.data, Number)).toEqual([2, 4, 5, 7, 3, 2, 6, 3, 0, 0]);
+    expect(Array.from(feeds.attention_mask.data, Number)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 0, 0]);
+    expect(Array.from(running).map(value => Math.round(value * 100) / 100)).toEqual([0, 0, 0.45, 0.45, 0.45, 0.45, 0, 0.45]);
+    expect(cosineSimilarity(running, shoes)).toBeCloseTo(2 / Math.sqrt(15), 5); // Shared [CLS] and [SEP]
+  });
+
+  it('should use an output the model already pooled as is', async () => {
+    outputShape = 'pooled';
+    try {
+      const provider = await OnnxEmbeddingProvider.load(directory);
+      const [first, second] = await provider.embed(['Running!', 'shoes']);
+
+      expect(Array.from(first)).toEqual([0.6, 0.8, 0, 0, 0, 0, 0, 0].map(Math.fround));
+      expect(Array.from(second)).toEqual([0, 0.6, 0.8, 0, 0, 0, 0, 0].map(Math.fround));
+    } finally {
+      outputShape = 'tokens';
+    }
+  });
+
+  it('should refuse a model whose output is not shaped like embeddings', async () => {
+    outputShape = 'scalar';
+    try {
+      await expect(OnnxEmbeddingProvider.load(directory)).rejects.toThrow(
+        'ONNX output "last_hidden_state" has shape [1]; expected [batch, hidden] or [batch, tokens, hidden]'
+      );
+    } finally {
+      outputShape = 'tokens';
+    }
+  });
+
+  it('should fall back to hashed n-grams when the model cannot be loaded', async () => {
+    expect((await loadEmbeddingProvider(directory)).name).toBe('onnx');
+    expect((await loadEmbeddingProvider(path.join(directory, 'missing'))).name).toBe('hashed-ngram');
+    expect((await loadEmbeddingProvider('')).name).toBe('hashed-ngram');
+  });
+});
+
+describe('Embedding co-occurrence in semantic analysis', () => {
+  it('should score relationships by similarity when embeddings are given', async () => {
+    const analyzer = new AdvancedSemanticAnalyzer(
+      'Trail running shoes need grip. Good running shoes last for years. Our bakery sells fresh bread daily.',
+      [{ text: 'Trail Running Shoes', keywords: ['running shoes', 'trail running'] }],
+      ['bakery'],
+      [],
+      undefined,
+      'en'
+    );
+    const embeddings = await EmbeddingIndex.create(new HashedNgramEmbeddingProvider(), analyzer.getEmbeddingTexts());
+    const analysis = analyzer.analyzeSemantics({ includeEEAT: false, includeQueryFanOut: false, embeddings });
+    const score = (term: string) => analysis.semantic_relationships.find(rel => rel.term === term)!.co_occurrence_score;
+
+    expect(analysis.embedding_provider).toBe('hashed-ngram');
+    expect(score('running shoes')).toBeGreaterThan(score('bakery'));
+    analysis.semantic_relationships.forEach(rel => {
+      expect(rel.co_occurrence_score).toBeGreaterThanOrEqual(0);
+      expect(rel.co_occurrence_score).toBeLessThanOrEqual(1);
+    });
+  });
+});
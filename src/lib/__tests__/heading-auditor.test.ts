@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ *
+ * Heading Auditor Test Suite
+ * Tests for the heading outline tree and heading structure rules
+ */
+
+import { HTMLParser } from '../html-parser';
+import { HeadingAuditor } from '../heading-auditor';
+
+const outlineOf = (body: string) => new HTMLParser(`<html><body>${body}</body></html>`, 'https://example.com/').extractHeadingOutline();
+
+describe('HTMLParser.extractHeadingOutline', () => {
+  it('should list headings in document order with image-only headings marked', () => {
+    expect(outlineOf(`
+      <h2>Intro</h2>
+      <h1>Keyword  Research</h1>
+      <h3><img src="/logo.png" alt="Acme logo"></h3>
+      <h4></h4>
+    `)).toEqual([
+      { level: 2, text: 'Intro', position: 0 },
+      { level: 1, text: 'Keyword Research', position: 1 },
+      { level: 3, text: 'Acme logo', position: 2, image_only: true },
+      { level: 4, text: '', position: 3 }
+    ]);
+  });
+});
+
+describe('HeadingAuditor', () => {
+  it('should nest headings into an outline tree', () => {
+    const audit = new HeadingAuditor(outlineOf(`
+      <h1>Keyword Research Guide</h1>
+      <h2>Keyword research tools</h2><h3>Free tools</h3><h3>Paid tools</h3>
+      <h2>Keyword research process</h2>
+    `), ['keyword research']).audit();
+
+    expect(audit.outline).toHaveLength(1);
+    expect(audit.outline[0].children.map(node => [node.text, node.children.length])).toEqual([
+      ['Keyword research tools', 2],
+      ['Keyword research process', 0]
+    ]);
+    expect(audit.issues).toEqual([]);
+  });
+
+  it('should flag missing H1, skipped levels and empty headings', () => {
+    const audit = new HeadingAuditor(outlineOf(`
+      <h2>Overview</h2><h4>Details</h4><h3></h3><h3><img src="/chart.png"></h3>
+    `), []).audit();
+
+    expect(audit.h1_count).toBe(0);
+    expect(audit.issues.map(issue => [issue.rule, issue.severity, issue.positions])).toEqual([
+      ['missing_h1', 'error', []],
+      ['skipped_level', 'warning', [0, 1]],
+      ['empty_heading', 'error', [2]],
+      ['empty_heading', 'error', [3]]
+    ]);
+    expect(audit.issues[3].message).toBe('H3 contains only an image without alt text');
+  });
+
+  it('should flag multiple H1s, duplicates, image headings and headings without primary keywords', () => {
+    const audit = new HeadingAuditor(outlineOf(`
+      <h1>Keyword Research</h1>
+      <h1><img src="/banner.png" alt="Spring sale"></h1>
+      <h2>FAQ</h2>
+      <h2>faq</h2>
+    `), ['keyword research']).audit();
+    const rules = audit.issues.map(issue => `${issue.rule}:${issue.severity}`);
+
+    expect(rules).toEqual([
+      'multiple_h1:warning',
+      'image_only_heading:warning',
+      'duplicate_heading:warning',
+      'no_primary_keyword:warning',
+      'no_primary_keyword:info',
+      'no_primary_keyword:info'
+    ]);
+    expect(audit.issues[2]).toEqual({
+      rule: 'duplicate_heading',
+      severity: 'warning',
+      message: '"FAQ" is used by 2 headings',
+      positions: [2, 3]
+    });
+  });
+});
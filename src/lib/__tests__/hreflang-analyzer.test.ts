@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ *
+ * Hreflang Analyzer Test Suite
+ * Tests for hreflang validation, content language detection and return-link checks
+ */
+
+import { HTMLParser } from '../html-parser';
+import { HreflangAnalyzer } from '../hreflang-analyzer';
+import { LanguageDetector } from '../language-detector';
+import { SEOAnalyzer } from '../seo-analyzer';
+import { HreflangIssueType, SEOAnalysisResult } from '@/types/seo-analysis';
+
+const ENGLISH_TEXT = 'The best way to plan a garden is to start with the soil and the light. This guide explains how you can choose plants that will grow well in your climate, and which tools are worth buying for the first year.';
+const SPANISH_TEXT = 'La mejor forma de planificar un jardín es empezar por el suelo y la luz. Esta guía explica cómo elegir las plantas que crecen bien en su clima, y qué herramientas vale la pena comprar para el primer año.';
+
+const alternate = (hreflang: string, href: string) => `<link rel="alternate" hreflang="${hreflang}" href="${href}">`;
+
+const page = (lang: string, links: string[], text: string) => `
+  <html${lang && ` lang="${lang}"`}><head><title>Garden planning</title>${links.join('')}</head>
+  <body><main><h1>Garden planning</h1><p>${text}</p></main></body></html>
+`;
+
+const analyzePage = (url: string, html: string) => {
+  const parser = new HTMLParser(html, url);
+  return new HreflangAnalyzer(parser.extractHreflangLinks(), url, {
+    htmlLang: parser.getHtmlLang(),
+    contentText: parser.extractMainContent()
+  }).analyze();
+};
+
+const issueTypes = (issues: Array<{ type: HreflangIssueType }>) => issues.map(issue => issue.type);
+
+describe('LanguageDetector', () => {
+  it('should detect the content language and skip short text', () => {
+    expect(new LanguageDetector(ENGLISH_TEXT).detect()?.language).toBe('en');
+    expect(new LanguageDetector(SPANISH_TEXT).detect()?.language).toBe('es');
+    expect(new LanguageDetector('Garden tools').detect()).toBeUndefined();
+  });
+});
+
+describe('HreflangAnalyzer', () => {
+  it('should accept a complete, valid hreflang set', () => {
+    const analysis = analyzePage('https://example.com/en/garden', page('en-GB', [
+      alternate('en-GB', 'https://example.com/en/garden'),
+      alternate('es-ES', 'https://example.com/es/jardin'),
+      alternate('zh-Hant-TW', 'https://example.com/tw/garden'),
+      alternate('x-default', 'https://example.com/garden')
+    ], ENGLISH_TEXT));
+
+    expect(analysis.links).toHaveLength(4);
+    expect(analysis.has_x_default).toBe(true);
+    expect(analysis.self_hreflang).toBe('en-GB');
+    expect(analysis.html_lang).toBe('en-GB');
+    expect(analysis.detected_language?.language).toBe('en');
+    expect(analysis.issues).toEqual([]);
+  });
+
+  it('should flag invalid codes, relative URLs and duplicate codes', () => {
+    const analysis = analyzePage('https://example.com/en/', page('en', [
+      alternate('en', 'https://example.com/en/'),
+      alternate('en-UK', 'https://example.com/uk/'),
+      alternate('jp', 'https://example.com/ja/'),
+      alternate('pt_BR', 'https://example.com/br/'),
+      alternate('de', '/de/'),
+      alternate('fr', 'https://example.com/fr/'),
+      alternate('fr', 'https://example.com/fr-fr/')
+    ], ENGLISH_TEXT));
+
+    const invalid = analysis.issues.filter(issue => issue.type === 'invalid_code');
+    expect(invalid.map(issue => issue.hreflang)).toEqual(['en-UK', 'jp', 'pt_BR']);
+    expect(invalid[0].message).toContain('"GB"');
+    expect(invalid[1].message).toContain('"ja"');
+    expect(invalid[2].message).toContain('"pt-BR"');
+
+    expect(analysis.issues.find(issue => issue.type === 'relative_url')?.hreflang).toBe('de');
+    expect(analysis.links.find(link => link.hreflang === 'de')?.resolved_url).toBe('https://example.com/de/');
+    expect(analysis.issues.find(issue => issue.type === 'duplicate_hreflang')?.hreflang).toBe('fr');
+    expect(issueTypes(analysis.issues)).toContain('missing_x_default');
+  });
+
+  it('should flag a missing self-reference and html lang, and a declared language that does not match the content', () => {
+    const missingSelf = analyzePage('https://example.com/es/jardin', page('', [
+      alternate('en', 'https://example.com/en/garden'),
+      alternate('x-default', 'https://example.com/garden')
+    ], SPANISH_TEXT));
+    expect(issueTypes(missingSelf.issues)).toEqual(['missing_self_reference', 'missing_html_lang']);
+    expect(missingSelf.html_lang).toBeUndefined();
+
+    const mismatch = analyzePage('https://example.com/es/jardin', page('en', [
+      alternate('en', 'https://example.com/es/jardin/'),
+      alternate('x-default', 'https://example.com/garden')
+    ], SPANISH_TEXT));
+    expect(mismatch.self_hreflang).toBe('en');
+    expect(mismatch.issues.filter(issue => issue.type === 'language_mismatch')).toHaveLength(2);
+    expect(mismatch.detected_language?.language).toBe('es');
+  });
+
+  it('should report nothing for a page with html lang and no annotations', () => {
+    const analysis = analyzePage('https://example.com/', page('en', [], ENGLISH_TEXT));
+    expect(issueTypes(analysis.issues)).toEqual([]);
+  });
+
+  it('should report alternates between analyzed pages that do not link back', async () => {
+    const analyzer = new SEOAnalyzer();
+    const site: Array<[string, string, string[], string]> = [
+      ['https://example.com/en/garden', 'en', [alternate('en', 'https://example.com/en/garden'), alternate('es', 'https://example.com/es/jardin'), alternate('fr', 'https://example.com/fr/jardin')], ENGLISH_TEXT],
+      ['https://example.com/es/jardin', 'es', [alternate('es', 'https://example.com/es/jardin'), alternate('en', 'https://example.com/en/garden')], SPANISH_TEXT],
+      ['https://example.com/fr/jardin', 'fr', [], 'Le jardin']
+    ];
+
+    const results: SEOAnalysisResult[] = [];
+    for (const [url, lang, links, text] of site) {
+      const response = await analyzer.analyzeHTML(page(lang, links, text), url, { analysis_depth: 'standard' });
+      results.push(response.data!);
+    }
+
+    expect(results[0].hreflang?.self_hreflang).toBe('en');
+    expect(HreflangAnalyzer.checkReciprocity(results)).toEqual([
+      expect.objectContaining({ type: 'missing_return_link', url: 'https://example.com/en/garden', hreflang: 'fr' })
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * HTTP Response Analyzer Test Suite
+ * Tests for SEO header extraction and redirect chain warnings
+ */
+
+import { HttpResponseAnalyzer } from '../http-response-analyzer';
+import { RedirectHop } from '@/types/seo-analysis';
+
+const hop = (url: string, status_code: number, location?: string): RedirectHop => ({
+  url,
+  status_code,
+  ...(location && { location }),
+  duration_ms: 10
+});
+
+describe('HttpResponseAnalyzer', () => {
+  describe('extractSeoHeaders', () => {
+    it('should keep only the SEO headers that were sent', () => {
+      const headers = new Map<string, string>([
+        ['content-type', 'text/html'],
+        ['content-language', 'en-US'],
+        ['vary', 'Accept-Encoding'],
+        ['server', 'nginx']
+      ]);
+
+      expect(HttpResponseAnalyzer.extractSeoHeaders({ get: name => headers.get(name) ?? null })).toEqual({
+        content_type: 'text/html',
+        content_language: 'en-US',
+        vary: 'Accept-Encoding'
+      });
+    });
+
+    it('should find the canonical among several Link header values', () => {
+      const link = '<https://cdn.example.com/style.css>; rel=preload, <https://example.com/page>; rel="canonical"';
+
+      expect(HttpResponseAnalyzer.parseLinkCanonical(link)).toBe('https://example.com/page');
+      expect(HttpResponseAnalyzer.parseLinkCanonical('<https://example.com/>; rel="alternate"')).toBeUndefined();
+    });
+  });
+
+  describe('getWarnings', () => {
+    it('should not warn about a single http to https upgrade', () => {
+      const chain = [hop('http://example.com/', 301, 'https://example.com/'), hop('https://example.com/', 200)];
+
+      expect(new HttpResponseAnalyzer(chain, { content_type: 'text/html' }).getWarnings()).toEqual([]);
+    });
+
+    it('should warn about long chains, temporary redirects and https downgrades', () => {
+      const chain = [
+        hop('https://example.com/a', 301, 'http://example.com/b'),
+        hop('http://example.com/b', 307, 'https://example.com/c'),
+        hop('https://example.com/c', 301, 'https://example.com/d'),
+        hop('https://example.com/d', 200)
+      ];
+      const warnings = new HttpResponseAnalyzer(chain, {}).getWarnings();
+
+      expect(warnings).toEqual([
+        'Redirect chain has 3 hops; link directly to the final URL',
+        'https://example.com/a redirects from https to insecure http (http://example.com/b)',
+        'http://example.com/b uses a temporary 307 redirect; use 301 or 308 if the move is permanent',
+        'Redirect chain switches between http and https 2 times'
+      ]);
+    });
+
+    it('should flag mid-chain https upgrades and non-HTML responses', () => {
+      const chain = [
+        hop('http://example.com/', 301, 'http://www.example.com/'),
+        hop('http://www.example.com/', 301, 'https://www.example.com/'),
+        hop('https://www.example.com/', 200)
+      ];
+      const warnings = new HttpResponseAnalyzer(chain, { content_type: 'application/pdf' }).getWarnings();
+
+      expect(warnings).toContain('The upgrade to https happens mid-chain; redirect to https on the first hop');
+      expect(warnings).toContain('Content-Type is application/pdf, not HTML');
+    });
+  });
+});
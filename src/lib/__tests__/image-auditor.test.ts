@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ *
+ * Image Auditor Test Suite
+ * Tests for the image inventory and image SEO checks
+ */
+
+import { HTMLParser } from '../html-parser';
+import { ImageAuditor } from '../image-auditor';
+
+const HTML = `
+  <html><body>
+    <header><img src="/logo.svg" alt="" role="presentation" width="120" height="40"></header>
+    <main>
+      <h1>Keyword research guide</h1>
+      <img src="/images/keyword-research-workflow.jpg" alt="Keyword research workflow" width="1200" height="630" loading="lazy">
+      <p>${'Keyword research helps you find the phrases people search for. '.repeat(5)}</p>
+      <img src="/uploads/IMG_4032.png" srcset="/uploads/IMG_4032-480.png 480w, /uploads/IMG_4032-960.png 960w">
+      <img src="/charts/search-volume.png" alt="" width="800" height="400">
+      <picture>
+        <source srcset="/charts/tools.avif" type="image/avif">
+        <img src="/charts/tools-comparison.jpg" alt="keyword research tools, keyword research tips, keyword research" width="800" height="400" srcset="/charts/tools-comparison-800.jpg 800w" sizes="100vw">
+      </picture>
+    </main>
+  </body></html>
+`;
+
+describe('HTMLParser.extractImages', () => {
+  const parser = new HTMLParser(HTML, 'https://example.com/guide');
+  const images = parser.extractImages();
+
+  it('should list every image, including those without alt text', () => {
+    expect(images.map(image => [image.src, image.alt, image.in_content])).toEqual([
+      ['https://example.com/logo.svg', '', false],
+      ['https://example.com/images/keyword-research-workflow.jpg', 'Keyword research workflow', true],
+      ['https://example.com/uploads/IMG_4032.png', undefined, true],
+      ['https://example.com/charts/search-volume.png', '', true],
+      ['https://example.com/charts/tools-comparison.jpg', 'keyword research tools, keyword research tips, keyword research', true]
+    ]);
+    expect(images[0].decorative).toBe(true);
+    expect(images[4].picture_source_types).toEqual(['image/avif']);
+  });
+
+  it('should link images with alt text to their ImageAltText entries', () => {
+    const altTexts = parser.extractMetaDataAnalysis().image_alt_texts;
+
+    expect(images.filter(image => image.alt_text_index !== undefined)
+      .map(image => altTexts[image.alt_text_index!].src)).toEqual([images[1].src, images[4].src]);
+  });
+});
+
+describe('ImageAuditor', () => {
+  const images = new HTMLParser(HTML, 'https://example.com/guide').extractImages();
+  const audit = new ImageAuditor(images, ['keyword research']).audit();
+  const issueTypes = audit.images.map(image => image.issues.map(issue => issue.type));
+
+  it('should classify alt text', () => {
+    expect(audit.images.map(image => image.alt_status)).toEqual(['decorative', 'present', 'missing', 'empty', 'present']);
+  });
+
+  it('should report issues per image', () => {
+    expect(issueTypes).toEqual([
+      [],
+      ['lazy_above_fold', 'no_srcset', 'legacy_format'],
+      ['missing_alt', 'meaningless_filename', 'missing_dimensions', 'srcset_without_sizes', 'legacy_format'],
+      ['empty_alt', 'no_srcset', 'legacy_format'],
+      ['keyword_stuffed_alt']
+    ]);
+    expect(audit.images[3].issues[0].severity).toBe('warning');
+    expect(audit.images[1]).toEqual(expect.objectContaining({ filename: 'keyword-research-workflow.jpg', format: 'jpg', above_the_fold: true, alt_text_index: 0 }));
+  });
+
+  it('should count issues by type', () => {
+    expect(audit.total_images).toBe(5);
+    expect(audit.images_with_issues).toBe(4);
+    expect(audit.issue_counts).toEqual({
+      lazy_above_fold: 1,
+      no_srcset: 2,
+      legacy_format: 3,
+      missing_alt: 1,
+      meaningless_filename: 1,
+      missing_dimensions: 1,
+      srcset_without_sizes: 1,
+      empty_alt: 1,
+      keyword_stuffed_alt: 1
+    });
+  });
+});
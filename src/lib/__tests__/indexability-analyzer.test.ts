@@ -0,0 +1,175 @@
+/**
+ * Indexability Analyzer Test Suite
+ * Tests for directive parsing and the combined indexability verdict
+ */
+
+import { IndexabilityAnalyzer } from '../indexability-analyzer';
+import { HttpAnalysis } from '@/types/seo-analysis';
+
+const URL = 'https://example.com/guide';
+const OK: HttpAnalysis = {
+  status_code: 200,
+  final_url: URL,
+  redirected: false,
+  redirect_chain: [{ url: URL, status_code: 200, duration_ms: 5 }],
+  headers: {},
+  total_time_ms: 5,
+  warnings: []
+};
+
+describe('IndexabilityAnalyzer', () => {
+  describe('parseDirectives', () => {
+    it('should parse flags and value directives', () => {
+      const directives = IndexabilityAnalyzer.parseDirectives(
+        'NOINDEX, max-snippet:50, max-image-preview:large, unavailable_after: 2030-01-01T00:00:00Z'
+      );
+
+      expect(directives.noindex).toBe(true);
+      expect(directives.nofollow).toBe(false);
+      expect(directives.max_snippet).toBe(50);
+      expect(directives.max_image_preview).toBe('large');
+      expect(directives.unavailable_after).toBe('2030-01-01T00:00:00Z');
+    });
+
+    it('should expand none to noindex and nofollow', () => {
+      const directives = IndexabilityAnalyzer.parseDirectives('none');
+
+      expect(directives.noindex).toBe(true);
+      expect(directives.nofollow).toBe(true);
+    });
+  });
+
+  describe('parseXRobotsTag', () => {
+    it('should split user-agent prefixed groups', () => {
+      const sources = IndexabilityAnalyzer.parseXRobotsTag('noarchive, googlebot: noindex, nofollow, otherbot: max-snippet:0');
+
+      expect(sources.map(source => [source.user_agent, source.raw])).toEqual([
+        ['*', 'noarchive'],
+        ['googlebot', 'noindex, nofollow'],
+        ['otherbot', 'max-snippet:0']
+      ]);
+    });
+  });
+
+  describe('analyze', () => {
+    it('should report a self-canonical 200 page as indexable', () => {
+      const result = new IndexabilityAnalyzer({ url: URL, robotsMetaTags: [], canonicalUrl: '/guide', http: OK }).analyze();
+
+      expect(result.verdict).toBe('indexable');
+      expect(result.is_indexable).toBe(true);
+      expect(result.canonical).toEqual({ url: URL, type: 'self' });
+      expect(result.reasons.every(reason => reason.severity === 'info')).toBe(true);
+    });
+
+    it('should block on noindex from meta robots or the crawler-specific tag', () => {
+      const generic = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [{ name: 'robots', content: 'noindex, follow' }],
+        http: OK
+      }).analyze();
+      const googlebot = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [{ name: 'googlebot', content: 'noindex' }],
+        http: OK
+      }).analyze();
+
+      expect(generic.verdict).toBe('non_indexable');
+      expect(generic.reasons).toContainEqual({
+        signal: 'robots_meta',
+        severity: 'blocking',
+        message: 'noindex set by meta robots tag ("noindex, follow")'
+      });
+      expect(googlebot.verdict).toBe('non_indexable');
+    });
+
+    it('should only note noindex aimed at other crawlers', () => {
+      const result = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [{ name: 'bingbot', content: 'noindex' }],
+        http: { ...OK, headers: { x_robots_tag: 'otherbot: noindex' } }
+      }).analyze();
+
+      expect(result.verdict).toBe('indexable');
+      expect(result.reasons.filter(reason => reason.message.startsWith('Page is noindex for'))).toHaveLength(2);
+    });
+
+    it('should block on X-Robots-Tag noindex and expired unavailable_after', () => {
+      const header = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        http: { ...OK, headers: { x_robots_tag: 'googlebot: noindex' } }
+      }).analyze();
+      const expired = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [{ name: 'robots', content: 'unavailable_after: 2001-01-01' }],
+        http: OK
+      }).analyze();
+
+      expect(header.verdict).toBe('non_indexable');
+      expect(header.reasons.some(reason => reason.signal === 'x_robots_tag' && reason.severity === 'blocking')).toBe(true);
+      expect(expired.verdict).toBe('non_indexable');
+    });
+
+    it('should mark cross-URL canonicals and redirects as canonicalized', () => {
+      const canonical = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        canonicalUrl: 'https://example.com/other',
+        http: OK
+      }).analyze();
+      const redirected = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        http: { ...OK, final_url: 'https://example.com/new-guide', redirected: true }
+      }).analyze();
+
+      expect(canonical.verdict).toBe('canonicalized');
+      expect(canonical.canonical.type).toBe('cross_url');
+      expect(redirected.verdict).toBe('canonicalized');
+    });
+
+    it('should fall back to the Link header canonical and flag disagreements', () => {
+      const headerOnly = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        http: { ...OK, headers: { link_canonical: 'https://example.com/other' } }
+      }).analyze();
+      const conflicting = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        canonicalUrl: URL,
+        http: { ...OK, headers: { link_canonical: 'https://example.com/other' } }
+      }).analyze();
+
+      expect(headerOnly.canonical).toEqual({ url: 'https://example.com/other', type: 'cross_url' });
+      expect(conflicting.canonical.type).toBe('self');
+      expect(conflicting.reasons).toContainEqual(expect.objectContaining({ signal: 'canonical', severity: 'warning' }));
+    });
+
+    it('should block on error status and warn on robots.txt disallow', () => {
+      const notFound = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        http: { ...OK, status_code: 404 }
+      }).analyze();
+      const disallowed = new IndexabilityAnalyzer({
+        url: URL,
+        robotsMetaTags: [],
+        http: OK,
+        robotsTxt: {
+          robots_txt_url: 'https://example.com/robots.txt',
+          found: true,
+          bot_user_agent: 'PageKeywordAnalyzer',
+          allowed: true,
+          user_agents: [{ user_agent: 'Googlebot', allowed: false, matched_rule: 'Disallow: /guide' }],
+          sitemaps: [],
+          findings: []
+        }
+      }).analyze();
+
+      expect(notFound.verdict).toBe('non_indexable');
+      expect(disallowed.verdict).toBe('indexable');
+      expect(disallowed.reasons).toContainEqual(expect.objectContaining({ signal: 'robots_txt', severity: 'warning' }));
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @jest-environment node
+ *
+ * JSON File Persistence Test Suite
+ * Tests for sharing loaded instances per file
+ */
+
+import { SharedInstances } from '../json-file';
+
+describe('SharedInstances', () => {
+  it('should load each key once and retry a failed load', async () => {
+    const instances = new SharedInstances<string>();
+    const load = jest.fn().mockRejectedValueOnce(new Error('unreadable')).mockResolvedValue('loaded');
+
+    await expect(instances.open('a', load)).rejects.toThrow('unreadable');
+    expect(await instances.open('a', load)).toBe('loaded');
+    expect(await instances.open('a', load)).toBe('loaded');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the least recently opened instance beyond the limit', async () => {
+    const instances = new SharedInstances<string>(2);
+    const load = (value: string) => () => Promise.resolve(value);
+
+    await instances.open('a', load('a'));
+    await instances.open('b', load('b'));
+    await instances.open('a', load('a'));
+    await instances.open('c', load('c'));
+
+    expect(instances.has('a')).toBe(true);
+    expect(instances.has('b')).toBe(false);
+    expect(instances.has('c')).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ *
+ * Keyword Clusterer Test Suite
+ * Tests for agglomerative keyword clustering on embedding and co-occurrence similarity, per page and across pages
+ */
+
+import { KeywordClusterer } from '../keyword-clusterer';
+import { EmbeddingIndex, HashedNgramEmbeddingProvider } from '../embedding-provider';
+import { InferredKeywordsAnalysis, KeywordAnalysis } from '@/types/seo-analysis';
+
+function inferred(primary: KeywordAnalysis[], secondary: KeywordAnalysis[] = []): InferredKeywordsAnalysis {
+  return {
+    primary: { confidence_score: 0.8, keywords: primary, reasoning_summary: '' },
+    secondary: { confidence_score: 0.6, keywords: secondary, reasoning_summary: '' }
+  };
+}
+
+function keyword(term: string, confidence: number, contextSentences: string[] = []): KeywordAnalysis {
+  return { term, extracted_from: ['content'], confidence_score: confidence, context_sentences: contextSentences };
+}
+
+async function clusterWithEmbeddings(clusterer: KeywordClusterer) {
+  return clusterer.cluster(await EmbeddingIndex.create(new HashedNgramEmbeddingProvider(), clusterer.getEmbeddingTexts()));
+}
+
+describe('KeywordClusterer', () => {
+  it('should group keywords into named clusters by embedding similarity', async () => {
+    const clusterer = new KeywordClusterer([{
+      url: 'https://example.com/running',
+      keywords: inferred(
+        [keyword('Running Shoes', 0.9), keyword('marathon training plan', 0.8)],
+        [keyword('trail running shoes', 0.6), keyword('best running shoes', 0.5), keyword('marathon training', 0.7), keyword('chocolate cake', 0.3)]
+      )
+    }]);
+    const clustering = await clusterWithEmbeddings(clusterer);
+
+    expect(clustering).toMatchObject({ similarity: 'embedding', embedding_provider: 'hashed-ngram', threshold: 0.45 });
+    expect(clustering.clusters).toHaveLength(2);
+    expect(clustering.clusters[0]).toMatchObject({
+      name: 'running shoes',
+      head_term: 'running shoes',
+      keywords: ['running shoes', 'trail running shoes', 'best running shoes']
+    });
+    expect(clustering.clusters[1]).toMatchObject({ name: 'marathon training', head_term: 'marathon training plan' });
+    expect(clustering.clusters[0].cohesion).toBeGreaterThan(0.45);
+    expect(clustering.unclustered).toEqual(['chocolate cake']);
+  });
+
+  it('should rank the URLs that target each cluster across a batch of pages', async () => {
+    const clusterer = new KeywordClusterer([
+      { url: 'https://example.com/shoes', keywords: inferred([keyword('running shoes', 0.9), keyword('trail running shoes', 0.7)]) },
+      { url: 'https://example.com/blog/shoes', keywords: inferred([keyword('best running shoes', 0.6)]) },
+      { url: 'https://example.com/marathon', keywords: inferred([keyword('marathon training', 0.9)], [keyword('running shoes', 0.3)]) }
+    ]);
+    const [shoes] = (await clusterWithEmbeddings(clusterer)).clusters;
+
+    expect(shoes.head_term).toBe('running shoes');
+    expect(shoes.urls.map(page => page.url)).toEqual([
+      'https://example.com/shoes',
+      'https://example.com/blog/shoes',
+      'https://example.com/marathon'
+    ]);
+    expect(shoes.urls[0]).toEqual({ url: 'https://example.com/shoes', keywords: ['running shoes', 'trail running shoes'], score: 1.6 });
+  });
+
+  it('should fall back to shared context sentences without embeddings', () => {
+    const pricing = 'our plans start at ten dollars a month';
+    const clustering = new KeywordClusterer([{
+      url: 'https://example.com/pricing',
+      keywords: inferred(
+        [keyword('plans', 0.8, [pricing, 'compare plans side by side']), keyword('dollars', 0.6, [pricing])],
+        [keyword('support', 0.5, ['contact support any time'])]
+      )
+    }]).cluster();
+
+    expect(clustering.similarity).toBe('co_occurrence');
+    expect(clustering.embedding_provider).toBeUndefined();
+    expect(clustering.clusters.map(cluster => cluster.keywords)).toEqual([['plans', 'dollars']]);
+    expect(clustering.unclustered).toEqual(['support']);
+  });
+
+  it('should include extracted phrases and merge repeated keywords', async () => {
+    const keywords = inferred([keyword('Running Shoes', 0.9)], [keyword('running  shoes', 0.4)]);
+    keywords.extraction = { extractor: 'rake', candidates: [{ phrase: 'lightweight running shoes', score: 1 }] };
+    const clusterer = new KeywordClusterer([{ url: 'https://example.com/', keywords }]);
+
+    expect(clusterer.getEmbeddingTexts()).toEqual(['running shoes', 'lightweight running shoes']);
+    expect((await clusterWithEmbeddings(clusterer)).clusters[0].urls[0].score).toBe(1.4);
+  });
+});
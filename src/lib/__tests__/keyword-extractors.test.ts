@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ *
+ * Keyword Extractors Test Suite
+ * Tests for the RAKE, YAKE and TextRank extractors and their use in keyword inference
+ */
+
+import { createKeywordExtractor, RakeExtractor, TextRankExtractor, YakeExtractor } from '../keyword-extractors';
+import { TextProcessor } from '../text-processor';
+import { SEOAnalyzer } from '../seo-analyzer';
+
+// Abstract from the RAKE paper (Rose et al., 2010)
+const ABSTRACT = `Compatibility of systems of linear constraints over the set of natural numbers.
+Criteria of compatibility of a system of linear Diophantine equations, strict inequations, and nonstrict inequations are considered. Upper bounds for components of a minimal set of solutions and algorithms of construction of minimal generating sets of solutions for all types of systems are given. These criteria and the corresponding algorithms for constructing a minimal supporting set of solutions can be used in solving all the considered types of systems and systems of mixed types.`;
+
+const english = new TextProcessor('en');
+
+describe('Keyword extractors', () => {
+  it('should create the extractor for each name', () => {
+    expect(createKeywordExtractor('rake', english)).toBeInstanceOf(RakeExtractor);
+    expect(createKeywordExtractor('yake', english)).toBeInstanceOf(YakeExtractor);
+    expect(createKeywordExtractor('textrank', english).name).toBe('textrank');
+  });
+
+  it('should rank the RAKE paper keywords first', () => {
+    const phrases = new RakeExtractor(english).extract(ABSTRACT, 5).map(candidate => candidate.phrase);
+    expect(phrases).toEqual(expect.arrayContaining([
+      'minimal generating sets', 'linear diophantine equations', 'minimal supporting set'
+    ]));
+  });
+
+  it('should let YAKE favor capitalized, early terms and allow inner stop words', () => {
+    const candidates = new YakeExtractor(english).extract(ABSTRACT, 10);
+    expect(candidates.slice(0, 3).map(candidate => candidate.phrase)).toContain('linear diophantine equations');
+    expect(candidates.some(candidate => candidate.phrase.split(' ').length === 3 && english.isStopWord(candidate.phrase.split(' ')[1]))).toBe(true);
+    expect(candidates.every(candidate => !english.isStopWord(candidate.phrase.split(' ')[0]))).toBe(true);
+  });
+
+  it('should join adjacent TextRank keywords into phrases', () => {
+    const candidates = new TextRankExtractor(english).extract(ABSTRACT, 10);
+    expect(candidates.some(candidate => candidate.phrase.includes(' '))).toBe(true);
+    expect(candidates.map(candidate => candidate.phrase)).toContain('systems');
+  });
+
+  it.each(['rake', 'yake', 'textrank'] as const)('%s should scale scores so the best is 1 and never cross punctuation', name => {
+    const candidates = createKeywordExtractor(name, english).extract('Garden tools, garden soil. Soil testing kits; garden tools', 5);
+    expect(candidates[0].score).toBe(1);
+    expect(candidates.every(candidate => candidate.score > 0 && candidate.score <= 1)).toBe(true);
+    expect(candidates.map(candidate => candidate.phrase)).not.toContain('tools garden');
+    expect(createKeywordExtractor(name, english).extract('The and of', 5)).toEqual([]);
+  });
+
+  it('should use the stop words of the content language', () => {
+    const phrases = new RakeExtractor(new TextProcessor('es')).extract('Las herramientas de jardinería para el huerto urbano').map(candidate => candidate.phrase);
+    expect(phrases).toEqual(expect.arrayContaining(['herramientas', 'jardinería', 'huerto urbano']));
+  });
+});
+
+describe('Keyword inference with an extractor', () => {
+  const html = `
+    <html lang="en"><head><title>Composting at home</title></head>
+    <body><main>
+      <h1>Composting at home</h1>
+      <p>Kitchen scraps and garden waste turn into rich compost. A compost bin needs green kitchen scraps, brown garden waste and air.</p>
+      <h2>Hot composting</h2>
+      <p>Hot composting breaks kitchen scraps down in weeks when the compost bin stays warm and moist.</p>
+    </main></body></html>
+  `;
+
+  it.each(['rake', 'yake', 'textrank'] as const)('should report %s candidates and score keywords with them', async name => {
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.com/composting', {
+      analysis_depth: 'basic',
+      keyword_extractor: name
+    });
+    const { extraction, primary, secondary } = response.data!.inferred_keywords;
+
+    expect(extraction?.extractor).toBe(name);
+    expect(extraction!.candidates.length).toBeGreaterThan(0);
+    expect([...primary.keywords, ...secondary.keywords].some(keyword => keyword.extracted_from.includes('keyword_extractor'))).toBe(true);
+  });
+
+  it('should fall back to the default extractor', async () => {
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.com/composting', { analysis_depth: 'basic' });
+    expect(response.data!.inferred_keywords.extraction?.extractor).toBe('rake');
+    expect(response.data!.inferred_keywords.extraction!.candidates.map(candidate => candidate.phrase)).toContain('kitchen scraps');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ *
+ * Keyword Normalizer Test Suite
+ * Tests for grouping morphological variants of keywords and counting them in text
+ */
+
+import { KeywordNormalizer } from '../keyword-normalizer';
+import { AdvancedSemanticAnalyzer } from '../advanced-semantic-analyzer';
+import { SEOAnalyzer } from '../seo-analyzer';
+
+describe('KeywordNormalizer', () => {
+  it('should give variants the same normalized form', () => {
+    const normalizer = new KeywordNormalizer('en');
+    expect(normalizer.normalize('Dating Tips')).toBe(normalizer.normalize('dating tip'));
+    expect(normalizer.isVariant('tips for dating', 'dating tips')).toBe(false);
+    expect(normalizer.isVariant('the and of', 'the and of')).toBe(false);
+    expect(normalizer.normalize('the and of')).toBe('');
+  });
+
+  it('should fold accents and skip stop words in other languages', () => {
+    const spanish = new KeywordNormalizer('es');
+    expect(spanish.isVariant('guia jardineria', 'guía de jardinería')).toBe(true);
+    expect(spanish.isVariant('jardines', 'jardín')).toBe(true);
+  });
+
+  it('should group terms under their most frequent form', () => {
+    const groups = new KeywordNormalizer('en').group(['dating tip', 'dating tips', 'garden', 'dating tips', 'the']);
+    expect(groups).toEqual([
+      { key: 'date tip', canonical: 'dating tips', variants: ['dating tip', 'dating tips'], count: 3 },
+      { key: 'garden', canonical: 'garden', variants: ['garden'], count: 1 }
+    ]);
+  });
+
+  it('should find and count every surface form in a text', () => {
+    const normalizer = new KeywordNormalizer('en');
+    const text = 'Dating tips for beginners. One dating tip matters more than other tips.';
+    expect(normalizer.findOccurrences('dating tip', text)).toEqual(['dating tips', 'dating tip']);
+    expect(normalizer.countOccurrences('tip', text)).toBe(3);
+    expect(normalizer.findVariants('dating tips', [text, 'Our dating tips'])).toEqual(['dating tips', 'dating tip']);
+    expect(new KeywordNormalizer('es').findOccurrences('guia jardineria', 'Una guía de jardinería')).toEqual(['guía de jardinería']);
+  });
+});
+
+describe('Keyword variants in the analyzers', () => {
+  it('should count variants together in the frequent terms', () => {
+    const content = 'Garden tips and one more tip. These tips help every garden and all gardens grow.';
+    const analysis = new AdvancedSemanticAnalyzer(content, [], [], [], undefined, 'en').analyzeSemantics();
+    const tip = analysis.top_frequent_terms.find(term => term.keyword === 'tips');
+
+    expect(tip).toMatchObject({ count: 3, variants: ['tips', 'tip'] });
+    expect(analysis.top_frequent_terms.some(term => term.keyword === 'tip')).toBe(false);
+    expect(analysis.top_frequent_terms.find(term => term.keyword === 'garden')).toMatchObject({ count: 3 });
+  });
+
+  it('should score each keyword once and list the variant forms found on the page', async () => {
+    const html = `
+      <html lang="en"><head><title>Online dating tips</title>
+      <meta name="description" content="Our best online dating tip for a first message"></head>
+      <body><main>
+        <h1>Online dating tips for a first date</h1>
+        <h2>The one online dating tip that matters</h2>
+        <p>Online dating works best when the first message is short, friendly and asks a question about their profile.</p>
+      </main></body></html>
+    `;
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.com/online-dating-tips', { analysis_depth: 'standard' });
+    const { primary, secondary } = response.data!.inferred_keywords;
+    const normalizer = new KeywordNormalizer('en');
+
+    [primary.keywords, secondary.keywords].forEach(keywords => {
+      expect(keywords.every(keyword => Array.isArray(keyword.variants))).toBe(true);
+      const keys = keywords.map(keyword => normalizer.normalize(keyword.term));
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+    expect(primary.keywords[0].variants).toEqual(['online dating tips', 'online dating tip']);
+    expect(secondary.keywords.find(keyword => keyword.term === 'tip')?.variants).toEqual(['tips', 'tip']);
+  });
+});
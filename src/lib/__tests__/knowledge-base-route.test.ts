@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ *
+ * Knowledge Base Route Test Suite
+ * Tests for rejecting knowledge-base imports that do not parse
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/knowledge-base/route';
+
+const upload = (content: string, clientIP: string) => {
+  const form = new FormData();
+  form.append('file', new File([content], 'dump.json', { type: 'application/json' }));
+  return new NextRequest('http://localhost/api/knowledge-base', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': clientIP },
+    body: form
+  });
+};
+
+describe('POST /api/knowledge-base', () => {
+  it('should reject a malformed dump upload as a validation error', async () => {
+    const response = await POST(upload('[\n{"id": "Q1", "labels": {\n]', '203.0.113.20'));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.type).toBe('VALIDATION_ERROR');
+    expect(body.error.details).toMatch(/^dump\.json is not a Wikidata JSON dump: /);
+  });
+
+  it('should reject a JSON body that does not parse as a validation error', async () => {
+    const response = await POST(new NextRequest('http://localhost/api/knowledge-base', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': '203.0.113.21' },
+      body: '{"entities": ['
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.type).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ *
+ * Knowledge Base Test Suite
+ * Tests for Wikidata imports, context-based entity linking and linked entities in semantic analysis
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { KnowledgeBase } from '../knowledge-base';
+import { AdvancedSemanticAnalyzer } from '../advanced-semantic-analyzer';
+import { SEOAnalyzer } from '../seo-analyzer';
+
+// Wikidata dump entities, trimmed to the fields the importer reads
+const JAGUAR_CARS = {
+  id: 'Q30055',
+  labels: { en: { language: 'en', value: 'Jaguar Cars' } },
+  descriptions: { en: { language: 'en', value: 'British luxury car manufacturer' } },
+  aliases: { en: [{ language: 'en', value: 'Jaguar' }] },
+  claims: {
+    P31: [{ mainsnak: { datavalue: { value: { 'entity-type': 'item', id: 'Q4830453' } } } }],
+    P856: [{ mainsnak: { datavalue: { value: 'https://www.jaguar.com' } } }]
+  },
+  sitelinks: { enwiki: { title: 'Jaguar Cars' }, dewiki: { title: 'Jaguar Cars' } }
+};
+
+const JAGUAR_ANIMAL = {
+  id: 'Q35694',
+  labels: { en: { language: 'en', value: 'jaguar' } },
+  descriptions: { en: { language: 'en', value: 'large cat species native to the Americas, found in rainforest' } },
+  aliases: { en: [{ language: 'en', value: 'Panthera onca' }] },
+  claims: { P31: [{ mainsnak: { datavalue: { value: { id: 'Q16521' } } } }] },
+  sitelinks: { enwiki: { title: 'Jaguar' }, dewiki: { title: 'Jaguar' }, frwiki: { title: 'Jaguar' } }
+};
+
+describe('KnowledgeBase', () => {
+  it('should import Wikidata entities with types, aliases and sameAs URLs', () => {
+    const knowledgeBase = new KnowledgeBase('');
+    const result = knowledgeBase.importWikidata([JAGUAR_CARS, JAGUAR_ANIMAL, { id: 'Q1' }, { labels: {} }]);
+
+    expect(result).toEqual({ imported: 2, skipped: 2 });
+    expect(knowledgeBase.get('Q30055')).toMatchObject({
+      type: 'organization',
+      aliases: ['Jaguar'],
+      popularity: 2,
+      same_as: ['https://www.wikidata.org/wiki/Q30055', 'https://en.wikipedia.org/wiki/Jaguar_Cars', 'https://www.jaguar.com']
+    });
+    expect(knowledgeBase.get('Q35694')?.type).toBe('concept');
+    expect(knowledgeBase.getCandidates('JAGUAR').map(entity => entity.id).sort()).toEqual(['Q30055', 'Q35694']);
+    expect(knowledgeBase.getStats()).toMatchObject({ imported_count: 2 });
+  });
+
+  it('should skip entities whose fields are not shaped like Wikidata without touching the indexes', () => {
+    const knowledgeBase = new KnowledgeBase('');
+    const size = knowledgeBase.size;
+    const result = knowledgeBase.importWikidata([
+      { ...JAGUAR_CARS, aliases: { en: 'Jaguar' } },
+      { ...JAGUAR_CARS, aliases: { en: [{ value: 5 }] } },
+      { ...JAGUAR_CARS, descriptions: { en: { value: ['luxury cars'] } } },
+      { ...JAGUAR_CARS, claims: { P31: { mainsnak: {} } } },
+      { ...JAGUAR_CARS, sitelinks: { enwiki: 'Jaguar Cars' } },
+      null,
+      'Q30055',
+      { ...JAGUAR_ANIMAL, aliases: { en: [{ value: 'Panthera onca' }], de: 'Jaguar' } }
+    ]);
+
+    expect(result).toEqual({ imported: 1, skipped: 7 });
+    expect(knowledgeBase.size).toBe(size + 1);
+    expect(knowledgeBase.get('Q30055')).toBeUndefined();
+    expect(knowledgeBase.getCandidates('Jaguar Cars')).toEqual([]);
+  });
+
+  it('should parse dumps as arrays, wbgetentities responses or one entity per line', () => {
+    const lines = `[\n${JSON.stringify(JAGUAR_CARS)},\n${JSON.stringify(JAGUAR_ANIMAL)},\n`;
+
+    expect(KnowledgeBase.parseWikidataDump(lines)).toHaveLength(2);
+    expect(KnowledgeBase.parseWikidataDump(JSON.stringify([JAGUAR_CARS]))).toHaveLength(1);
+    expect(KnowledgeBase.parseWikidataDump(JSON.stringify({ entities: { Q30055: JAGUAR_CARS } }))).toHaveLength(1);
+  });
+
+  it('should disambiguate a name by the sentences around it', () => {
+    const knowledgeBase = new KnowledgeBase('');
+
+    expect(knowledgeBase.link('Apple', 'organization', ['apple unveiled a new iphone and macbook'])?.id).toBe('Q312');
+    expect(knowledgeBase.link('Apple', 'organization', ['apple pie with fruit from the orchard', 'pick a sweet apple variety'])?.id).toBe('Q89');
+    expect(knowledgeBase.link('Amazon', 'organization', ['the amazon river flows through the rainforest of brazil'])?.id).toBe('Q3783');
+    expect(knowledgeBase.link('Amazon', 'organization', ['prime delivery for every order'])?.id).toBe('Q3884');
+    expect(knowledgeBase.link('Tesla', 'person', ['the inventor of the alternating current coil'])).toMatchObject({ id: 'Q9036', schema_type: 'Person' });
+  });
+
+  it('should fall back to the extracted type and popularity without context, and skip unknown names', () => {
+    const knowledgeBase = new KnowledgeBase('');
+
+    expect(knowledgeBase.link('Java', 'technology')?.id).toBe('Q251');
+    expect(knowledgeBase.link('Java', 'location')?.id).toBe('Q3757');
+    expect(knowledgeBase.link('Brightpath Digital', 'organization')).toBeUndefined();
+  });
+
+  it('should persist imported entities and reload them', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'knowledge-base-'));
+    try {
+      const file = path.join(directory, 'entities.json');
+      const knowledgeBase = new KnowledgeBase(file);
+      knowledgeBase.importWikidata([JAGUAR_CARS]);
+      await knowledgeBase.save();
+
+      const reloaded = await KnowledgeBase.open(file);
+      expect(reloaded.get('Q30055')?.label).toBe('Jaguar Cars');
+      expect(reloaded.getStats().imported_count).toBe(1);
+      expect(reloaded.size).toBe(knowledgeBase.size);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should start from the bundled entities and set a corrupt file aside', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'knowledge-base-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const file = path.join(directory, 'entities.json');
+      await writeFile(file, '{"entities":[{"id":"Q30055","label":');
+
+      const knowledgeBase = await KnowledgeBase.open(file);
+      expect(knowledgeBase.getStats().imported_count).toBe(0);
+      expect(knowledgeBase.size).toBe(new KnowledgeBase('').size);
+      expect(await readFile(`${file}.corrupt`, 'utf8')).toContain('Q30055');
+    } finally {
+      warn.mockRestore();
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Entity linking in semantic analysis', () => {
+  it('should list linked entities and set kb_id on recognized entities', () => {
+    const knowledgeBase = new KnowledgeBase('');
+    const analysis = new AdvancedSemanticAnalyzer(
+      'Apple released a new iPhone today. The company is based in California and sells the MacBook worldwide.',
+      [], [], [], undefined, 'en'
+    ).analyzeSemantics({ includeEEAT: false, includeQueryFanOut: false, knowledgeBase });
+
+    const linked = analysis.core_topic_analysis.inferred_entities.linked!;
+    expect(linked.find(entity => entity.mention === 'Apple')).toMatchObject({ id: 'Q312', schema_type: 'Organization' });
+    expect(linked.find(entity => entity.mention === 'California')?.same_as).toContain('https://en.wikipedia.org/wiki/California');
+    expect(analysis.entity_extraction.entities?.find(entity => entity.text === 'Apple')?.kb_id).toBe('Q312');
+  });
+
+  it('should leave entities unlinked without a knowledge base', () => {
+    const analysis = new AdvancedSemanticAnalyzer('Apple released a new iPhone today.', [], [], [], undefined, 'en')
+      .analyzeSemantics({ includeEEAT: false, includeQueryFanOut: false });
+
+    expect(analysis.core_topic_analysis.inferred_entities.linked).toBeUndefined();
+  });
+
+  it('should link entities in the analysis pipeline', async () => {
+    const html = `<html lang="en"><head><title>Visiting Paris</title></head><body><main>
+      <h1>A Weekend in the City of Light</h1>
+      <p>Paris is the capital of France. The Eiffel Tower and the Louvre draw millions of visitors every year.</p>
+    </main></body></html>`;
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.com/paris', { analysis_depth: 'standard' });
+
+    expect(response.data!.semantic_analysis.core_topic_analysis.inferred_entities.linked?.map(entity => entity.id)).toEqual(
+      expect.arrayContaining(['Q90', 'Q142'])
+    );
+  });
+});
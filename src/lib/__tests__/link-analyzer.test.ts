@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ *
+ * Link Analyzer Test Suite
+ * Tests for anchor extraction and the anchor-text keyword report
+ */
+
+import { HTMLParser } from '../html-parser';
+import { LinkAnalyzer } from '../link-analyzer';
+import { InferredKeywordsAnalysis } from '@/types/seo-analysis';
+
+const PAGE_URL = 'https://www.example.com/blog/keyword-research';
+
+const HTML = `
+  <html><body>
+    <nav><a href="/">Home</a><a href="/blog">Blog</a></nav>
+    <main>
+      <p>Start with <a href="/guides/seo-tools">SEO tools</a> and a
+        <a href="https://example.com/guides/keyword-research-basics#intro">keyword research checklist</a>.</p>
+      <p><a href="/pricing">click here</a> or <a href="https://partner.example.org/offer" rel="sponsored nofollow">Partner offer</a></p>
+      <a href="/guides/seo-tools"><img src="/tools.png" alt="Tool comparison"></a>
+      <a href="/empty"><img src="/spacer.gif"></a>
+      <a href="mailto:hello@example.com">Email</a>
+    </main>
+    <footer><a href="https://forum.example.net/thread" rel="ugc">Forum thread about keyword research</a></footer>
+  </body></html>
+`;
+
+const keyword = (term: string) => ({ term, extracted_from: [] });
+const KEYWORDS: InferredKeywordsAnalysis = {
+  primary: { confidence_score: 0.9, keywords: [keyword('keyword research')], reasoning_summary: '' },
+  secondary: { confidence_score: 0.7, keywords: [keyword('seo tools'), keyword('content audit')], reasoning_summary: '' }
+};
+
+describe('HTMLParser.extractLinks', () => {
+  const links = new HTMLParser(HTML, PAGE_URL).extractLinks();
+
+  it('should resolve hrefs and classify internal links across www and bare hosts', () => {
+    expect(links).toHaveLength(9);
+    expect(links[3]).toEqual({
+      href: 'https://example.com/guides/keyword-research-basics',
+      text: 'keyword research checklist',
+      rel: [],
+      internal: true,
+      location: 'body'
+    });
+    expect(links.filter(link => !link.internal).map(link => link.href)).toEqual([
+      'https://partner.example.org/offer',
+      'https://forum.example.net/thread'
+    ]);
+  });
+
+  it('should record rel tokens, page regions and image link alt text', () => {
+    expect(links[0].location).toBe('nav');
+    expect(links[5].rel).toEqual(['sponsored', 'nofollow']);
+    expect(links[6]).toEqual(expect.objectContaining({ text: 'Tool comparison', is_image_link: true }));
+    expect(links[8]).toEqual(expect.objectContaining({ location: 'footer', rel: ['ugc'] }));
+  });
+});
+
+describe('LinkAnalyzer', () => {
+  const links = new HTMLParser(HTML, PAGE_URL).extractLinks();
+  const analysis = new LinkAnalyzer(links, KEYWORDS).analyze();
+
+  it('should count links by type, rel and location', () => {
+    expect(analysis.internal_links).toBe(7);
+    expect(analysis.external_links).toBe(2);
+    expect(analysis.unique_internal_targets).toBe(6);
+    expect([analysis.nofollow_links, analysis.sponsored_links, analysis.ugc_links]).toEqual([1, 1, 1]);
+    expect(analysis.by_location).toEqual({ nav: 2, header: 0, footer: 1, aside: 0, body: 6 });
+    expect(analysis.generic_anchors).toEqual(['click here']);
+    expect(analysis.empty_anchors).toBe(1);
+  });
+
+  it('should report which inferred keywords are used as internal anchors', () => {
+    expect(analysis.anchor_keywords).toEqual([
+      {
+        keyword: 'keyword research',
+        keyword_type: 'primary',
+        internal_anchor_count: 1,
+        external_anchor_count: 1,
+        anchors: ['keyword research checklist'],
+        targets: ['https://example.com/guides/keyword-research-basics']
+      },
+      {
+        keyword: 'seo tools',
+        keyword_type: 'secondary',
+        internal_anchor_count: 1,
+        external_anchor_count: 0,
+        anchors: ['SEO tools'],
+        targets: ['https://www.example.com/guides/seo-tools']
+      },
+      {
+        keyword: 'content audit',
+        keyword_type: 'secondary',
+        internal_anchor_count: 0,
+        external_anchor_count: 0,
+        anchors: [],
+        targets: []
+      }
+    ]);
+  });
+
+  it('should list distinct internal pages other than the page itself', () => {
+    const pages = LinkAnalyzer.getInternalPages(links, 'https://www.example.com/', 3);
+
+    expect(pages).toEqual([
+      { url: 'https://www.example.com/blog', anchor: 'Blog' },
+      { url: 'https://www.example.com/guides/seo-tools', anchor: 'SEO tools' },
+      { url: 'https://example.com/guides/keyword-research-basics', anchor: 'keyword research checklist' }
+    ]);
+  });
+});
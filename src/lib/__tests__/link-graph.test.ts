@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ *
+ * Link Graph Test Suite
+ * Tests for site-wide internal PageRank, orphan detection and link suggestions
+ */
+
+import { SEOAnalyzer } from '../seo-analyzer';
+import { LinkGraphAnalyzer } from '../link-graph';
+import { SEOAnalysisResult } from '@/types/seo-analysis';
+
+type SitePage = [url: string, title: string, links: string[]];
+
+const page = (title: string, links: string[]) => `
+  <html><head><title>${title}</title></head>
+  <body><h1>${title}</h1><main><p>${title} explained in detail for readers.</p>
+  ${links.join(' ')}</main></body></html>
+`;
+
+const link = (href: string, rel = '') => `<a href="${href}"${rel && ` rel="${rel}"`}>${href}</a>`;
+
+const SITE: SitePage[] = [
+  ['https://example.com/', 'Garden Supplies Shop', [link('/tools'), link('/furniture')]],
+  ['https://example.com/tools', 'Garden Tools Guide', [link('/'), link('/furniture/')]],
+  ['https://example.com/furniture', 'Outdoor Furniture Ideas', [link('/'), link('/garden-lighting', 'nofollow')]],
+  ['https://example.com/garden-lighting', 'Garden Lighting Tips', [link('/tools')]],
+  ['https://example.com/garden-ponds', 'Garden Pond Building', [link('/')]]
+];
+
+const analyzeSite = async (site: SitePage[]): Promise<SEOAnalysisResult[]> => {
+  const analyzer = new SEOAnalyzer();
+  const results: SEOAnalysisResult[] = [];
+  for (const [url, title, links] of site) {
+    const response = await analyzer.analyzeHTML(page(title, links), url, { analysis_depth: 'basic' });
+    results.push(response.data!);
+  }
+  return results;
+};
+
+describe('LinkGraphAnalyzer', () => {
+  let results: SEOAnalysisResult[];
+
+  beforeAll(async () => {
+    results = await analyzeSite(SITE);
+  });
+
+  it('should score pages with PageRank over followed internal links', () => {
+    const graph = new LinkGraphAnalyzer(results).analyze();
+    const node = (url: string) => graph.nodes.find(item => item.url === url)!;
+
+    expect(graph.nodes[0]).toEqual(expect.objectContaining({ url: 'https://example.com/', internal_link_strength: 100 }));
+    expect(graph.nodes.reduce((total, item) => total + item.pagerank, 0)).toBeCloseTo(1, 4);
+    expect(graph.edges).toBe(7);
+
+    // The trailing-slash link still counts, the nofollow link counts as inbound but passes no rank
+    expect(node('https://example.com/furniture').inbound_links).toBe(2);
+    expect(node('https://example.com/garden-lighting').inbound_links).toBe(1);
+    expect(node('https://example.com/garden-lighting').pagerank).toBeLessThan(node('https://example.com/tools').pagerank);
+    expect(graph.orphan_pages).toEqual([]);
+  });
+
+  it('should flag sitemap URLs without inbound links as orphans', () => {
+    const graph = new LinkGraphAnalyzer(results, { sitemapUrls: SITE.map(([url]) => url) }).analyze();
+
+    expect(graph.orphan_pages).toEqual(['https://example.com/garden-ponds']);
+    expect(graph.nodes.every(node => node.in_sitemap)).toBe(true);
+  });
+
+  it('should suggest links to weak pages from related strong pages, anchored on primary keywords', () => {
+    const graph = new LinkGraphAnalyzer(results, { sitemapUrls: SITE.map(([url]) => url) }).analyze();
+    const toPonds = graph.link_suggestions.filter(suggestion => suggestion.target_url === 'https://example.com/garden-ponds');
+    const primaryKeywords = results[4].inferred_keywords.primary.keywords.map(keyword => keyword.term);
+
+    expect(toPonds).toHaveLength(2);
+    expect(toPonds[0].source_url).toBe('https://example.com/');
+    expect(toPonds[0].reason).toMatch(/^Orphan page/);
+    expect(toPonds.map(suggestion => suggestion.anchor_text)).toEqual(primaryKeywords.slice(0, 2));
+
+    // Never suggest a link that already exists
+    graph.link_suggestions.forEach(suggestion => {
+      const source = results.find(result => result.page_metadata.url === suggestion.source_url)!;
+      expect(source.structured_on_page_data.links?.map(item => item.href)).not.toContain(suggestion.target_url);
+    });
+  });
+});
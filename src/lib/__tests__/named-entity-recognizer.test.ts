@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ *
+ * Named Entity Recognizer Test Suite
+ * Tests for the perceptron tagger, its precision and recall on an annotated corpus, and training
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { NamedEntityRecognizer, parseAnnotatedSentence } from '../named-entity-recognizer';
+import { AdvancedSemanticAnalyzer } from '../advanced-semantic-analyzer';
+
+const EVALUATION_CORPUS = readFileSync(path.join(__dirname, 'fixtures/ner-evaluation.txt'), 'utf8')
+  .split('\n')
+  .filter(line => line.trim() && !line.startsWith('#'))
+  .map(parseAnnotatedSentence);
+
+describe('NamedEntityRecognizer', () => {
+  const recognizer = new NamedEntityRecognizer();
+
+  // The held-out corpus scores 0.76 precision and 0.76 recall; the gate catches regressions, not memorization
+  it('should reach the expected precision and recall on the annotated corpus', () => {
+    let correct = 0;
+    let predicted = 0;
+    let expected = 0;
+
+    EVALUATION_CORPUS.forEach(sentence => {
+      const gold = new Set(sentence.entities.map(entity => `${entity.type}:${entity.start}:${entity.end}`));
+      const mentions = recognizer.findMentions(sentence.text);
+      correct += mentions.filter(mention => gold.has(`${mention.type}:${mention.start}:${mention.end}`)).length;
+      predicted += mentions.length;
+      expected += gold.size;
+    });
+
+    expect(expected).toBeGreaterThan(60);
+    expect(correct / predicted).toBeGreaterThanOrEqual(0.7);
+    expect(correct / expected).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('should group mentions into typed entities with offsets and counts', () => {
+    const text = 'Maria Lopez teaches Python in Madrid. Students of Maria Lopez learn Python quickly.';
+    const entities = recognizer.recognize(text);
+    const maria = entities.find(entity => entity.text === 'Maria Lopez');
+
+    expect(maria).toMatchObject({ type: 'person', count: 2 });
+    expect(maria!.offsets.map(offset => text.slice(offset.start, offset.end))).toEqual(['Maria Lopez', 'Maria Lopez']);
+    expect(entities.find(entity => entity.text === 'Python')).toMatchObject({ type: 'technology', count: 2 });
+    expect(entities.find(entity => entity.text === 'Madrid')?.type).toBe('location');
+  });
+
+  // Names and wording outside the gazetteer and the training templates
+  it('should fill the entity buckets and join a city with its region', () => {
+    const extraction = recognizer.extract(
+      'After ten years, Odile Brannock left Wrenfield Analytics Inc for a smaller lab in Portland, Oregon. Her samples still travel to Norway, Poland and Greece.'
+    );
+
+    expect(extraction.people).toEqual(['Odile Brannock']);
+    expect(extraction.organizations).toEqual(['Wrenfield Analytics Inc']);
+    expect(extraction.locations).toEqual(['Portland, Oregon', 'Norway', 'Poland', 'Greece']);
+    expect(extraction.entities).toHaveLength(6);
+  });
+
+  it('should find nothing in text without names', () => {
+    expect(recognizer.findMentions('Water the plants every morning. Frequently Asked Questions')).toEqual([]);
+  });
+
+  it('should parse inline annotations into text and spans', () => {
+    expect(parseAnnotatedSentence('[person Ada Lovelace] lived in [location London].')).toEqual({
+      text: 'Ada Lovelace lived in London.',
+      entities: [
+        { text: 'Ada Lovelace', type: 'person', start: 0, end: 12 },
+        { text: 'London', type: 'location', start: 22, end: 28 }
+      ]
+    });
+  });
+
+  it('should train a model that tags unseen names from their context', () => {
+    const names = [['Nora', 'Bexley'], ['Otto', 'Vance'], ['Ines', 'Marlow'], ['Kai', 'Dunmore'], ['Rosa', 'Thane']];
+    const companies = ['Quillon', 'Verbex', 'Hollin', 'Zarro', 'Pellick'];
+    const sentences = names.flatMap(([first, last], index) => [
+      `[person ${first} ${last}] works at [organization ${companies[index]} Labs] every day.`,
+      `The office of [organization ${companies[(index + 1) % 5]} Labs] is quiet.`
+    ]).map(parseAnnotatedSentence);
+
+    const trained = new NamedEntityRecognizer(NamedEntityRecognizer.train(sentences, 5, () => 0.5));
+    const mentions = trained.findMentions('Lena Farrow works at Brindle Labs every day.');
+
+    expect(mentions.map(mention => `${mention.type}:${mention.text}`)).toEqual(['person:Lena Farrow', 'organization:Brindle Labs']);
+  });
+});
+
+describe('Entity extraction in semantic analysis', () => {
+  it('should report recognized entities alongside the buckets', () => {
+    const analysis = new AdvancedSemanticAnalyzer(
+      'Priya Raman works at Northwind Traders in Seattle. Priya Raman writes TypeScript.',
+      [], [], [], undefined, 'en'
+    ).analyzeSemantics({ includeEEAT: false, includeQueryFanOut: false });
+
+    expect(analysis.entity_extraction.people).toEqual(['Priya Raman']);
+    expect(analysis.entity_extraction.technologies).toEqual(['typescript']);
+    expect(analysis.entity_extraction.entities?.find(entity => entity.type === 'person')?.count).toBe(2);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * robots.txt Parser Test Suite
+ * Tests for group selection, rule precedence and wildcards
+ */
+
+import { RobotsTxtParser } from '../robots-parser';
+
+const ROBOTS = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/press
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: Googlebot
+User-agent: Bingbot
+Disallow: /drafts/
+
+User-agent: Googlebot-News
+Disallow: /
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe('RobotsTxtParser', () => {
+  let parser: RobotsTxtParser;
+
+  beforeEach(() => {
+    parser = new RobotsTxtParser(ROBOTS);
+  });
+
+  it('should apply the wildcard group to unknown agents', () => {
+    expect(parser.isAllowed('https://example.com/private/report', 'PageKeywordAnalyzer/1.0')).toBe(false);
+    expect(parser.isAllowed('https://example.com/blog/post', 'PageKeywordAnalyzer/1.0')).toBe(true);
+  });
+
+  it('should prefer the longest matching rule', () => {
+    const check = parser.check('https://example.com/private/press/launch', 'PageKeywordAnalyzer/1.0');
+
+    expect(check.allowed).toBe(true);
+    expect(check.matched_rule).toEqual({ type: 'allow', path: '/private/press' });
+  });
+
+  it('should support * and $ wildcards', () => {
+    expect(parser.isAllowed('/files/guide.pdf', 'PageKeywordAnalyzer')).toBe(false);
+    expect(parser.isAllowed('/files/guide.pdf?download=1', 'PageKeywordAnalyzer')).toBe(true);
+  });
+
+  it('should use the most specific group for a crawler', () => {
+    expect(parser.isAllowed('/drafts/post', 'Googlebot')).toBe(false);
+    expect(parser.isAllowed('/drafts/post', 'Mozilla/5.0')).toBe(true);
+    // A named group replaces the wildcard group entirely
+    expect(parser.isAllowed('/private/report', 'Googlebot')).toBe(true);
+    expect(parser.isAllowed('/blog/post', 'Googlebot-News')).toBe(false);
+    expect(parser.isAllowed('/drafts/post', 'bingbot/2.0')).toBe(false);
+  });
+
+  it('should read Crawl-delay per group and sitemap declarations', () => {
+    expect(parser.getCrawlDelay('PageKeywordAnalyzer/1.0')).toBe(2);
+    expect(parser.getCrawlDelay('Googlebot')).toBeUndefined();
+    expect(parser.getSitemaps()).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should allow everything for an empty file', () => {
+    expect(new RobotsTxtParser('').isAllowed('/anything', 'Googlebot')).toBe(true);
+  });
+});
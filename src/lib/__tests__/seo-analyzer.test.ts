@@ -0,0 +1,354 @@
+/**
+ * @jest-environment node
+ *
+ * SEO Analyzer Test Suite
+ * Tests for the analysis pipeline orchestration
+ */
+
+import { SEOAnalyzer } from '../seo-analyzer';
+
+const SAMPLE_HTML = `
+  <html lang="en">
+    <head>
+      <title>Web Development Guide for Beginners</title>
+      <meta name="description" content="Learn web development with this complete guide for beginners.">
+    </head>
+    <body>
+      <main>
+        <h1>Web Development Guide for Beginners</h1>
+        <p>Web development is the work involved in building websites. According to research, most developers start with HTML and CSS.</p>
+        <h2>JavaScript Basics</h2>
+        <p>JavaScript is a programming language used for interactive web pages. In my experience, practice matters more than theory.</p>
+      </main>
+    </body>
+  </html>
+`;
+
+const mockFetch = global.fetch as jest.Mock;
+
+describe('SEOAnalyzer', () => {
+  let analyzer: SEOAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new SEOAnalyzer();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      text: jest.fn().mockResolvedValue(SAMPLE_HTML)
+    });
+  });
+
+  describe('getStagesForDepth', () => {
+    it('should map each depth to a growing set of stages', () => {
+      expect(SEOAnalyzer.getStagesForDepth('basic')).toEqual(['metadata', 'headings', 'indexability', 'keyword_inference']);
+      expect(SEOAnalyzer.getStagesForDepth('standard')).toEqual(expect.arrayContaining(['hreflang', 'semantic_analysis']));
+      expect(SEOAnalyzer.getStagesForDepth('standard')).not.toContain('eeat');
+      expect(SEOAnalyzer.getStagesForDepth('comprehensive')).toEqual(
+        expect.arrayContaining(['eeat', 'query_fan_out', 'ai_analysis'])
+      );
+    });
+  });
+
+  describe('analyzeURL', () => {
+    it('should only run metadata, headings, indexability and keyword inference for basic depth', async () => {
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'basic' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.analysis_depth).toBe('basic');
+      expect(result.data?.stages_run).toEqual(['metadata', 'headings', 'indexability', 'keyword_inference']);
+      expect(result.data?.indexability).toBeDefined();
+      expect(result.data?.structured_on_page_data.structured_data).toBeUndefined();
+      expect(result.data?.link_analysis).toBeUndefined();
+      expect(result.data?.heading_audit).toBeUndefined();
+      expect(result.data?.image_audit).toBeUndefined();
+      expect(result.data?.hreflang).toBeUndefined();
+      expect(result.data?.semantic_analysis.top_frequent_terms).toEqual([]);
+      expect(result.data?.semantic_analysis.eeat_score).toBeUndefined();
+    });
+
+    it('should add the page audits and semantic analysis without E-E-A-T for standard depth', async () => {
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'standard' });
+
+      expect(result.data?.stages_run).toEqual([
+        'metadata', 'headings', 'structured_data', 'indexability', 'keyword_inference',
+        'link_analysis', 'heading_audit', 'image_audit', 'hreflang', 'semantic_analysis'
+      ]);
+      expect(result.data?.structured_on_page_data.structured_data).toBeDefined();
+      expect(result.data?.link_analysis).toBeDefined();
+      expect(result.data?.heading_audit).toBeDefined();
+      expect(result.data?.image_audit).toBeDefined();
+      expect(result.data?.hreflang).toBeDefined();
+      expect(result.data?.semantic_analysis.top_frequent_terms.length).toBeGreaterThan(0);
+      expect(result.data?.semantic_analysis.eeat_score).toBeUndefined();
+      expect(result.data?.semantic_analysis.query_fan_out).toBeUndefined();
+    });
+
+    it('should run E-E-A-T and query fan-out for comprehensive depth', async () => {
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'comprehensive' });
+
+      expect(result.data?.stages_run).toEqual(expect.arrayContaining(['semantic_analysis', 'eeat', 'query_fan_out']));
+      expect(result.data?.semantic_analysis.eeat_score).toBeDefined();
+      expect(result.data?.semantic_analysis.query_fan_out).toBeDefined();
+      // No Gemini key configured, so the AI stage is skipped
+      expect(result.data?.stages_run).not.toContain('ai_analysis');
+    });
+
+    it('should default to comprehensive depth', async () => {
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development' });
+
+      expect(result.data?.analysis_depth).toBe('comprehensive');
+    });
+  });
+
+  describe('analyzeHTML', () => {
+    it('should analyze supplied HTML against the virtual URL without fetching', async () => {
+      const result = await analyzer.analyzeHTML(SAMPLE_HTML, 'https://staging.example.com/web-development', {
+        analysis_depth: 'basic'
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.data?.input_source).toBe('html');
+      expect(result.data?.http_analysis).toBeUndefined();
+      expect(result.data?.page_metadata.url).toBe('https://staging.example.com/web-development');
+      expect(result.data?.structured_on_page_data.url_analysis.slug).toBe('web-development');
+    });
+
+    it('should reject an invalid virtual URL or empty HTML', async () => {
+      const badUrl = await analyzer.analyzeHTML(SAMPLE_HTML, 'not a url');
+      const empty = await analyzer.analyzeHTML('   ', 'https://example.com/');
+
+      expect(badUrl.error?.type).toBe('URL_INVALID');
+      expect(empty.error?.type).toBe('PARSE_ERROR');
+    });
+  });
+
+  describe('structured data', () => {
+    it('should report JSON-LD entities and feed them into entity extraction', async () => {
+      const html = SAMPLE_HTML.replace(
+        '</head>',
+        '<script type="application/ld+json">{"@type": "Organization", "name": "Acme Web Studio"}</script></head>'
+      );
+      const result = await analyzer.analyzeHTML(html, 'https://example.com/web-development');
+
+      expect(result.data?.structured_on_page_data.structured_data?.entities[0]).toEqual(
+        expect.objectContaining({ type: 'Organization', is_valid: true })
+      );
+      expect(result.data?.semantic_analysis.entity_extraction.organizations[0]).toBe('Acme Web Studio');
+    });
+  });
+
+  describe('http analysis', () => {
+    it('should record every redirect hop and the SEO headers of the final response', async () => {
+      const responses: Record<string, { status: number; headers: Record<string, string> }> = {
+        'http://example.com/old': { status: 301, headers: { location: 'https://example.com/old' } },
+        'https://example.com/old': { status: 302, headers: { location: '/new' } },
+        'https://example.com/new': {
+          status: 200,
+          headers: {
+            'content-type': 'text/html; charset=utf-8',
+            'cache-control': 'max-age=600',
+            'link': '<https://example.com/new>; rel="canonical"'
+          }
+        }
+      };
+      mockFetch.mockImplementation(async (url: string) => {
+        const match = responses[url] || { status: 404, headers: {} };
+        return {
+          ok: match.status === 200,
+          status: match.status,
+          statusText: '',
+          headers: { get: (name: string) => match.headers[name] ?? null },
+          text: async () => SAMPLE_HTML
+        };
+      });
+
+      const result = await analyzer.analyzeURL({ url: 'http://example.com/old', analysis_depth: 'basic' });
+      const http = result.data?.http_analysis;
+
+      expect(http?.redirect_chain.map(hop => [hop.url, hop.status_code, hop.location])).toEqual([
+        ['http://example.com/old', 301, 'https://example.com/old'],
+        ['https://example.com/old', 302, 'https://example.com/new'],
+        ['https://example.com/new', 200, undefined]
+      ]);
+      expect(http?.final_url).toBe('https://example.com/new');
+      expect(http?.redirected).toBe(true);
+      expect(http?.headers).toEqual({
+        content_type: 'text/html; charset=utf-8',
+        cache_control: 'max-age=600',
+        link_canonical: 'https://example.com/new'
+      });
+      expect(http?.warnings).toEqual([
+        'https://example.com/old uses a temporary 302 redirect; use 301 or 308 if the move is permanent'
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith('http://example.com/old', expect.objectContaining({ redirect: 'manual' }));
+    });
+
+    it('should fail on redirect loops', async () => {
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: false,
+        status: url.endsWith('robots.txt') ? 404 : 301,
+        statusText: '',
+        headers: { get: (name: string) => (name === 'location' ? (url.endsWith('/a') ? '/b' : '/a') : null) },
+        text: async () => ''
+      }));
+
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/a', analysis_depth: 'basic' });
+
+      expect(result.error?.type).toBe('FETCH_ERROR');
+      expect(result.error?.details).toBe('Redirect loop at https://example.com/a');
+    });
+
+    it('should refuse redirects to private addresses', async () => {
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: false,
+        status: url.endsWith('robots.txt') ? 404 : 302,
+        statusText: '',
+        headers: { get: (name: string) => (name === 'location' ? 'http://169.254.169.254/latest/meta-data/' : null) },
+        text: async () => ''
+      }));
+
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/a', analysis_depth: 'basic' });
+
+      expect(result.error?.type).toBe('URL_INVALID');
+      expect(result.error?.details).toBe('Redirect to http://169.254.169.254/latest/meta-data/ refused: Private/localhost URLs are not allowed');
+      expect(mockFetch).not.toHaveBeenCalledWith('http://169.254.169.254/latest/meta-data/', expect.anything());
+    });
+
+    it('should check robots.txt of the redirect target before following it', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        const robots = url === 'https://other.example/robots.txt' ? 'User-agent: *\nDisallow: /private/' : null;
+        return {
+          ok: robots !== null,
+          status: robots !== null ? 200 : url.endsWith('robots.txt') ? 404 : 301,
+          statusText: '',
+          headers: { get: (name: string) => (name === 'location' ? 'https://other.example/private/page' : null) },
+          text: async () => robots || ''
+        };
+      });
+
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/moved', analysis_depth: 'basic' });
+
+      expect(result.error?.type).toBe('ROBOTS_BLOCKED');
+      expect(result.error?.details).toBe(
+        'Redirect to https://other.example/private/page is blocked by robots.txt for PageKeywordAnalyzer (Disallow: /private/)'
+      );
+      expect(mockFetch).not.toHaveBeenCalledWith('https://other.example/private/page', expect.anything());
+    });
+
+    it('should resolve relative links against the final URL of a redirected page', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        const moved = url === 'https://example.com/old/page';
+        return {
+          ok: !moved && !url.endsWith('robots.txt'),
+          status: moved ? 301 : url.endsWith('robots.txt') ? 404 : 200,
+          statusText: '',
+          headers: { get: (name: string) => (moved && name === 'location' ? 'https://www.example.com/docs/guide/' : null) },
+          text: async () => SAMPLE_HTML.replace('</body>', '<a href="intro">Intro</a><a href="/about">About</a></body>')
+        };
+      });
+
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/old/page', analysis_depth: 'basic' });
+      const links = result.data?.structured_on_page_data.links || [];
+
+      expect(result.data?.page_metadata.url).toBe('https://example.com/old/page');
+      expect(links.find(link => link.text === 'Intro')).toMatchObject({ href: 'https://www.example.com/docs/guide/intro', internal: true });
+      expect(links.find(link => link.text === 'About')).toMatchObject({ href: 'https://www.example.com/about', internal: true });
+    });
+  });
+
+  describe('indexability', () => {
+    it('should combine the X-Robots-Tag header and meta robots into the verdict', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: { get: (name: string) => (name === 'x-robots-tag' ? 'noindex' : null) },
+        text: jest.fn().mockResolvedValue(SAMPLE_HTML.replace('</head>', '<meta name="robots" content="nofollow"></head>'))
+      });
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'basic' });
+
+      expect(result.data?.http_analysis?.headers.x_robots_tag).toBe('noindex');
+      expect(result.data?.indexability?.verdict).toBe('non_indexable');
+      expect(result.data?.indexability?.effective_directives).toEqual(
+        expect.objectContaining({ noindex: true, nofollow: true })
+      );
+    });
+  });
+
+  describe('robots.txt', () => {
+    const serve = (robots: string) => {
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => (url.endsWith('/robots.txt') ? robots : SAMPLE_HTML)
+      }));
+    };
+
+    it('should refuse pages disallowed for the analyzer bot with a typed error', async () => {
+      serve('User-agent: *\nDisallow: /private/');
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/private/page', analysis_depth: 'basic' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.type).toBe('ROBOTS_BLOCKED');
+      expect(result.error?.details).toBe('Matched rule: Disallow: /private/');
+      expect(mockFetch).not.toHaveBeenCalledWith('https://example.com/private/page', expect.anything());
+    });
+
+    it('should report search engine rules as findings and send an honest User-Agent', async () => {
+      serve('User-agent: Googlebot\nDisallow: /web-development');
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'basic' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.robots_txt?.allowed).toBe(true);
+      expect(result.data?.robots_txt?.findings).toContain(
+        'This page is disallowed for Googlebot by robots.txt (Disallow: /web-development)'
+      );
+      const [, init] = mockFetch.mock.calls.find(([url]) => url === 'https://example.com/web-development')!;
+      expect(init.headers['User-Agent']).toMatch(/^PageKeywordAnalyzer\//);
+    });
+
+    it('should analyze a blocked page when robots.txt is explicitly ignored', async () => {
+      serve('User-agent: *\nDisallow: /');
+      const result = await analyzer.analyzeURL({
+        url: 'https://example.com/web-development',
+        analysis_depth: 'basic',
+        respect_robots_txt: false
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.robots_txt?.allowed).toBe(false);
+    });
+
+    it('should not follow a robots.txt redirect to a private address', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        const moved = url === 'https://example.com/robots.txt';
+        return {
+          ok: !moved,
+          status: moved ? 302 : 200,
+          statusText: '',
+          headers: { get: (name: string) => (moved && name === 'location' ? 'http://10.0.0.1/robots.txt' : null) },
+          text: async () => (moved ? '' : SAMPLE_HTML)
+        };
+      });
+      const result = await analyzer.analyzeURL({ url: 'https://example.com/web-development', analysis_depth: 'basic' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.robots_txt?.found).toBe(false);
+      expect(mockFetch).toHaveBeenCalledWith('https://example.com/robots.txt', expect.objectContaining({ redirect: 'manual' }));
+      expect(mockFetch).not.toHaveBeenCalledWith('http://10.0.0.1/robots.txt', expect.anything());
+    });
+
+    it('should fetch robots.txt once per origin', async () => {
+      serve('');
+      await analyzer.analyzeURL({ url: 'https://example.com/a', analysis_depth: 'basic' });
+      await analyzer.analyzeURL({ url: 'https://example.com/b', analysis_depth: 'basic' });
+
+      const robotsCalls = mockFetch.mock.calls.filter(([url]) => url === 'https://example.com/robots.txt');
+      expect(robotsCalls).toHaveLength(1);
+    });
+  });
+});
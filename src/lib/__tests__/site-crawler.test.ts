@@ -0,0 +1,203 @@
+/**
+ * @jest-environment node
+ *
+ * Site Crawler Test Suite
+ * Tests for multi-page crawling and site-level aggregation
+ */
+
+import { SEOAnalyzer } from '../seo-analyzer';
+import { SiteCrawler } from '../site-crawler';
+import { DocumentFrequencyStore } from '../document-frequency-store';
+
+const page = (title: string, description: string, body: string) => `
+  <html>
+    <head>
+      <title>${title}</title>
+      <meta name="description" content="${description}">
+    </head>
+    <body>${body}</body>
+  </html>
+`;
+
+const SITE: Record<string, string> = {
+  'https://example.com/': page(
+    'Example Home',
+    'Welcome to the example site',
+    `<h1>Web Development Guide for Beginners</h1>
+     <a href="/blog/seo-tips">SEO tips</a>
+     <a href="https://example.com/about#team">About</a>
+     <a href="https://other.com/">External</a>
+     <a href="https://blog.example.com/">Subdomain</a>
+     <a href="/brochure.pdf">Brochure</a>`
+  ),
+  'https://example.com/blog/seo-tips': page(
+    'Example Site',
+    'Shared description',
+    `<h1>Keyword Research Strategies</h1><a href="/blog/deep">Deeper</a>`
+  ),
+  'https://example.com/about': page('Example Site', 'Shared description', '<p>About us</p>'),
+  'https://example.com/blog/deep': page('Deep Page', 'Deep', '<h1>Deep</h1>')
+};
+
+const mockFetch = global.fetch as jest.Mock;
+
+describe('SiteCrawler', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => {
+      const html = SITE[url];
+      return {
+        ok: !!html,
+        status: html ? 200 : 404,
+        statusText: html ? 'OK' : 'Not Found',
+        text: async () => html || ''
+      };
+    });
+  });
+
+  it('should follow internal links up to the configured depth', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 });
+    const report = await crawler.crawl('https://example.com/');
+
+    const urls = report.pages.map(p => p.url);
+    expect(urls).toEqual([
+      'https://example.com/',
+      'https://example.com/blog/seo-tips',
+      'https://example.com/about'
+    ]);
+    expect(urls).not.toContain('https://example.com/blog/deep');
+    expect(mockFetch).not.toHaveBeenCalledWith('https://other.com/', expect.anything());
+    expect(mockFetch).not.toHaveBeenCalledWith('https://example.com/brochure.pdf', expect.anything());
+  });
+
+  it('should stop at the page budget', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 3, maxPages: 2 });
+    const report = await crawler.crawl('https://example.com/');
+
+    expect(report.pages).toHaveLength(2);
+    expect(report.max_pages).toBe(2);
+  });
+
+  it('should include subdomains only with same-domain scope', () => {
+    const hostCrawler = new SiteCrawler(new SEOAnalyzer(), { scope: 'same-host' });
+    const domainCrawler = new SiteCrawler(new SEOAnalyzer(), { scope: 'same-domain' });
+
+    expect(hostCrawler.isInScope('https://blog.example.com/', 'https://example.com/')).toBe(false);
+    expect(domainCrawler.isInScope('https://blog.example.com/', 'https://www.example.com/')).toBe(true);
+    expect(domainCrawler.isInScope('https://notexample.com/', 'https://example.com/')).toBe(false);
+  });
+
+  it('should scope the crawl to the seed\'s final URL and analyze redirect aliases once', async () => {
+    const redirects: Record<string, string> = {
+      'https://example.com/': 'https://www.example.com/',
+      'https://www.example.com/guide-old': 'https://www.example.com/guide'
+    };
+    const pages: Record<string, string> = {
+      'https://www.example.com/': page('Home', 'Home', '<a href="/guide">Guide</a><a href="/guide-old">Old guide</a><a href="/">Home</a>'),
+      'https://www.example.com/guide': page('Guide', 'Guide', '<h1>Guide</h1>')
+    };
+    mockFetch.mockImplementation(async (url: string) => {
+      const location = redirects[url];
+      const html = pages[url];
+      return {
+        ok: !!html,
+        status: location ? 301 : html ? 200 : 404,
+        statusText: '',
+        headers: { get: (name: string) => (name === 'location' ? location ?? null : null) },
+        text: async () => html || ''
+      };
+    });
+
+    const report = await new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 }).crawl('https://example.com/');
+
+    expect(report.pages.map(p => p.url)).toEqual(['https://example.com/', 'https://www.example.com/guide']);
+    expect(mockFetch).toHaveBeenCalledWith('https://www.example.com/guide-old', expect.anything());
+  });
+
+  it('should only queue links that pass the URL check', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), {
+      maxDepth: 1,
+      validateUrl: url => ({ isValid: !url.endsWith('/about'), message: 'Private/localhost URLs are not allowed' })
+    });
+    const report = await crawler.crawl('https://example.com/');
+
+    expect(report.pages.map(p => p.url)).toEqual(['https://example.com/', 'https://example.com/blog/seo-tips']);
+    expect(mockFetch).not.toHaveBeenCalledWith('https://example.com/about', expect.anything());
+  });
+
+  it('should aggregate duplicates and pages without primary keywords', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 });
+    const report = await crawler.crawl('https://example.com/');
+
+    expect(report.pages_analyzed).toBe(3);
+    expect(report.keyword_map).toHaveLength(3);
+    expect(report.duplicate_titles).toEqual([
+      { value: 'Example Site', urls: ['https://example.com/blog/seo-tips', 'https://example.com/about'] }
+    ]);
+    expect(report.duplicate_descriptions[0].urls).toHaveLength(2);
+    expect(report.pages_without_primary_keyword).toContain('https://example.com/about');
+  });
+
+  it('should cluster the keywords of all crawled pages', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 });
+    const report = await crawler.crawl('https://example.com/');
+    const crawled = report.pages.map(p => p.url);
+
+    expect(report.keyword_clusters).toMatchObject({ similarity: 'embedding', embedding_provider: 'hashed-ngram' });
+    report.keyword_clusters!.clusters.forEach(cluster => {
+      expect(cluster.keywords[0]).toBe(cluster.head_term);
+      cluster.urls.forEach(page => expect(crawled).toContain(page.url));
+    });
+  });
+
+  it('should report primary keywords shared by crawled pages', async () => {
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 });
+    const report = await crawler.crawl('https://example.com/');
+    const crawled = report.pages.map(p => p.url);
+
+    expect(report.keyword_cannibalization).toBeDefined();
+    report.keyword_cannibalization!.forEach(conflict => {
+      expect(conflict.pages.length).toBeGreaterThan(1);
+      expect(conflict.pages[0].url).toBe(conflict.suggested_winner);
+      conflict.pages.forEach(page => expect(crawled).toContain(page.url));
+    });
+  });
+
+  it('should add crawled pages to the corpus and save it once per crawl', async () => {
+    const save = jest.spyOn(DocumentFrequencyStore.prototype, 'save');
+    try {
+      const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1, analysisDepth: 'standard', project: 'crawl-batch' });
+      await crawler.crawl('https://example.com/');
+
+      expect((await DocumentFrequencyStore.open('crawl-batch')).documentCount).toBe(3);
+      expect(save).toHaveBeenCalledTimes(1);
+    } finally {
+      save.mockRestore();
+    }
+  });
+
+  it('should leave the corpus alone at basic depth', async () => {
+    const open = jest.spyOn(DocumentFrequencyStore, 'open');
+    try {
+      await new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 }).crawl('https://example.com/');
+      expect(open).not.toHaveBeenCalled();
+    } finally {
+      open.mockRestore();
+    }
+  });
+
+  it('should record failed pages without aborting the crawl', async () => {
+    const home = SITE['https://example.com/'] + '<a href="/missing">Missing</a>';
+    mockFetch.mockImplementation(async (url: string) => {
+      const html = url === 'https://example.com/' ? home : SITE[url];
+      return { ok: !!html, status: html ? 200 : 404, statusText: '', text: async () => html || '' };
+    });
+    const crawler = new SiteCrawler(new SEOAnalyzer(), { maxDepth: 1 });
+    const report = await crawler.crawl('https://example.com/');
+
+    const missing = report.pages.find(p => p.url === 'https://example.com/missing');
+    expect(missing?.success).toBe(false);
+    expect(missing?.error?.type).toBe('FETCH_ERROR');
+    expect(report.pages_failed).toBe(1);
+  });
+});
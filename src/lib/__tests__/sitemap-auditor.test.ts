@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ *
+ * Sitemap Auditor Test Suite
+ * Tests for sitemap parsing and per-URL sitemap auditing
+ */
+
+import { gzipSync } from 'zlib';
+import { SEOAnalyzer } from '../seo-analyzer';
+import { SitemapAuditor } from '../sitemap-auditor';
+import { SitemapParser } from '../sitemap-parser';
+import { validateUrlSecurity } from '../request-guards';
+import { config } from '@/config/environment';
+
+const URLSET = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>https://example.com/</loc>
+    <lastmod>2024-05-01</lastmod>
+    <priority>1.0</priority>
+  </url>
+  <url><loc>https://example.com/old-page</loc></url>
+  <url><loc>https://example.com/missing</loc></url>
+  <url><loc>https://example.com/print-version</loc><changefreq>weekly</changefreq></url>
+</urlset>`;
+
+const INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+</sitemapindex>`;
+
+const page = (title: string, head = '') => `
+  <html><head><title>${title}</title>${head}</head>
+  <body><h1>Keyword Research Strategies</h1></body></html>
+`;
+
+const mockFetch = global.fetch as jest.Mock;
+
+describe('SitemapParser', () => {
+  it('should parse url entries with lastmod, changefreq and priority', () => {
+    const parsed = new SitemapParser(URLSET).parse();
+
+    expect(parsed.type).toBe('urlset');
+    expect(parsed.entries).toHaveLength(4);
+    expect(parsed.entries[0]).toEqual({ loc: 'https://example.com/', lastmod: '2024-05-01', priority: 1 });
+    expect(parsed.entries[3].changefreq).toBe('weekly');
+  });
+
+  it('should list child sitemaps of a sitemap index', () => {
+    const parsed = new SitemapParser(INDEX).parse();
+
+    expect(parsed.type).toBe('sitemapindex');
+    expect(parsed.sitemaps).toEqual(['https://example.com/sitemap-pages.xml']);
+  });
+});
+
+describe('SitemapAuditor', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async (url: string) => {
+      const responses: Record<string, { body: string; url?: string }> = {
+        'https://example.com/sitemap_index.xml': { body: INDEX },
+        'https://example.com/sitemap-pages.xml': { body: URLSET },
+        'https://example.com/': { body: page('Home') },
+        'https://example.com/old-page': { body: '', url: 'https://example.com/new-page' },
+        'https://example.com/new-page': { body: page('New Page') },
+        'https://example.com/print-version': {
+          body: page('Print', '<link rel="canonical" href="/article">')
+        }
+      };
+      const match = responses[url];
+      const status = match?.url ? 301 : match ? 200 : 404;
+      return new Response(match?.body || '', { status, headers: match?.url ? { location: match.url } : {} });
+    });
+  });
+
+  it('should follow a sitemap index and keep lastmod/priority next to keywords', async () => {
+    const auditor = new SitemapAuditor(new SEOAnalyzer());
+    const report = await auditor.auditUrl('https://example.com/sitemap_index.xml');
+
+    expect(report.sitemaps_processed).toEqual([
+      'https://example.com/sitemap_index.xml',
+      'https://example.com/sitemap-pages.xml'
+    ]);
+    expect(report.urls_found).toBe(4);
+
+    const home = report.entries[0];
+    expect(home.lastmod).toBe('2024-05-01');
+    expect(home.priority).toBe(1);
+    expect(home.primary_keywords.length).toBeGreaterThan(0);
+    expect(home.issues).toEqual([]);
+  });
+
+  it('should flag redirects, errors and canonicals pointing elsewhere', async () => {
+    const auditor = new SitemapAuditor(new SEOAnalyzer());
+    const report = await auditor.auditXml(URLSET);
+    const issuesFor = (loc: string) =>
+      report.entries.find(entry => entry.loc === loc)?.issues.map(issue => issue.type);
+
+    expect(issuesFor('https://example.com/old-page')).toEqual(['redirect']);
+    expect(issuesFor('https://example.com/missing')).toEqual(['http_error']);
+    expect(issuesFor('https://example.com/print-version')).toEqual(['canonical_mismatch']);
+    expect(report.urls_with_issues).toBe(3);
+    expect(report.pages_failed).toBe(1);
+  });
+
+  it('should respect the URL budget and skip URLs rejected by the validator', async () => {
+    const auditor = new SitemapAuditor(new SEOAnalyzer(), {
+      maxUrls: 2,
+      validateUrl: url => url.endsWith('/old-page')
+        ? { isValid: false, message: 'Blocked' }
+        : { isValid: true, message: '' }
+    });
+    const report = await auditor.auditXml(URLSET);
+
+    expect(report.entries).toHaveLength(2);
+    expect(report.truncated).toBe(true);
+    expect(report.entries[1].issues).toEqual([{ type: 'blocked_url', message: 'Blocked' }]);
+    expect(mockFetch).not.toHaveBeenCalledWith('https://example.com/old-page', expect.anything());
+  });
+
+  it('should check every redirect of a sitemap download before following it', async () => {
+    const serve = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://example.com/sitemap.xml') return new Response('', { status: 301, headers: { location: '/sitemap-pages.xml' } });
+      if (url === 'https://example.com/internal.xml') {
+        return new Response('', { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data/' } });
+      }
+      return serve(url);
+    });
+    const auditor = new SitemapAuditor(new SEOAnalyzer(), { validateUrl: validateUrlSecurity });
+
+    expect((await auditor.auditUrl('https://example.com/sitemap.xml')).urls_found).toBe(4);
+    await expect(auditor.auditUrl('https://example.com/internal.xml')).rejects.toThrow(
+      'Redirect to http://169.254.169.254/latest/meta-data/ refused: Private/localhost URLs are not allowed'
+    );
+    expect(mockFetch).not.toHaveBeenCalledWith('http://169.254.169.254/latest/meta-data/', expect.anything());
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/sitemap.xml', expect.objectContaining({ redirect: 'manual' }));
+  });
+
+  it('should refuse sitemap downloads and gzipped sitemaps above the size limit', async () => {
+    jest.replaceProperty(config, 'maxSitemapBytes', 1024);
+    const large = URLSET.replace('</urlset>', `${' '.repeat(2048)}</urlset>`);
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('declared.xml')) return new Response(URLSET, { headers: { 'content-length': '5000000' } });
+      if (url.endsWith('.gz')) return new Response(new Uint8Array(gzipSync(large)));
+      return new Response(large);
+    });
+    const auditor = new SitemapAuditor(new SEOAnalyzer());
+
+    try {
+      await expect(auditor.auditUrl('https://example.com/declared.xml')).rejects.toThrow('Sitemap is larger than 1024 bytes');
+      await expect(auditor.auditUrl('https://example.com/streamed.xml')).rejects.toThrow('Sitemap is larger than 1024 bytes');
+      await expect(auditor.auditUrl('https://example.com/sitemap.xml.gz')).rejects.toThrow('Sitemap inflates to more than 1024 bytes');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should reject documents that are not sitemaps', async () => {
+    const auditor = new SitemapAuditor(new SEOAnalyzer());
+
+    await expect(auditor.auditXml('<html><body>Not a sitemap</body></html>')).rejects.toThrow(
+      'Document is not a sitemap or sitemap index'
+    );
+  });
+});
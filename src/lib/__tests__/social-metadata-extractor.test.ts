@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ *
+ * Social Metadata Extractor Test Suite
+ * Tests for Open Graph / Twitter Card parsing, validation and share previews
+ */
+
+import { load } from 'cheerio';
+import { SocialMetadataExtractor } from '../social-metadata-extractor';
+
+const URL = 'https://example.com/keyword-research';
+const TITLE = 'Keyword Research Strategies for 2024';
+const DESCRIPTION = 'A practical guide to keyword research strategies and tools.';
+
+const extract = (head: string) =>
+  new SocialMetadataExtractor(load(`<html><head>${head}</head><body></body></html>`), URL).extract(TITLE, DESCRIPTION);
+
+const COMPLETE = `
+  <meta property="og:title" content="Keyword Research Strategies">
+  <meta property="og:description" content="A practical guide to keyword research strategies.">
+  <meta property="og:type" content="article">
+  <meta property="og:url" content="https://example.com/keyword-research">
+  <meta property="og:image" content="https://example.com/share.png">
+  <meta property="og:image:width" content="1200">
+  <meta property="og:image:height" content="630">
+  <meta name="twitter:card" content="summary_large_image">
+`;
+
+describe('SocialMetadataExtractor', () => {
+  it('should parse og:* and twitter:* tags into typed blocks', () => {
+    const result = extract(COMPLETE + '<meta name="twitter:site" content="@example">');
+
+    expect(result.open_graph).toEqual({
+      title: 'Keyword Research Strategies',
+      description: 'A practical guide to keyword research strategies.',
+      type: 'article',
+      url: 'https://example.com/keyword-research',
+      image: { url: 'https://example.com/share.png', width: 1200, height: 630 }
+    });
+    expect(result.twitter).toEqual({ card: 'summary_large_image', site: '@example' });
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should build per-platform previews with X falling back to Open Graph', () => {
+    const result = extract(COMPLETE + '<meta name="twitter:title" content="Keyword research, explained">');
+    const [facebook, linkedin, x] = result.previews;
+
+    expect(facebook).toEqual({
+      platform: 'facebook',
+      title: 'Keyword Research Strategies',
+      description: 'A practical guide to keyword research strategies.',
+      image_url: 'https://example.com/share.png',
+      domain: 'example.com',
+      large_image: true
+    });
+    expect(linkedin.large_image).toBe(true);
+    expect(x.title).toBe('Keyword research, explained');
+    expect(x.image_url).toBe('https://example.com/share.png');
+  });
+
+  it('should flag missing images, relative URLs and undersized images', () => {
+    const missing = extract('<meta property="og:title" content="Keyword Research Strategies">');
+    const broken = extract(`
+      <meta property="og:image" content="/images/share.png">
+      <meta property="og:image:width" content="150">
+      <meta property="og:image:height" content="150">
+      <meta name="twitter:card" content="large">
+    `);
+
+    expect(missing.issues).toContainEqual(expect.objectContaining({ tag: 'og:image', severity: 'error' }));
+    expect(missing.previews[0].image_url).toBeUndefined();
+    expect(broken.issues).toEqual(expect.arrayContaining([
+      { tag: 'og:image', severity: 'error', message: 'og:image must be an absolute URL (got "/images/share.png")' },
+      { tag: 'og:image', severity: 'error', message: 'og:image is 150x150; the minimum is 200x200' },
+      expect.objectContaining({ tag: 'twitter:card', severity: 'error' })
+    ]));
+  });
+
+  it('should warn about undeclared dimensions, cropping and text that does not match the page', () => {
+    const undeclared = extract('<meta property="og:image" content="https://example.com/share.png">');
+    const mismatched = extract(`
+      <meta property="og:title" content="Summer Sale on Garden Furniture">
+      <meta property="og:image" content="https://example.com/square.png">
+      <meta property="og:image:width" content="1200">
+      <meta property="og:image:height" content="1200">
+    `);
+
+    expect(undeclared.issues.map(issue => issue.message)).toContain(
+      'og:image:width and og:image:height are not declared; the first share may render without an image'
+    );
+    expect(mismatched.issues.map(issue => issue.message)).toEqual(expect.arrayContaining([
+      `og:title "Summer Sale on Garden Furniture" does not match the page title "${TITLE}"`,
+      'og:image is 1200x1200 (1.00:1); large previews crop it to 1.91:1'
+    ]));
+  });
+});
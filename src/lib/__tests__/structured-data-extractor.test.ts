@@ -0,0 +1,141 @@
+/**
+ * @jest-environment node
+ *
+ * Structured Data Extractor Test Suite
+ * Tests for JSON-LD, Microdata and RDFa extraction and schema.org validation
+ */
+
+import { load } from 'cheerio';
+import { StructuredDataExtractor } from '../structured-data-extractor';
+
+const extract = (html: string) => new StructuredDataExtractor(load(html)).extract();
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe('StructuredDataExtractor', () => {
+  describe('JSON-LD', () => {
+    it('should flatten @graph and validate subtypes against their parent rules', () => {
+      const result = extract(jsonLd({
+        '@context': 'https://schema.org',
+        '@graph': [
+          {
+            '@type': 'BlogPosting',
+            headline: 'Keyword Research Strategies',
+            author: { '@type': 'Person', name: 'Jane Doe' },
+            datePublished: '2024-05-01'
+          },
+          { '@type': 'Organization', name: 'Acme Inc', url: 'https://acme.example' }
+        ]
+      }));
+
+      expect(result.formats_found).toEqual(['json-ld']);
+      expect(result.entities.map(entity => [entity.type, entity.validated_as, entity.is_valid])).toEqual([
+        ['BlogPosting', 'Article', true],
+        ['Organization', 'Organization', true]
+      ]);
+      expect(result.entities[0].missing_recommended).toEqual(['image', 'dateModified', 'publisher']);
+      expect(result.entities[0].properties['@context']).toBeUndefined();
+    });
+
+    it('should report invalid JSON and tolerate comment-wrapped blocks', () => {
+      const result = extract(`
+        <script type="application/ld+json">{ "@type": "Article", </script>
+        <script type="application/ld+json"><!-- {"@type": "Organization", "name": "Acme"} --></script>
+      `);
+
+      expect(result.parse_errors).toHaveLength(1);
+      expect(result.parse_errors[0]).toMatch(/^JSON-LD block 1 is not valid JSON/);
+      expect(result.entities.map(entity => entity.name)).toEqual(['Acme']);
+    });
+
+    it('should check required properties, including nested FAQ and breadcrumb items', () => {
+      const result = extract(
+        jsonLd({ '@type': 'Product', name: 'Widget' }) +
+        jsonLd({
+          '@type': 'FAQPage',
+          mainEntity: [
+            { '@type': 'Question', name: 'What is SEO?', acceptedAnswer: { '@type': 'Answer', text: 'Search optimization.' } },
+            { '@type': 'Question', name: 'Why bother?' }
+          ]
+        }) +
+        jsonLd({
+          '@type': 'BreadcrumbList',
+          itemListElement: [
+            { '@type': 'ListItem', position: 1, name: 'Home' },
+            { '@type': 'ListItem', position: 2, name: 'Guide' }
+          ]
+        })
+      );
+      const [product, faq, breadcrumbs] = result.entities;
+
+      expect(product.missing_required).toEqual(['offers|review|aggregateRating']);
+      expect(faq.missing_required).toEqual(['mainEntity[1].acceptedAnswer.text']);
+      expect(breadcrumbs.missing_required).toEqual(['itemListElement[0].item']);
+      expect(result.entities.every(entity => !entity.is_valid)).toBe(true);
+    });
+  });
+
+  describe('Microdata and RDFa', () => {
+    it('should read nested Microdata items and element values', () => {
+      const result = extract(`
+        <div itemscope itemtype="https://schema.org/Restaurant">
+          <h1 itemprop="name">Luigi's Pizzeria</h1>
+          <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+            <span itemprop="addressLocality">Springfield</span>
+          </div>
+          <a itemprop="url" href="https://luigis.example">Website</a>
+          <meta itemprop="priceRange" content="$$">
+        </div>
+      `);
+      const [restaurant] = result.entities;
+
+      expect(restaurant.format).toBe('microdata');
+      expect(restaurant.validated_as).toBe('LocalBusiness');
+      expect(restaurant.properties).toEqual({
+        '@type': 'Restaurant',
+        name: "Luigi's Pizzeria",
+        address: { '@type': 'PostalAddress', addressLocality: 'Springfield' },
+        url: 'https://luigis.example',
+        priceRange: '$$'
+      });
+      expect(restaurant.is_valid).toBe(true);
+    });
+
+    it('should read RDFa resources with prefixed types and properties', () => {
+      const result = extract(`
+        <div vocab="https://schema.org/" typeof="schema:Product">
+          <span property="schema:name">Trail Shoe</span>
+          <div property="offers" typeof="Offer"><span property="price">89.00</span></div>
+        </div>
+      `);
+
+      expect(result.formats_found).toEqual(['rdfa']);
+      expect(result.entities[0].type).toBe('Product');
+      expect(result.entities[0].properties.offers).toEqual({ '@type': 'Offer', price: '89.00' });
+      expect(result.entities[0].is_valid).toBe(true);
+    });
+  });
+
+  describe('toEntityExtraction', () => {
+    it('should sort named entities into EntityExtraction buckets', () => {
+      const { entities } = extract(
+        jsonLd({
+          '@type': 'Article',
+          headline: 'Review',
+          author: 'Jane Doe',
+          publisher: { '@type': 'Organization', name: 'Acme Inc' },
+          about: { '@type': 'Product', name: 'Trail Shoe', brand: 'Acme Inc' }
+        }) +
+        jsonLd({ '@type': 'Store', name: 'Acme Outlet', address: { '@type': 'PostalAddress', addressLocality: 'Springfield' } })
+      );
+
+      expect(StructuredDataExtractor.toEntityExtraction(entities)).toEqual({
+        people: ['Jane Doe'],
+        organizations: ['Acme Inc', 'Acme Outlet'],
+        locations: ['Springfield'],
+        products: ['Trail Shoe'],
+        technologies: []
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ *
+ * Text Processor Test Suite
+ * Tests for n-gram language detection and language-specific tokenization, stop words and stemming
+ */
+
+import { LanguageDetector } from '../language-detector';
+import { TextProcessor } from '../text-processor';
+import { SEOAnalyzer } from '../seo-analyzer';
+import { getLanguageProfile } from '@/config/language-profiles';
+
+const SAMPLES: Record<string, string> = {
+  en: 'The best way to plan a garden is to start with the soil and the light. This guide explains how you can choose plants that will grow well in your climate.',
+  es: 'La mejor forma de planificar un jardín es empezar por el suelo y la luz. Esta guía explica cómo elegir las plantas que crecen bien en su clima.',
+  de: 'Die beste Art, einen Garten zu planen, beginnt mit dem Boden und dem Licht. Diese Anleitung erklärt, wie Sie Pflanzen auswählen, die in Ihrem Klima gut wachsen.',
+  fr: 'La meilleure façon de planifier un jardin est de commencer par le sol et la lumière. Ce guide explique comment choisir des plantes qui poussent bien sous votre climat.',
+  pt: 'A melhor maneira de planejar um jardim é começar pelo solo e pela luz. Este guia explica como escolher plantas que crescem bem no seu clima.',
+  it: 'Il modo migliore per progettare un giardino è partire dal terreno e dalla luce. Questa guida spiega come scegliere le piante che crescono bene nel tuo clima.'
+};
+
+describe('LanguageDetector n-gram profiles', () => {
+  it.each(Object.entries(SAMPLES))('should detect %s', (language, text) => {
+    const detected = new LanguageDetector(text).detect();
+    expect(detected?.language).toBe(language);
+    expect(detected?.confidence).toBeGreaterThan(0.2);
+  });
+
+  it('should rank every supported language and skip text that is too short', () => {
+    expect(new LanguageDetector(SAMPLES.pt).rank()).toHaveLength(7);
+    expect(new LanguageDetector('Jardín').rank()).toEqual([]);
+  });
+});
+
+describe('TextProcessor', () => {
+  it('should resolve BCP 47 tags and fall back to English', () => {
+    expect(new TextProcessor('pt-BR').language).toBe('pt');
+    expect(new TextProcessor('ja').language).toBe('en');
+    expect(getLanguageProfile('de_AT')?.name).toBe('German');
+  });
+
+  it('should prefer the detected language over the declared one, unless detection is unsure', () => {
+    expect(TextProcessor.forContent(SAMPLES.es, 'en').language).toBe('es');
+    expect(TextProcessor.forContent('Jardín', 'fr').language).toBe('fr');
+  });
+
+  it('should tokenize accented words and strip elided articles and possessives', () => {
+    expect(new TextProcessor('fr').tokenize("L'analyse d'un site, jusqu'à l’été")).toEqual(['analyse', 'un', 'site', 'à', 'été']);
+    expect(new TextProcessor('it').tokenize("Dell'arte e l'ottimizzazione")).toEqual(['arte', 'e', 'ottimizzazione']);
+    expect(new TextProcessor('en').tokenize("Google's e-commerce guide (2024)")).toEqual(['google', 'e-commerce', 'guide', '2024']);
+    expect(new TextProcessor('de').tokenize('Größe der Übersicht')).toEqual(['größe', 'der', 'übersicht']);
+  });
+
+  it('should use the stop words of the language', () => {
+    const spanish = new TextProcessor('es');
+    expect(['los', 'para', 'también'].every(word => spanish.isStopWord(word))).toBe(true);
+    expect(spanish.isStopWord('jardín')).toBe(false);
+    expect(new TextProcessor('de').isStopWord('und')).toBe(true);
+    expect(new TextProcessor('en').isStopWord('und')).toBe(false);
+  });
+
+  it('should stem words and phrases with the language stemmer', () => {
+    expect(new TextProcessor('en').stem('gardening tools')).toBe('garden tool');
+    expect(new TextProcessor('es').stem('jardines')).toBe(new TextProcessor('es').stem('jardín'));
+    expect(new TextProcessor('de').stem('häuser')).toBe('haus');
+    expect(new TextProcessor('fr').stem('analyses')).toBe(new TextProcessor('fr').stem('analyse'));
+  });
+});
+
+describe('Non-English keyword inference', () => {
+  it('should not return Spanish function words as keywords', async () => {
+    const html = `
+      <html lang="es"><head><title>Guía de jardinería para principiantes</title>
+      <meta name="description" content="Cómo planificar un jardín con las plantas y las herramientas para el primer año"></head>
+      <body><main>
+        <h1>Cómo planificar un jardín para principiantes</h1>
+        <h2>Las mejores plantas para un jardín pequeño</h2>
+        <p>${SAMPLES.es} También explicamos qué herramientas de jardinería son útiles para los principiantes.</p>
+      </main></body></html>
+    `;
+    const response = await new SEOAnalyzer().analyzeHTML(html, 'https://example.es/guia-de-jardineria', { analysis_depth: 'standard' });
+    const data = response.data!;
+    const spanish = new TextProcessor('es');
+
+    expect(data.structured_on_page_data.content_language).toBe('es');
+    expect(data.structured_on_page_data.url_analysis.keywords).toEqual(['guia', 'guia jardineria', 'jardineria']);
+
+    const headingKeywords = data.structured_on_page_data.headings_and_keywords.flatMap(heading => heading.keywords);
+    expect(headingKeywords).toContain('jardín');
+    expect(headingKeywords.some(keyword => keyword.split(' ').some(word => spanish.isStopWord(word)))).toBe(false);
+
+    const inferred = [...data.inferred_keywords.primary.keywords, ...data.inferred_keywords.secondary.keywords].map(keyword => keyword.term);
+    expect(inferred.filter(term => spanish.isStopWord(term))).toEqual([]);
+    expect(data.semantic_analysis.top_frequent_terms.filter(term => spanish.isStopWord(term.keyword))).toEqual([]);
+  });
+});
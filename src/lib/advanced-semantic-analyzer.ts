@@ -1,6 +1,6 @@
 /**
  * Advanced Semantic Analysis Engine
- * Enhanced NLP processing with E-E-A-T scoring, query fan-out optimization, and advanced entity extraction
+ * Enhanced NLP processing with E-E-A-T scoring, query fan-out optimization, and statistical entity recognition
  */
 
 import { 
@@ -8,8 +8,17 @@ import {
   EntityExtraction, 
   SemanticRelationship, 
   FrequentTerm,
-  CoreTopicAnalysis
+  CoreTopicAnalysis,
+  EntityBucket,
+  EntityType,
+  LinkedEntity
 } from '@/types/seo-analysis';
+import { DocumentFrequencyStore } from './document-frequency-store';
+import { EmbeddingIndex } from './embedding-provider';
+import { KeywordNormalizer } from './keyword-normalizer';
+import { KnowledgeBase } from './knowledge-base';
+import { ENTITY_BUCKETS, NamedEntityRecognizer } from './named-entity-recognizer';
+import { TextProcessor } from './text-processor';
 
 interface EEATScore {
   expertise: number;
@@ -31,9 +40,17 @@ interface QueryFanOutAnalysis {
   }>;
 }
 
+export interface SemanticAnalysisOptions {
+  includeEEAT?: boolean;
+  includeQueryFanOut?: boolean;
+  corpus?: DocumentFrequencyStore; // IDF source; without one terms are ranked by frequency alone
+  knowledgeBase?: KnowledgeBase; // Links extracted entities to IDs; without one entities stay unlinked
+  embeddings?: EmbeddingIndex; // Vectors for getEmbeddingTexts(); without them co-occurrence is counted per sentence
+}
+
 interface AdvancedSemanticAnalysis extends ContentSemanticAnalysis {
-  eeat_score: EEATScore;
-  query_fan_out: QueryFanOutAnalysis;
+  eeat_score?: EEATScore;
+  query_fan_out?: QueryFanOutAnalysis;
   content_quality_score: number;
   topical_authority_score: number;
   user_intent_signals: {
@@ -46,36 +63,49 @@ interface AdvancedSemanticAnalysis extends ContentSemanticAnalysis {
 
 export class AdvancedSemanticAnalyzer {
   private content: string;
+  private originalContent: string;
   private headings: Array<{ text: string; keywords: string[] }>;
   private urlKeywords: string[];
   private metaKeywords: string[];
+  private knownEntities?: EntityExtraction;
+  private recognizedEntities?: EntityExtraction;
+  private textProcessor: TextProcessor;
+  private normalizer: KeywordNormalizer;
 
   constructor(
     content: string,
     headings: Array<{ text: string; keywords: string[] }>,
     urlKeywords: string[],
-    metaKeywords: string[]
+    metaKeywords: string[],
+    knownEntities?: EntityExtraction, // e.g. declared in the page's structured data
+    language?: string // Content language; detected from the content when omitted
   ) {
     this.content = content.toLowerCase();
+    this.originalContent = content;
     this.headings = headings;
     this.urlKeywords = urlKeywords;
     this.metaKeywords = metaKeywords;
+    this.knownEntities = knownEntities;
+    this.textProcessor = language ? new TextProcessor(language) : TextProcessor.forContent(content);
+    this.normalizer = new KeywordNormalizer(this.textProcessor.language);
   }
 
   /**
    * Perform comprehensive advanced semantic analysis
+   * E-E-A-T scoring and query fan-out can be skipped for cheaper runs
    */
-  analyzeSemantics(): AdvancedSemanticAnalysis {
-    const coreTopicAnalysis = this.analyzeCoreTopic();
+  analyzeSemantics(options: SemanticAnalysisOptions = {}): AdvancedSemanticAnalysis {
+    const { includeEEAT = true, includeQueryFanOut = true, corpus, knowledgeBase, embeddings } = options;
+    const coreTopicAnalysis = this.analyzeCoreTopic(knowledgeBase);
     const entityExtraction = this.extractEntities();
-    const semanticRelationships = this.mapSemanticRelationships();
-    const topFrequentTerms = this.analyzeTermFrequency();
+    const semanticRelationships = this.mapSemanticRelationships(embeddings);
+    const topFrequentTerms = this.analyzeTermFrequency(corpus);
     const readabilityScore = this.calculateReadabilityScore();
     const contentTopics = this.identifyContentTopics();
-    const eeatScore = this.calculateEEATScore();
-    const queryFanOut = this.analyzeQueryFanOut();
+    const eeatScore = includeEEAT ? this.calculateEEATScore() : undefined;
+    const queryFanOut = includeQueryFanOut ? this.analyzeQueryFanOut() : undefined;
     const contentQualityScore = this.calculateContentQualityScore();
-    const topicalAuthorityScore = this.calculateTopicalAuthorityScore();
+    const topicalAuthorityScore = this.calculateTopicalAuthorityScore(embeddings);
     const userIntentSignals = this.analyzeUserIntentSignals();
 
     return {
@@ -89,166 +119,55 @@ export class AdvancedSemanticAnalyzer {
       query_fan_out: queryFanOut,
       content_quality_score: contentQualityScore,
       topical_authority_score: topicalAuthorityScore,
-      user_intent_signals: userIntentSignals
-    };
-  }
-
-  /**
-   * Enhanced entity extraction with advanced NLP techniques
-   */
-  private extractEntities(): EntityExtraction {
-    return {
-      people: this.extractPeople(),
-      organizations: this.extractOrganizations(),
-      locations: this.extractLocations(),
-      products: this.extractProducts(),
-      technologies: this.extractTechnologies()
+      user_intent_signals: userIntentSignals,
+      ...(corpus && { tf_idf_corpus: corpus.getStats() }),
+      ...(embeddings && { embedding_provider: embeddings.provider })
     };
   }
 
   /**
-   * Extract people names with advanced patterns
-   */
-  private extractPeople(): string[] {
-    const peoplePatterns = [
-      /^[A-Z][a-z]+ [A-Z][a-z]+$/, // First Last
-      /^[A-Z]\. [A-Z][a-z]+$/, // F. Last
-      /^[A-Z][a-z]+ [A-Z]\. [A-Z][a-z]+$/, // First M. Last
-      /^Dr\. [A-Z][a-z]+ [A-Z][a-z]+$/, // Dr. First Last
-      /^Prof\. [A-Z][a-z]+ [A-Z][a-z]+$/ // Prof. First Last
-    ];
-
-    const people: string[] = [];
-    const sentences = this.content.split(/[.!?]+/);
-
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const potentialName = `${words[i]} ${words[i + 1]}`;
-        if (peoplePatterns.some(pattern => pattern.test(potentialName))) {
-          people.push(potentialName);
-        }
-      }
-    });
-
-    return [...new Set(people)];
-  }
-
-  /**
-   * Extract organization names with enhanced patterns
+   * Keywords and the sentences they appear in, to embed before analyzeSemantics() is given the vectors
    */
-  private extractOrganizations(): string[] {
-    const orgKeywords = [
-      'inc', 'corp', 'llc', 'ltd', 'company', 'corporation', 'enterprise', 
-      'group', 'systems', 'solutions', 'technologies', 'services', 'consulting',
-      'associates', 'partners', 'holdings', 'international', 'global', 'worldwide'
-    ];
-    const organizations: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (orgKeywords.includes(word)) {
-          const potentialOrg = words.slice(Math.max(0, i - 3), i + 1).join(' ');
-          if (potentialOrg.length > 5) {
-            organizations.push(potentialOrg);
-          }
-        }
-      }
-    });
-
-    return [...new Set(organizations)];
+  getEmbeddingTexts(): string[] {
+    const keywords = this.getAllKeywords();
+    return [...keywords, ...keywords.flatMap(keyword => this.getContextSentences(keyword))];
   }
 
   /**
-   * Extract location names with geographic indicators
+   * Typed entities found by the named-entity recognizer in the original-case content
    */
-  private extractLocations(): string[] {
-    const locationKeywords = [
-      'city', 'state', 'country', 'street', 'avenue', 'road', 'boulevard', 
-      'park', 'square', 'plaza', 'district', 'region', 'province', 'county',
-      'nation', 'continent', 'island', 'peninsula', 'valley', 'mountain'
-    ];
-    const locations: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (locationKeywords.includes(word)) {
-          const potentialLocation = words.slice(Math.max(0, i - 2), i + 1).join(' ');
-          if (potentialLocation.length > 4) {
-            locations.push(potentialLocation);
-          }
-        }
-      }
-    });
-
-    return [...new Set(locations)];
-  }
-
-  /**
-   * Extract product names with version patterns
-   */
-  private extractProducts(): string[] {
-    const productKeywords = [
-      'model', 'version', 'series', 'pro', 'max', 'mini', 'plus', 'edition',
-      'premium', 'standard', 'basic', 'advanced', 'professional', 'enterprise'
-    ];
-    const products: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (productKeywords.includes(word)) {
-          const potentialProduct = words.slice(Math.max(0, i - 2), i + 1).join(' ');
-          if (potentialProduct.length > 4) {
-            products.push(potentialProduct);
-          }
-        }
-      }
-    });
-
-    return [...new Set(products)];
+  private extractEntities(): EntityExtraction {
+    this.recognizedEntities ??= new NamedEntityRecognizer().extract(this.originalContent);
+    return this.knownEntities ? this.mergeKnownEntities(this.recognizedEntities) : this.recognizedEntities;
   }
 
   /**
-   * Extract technology terms with comprehensive coverage
+   * Put known entities first, dropping extracted duplicates that differ only in case
    */
-  private extractTechnologies(): string[] {
-    const techKeywords = [
-      'api', 'javascript', 'python', 'react', 'vue', 'angular', 'node', 'php', 'java', 'c++', 'c#',
-      'html', 'css', 'sql', 'mongodb', 'mysql', 'postgresql', 'redis', 'docker', 'kubernetes',
-      'aws', 'azure', 'gcp', 'machine learning', 'ai', 'artificial intelligence', 'blockchain',
-      'typescript', 'graphql', 'rest', 'microservices', 'serverless', 'devops', 'ci/cd',
-      'react native', 'flutter', 'swift', 'kotlin', 'rust', 'go', 'ruby', 'scala'
-    ];
+  private mergeKnownEntities(extracted: EntityExtraction): EntityExtraction {
+    const merged = { ...extracted };
 
-    const technologies: string[] = [];
-    techKeywords.forEach(tech => {
-      if (this.content.includes(tech.toLowerCase())) {
-        technologies.push(tech);
-      }
+    Object.values(ENTITY_BUCKETS).forEach(bucket => {
+      const known = this.knownEntities?.[bucket] || [];
+      const seen = new Set(known.map(entity => entity.toLowerCase()));
+      merged[bucket] = [...known, ...extracted[bucket].filter(entity => !seen.has(entity.toLowerCase()))];
     });
 
-    return [...new Set(technologies)];
+    return merged;
   }
 
   /**
    * Map semantic relationships with enhanced scoring
    */
-  private mapSemanticRelationships(): SemanticRelationship[] {
+  private mapSemanticRelationships(embeddings?: EmbeddingIndex): SemanticRelationship[] {
     const relationships: SemanticRelationship[] = [];
     const allKeywords = this.getAllKeywords();
     
     allKeywords.forEach(keyword => {
-      const coOccurrenceScore = this.calculateCoOccurrenceScore(keyword);
       const contextSentences = this.getContextSentences(keyword);
+      const coOccurrenceScore = embeddings
+        ? this.calculateEmbeddingCoOccurrenceScore(keyword, contextSentences, embeddings)
+        : this.calculateCoOccurrenceScore(keyword);
       const relationshipType = this.determineRelationshipType(keyword);
       
       relationships.push({
@@ -266,26 +185,25 @@ export class AdvancedSemanticAnalyzer {
   /**
    * Analyze term frequency with advanced TF-IDF scoring
    */
-  private analyzeTermFrequency(): FrequentTerm[] {
-    const wordCounts = new Map<string, number>();
-    const words = this.content.split(/\s+/).filter(word => word.length > 2);
-    
-    words.forEach(word => {
-      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
-    });
+  private analyzeTermFrequency(corpus?: DocumentFrequencyStore): FrequentTerm[] {
+    const words = this.textProcessor.tokenize(this.content)
+      .filter(word => word.length > 2 && !this.isStopWord(word));
 
     const totalWords = words.length;
     const frequentTerms: FrequentTerm[] = [];
 
-    wordCounts.forEach((count, keyword) => {
+    // Variants such as "tip" and "tips" are counted together under their most frequent form
+    this.normalizer.group(words).forEach(({ key, canonical: keyword, variants, count }) => {
       const normalizedFrequency = count / totalWords;
-      const tfIdfScore = this.calculateAdvancedTFIDF(keyword, count, totalWords);
+      const idf = corpus ? corpus.inverseDocumentFrequency(key) : 1;
+      const tfIdfScore = this.calculateAdvancedTFIDF(keyword, count, totalWords, idf);
       
       frequentTerms.push({
         keyword,
         count,
         normalized_frequency: normalizedFrequency,
-        tf_idf_score: tfIdfScore
+        tf_idf_score: tfIdfScore,
+        ...(variants.length > 1 && { variants })
       });
     });
 
@@ -295,11 +213,10 @@ export class AdvancedSemanticAnalyzer {
   }
 
   /**
-   * Calculate advanced TF-IDF with normalization
+   * Calculate advanced TF-IDF with normalization; the IDF comes from the project corpus
    */
-  private calculateAdvancedTFIDF(term: string, termFreq: number, totalTerms: number): number {
+  private calculateAdvancedTFIDF(term: string, termFreq: number, totalTerms: number, idf: number): number {
     const tf = termFreq / totalTerms;
-    const idf = Math.log(totalTerms / termFreq);
     
     // Apply length normalization (shorter terms get slight boost)
     const lengthBonus = term.length <= 5 ? 1.1 : 1.0;
@@ -395,7 +312,7 @@ export class AdvancedSemanticAnalyzer {
     let score = 0;
     
     // Technical terms and jargon
-    const technicalTerms = this.extractTechnologies();
+    const technicalTerms = this.extractEntities().technologies;
     score += Math.min(technicalTerms.length * 5, 30);
     
     // Professional language indicators
@@ -715,7 +632,7 @@ export class AdvancedSemanticAnalyzer {
     
     // Entity diversity bonus
     const entities = this.extractEntities();
-    const entityCount = Object.values(entities).reduce((sum, arr) => sum + arr.length, 0);
+    const entityCount = Object.values(ENTITY_BUCKETS).reduce((sum, bucket) => sum + entities[bucket].length, 0);
     score += Math.min(entityCount * 0.5, 20); // Max 20 points for entity diversity
     
     return Math.min(score, 100);
@@ -724,7 +641,7 @@ export class AdvancedSemanticAnalyzer {
   /**
    * Calculate topical authority score
    */
-  private calculateTopicalAuthorityScore(): number {
+  private calculateTopicalAuthorityScore(embeddings?: EmbeddingIndex): number {
     let score = 0;
     
     // Keyword density and relevance
@@ -735,7 +652,7 @@ export class AdvancedSemanticAnalyzer {
     });
     
     // Semantic relationship strength
-    const relationships = this.mapSemanticRelationships();
+    const relationships = this.mapSemanticRelationships(embeddings);
     const avgCoOccurrence = relationships.reduce((sum, rel) => sum + rel.co_occurrence_score, 0) / relationships.length;
     score += avgCoOccurrence * 30;
     
@@ -878,6 +795,22 @@ export class AdvancedSemanticAnalyzer {
     return coOccurrenceCount / sentences.length;
   }
 
+  /**
+   * Mean embedding similarity of a keyword to the page's other keywords and to the sentences it appears in
+   */
+  private calculateEmbeddingCoOccurrenceScore(keyword: string, contextSentences: string[], embeddings: EmbeddingIndex): number {
+    const mean = (texts: string[]) => {
+      const similarities = texts
+        .map(text => embeddings.similarity(keyword, text))
+        .filter((similarity): similarity is number => similarity !== undefined);
+      return similarities.length > 0 ? similarities.reduce((sum, similarity) => sum + similarity, 0) / similarities.length : undefined;
+    };
+
+    const scores = [mean(this.getAllKeywords().filter(k => k !== keyword)), mean(contextSentences)]
+      .filter((score): score is number => score !== undefined);
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  }
+
   private getContextSentences(keyword: string): string[] {
     const sentences = this.content.split(/[.!?]+/);
     const contextSentences: string[] = [];
@@ -961,7 +894,7 @@ export class AdvancedSemanticAnalyzer {
   /**
    * Analyze core topic and related entities
    */
-  private analyzeCoreTopic(): CoreTopicAnalysis {
+  private analyzeCoreTopic(knowledgeBase?: KnowledgeBase): CoreTopicAnalysis {
     const mainTopic = this.identifyMainTopic();
     const inferredEntities = this.extractEntities();
     const coOccurringTerms = this.findCoOccurringTerms(mainTopic);
@@ -977,12 +910,37 @@ export class AdvancedSemanticAnalyzer {
         organizations: inferredEntities.organizations,
         locations: inferredEntities.locations,
         products: inferredEntities.products,
-        technologies: inferredEntities.technologies
+        technologies: inferredEntities.technologies,
+        ...(knowledgeBase && { linked: this.linkEntities(knowledgeBase) })
       },
       co_occurring_terms: coOccurringTerms
     };
   }
 
+  /**
+   * Link extracted entities to the knowledge base, disambiguated by the sentences that mention them;
+   * recognized entities get the linked ID as kb_id
+   */
+  private linkEntities(knowledgeBase: KnowledgeBase): LinkedEntity[] {
+    const entities = this.extractEntities();
+    const linked = new Map<string, LinkedEntity | undefined>();
+    const link = (name: string, type: EntityType) => {
+      const key = name.toLowerCase();
+      if (!linked.has(key)) linked.set(key, knowledgeBase.link(name, type, this.getContextSentences(key)));
+      return linked.get(key);
+    };
+
+    entities.entities?.forEach(entity => {
+      const linkedEntity = link(entity.text, entity.type);
+      if (linkedEntity) entity.kb_id = linkedEntity.id;
+    });
+    (Object.entries(ENTITY_BUCKETS) as Array<[EntityType, EntityBucket]>).forEach(([type, bucket]) => {
+      entities[bucket].forEach(name => link(name, type));
+    });
+
+    return [...linked.values()].filter((entity): entity is LinkedEntity => !!entity);
+  }
+
   /**
    * Identify the main topic of the content
    */
@@ -1050,15 +1008,9 @@ export class AdvancedSemanticAnalyzer {
   }
 
   /**
-   * Check if word is a stop word
+   * Check if word is a stop word in the content language
    */
   private isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these',
-      'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them'
-    ]);
-    return stopWords.has(word);
+    return this.textProcessor.isStopWord(word);
   }
 }
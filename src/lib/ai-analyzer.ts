@@ -4,6 +4,7 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LinkAnalyzer } from './link-analyzer';
 import { 
   SEOAnalysisResult, 
   GeminiAnalysis, 
@@ -14,6 +15,8 @@ import {
   AuthorityRecommendation
 } from '@/types/seo-analysis';
 import { BERTKeywordOptimizer } from './bert-keyword-optimizer';
+import { loadEmbeddingProvider } from './embedding-provider';
+import { ENTITY_BUCKETS } from './named-entity-recognizer';
 
 export class AIAnalyzer {
   private genAI: GoogleGenerativeAI;
@@ -37,8 +40,8 @@ export class AIAnalyzer {
    */
   async analyzeSEO(analysisData: SEOAnalysisResult): Promise<GeminiAnalysis> {
     try {
-      // Initialize BERT keyword optimizer
-      const bertOptimizer = new BERTKeywordOptimizer(analysisData);
+      // Initialize BERT keyword optimizer with the local embedding model for similarity scores
+      const bertOptimizer = new BERTKeywordOptimizer(analysisData, await loadEmbeddingProvider());
       
       // Generate optimized keywords and meta description
       const [optimizedKeywords, optimizedMetaDescription] = await Promise.all([
@@ -662,7 +665,7 @@ Provide actionable, data-driven recommendations that will improve search ranking
    */
   private calculateSemanticDensity(data: SEOAnalysisResult): number {
     const entities = data.semantic_analysis.entity_extraction;
-    const entityCount = Object.values(entities).flat().length;
+    const entityCount = Object.values(ENTITY_BUCKETS).flatMap(bucket => entities[bucket]).length;
     const wordCount = data.structured_on_page_data.word_count;
     
     return Math.min(1.0, entityCount / (wordCount / 100));
@@ -793,7 +796,8 @@ ${JSON.stringify({
   core_topic: data.semantic_analysis.core_topic_analysis,
   eeat_score: data.semantic_analysis.eeat_score,
   query_fan_out: data.semantic_analysis.query_fan_out,
-  headings: data.structured_on_page_data.headings_and_keywords.slice(0, 10)
+  headings: data.structured_on_page_data.headings_and_keywords.slice(0, 10),
+  internal_pages: LinkAnalyzer.getInternalPages(data.structured_on_page_data.links || [], data.page_metadata.url)
 }, null, 2)}
 \`\`\`
 
@@ -833,6 +837,7 @@ ${JSON.stringify({
 ## TASK 4: INTERNAL LINK STRATEGY (internal_link_boost_plan)
 **Requirements:**
 - Suggest 3 high-authority pages on the same domain that should link to this article
+- Prefer real pages from internal_pages (linked from this page) over generic page types
 - For each suggestion, provide: 
   - Source page type (e.g., "Homepage", "Category: [Topic]", "High-Traffic Article: [Title]")
   - Exact anchor text to use (keyword-rich but natural)
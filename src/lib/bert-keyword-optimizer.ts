@@ -11,12 +11,17 @@ import {
   BERTContextAnalysis,
   SearchVolumePotential
 } from '@/types/seo-analysis';
+import { EmbeddingIndex, EmbeddingProvider } from './embedding-provider';
+import { KeywordNormalizer } from './keyword-normalizer';
+import { ENTITY_BUCKETS } from './named-entity-recognizer';
 
 export class BERTKeywordOptimizer {
   private analysisData: SEOAnalysisResult;
   private content: string;
   private title: string;
   private metaDescription: string;
+  private normalizer: KeywordNormalizer;
+  private embeddingProvider?: EmbeddingProvider;
   // Selection thresholds tuned for AI Overview + SEO relevance
   private MIN_CONTEXTUAL_RELEVANCE = 0.65; // 65%+
   private MIN_ESTIMATED_SEARCHES = 2000;   // US SV minimum (requested)
@@ -41,11 +46,13 @@ export class BERTKeywordOptimizer {
     'philippine','women','dating' // avoid ultra-generic single tokens; we prefer phrases like "filipina dating"
   ]);
 
-  constructor(analysisData: SEOAnalysisResult) {
+  constructor(analysisData: SEOAnalysisResult, embeddingProvider?: EmbeddingProvider) {
     this.analysisData = analysisData;
+    this.embeddingProvider = embeddingProvider;
     this.content = this.extractMainContent();
     this.title = analysisData.page_metadata.title_tag;
     this.metaDescription = analysisData.page_metadata.meta_description;
+    this.normalizer = new KeywordNormalizer(analysisData.structured_on_page_data.content_language);
   }
 
   /**
@@ -54,15 +61,16 @@ export class BERTKeywordOptimizer {
   async generateOptimizedKeywords(): Promise<OptimizedKeywordRecommendation[]> {
     const recommendations: OptimizedKeywordRecommendation[] = [];
 
-    // 1. Analyze existing content for BERT context
-    const bertAnalysis = this.analyzeBERTContext();
-    
-    // 2. Extract potential keywords with high search volume potential
+    // 1. Extract potential keywords with high search volume potential
     const potentialKeywords = this.extractHighVolumeKeywords();
     
+    // 2. Analyze existing content for BERT context
+    const embeddings = await this.embedTexts(potentialKeywords);
+    const bertAnalysis = this.analyzeBERTContext(embeddings);
+    
     // 3. Analyze each keyword with BERT principles
     for (const keyword of potentialKeywords) {
-      const recommendation = await this.analyzeKeywordWithBERT(keyword, bertAnalysis);
+      const recommendation = await this.analyzeKeywordWithBERT(keyword, bertAnalysis, embeddings);
       if (recommendation) {
         recommendations.push(recommendation);
       }
@@ -81,7 +89,7 @@ export class BERTKeywordOptimizer {
    */
   async generateOptimizedMetaDescription(): Promise<MetaDescriptionOptimization> {
     const currentDesc = this.metaDescription;
-    const bertAnalysis = this.analyzeBERTContext();
+    const bertAnalysis = this.analyzeBERTContext(await this.embedTexts());
     
     // Extract key entities and topics
     const keyEntities = this.extractKeyEntities();
@@ -127,17 +135,42 @@ export class BERTKeywordOptimizer {
     };
   }
 
+  /**
+   * Embed the title, core topic, headings, context sentences and keywords when an embedding provider is set
+   */
+  private async embedTexts(keywords: string[] = []): Promise<EmbeddingIndex | undefined> {
+    if (!this.embeddingProvider) return undefined;
+
+    return EmbeddingIndex.create(this.embeddingProvider, [
+      this.title,
+      this.analysisData.semantic_analysis.core_topic_analysis.main_topic.topic,
+      ...this.analysisData.structured_on_page_data.headings_and_keywords.map(h => h.text),
+      ...this.getContextSentences(),
+      ...keywords
+    ]);
+  }
+
+  /**
+   * Distinct sentences quoted in the semantic relationships, in order of first appearance
+   */
+  private getContextSentences(): string[] {
+    return [...new Set(this.analysisData.semantic_analysis.semantic_relationships.flatMap(rel => rel.context_sentences))];
+  }
+
   /**
    * Analyze content with BERT principles
    */
-  private analyzeBERTContext(): BERTContextAnalysis {
-    const sentences = this.content.split(/[.!?]+/).filter(s => s.trim().length > 10);
+  private analyzeBERTContext(embeddings?: EmbeddingIndex): BERTContextAnalysis {
+    // The term-based content has no sentence boundaries, so embeddings compare the quoted context sentences instead
+    const sentences = embeddings
+      ? this.getContextSentences()
+      : this.content.split(/[.!?]+/).filter(s => s.trim().length > 10);
     
     // Calculate bidirectional coherence
-    const bidirectionalCoherence = this.calculateBidirectionalCoherence(sentences);
+    const bidirectionalCoherence = this.calculateBidirectionalCoherence(sentences, embeddings);
     
     // Calculate contextual relevance
-    const contextualRelevance = this.calculateContextualRelevance(sentences);
+    const contextualRelevance = this.calculateContextualRelevance(sentences, embeddings);
     
     // Calculate natural language score
     const naturalLanguageScore = this.calculateNaturalLanguageScore();
@@ -318,14 +351,15 @@ export class BERTKeywordOptimizer {
    */
   private async analyzeKeywordWithBERT(
     keyword: string, 
-    bertAnalysis: BERTContextAnalysis
+    bertAnalysis: BERTContextAnalysis,
+    embeddings?: EmbeddingIndex
   ): Promise<OptimizedKeywordRecommendation | null> {
     
     // Calculate search volume potential
     const searchVolume = this.estimateSearchVolume(keyword);
     
     // Calculate BERT context score
-    const bertScore = this.calculateKeywordBERTScore(keyword, bertAnalysis);
+    const bertScore = this.calculateKeywordBERTScore(keyword, bertAnalysis, embeddings);
     
     // Analyze current performance
     const currentPerformance = this.analyzeCurrentKeywordPerformance(keyword);
@@ -396,9 +430,9 @@ export class BERTKeywordOptimizer {
   /**
    * Calculate BERT context score for a keyword
    */
-  private calculateKeywordBERTScore(keyword: string, bertAnalysis: BERTContextAnalysis): BERTContextAnalysis {
+  private calculateKeywordBERTScore(keyword: string, bertAnalysis: BERTContextAnalysis, embeddings?: EmbeddingIndex): BERTContextAnalysis {
     const keywordFrequency = this.countKeywordFrequency(keyword);
-    const contextualRelevance = this.calculateKeywordContextualRelevance(keyword);
+    const contextualRelevance = this.calculateKeywordContextualRelevance(keyword, embeddings);
     
     return {
       bidirectional_coherence: Math.min(1.0, bertAnalysis.bidirectional_coherence + (keywordFrequency * 0.1)),
@@ -426,15 +460,10 @@ export class BERTKeywordOptimizer {
   }
 
   /**
-   * Count keyword frequency in content
+   * Count keyword frequency in content, including variants such as plurals
    */
   private countKeywordFrequency(keyword: string): number {
-    const keywordLower = keyword.toLowerCase();
-    const contentLower = this.content.toLowerCase();
-    
-    // Simple frequency count
-    const matches = contentLower.match(new RegExp(keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'));
-    return matches ? matches.length : 0;
+    return this.normalizer.countOccurrences(keyword, this.content);
   }
 
   /**
@@ -506,7 +535,7 @@ export class BERTKeywordOptimizer {
   /**
    * Calculate bidirectional coherence of sentences
    */
-  private calculateBidirectionalCoherence(sentences: string[]): number {
+  private calculateBidirectionalCoherence(sentences: string[], embeddings?: EmbeddingIndex): number {
     if (sentences.length < 2) return 0.5;
     
     let coherenceScore = 0;
@@ -514,9 +543,9 @@ export class BERTKeywordOptimizer {
       const current = sentences[i].toLowerCase();
       const next = sentences[i + 1].toLowerCase();
       
-      // Check for semantic connections between sentences
-      const sharedWords = this.findSharedWords(current, next);
-      coherenceScore += sharedWords / Math.max(current.split(' ').length, next.split(' ').length);
+      // Check for semantic connections between sentences: embedding similarity, or shared words without embeddings
+      const similarity = embeddings?.similarity(current, next);
+      coherenceScore += similarity ?? this.findSharedWords(current, next) / Math.max(current.split(' ').length, next.split(' ').length);
     }
     
     return Math.min(1.0, coherenceScore / (sentences.length - 1));
@@ -561,11 +590,19 @@ export class BERTKeywordOptimizer {
   /**
    * Calculate contextual relevance
    */
-  private calculateContextualRelevance(sentences: string[]): number {
+  private calculateContextualRelevance(sentences: string[], embeddings?: EmbeddingIndex): number {
+    if (sentences.length === 0) return 0;
+
     const coreTopic = this.analysisData.semantic_analysis.core_topic_analysis.main_topic.topic.toLowerCase();
     let relevanceScore = 0;
     
     sentences.forEach(sentence => {
+      const similarity = embeddings?.similarity(sentence, coreTopic);
+      if (similarity !== undefined) {
+        relevanceScore += similarity;
+        return;
+      }
+
       const sentenceLower = sentence.toLowerCase();
       const topicWords = coreTopic.split(' ');
       const matches = topicWords.filter(word => sentenceLower.includes(word)).length;
@@ -611,7 +648,7 @@ export class BERTKeywordOptimizer {
    */
   private calculateSemanticDensity(): number {
     const entities = this.analysisData.semantic_analysis.entity_extraction;
-    const entityCount = Object.values(entities).flat().length;
+    const entityCount = Object.values(ENTITY_BUCKETS).flatMap(bucket => entities[bucket]).length;
     const wordCount = this.content.split(/\s+/).length;
     
     return Math.min(1.0, entityCount / (wordCount / 100)); // Entities per 100 words
@@ -624,8 +661,8 @@ export class BERTKeywordOptimizer {
     const keywords = new Set<string>();
     
     // Extract from entities
-    Object.values(this.analysisData.semantic_analysis.entity_extraction).forEach((entities: string[]) => {
-      entities.forEach((entity: string) => {
+    Object.values(ENTITY_BUCKETS).forEach(bucket => {
+      this.analysisData.semantic_analysis.entity_extraction[bucket].forEach((entity: string) => {
         const entityKeywords = this.extractBERTAwareKeywords(entity);
         entityKeywords.forEach(kw => keywords.add(kw));
       });
@@ -679,7 +716,24 @@ export class BERTKeywordOptimizer {
   /**
    * Calculate keyword contextual relevance
    */
-  private calculateKeywordContextualRelevance(keyword: string): number {
+  private calculateKeywordContextualRelevance(keyword: string, embeddings?: EmbeddingIndex): number {
+    const lexicalRelevance = this.calculateKeywordLexicalRelevance(keyword);
+    if (!embeddings) return lexicalRelevance;
+
+    // Closest meaning among the core topic, title and H1; exact topic matches keep their full score
+    const targets = [
+      this.analysisData.semantic_analysis.core_topic_analysis.main_topic.topic,
+      this.title,
+      ...this.analysisData.structured_on_page_data.headings_and_keywords.filter(h => h.tag === 'h1').map(h => h.text)
+    ];
+    const similarities = targets.map(target => embeddings.similarity(keyword, target) ?? 0);
+    return Math.max(lexicalRelevance, ...similarities);
+  }
+
+  /**
+   * Keyword relevance from substring matches against the core topic, relationships and entities
+   */
+  private calculateKeywordLexicalRelevance(keyword: string): number {
     const keywordLower = keyword.toLowerCase();
     const coreTopic = this.analysisData.semantic_analysis.core_topic_analysis.main_topic.topic.toLowerCase();
     
@@ -695,8 +749,8 @@ export class BERTKeywordOptimizer {
     if (semanticMatch) return 0.8;
     
     // Check entity matches
-    const entityMatch = Object.values(this.analysisData.semantic_analysis.entity_extraction)
-      .flat()
+    const entityMatch = Object.values(ENTITY_BUCKETS)
+      .flatMap(bucket => this.analysisData.semantic_analysis.entity_extraction[bucket])
       .some(entity => entity.toLowerCase().includes(keywordLower) || keywordLower.includes(entity.toLowerCase()));
     
     return entityMatch ? 0.7 : 0.3;
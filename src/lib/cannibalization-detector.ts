@@ -0,0 +1,279 @@
+/**
+ * Keyword Cannibalization Detector
+ * Finds primary keywords that more than one analyzed page targets, matching stemmed forms and near duplicates,
+ * measures how much the competing pages' titles, H1s and URLs overlap and suggests the page that should keep the term
+ */
+
+import { KeywordNormalizer } from './keyword-normalizer';
+import { LinkGraphAnalyzer } from './link-graph';
+import {
+  CannibalizationPage,
+  KeywordCannibalization,
+  SEOAnalysisResult,
+  SiteLinkGraph
+} from '@/types/seo-analysis';
+
+interface KeywordEntry {
+  language: string;
+  key: string; // Stemmed, stop-word-free form
+  words: string[];
+}
+
+// Share of the winner score from word count, heading count and internal link strength
+const WINNER_WEIGHTS = { words: 0.45, headings: 0.15, links: 0.4 };
+
+// Keys at least this similar by edit distance are near duplicates ("e-mail marketing" / "email marketing")
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+// Highest title, H1 or URL overlap from which a conflict is high or medium severity
+const SEVERITY_THRESHOLDS = { high: 0.5, medium: 0.25 };
+
+const SEVERITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+export class CannibalizationDetector {
+  private results: SEOAnalysisResult[];
+  private linkGraph: SiteLinkGraph;
+  private normalizers = new Map<string, KeywordNormalizer>();
+
+  constructor(results: SEOAnalysisResult[], linkGraph?: SiteLinkGraph) {
+    // The latest result wins when a URL was analyzed more than once
+    const byUrl = new Map(results.map(result => [urlKey(result.page_metadata.url), result]));
+    this.results = [...byUrl.values()];
+    this.linkGraph = linkGraph ?? new LinkGraphAnalyzer(this.results).analyze();
+  }
+
+  /**
+   * Contested terms, most severe first
+   */
+  detect(): KeywordCannibalization[] {
+    const entries = new Map<string, KeywordEntry>(); // Language and key -> entry
+    const targets = new Map<string, Map<string, string[]>>(); // Language and key -> URL -> surface forms
+
+    this.results.forEach(result => {
+      const language = result.structured_on_page_data.content_language || 'en';
+      result.inferred_keywords.primary.keywords.forEach(({ term }) => {
+        const key = this.getNormalizer(language).normalize(term);
+        if (!key) return;
+
+        const id = `${language}:${key}`;
+        entries.set(id, { language, key, words: key.split(' ') });
+        if (!targets.has(id)) targets.set(id, new Map());
+        const pages = targets.get(id)!;
+        pages.set(result.page_metadata.url, [...(pages.get(result.page_metadata.url) || []), term.toLowerCase()]);
+      });
+    });
+
+    return this.groupNearDuplicates(entries, targets)
+      .map(group => {
+        const pages = new Map<string, string[]>();
+        group.forEach(id => targets.get(id)!.forEach((terms, url) => pages.set(url, [...(pages.get(url) || []), ...terms])));
+        return { pages, language: entries.get(group[0])!.language };
+      })
+      .filter(({ pages }) => pages.size > 1)
+      .map(({ pages, language }) => this.describe(pages, language))
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.pages.length - a.pages.length);
+  }
+
+  /**
+   * Group keys of the same language that are word-order variants, differ by one extra word or are nearly equal.
+   * Near duplicates are not transitive ("red running shoes" ~ "running shoes" ~ "running shoes sale"), so a key
+   * only joins a group when it matches every member; keys targeted by the most pages are placed first
+   */
+  private groupNearDuplicates(entries: Map<string, KeywordEntry>, targets: Map<string, Map<string, string[]>>): string[][] {
+    const ids = [...entries.keys()].sort((a, b) =>
+      targets.get(b)!.size - targets.get(a)!.size ||
+      entries.get(a)!.words.length - entries.get(b)!.words.length ||
+      a.localeCompare(b)
+    );
+
+    const groups: string[][] = [];
+    ids.forEach(id => {
+      const entry = entries.get(id)!;
+      const group = groups.find(members => members.every(member => isNearDuplicate(entry, entries.get(member)!)));
+      if (group) group.push(id);
+      else groups.push([id]);
+    });
+    return groups;
+  }
+
+  /**
+   * Overlap, severity, ranked pages and a recommendation for one contested term
+   */
+  private describe(pageTerms: Map<string, string[]>, language: string): KeywordCannibalization {
+    const results = this.results.filter(result => pageTerms.has(result.page_metadata.url));
+    const normalizer = this.getNormalizer(language);
+    const wordsOf = (text: string) => new Set(normalizer.normalize(text).split(' ').filter(Boolean));
+
+    const overlap = {
+      title: meanPairwiseOverlap(results.map(result => wordsOf(result.page_metadata.title_tag))),
+      h1: meanPairwiseOverlap(results.map(result => getH1(result)).filter((h1): h1 is string => !!h1).map(wordsOf)),
+      url: meanPairwiseOverlap(results.map(result => wordsOf(urlPathText(result.page_metadata.url))))
+    };
+    const highest = Math.max(overlap.title, overlap.h1, overlap.url);
+    const severity = highest >= SEVERITY_THRESHOLDS.high ? 'high' : highest >= SEVERITY_THRESHOLDS.medium ? 'medium' : 'low';
+
+    const pages = this.rankPages(results, pageTerms);
+    const allTerms = [...pageTerms.values()].flat();
+    const keyword = mostCommon(allTerms);
+    const winner = pages[0].url;
+
+    return {
+      keyword,
+      variants: [...new Set(allTerms)].filter(term => term !== keyword),
+      severity,
+      overlap,
+      pages,
+      suggested_winner: winner,
+      recommendation: this.recommend(keyword, winner, severity)
+    };
+  }
+
+  /**
+   * Competing pages by content depth and internal link strength, strongest first
+   */
+  private rankPages(results: SEOAnalysisResult[], pageTerms: Map<string, string[]>): CannibalizationPage[] {
+    const nodes = new Map(this.linkGraph.nodes.map(node => [urlKey(node.url), node]));
+    const maxWords = Math.max(1, ...results.map(result => result.structured_on_page_data.word_count));
+    const maxHeadings = Math.max(1, ...results.map(result => result.structured_on_page_data.headings_and_keywords.length));
+
+    return results
+      .map(result => {
+        const node = nodes.get(urlKey(result.page_metadata.url));
+        const wordCount = result.structured_on_page_data.word_count;
+        const linkStrength = node?.internal_link_strength ?? 0;
+        const score =
+          WINNER_WEIGHTS.words * (wordCount / maxWords) +
+          WINNER_WEIGHTS.headings * (result.structured_on_page_data.headings_and_keywords.length / maxHeadings) +
+          WINNER_WEIGHTS.links * (linkStrength / 100);
+        const h1 = getH1(result);
+
+        return {
+          url: result.page_metadata.url,
+          title: result.page_metadata.title_tag,
+          ...(h1 && { h1 }),
+          keywords: [...new Set(pageTerms.get(result.page_metadata.url))],
+          word_count: wordCount,
+          internal_link_strength: linkStrength,
+          inbound_links: node?.inbound_links ?? 0,
+          score: Math.round(score * 100) / 100
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * What to do about the conflict, by severity
+   */
+  private recommend(keyword: string, winner: string, severity: KeywordCannibalization['severity']): string {
+    switch (severity) {
+      case 'high':
+        return `The pages overlap heavily. Consolidate into ${winner}: merge the others' unique content into it and 301-redirect them, or re-target them to a different keyword`;
+      case 'medium':
+        return `Keep "${keyword}" on ${winner}. Re-target the other pages' titles and H1s to distinct variations and link to ${winner} with "${keyword}" anchors`;
+      case 'low':
+        return `The pages differ in title, H1 and URL but share "${keyword}" as a primary keyword. Make ${winner} the target and link to it with "${keyword}" anchors from the others`;
+    }
+  }
+
+  /**
+   * Normalizer for a content language, created once per language
+   */
+  private getNormalizer(language: string): KeywordNormalizer {
+    let normalizer = this.normalizers.get(language);
+    if (!normalizer) {
+      normalizer = new KeywordNormalizer(language);
+      this.normalizers.set(language, normalizer);
+    }
+    return normalizer;
+  }
+}
+
+/**
+ * Same language and the same words in any order, one extra word on top of at least two shared ones,
+ * or a small edit distance
+ */
+function isNearDuplicate(a: KeywordEntry, b: KeywordEntry): boolean {
+  if (a.language !== b.language) return false;
+
+  const [shorter, longer] = a.words.length <= b.words.length ? [a.words, b.words] : [b.words, a.words];
+  const longerWords = new Set(longer);
+  if (shorter.every(word => longerWords.has(word)) && (longer.length === shorter.length || (shorter.length >= 2 && longer.length - shorter.length === 1))) {
+    return true;
+  }
+
+  const length = Math.max(a.key.length, b.key.length);
+  if (Math.abs(a.key.length - b.key.length) > length * (1 - NEAR_DUPLICATE_SIMILARITY)) return false;
+  return 1 - editDistance(a.key, b.key) / length >= NEAR_DUPLICATE_SIMILARITY;
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Mean Jaccard overlap over every pair of word sets; 0 with fewer than two sets
+ */
+function meanPairwiseOverlap(sets: Set<string>[]): number {
+  let total = 0;
+  let pairs = 0;
+  sets.forEach((a, i) => sets.slice(i + 1).forEach(b => {
+    const shared = [...a].filter(word => b.has(word)).length;
+    const union = a.size + b.size - shared;
+    total += union > 0 ? shared / union : 0;
+    pairs++;
+  }));
+  return pairs > 0 ? Math.round((total / pairs) * 100) / 100 : 0;
+}
+
+/**
+ * Text of the page's first H1
+ */
+function getH1(result: SEOAnalysisResult): string | undefined {
+  return result.structured_on_page_data.headings_and_keywords.find(heading => heading.tag === 'h1')?.text;
+}
+
+/**
+ * URL path as words: "/blog/running-shoes/" -> "blog running shoes"
+ */
+function urlPathText(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname).replace(/[/_.-]+/g, ' ');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Most frequent value; the first one seen on a tie
+ */
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+/**
+ * Lookup key for a URL: lowercase host, no fragment, no trailing slash except on the root
+ */
+function urlKey(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    urlObj.hostname = urlObj.hostname.toLowerCase();
+    if (urlObj.pathname.length > 1) urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+    return urlObj.toString();
+  } catch {
+    return url;
+  }
+}
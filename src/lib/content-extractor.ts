@@ -0,0 +1,167 @@
+/**
+ * Content Extractor
+ * Readability-style main content detection: scores text blocks by length and commas,
+ * credits their containers, penalizes link-heavy and boilerplate-looking elements
+ */
+
+import { load } from 'cheerio';
+
+type CheerioRoot = ReturnType<typeof load>;
+type CheerioSelection = ReturnType<CheerioRoot>;
+type CheerioNode = ReturnType<CheerioSelection['toArray']>[number];
+
+export interface ContentCandidate {
+  container: CheerioSelection;
+  text: string; // Main text with boilerplate removed and whitespace collapsed
+  path: string; // CSS-style DOM path of the container, e.g. "html > body > div#page > article.post"
+  score: number;
+  link_density: number;
+}
+
+// Elements that never hold main content
+const BOILERPLATE_TAGS = 'script, style, noscript, template, iframe, svg, form, nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [aria-hidden="true"]';
+
+// Class/id hints for boilerplate, unless the element also looks like content (from Mozilla Readability)
+const UNLIKELY_CANDIDATE = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|consent|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|newsletter|share/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+// Class/id hints that raise or lower a container's score
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINT = /-ad-|hidden|banner|combx|comment|com-|contact|foot|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|cookie|consent/i;
+
+// Blocks scored as paragraphs; a div counts only when it has no block-level children
+const SCORED_BLOCKS = 'p, pre, td, blockquote, div';
+const BLOCK_CHILDREN = 'p, div, section, article, table, ul, ol, dl, pre, blockquote, h1, h2, h3, h4, h5, h6, figure';
+
+// Blocks shorter than this are ignored
+const MIN_BLOCK_TEXT_LENGTH = 25;
+
+// Starting score of a container by tag
+const TAG_SCORES: Record<string, number> = {
+  div: 5, article: 5, section: 3, main: 5,
+  pre: 3, td: 3, blockquote: 3,
+  address: -3, ol: -3, ul: -3, dl: -3, dd: -3, dt: -3, li: -3, form: -3,
+  h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5, th: -5
+};
+
+export class ContentExtractor {
+  private $: CheerioRoot;
+  private removeSelector: string;
+
+  constructor($: CheerioRoot, exclude: string[] = []) {
+    this.$ = $;
+    this.removeSelector = [BOILERPLATE_TAGS, ...exclude].join(', ');
+  }
+
+  /**
+   * Pick the highest-scoring container, or null when the page has no scorable text
+   */
+  extract(): ContentCandidate | null {
+    const scores = new Map<CheerioNode, number>();
+
+    this.$('body').find(SCORED_BLOCKS).each((_, element) => {
+      const block = this.$(element);
+      if (block.prop('tagName') === 'DIV' && block.children(BLOCK_CHILDREN).length > 0) return;
+      if (this.isBoilerplate(block)) return;
+
+      const text = this.collapse(block.text());
+      if (text.length < MIN_BLOCK_TEXT_LENGTH) return;
+
+      // One point per block, one per comma, one per 100 characters up to 3
+      const blockScore = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+      block.parents().slice(0, 2).each((level, ancestor) => {
+        if (!scores.has(ancestor)) scores.set(ancestor, this.initialScore(this.$(ancestor)));
+        scores.set(ancestor, scores.get(ancestor)! + blockScore / (level + 1));
+      });
+    });
+
+    let best: ContentCandidate | null = null;
+    for (const [node, score] of Array.from(scores.entries())) {
+      const container = this.$(node);
+      const text = this.getCleanText(container);
+      if (!text) continue;
+
+      const linkDensity = this.getLinkDensity(container, text);
+      const finalScore = score * (1 - linkDensity);
+      if (!best || finalScore > best.score) {
+        best = { container, text, path: this.getPath(container), score: finalScore, link_density: linkDensity };
+      }
+    }
+
+    return best && { ...best, score: Number(best.score.toFixed(2)), link_density: Number(best.link_density.toFixed(3)) };
+  }
+
+  /**
+   * Whether the element or an ancestor is boilerplate by tag or class/id hints
+   */
+  private isBoilerplate(element: CheerioSelection): boolean {
+    if (element.closest(this.removeSelector).length > 0) return true;
+
+    return [element, ...element.parents().toArray().map(parent => this.$(parent))].some(node => {
+      const tagName = String(node.prop('tagName') || '').toLowerCase();
+      if (tagName === 'body' || tagName === 'html') return false;
+      const hints = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+      return UNLIKELY_CANDIDATE.test(hints) && !MAYBE_CANDIDATE.test(hints);
+    });
+  }
+
+  /**
+   * Starting score from the tag and class/id hints
+   */
+  private initialScore(element: CheerioSelection): number {
+    const tagName = String(element.prop('tagName') || '').toLowerCase();
+    const hints = `${element.attr('class') || ''} ${element.attr('id') || ''}`;
+
+    let score = TAG_SCORES[tagName] || 0;
+    if (NEGATIVE_HINT.test(hints)) score -= 25;
+    if (POSITIVE_HINT.test(hints)) score += 25;
+    return score;
+  }
+
+  /**
+   * Container text without boilerplate descendants
+   */
+  private getCleanText(container: CheerioSelection): string {
+    const copy = container.clone();
+    copy.find(this.removeSelector).remove();
+    copy.find('[class], [id]').each((_, element) => {
+      const hints = `${this.$(element).attr('class') || ''} ${this.$(element).attr('id') || ''}`;
+      if (UNLIKELY_CANDIDATE.test(hints) && !MAYBE_CANDIDATE.test(hints)) this.$(element).remove();
+    });
+    return this.collapse(copy.text());
+  }
+
+  /**
+   * Share of the text that sits inside links
+   */
+  private getLinkDensity(container: CheerioSelection, text: string): number {
+    const linkLength = container.find('a').toArray()
+      .reduce((total, link) => total + this.collapse(this.$(link).text()).length, 0);
+    return Math.min(linkLength / text.length, 1);
+  }
+
+  /**
+   * CSS-style path from the root: tag, then #id or the first two classes
+   */
+  private getPath(container: CheerioSelection): string {
+    return [...container.parents().toArray().reverse(), ...container.toArray()]
+      .map(node => {
+        const element = this.$(node);
+        const tagName = String(element.prop('tagName') || '').toLowerCase();
+        const id = element.attr('id');
+        if (id) return `${tagName}#${id}`;
+
+        const classes = (element.attr('class') || '').split(/\s+/).filter(Boolean).slice(0, 2);
+        return classes.length > 0 ? `${tagName}.${classes.join('.')}` : tagName;
+      })
+      .join(' > ');
+  }
+
+  /**
+   * Collapse runs of whitespace
+   */
+  private collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Document Frequency Store
+ * Per-project corpus of analyzed or imported pages, persisted as JSON, that supplies real IDF values
+ * for TF-IDF so terms repeated across a site (navigation, footer, brand boilerplate) are down-weighted
+ */
+
+import { access } from 'fs/promises';
+import path from 'path';
+import { HTMLParser } from './html-parser';
+import { JsonFileWriter, SharedInstances, readJsonFile, sharedFileKey } from './json-file';
+import { KeywordNormalizer } from './keyword-normalizer';
+import { TextProcessor } from './text-processor';
+import { config } from '@/config/environment';
+import { CorpusStats } from '@/types/seo-analysis';
+
+export interface CorpusDocument {
+  name: string; // File name or identifier; .html/.htm files and HTML-looking content are parsed for their main content
+  content: string;
+}
+
+interface StoredCorpus {
+  project: string;
+  updated_at?: string;
+  documents: Record<string, string[]>; // Document id -> distinct term keys
+}
+
+// Stores already loaded in this process, keyed by corpus file, so concurrent analyses share one instance
+const openStores = new SharedInstances<DocumentFrequencyStore>(config.maxOpenCorpora);
+
+export class DocumentFrequencyStore {
+  readonly project: string;
+  private directory: string;
+  private documents = new Map<string, string[]>();
+  private documentFrequencies = new Map<string, number>();
+  private normalizers = new Map<string, KeywordNormalizer>();
+  private updatedAt?: string;
+  private writer: JsonFileWriter;
+
+  constructor(project: string, directory: string = config.corpusDirectory) {
+    this.project = project;
+    this.directory = directory;
+    this.writer = new JsonFileWriter(this.getFilePath());
+  }
+
+  /**
+   * Shared store for the project, loaded from disk on first use; an empty directory keeps it in memory only
+   */
+  static open(project: string, directory: string = config.corpusDirectory): Promise<DocumentFrequencyStore> {
+    // Projects that differ only in case or unsafe characters share a file, so they must share a store
+    const store = new DocumentFrequencyStore(project, directory);
+    return openStores.open(sharedFileKey(store.getFilePath(), !!directory), () => store.load());
+  }
+
+  /**
+   * Whether the project has a corpus, open in this process or saved, without loading it
+   */
+  static async exists(project: string, directory: string = config.corpusDirectory): Promise<boolean> {
+    const file = new DocumentFrequencyStore(project, directory).getFilePath();
+    if (openStores.has(sharedFileKey(file, !!directory))) return true;
+    if (!directory) return false;
+    return access(file).then(() => true, () => false);
+  }
+
+  /**
+   * Default project for a page: its host without "www."
+   */
+  static projectForUrl(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return 'default';
+    }
+  }
+
+  get documentCount(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Document count, vocabulary size and last update
+   */
+  getStats(): CorpusStats {
+    return {
+      project: this.project,
+      document_count: this.documents.size,
+      term_count: this.documentFrequencies.size,
+      ...(this.updatedAt && { updated_at: this.updatedAt })
+    };
+  }
+
+  /**
+   * Normalized key of a word, the form document frequencies are counted under
+   */
+  getTermKey(word: string, language?: string): string {
+    return this.getNormalizer(language).normalize(word);
+  }
+
+  /**
+   * Number of documents containing the term key
+   */
+  getDocumentFrequency(key: string): number {
+    return this.documentFrequencies.get(key) || 0;
+  }
+
+  /**
+   * Smoothed IDF, ln((1 + N) / (1 + df)) + 1: 1 for a term on every page, higher the rarer it is
+   */
+  inverseDocumentFrequency(key: string): number {
+    return Math.log((1 + this.documents.size) / (1 + this.getDocumentFrequency(key))) + 1;
+  }
+
+  /**
+   * Add or replace a document; the oldest documents are dropped beyond the corpus size limit
+   */
+  addDocument(id: string, text: string, language?: string): void {
+    this.removeDocument(id);
+
+    const processor = new TextProcessor(language);
+    const normalizer = this.getNormalizer(processor.language);
+    const keys = new Set(processor.tokenize(text)
+      .filter(word => word.length > 2 && !processor.isStopWord(word))
+      .map(word => normalizer.normalize(word))
+      .filter(Boolean));
+
+    this.documents.set(id, Array.from(keys));
+    keys.forEach(key => this.documentFrequencies.set(key, (this.documentFrequencies.get(key) || 0) + 1));
+
+    while (this.documents.size > config.maxCorpusDocuments) {
+      this.removeDocument(this.documents.keys().next().value!);
+    }
+    this.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * Add HTML or plain-text files, each under "import:<name>"; returns how many had any text
+   */
+  importDocuments(documents: CorpusDocument[]): number {
+    let imported = 0;
+    documents.forEach(document => {
+      const isHtml = /\.html?$/i.test(document.name) || /<(html|body|p|div)[\s>]/i.test(document.content);
+      const text = isHtml
+        ? new HTMLParser(document.content, config.defaultVirtualUrl).extractMainContent()
+        : document.content;
+      if (!text.trim()) return;
+
+      this.addDocument(`import:${document.name}`, text, TextProcessor.forContent(text).language);
+      imported++;
+    });
+    return imported;
+  }
+
+  /**
+   * Write the corpus to disk
+   */
+  save(): Promise<void> {
+    if (!this.directory) return Promise.resolve();
+
+    return this.writer.write((): StoredCorpus => ({
+      project: this.project,
+      updated_at: this.updatedAt,
+      documents: Object.fromEntries(this.documents)
+    }));
+  }
+
+  /**
+   * Remove a document and its term counts
+   */
+  private removeDocument(id: string): void {
+    const keys = this.documents.get(id);
+    if (!keys) return;
+
+    keys.forEach(key => {
+      const frequency = (this.documentFrequencies.get(key) || 0) - 1;
+      if (frequency > 0) this.documentFrequencies.set(key, frequency);
+      else this.documentFrequencies.delete(key);
+    });
+    this.documents.delete(id);
+  }
+
+  /**
+   * Normalizer per language, shared between documents
+   */
+  private getNormalizer(language?: string): KeywordNormalizer {
+    const code = new TextProcessor(language).language;
+    let normalizer = this.normalizers.get(code);
+    if (!normalizer) {
+      normalizer = new KeywordNormalizer(code);
+      this.normalizers.set(code, normalizer);
+    }
+    return normalizer;
+  }
+
+  /**
+   * Read the project's file, if any, and rebuild the document frequencies
+   */
+  private async load(): Promise<DocumentFrequencyStore> {
+    if (!this.directory) return this;
+
+    const stored = await readJsonFile(this.getFilePath(), isStoredCorpus, 'TF-IDF corpus');
+    if (!stored) return this;
+
+    Object.entries(stored.documents).forEach(([id, keys]) => {
+      this.documents.set(id, keys);
+      keys.forEach(key => this.documentFrequencies.set(key, (this.documentFrequencies.get(key) || 0) + 1));
+    });
+    this.updatedAt = stored.updated_at;
+    return this;
+  }
+
+  /**
+   * Corpus file for the project, with the name reduced to safe characters
+   */
+  private getFilePath(): string {
+    const fileName = this.project.toLowerCase().replace(/[^a-z0-9.-]+/g, '_').replace(/^\.+/, '') || 'default';
+    return path.join(this.directory, `${fileName}.json`);
+  }
+}
+
+/**
+ * Whether parsed JSON has the shape of a saved corpus
+ */
+function isStoredCorpus(value: unknown): value is StoredCorpus {
+  const documents = (value as StoredCorpus | null)?.documents;
+  return !!documents && typeof documents === 'object' &&
+    Object.values(documents).every(keys => Array.isArray(keys) && keys.every(key => typeof key === 'string'));
+}
@@ -0,0 +1,335 @@
+/**
+ * Embedding Providers
+ * Pluggable local backends that turn keywords, sentences, headings and titles into unit vectors, so semantic
+ * similarity is a cosine instead of shared-word counting: an ONNX sentence-transformer (e.g. all-MiniLM-L6-v2)
+ * loaded from disk and run on CPU, or hashed character and word n-grams when no model is available
+ */
+
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { config } from '@/config/environment';
+import { EmbeddingProviderName } from '@/types/seo-analysis';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+
+  /**
+   * One L2-normalized vector per text, in input order
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// Subset of the onnxruntime-node API the ONNX provider uses
+interface OnnxTensor {
+  data: Float32Array | BigInt64Array;
+  dims: readonly number[];
+}
+
+interface OnnxSession {
+  inputNames: readonly string[];
+  outputNames: readonly string[];
+  run(feeds: Record<string, OnnxTensor>): Promise<Record<string, OnnxTensor>>;
+}
+
+interface OnnxRuntime {
+  InferenceSession: { create(modelPath: string): Promise<OnnxSession> };
+  Tensor: new (type: 'int64', data: BigInt64Array, dims: number[]) => OnnxTensor;
+}
+
+// Optional package that runs ONNX models on CPU; installed separately because of its native binaries
+const ONNX_RUNTIME_MODULE = 'onnxruntime-node';
+
+// Files expected in the model directory, as exported by sentence-transformers / Hugging Face Optimum
+const ONNX_MODEL_FILE = 'model.onnx';
+const VOCABULARY_FILE = 'vocab.txt';
+
+// WordPiece: words longer than this become [UNK], and continuation pieces carry this prefix
+const MAX_WORDPIECE_CHARS = 100;
+const WORDPIECE_PREFIX = '##';
+
+// Hashed n-grams: weight of a whole word against the character trigrams that spread it over the vector
+const HASHED_WORD_WEIGHT = 1;
+const HASHED_TRIGRAM_WEIGHT = 0.5;
+
+// Providers already loaded in this process, keyed by model directory
+const loadedProviders = new Map<string, Promise<EmbeddingProvider>>();
+
+/**
+ * Shared provider for the model directory: the ONNX model when it and onnxruntime-node load,
+ * otherwise the hashed n-gram fallback
+ */
+export function loadEmbeddingProvider(modelDirectory: string = config.embeddingModelDirectory): Promise<EmbeddingProvider> {
+  let provider = loadedProviders.get(modelDirectory);
+  if (!provider) {
+    provider = modelDirectory
+      ? OnnxEmbeddingProvider.load(modelDirectory).catch(error => {
+          console.warn('ONNX embedding model unavailable, using hashed n-grams:', error);
+          return new HashedNgramEmbeddingProvider();
+        })
+      : Promise.resolve(new HashedNgramEmbeddingProvider());
+    loadedProviders.set(modelDirectory, provider);
+  }
+  return provider;
+}
+
+/**
+ * Cosine similarity of two vectors; a dot product, since providers return unit vectors
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Vectors for a fixed set of texts, embedded up front so synchronous analysis code can compare them
+ */
+export class EmbeddingIndex {
+  readonly provider: EmbeddingProviderName;
+  private vectors = new Map<string, Float32Array>();
+
+  private constructor(provider: EmbeddingProviderName) {
+    this.provider = provider;
+  }
+
+  /**
+   * Embed the distinct non-empty texts in batches
+   */
+  static async create(provider: EmbeddingProvider, texts: string[]): Promise<EmbeddingIndex> {
+    const index = new EmbeddingIndex(provider.name);
+    const distinct = [...new Set(texts.map(normalizeText).filter(Boolean))];
+
+    for (let start = 0; start < distinct.length; start += config.embeddingBatchSize) {
+      const batch = distinct.slice(start, start + config.embeddingBatchSize);
+      const vectors = await provider.embed(batch);
+      batch.forEach((text, i) => index.vectors.set(text, vectors[i]));
+    }
+    return index;
+  }
+
+  /**
+   * Whether the text was embedded
+   */
+  has(text: string): boolean {
+    return this.vectors.has(normalizeText(text));
+  }
+
+  /**
+   * Cosine similarity of two embedded texts, clamped to 0–1; undefined when either was not embedded
+   */
+  similarity(a: string, b: string): number | undefined {
+    const vectorA = this.vectors.get(normalizeText(a));
+    const vectorB = this.vectors.get(normalizeText(b));
+    if (!vectorA || !vectorB) return undefined;
+    return Math.max(0, Math.min(1, cosineSimilarity(vectorA, vectorB)));
+  }
+}
+
+/**
+ * Sentence-transformer exported to ONNX: WordPiece tokens in, the model's sentence vector or its
+ * mean-pooled last hidden state out
+ */
+export class OnnxEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'onnx' as const;
+  private runtime: OnnxRuntime;
+  private session: OnnxSession;
+  private vocabulary: Map<string, number>;
+
+  private constructor(runtime: OnnxRuntime, session: OnnxSession, vocabulary: Map<string, number>) {
+    this.runtime = runtime;
+    this.session = session;
+    this.vocabulary = vocabulary;
+  }
+
+  /**
+   * Load model.onnx and vocab.txt from the directory; rejects when either file or onnxruntime-node is missing,
+   * or when the model's output is not shaped like embeddings
+   */
+  static async load(modelDirectory: string): Promise<OnnxEmbeddingProvider> {
+    const modelPath = path.join(modelDirectory, ONNX_MODEL_FILE);
+    await stat(modelPath);
+    const vocabulary = new Map(
+      (await readFile(path.join(modelDirectory, VOCABULARY_FILE), 'utf8'))
+        .split('\n')
+        .map((token, id): [string, number] => [token.trimEnd(), id])
+        .filter(([token]) => token)
+    );
+
+    const runtime = (await import(/* webpackIgnore: true */ ONNX_RUNTIME_MODULE)) as OnnxRuntime;
+    const session = await runtime.InferenceSession.create(modelPath);
+    const provider = new OnnxEmbeddingProvider(runtime, session, vocabulary);
+
+    // Embed once now, so an unsupported output shape falls back at load instead of failing every analysis
+    await provider.embed(['embedding model check']);
+    return provider;
+  }
+
+  /**
+   * Run the batch padded to its longest text; a [batch, hidden] output is already pooled, while
+   * [batch, tokens, hidden] token vectors are averaged under the attention mask
+   */
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    const encoded = texts.map(text => this.encode(text));
+    const length = Math.max(...encoded.map(ids => ids.length));
+    const padId = this.vocabulary.get('[PAD]') ?? 0;
+    const inputIds = new BigInt64Array(texts.length * length);
+    const attentionMask = new BigInt64Array(texts.length * length);
+
+    encoded.forEach((ids, row) => {
+      for (let i = 0; i < length; i++) {
+        inputIds[row * length + i] = BigInt(i < ids.length ? ids[i] : padId);
+        attentionMask[row * length + i] = BigInt(i < ids.length ? 1 : 0);
+      }
+    });
+
+    const dims = [texts.length, length];
+    const feeds: Record<string, OnnxTensor> = {
+      input_ids: new this.runtime.Tensor('int64', inputIds, dims),
+      attention_mask: new this.runtime.Tensor('int64', attentionMask, dims),
+      token_type_ids: new this.runtime.Tensor('int64', new BigInt64Array(texts.length * length), dims)
+    };
+    const inputs = Object.fromEntries(this.session.inputNames.map(name => [name, feeds[name]]));
+
+    const outputName = this.session.outputNames[0];
+    const output = (await this.session.run(inputs))[outputName];
+    const hidden = output.data as Float32Array;
+
+    if (output.dims.length === 2) {
+      const size = output.dims[1];
+      return encoded.map((_, row) => normalize(hidden.slice(row * size, (row + 1) * size)));
+    }
+    if (output.dims.length !== 3) {
+      throw new Error(
+        `ONNX output "${outputName}" has shape [${output.dims.join(', ')}]; expected [batch, hidden] or [batch, tokens, hidden]`
+      );
+    }
+
+    const size = output.dims[2];
+    return encoded.map((ids, row) => {
+      const vector = new Float32Array(size);
+      for (let token = 0; token < ids.length; token++) {
+        const offset = (row * length + token) * size;
+        for (let i = 0; i < size; i++) vector[i] += hidden[offset + i];
+      }
+      return normalize(vector);
+    });
+  }
+
+  /**
+   * [CLS] + WordPiece ids + [SEP], truncated to the model's token limit
+   */
+  private encode(text: string): number[] {
+    const unknown = this.vocabulary.get('[UNK]') ?? 0;
+    const pieces = basicTokens(text).flatMap(word => this.wordPieces(word));
+    const ids = pieces.slice(0, config.maxEmbeddingTokens - 2).map(piece => this.vocabulary.get(piece) ?? unknown);
+    return [this.vocabulary.get('[CLS]') ?? 0, ...ids, this.vocabulary.get('[SEP]') ?? 0];
+  }
+
+  /**
+   * Greedy longest-match-first split of a word into vocabulary pieces
+   */
+  private wordPieces(word: string): string[] {
+    if (word.length > MAX_WORDPIECE_CHARS) return ['[UNK]'];
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < word.length) {
+      let end = word.length;
+      let piece: string | undefined;
+      while (start < end) {
+        const candidate = (start > 0 ? WORDPIECE_PREFIX : '') + word.slice(start, end);
+        if (this.vocabulary.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+      if (!piece) return ['[UNK]'];
+      pieces.push(piece);
+      start = end;
+    }
+    return pieces;
+  }
+}
+
+/**
+ * Feature hashing of words and character trigrams: texts sharing words or word stems land close together
+ * without any model, which keeps similarity meaningful offline and in tests
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram' as const;
+  private dimensions: number;
+
+  constructor(dimensions: number = config.hashedEmbeddingDimensions) {
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Hashed feature vectors; texts without letters or digits get a zero vector
+   */
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * Add each word and its boundary-marked trigrams at a hashed index with a hashed sign
+   */
+  private embedText(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    basicTokens(text)
+      .filter(token => /[\p{L}\p{N}]/u.test(token))
+      .forEach(word => {
+        this.addFeature(vector, `w:${word}`, HASHED_WORD_WEIGHT);
+        const marked = `<${word}>`;
+        for (let i = 0; i + 3 <= marked.length; i++) {
+          this.addFeature(vector, `c:${marked.slice(i, i + 3)}`, HASHED_TRIGRAM_WEIGHT);
+        }
+      });
+    return normalize(vector);
+  }
+
+  /**
+   * Signed hashing keeps collisions from only ever adding up
+   */
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+/**
+ * BERT basic tokenization: lowercase, strip accents, split on whitespace and punctuation
+ */
+function basicTokens(text: string): string[] {
+  return normalizeText(text).normalize('NFD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || [];
+}
+
+/**
+ * Lookup form of a text: lowercase with whitespace collapsed
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Scale a vector to unit length; zero vectors stay zero
+ */
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
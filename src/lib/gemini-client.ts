@@ -4,6 +4,7 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LinkAnalyzer } from './link-analyzer';
 import { 
   SEOAnalysisResult, 
   GeminiAnalysis, 
@@ -446,7 +447,8 @@ ${JSON.stringify({
   primary_keywords: data.inferred_keywords?.primary?.keywords?.slice(0, 3) || [],
   eeat_score: data.semantic_analysis?.eeat_score || {},
   query_fan_out: data.semantic_analysis?.query_fan_out || {},
-  headings: data.structured_on_page_data?.headings_and_keywords?.slice(0, 10) || []
+  headings: data.structured_on_page_data?.headings_and_keywords?.slice(0, 10) || [],
+  internal_pages: LinkAnalyzer.getInternalPages(data.structured_on_page_data?.links || [], data.page_metadata.url)
 }, null, 2)}
 \`\`\`
 
@@ -470,6 +472,7 @@ ${JSON.stringify({
 
 4. **INTERNAL LINKS** (internal_link_boost_plan):
    - 3 recommendations
+   - Use URLs from internal_pages as source_page when available instead of generic page types
    - Format: [{"source_page": "...", "suggested_anchor": "..."}]
 
 ## OUTPUT FORMAT (CRITICAL):
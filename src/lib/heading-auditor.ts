@@ -0,0 +1,180 @@
+/**
+ * Heading Auditor
+ * Builds the h1-h6 outline of a page and checks it against heading structure rules
+ */
+
+import { HeadingAudit, HeadingIssue, HeadingNode, OutlineHeading } from '@/types/seo-analysis';
+
+// Heading levels whose lack of a primary keyword is reported, with the severity used
+const KEYWORD_CHECK_SEVERITY: Record<number, HeadingIssue['severity']> = {
+  1: 'warning',
+  2: 'info'
+};
+
+export class HeadingAuditor {
+  private headings: OutlineHeading[];
+  private primaryKeywords: string[];
+
+  constructor(headings: OutlineHeading[], primaryKeywords: string[]) {
+    this.headings = headings;
+    this.primaryKeywords = primaryKeywords;
+  }
+
+  /**
+   * Build the outline tree and run every rule
+   */
+  audit(): HeadingAudit {
+    const h1s = this.headings.filter(heading => heading.level === 1);
+
+    return {
+      outline: this.buildOutline(),
+      heading_count: this.headings.length,
+      h1_count: h1s.length,
+      issues: [
+        ...this.checkH1(h1s),
+        ...this.checkSkippedLevels(),
+        ...this.checkEmptyAndImageOnly(),
+        ...this.checkDuplicates(),
+        ...this.checkPrimaryKeywords()
+      ]
+    };
+  }
+
+  /**
+   * Nest each heading under the closest preceding heading of a higher level
+   */
+  private buildOutline(): HeadingNode[] {
+    const roots: HeadingNode[] = [];
+    const stack: HeadingNode[] = [];
+
+    this.headings.forEach(heading => {
+      const node: HeadingNode = { ...heading, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+        stack.pop();
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(node);
+      } else {
+        roots.push(node);
+      }
+      stack.push(node);
+    });
+
+    return roots;
+  }
+
+  /**
+   * Exactly one H1 is expected
+   */
+  private checkH1(h1s: OutlineHeading[]): HeadingIssue[] {
+    if (h1s.length === 0) {
+      return [{ rule: 'missing_h1', severity: 'error', message: 'The page has no H1', positions: [] }];
+    }
+    if (h1s.length > 1) {
+      return [{
+        rule: 'multiple_h1',
+        severity: 'warning',
+        message: `The page has ${h1s.length} H1 headings; use one H1 for the main topic`,
+        positions: h1s.map(heading => heading.position)
+      }];
+    }
+    return [];
+  }
+
+  /**
+   * Headings that go more than one level deeper than the heading before them, e.g. H2 → H4
+   */
+  private checkSkippedLevels(): HeadingIssue[] {
+    return this.headings.slice(1).flatMap((heading, index) => {
+      const previous = this.headings[index];
+      if (heading.level <= previous.level + 1) return [];
+
+      return [{
+        rule: 'skipped_level' as const,
+        severity: 'warning' as const,
+        message: `H${previous.level} is followed by H${heading.level}${heading.text ? ` ("${heading.text}")` : ''}; H${previous.level + 1} was skipped`,
+        positions: [previous.position, heading.position]
+      }];
+    });
+  }
+
+  /**
+   * Headings without text, and headings made of an image alone
+   */
+  private checkEmptyAndImageOnly(): HeadingIssue[] {
+    const issues: HeadingIssue[] = [];
+
+    this.headings.forEach(heading => {
+      if (!heading.text) {
+        issues.push({
+          rule: 'empty_heading',
+          severity: 'error',
+          message: heading.image_only
+            ? `H${heading.level} contains only an image without alt text`
+            : `H${heading.level} is empty`,
+          positions: [heading.position]
+        });
+      } else if (heading.image_only) {
+        issues.push({
+          rule: 'image_only_heading',
+          severity: 'warning',
+          message: `H${heading.level} is only an image; search engines read its alt text "${heading.text}"`,
+          positions: [heading.position]
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Headings repeating the same text
+   */
+  private checkDuplicates(): HeadingIssue[] {
+    const groups = new Map<string, OutlineHeading[]>();
+
+    this.headings.forEach(heading => {
+      const key = heading.text.toLowerCase().replace(/\s+/g, ' ');
+      if (!key) return;
+      groups.set(key, [...(groups.get(key) || []), heading]);
+    });
+
+    return Array.from(groups.values())
+      .filter(group => group.length > 1)
+      .map(group => ({
+        rule: 'duplicate_heading' as const,
+        severity: 'warning' as const,
+        message: `"${group[0].text}" is used by ${group.length} headings`,
+        positions: group.map(heading => heading.position)
+      }));
+  }
+
+  /**
+   * H1 and H2 headings that mention none of the inferred primary keywords
+   */
+  private checkPrimaryKeywords(): HeadingIssue[] {
+    if (this.primaryKeywords.length === 0) return [];
+
+    return this.headings
+      .filter(heading => heading.text && KEYWORD_CHECK_SEVERITY[heading.level] && !this.mentionsPrimaryKeyword(heading.text))
+      .map(heading => ({
+        rule: 'no_primary_keyword' as const,
+        severity: KEYWORD_CHECK_SEVERITY[heading.level],
+        message: `H${heading.level} "${heading.text}" contains none of the primary keywords`,
+        positions: [heading.position]
+      }));
+  }
+
+  /**
+   * Whether every word of at least one primary keyword appears in the text
+   */
+  private mentionsPrimaryKeyword(text: string): boolean {
+    const words = new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+    return this.primaryKeywords.some(keyword => {
+      const keywordWords = keyword.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      return keywordWords.length > 0 && keywordWords.every(word => words.has(word));
+    });
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Hreflang Analyzer
+ * Validates rel="alternate" hreflang annotations on a page, compares the declared language with
+ * the detected content language, and checks return links across a set of analyzed pages
+ */
+
+import { LanguageDetector } from './language-detector';
+import { HreflangAnalysis, HreflangIssue, HreflangIssueType, HreflangLink, SEOAnalysisResult } from '@/types/seo-analysis';
+
+interface HreflangOptions {
+  htmlLang?: string;
+  contentLanguageHeader?: string;
+  contentText?: string;
+  canonicalUrl?: string;
+}
+
+// ISO 639-1 language codes
+const LANGUAGE_CODES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu ' +
+  'fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ' +
+  'ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os ' +
+  'pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ' +
+  'ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// ISO 3166-1 alpha-2 region codes
+const REGION_CODES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD CF ' +
+  'CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH ' +
+  'GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW ' +
+  'KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG ' +
+  'NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN ' +
+  'SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ' +
+  'ZA ZM ZW'
+).split(' '));
+
+// Codes that look right but are not ISO, with the code that was probably meant
+const LANGUAGE_HINTS: Record<string, string> = { jp: 'ja', cz: 'cs', dk: 'da', gr: 'el', ua: 'uk', se: 'sv', kr: 'ko', cn: 'zh' };
+const REGION_HINTS: Record<string, string> = { UK: 'GB', EN: 'GB or US' };
+
+// Detected languages below this confidence are not compared with the declared language
+const MIN_DETECTION_CONFIDENCE = 0.2;
+
+export class HreflangAnalyzer {
+  private links: HreflangLink[];
+  private pageUrl: string;
+  private options: HreflangOptions;
+
+  constructor(links: HreflangLink[], pageUrl: string, options: HreflangOptions = {}) {
+    this.links = links;
+    this.pageUrl = pageUrl;
+    this.options = options;
+  }
+
+  /**
+   * Validate every annotation and compare the declared and detected languages
+   */
+  analyze(): HreflangAnalysis {
+    const issues: HreflangIssue[] = [];
+    const add = (type: HreflangIssueType, severity: HreflangIssue['severity'], message: string, hreflang?: string) =>
+      issues.push({ type, severity, message, ...(hreflang !== undefined && { hreflang }) });
+
+    this.links.forEach(link => {
+      const codeError = HreflangAnalyzer.validateCode(link.hreflang);
+      if (codeError) add('invalid_code', 'error', codeError, link.hreflang);
+
+      if (!/^https?:\/\//i.test(link.href)) {
+        add('relative_url', 'error', `hreflang="${link.hreflang}" points at "${link.href || '(empty)'}"; hreflang URLs must be absolute`, link.hreflang);
+      }
+    });
+
+    const targetsByCode = new Map<string, Set<string>>();
+    this.links.forEach(link => {
+      const code = link.hreflang.toLowerCase();
+      if (!targetsByCode.has(code)) targetsByCode.set(code, new Set());
+      targetsByCode.get(code)!.add(HreflangAnalyzer.normalizeUrl(link.resolved_url || link.href));
+    });
+    targetsByCode.forEach((targets, code) => {
+      if (targets.size > 1) {
+        add('duplicate_hreflang', 'error', `hreflang="${code}" points at ${targets.size} different URLs`, code);
+      }
+    });
+
+    const selfKeys = new Set([this.pageUrl, this.options.canonicalUrl]
+      .filter((url): url is string => !!url)
+      .map(url => HreflangAnalyzer.normalizeUrl(this.resolve(url))));
+    const selfLink = this.links.find(link =>
+      link.hreflang.toLowerCase() !== 'x-default' && selfKeys.has(HreflangAnalyzer.normalizeUrl(link.resolved_url || link.href))
+    );
+    const hasXDefault = this.links.some(link => link.hreflang.toLowerCase() === 'x-default');
+
+    if (this.links.length > 0) {
+      if (!selfLink) {
+        add('missing_self_reference', 'warning', 'The hreflang set does not include this page; each page must list itself');
+      }
+      if (!hasXDefault) {
+        add('missing_x_default', 'info', 'No hreflang="x-default" for visitors whose language matches none of the alternates');
+      }
+    }
+
+    const htmlLang = this.options.htmlLang;
+    if (!htmlLang) {
+      add('missing_html_lang', 'info', 'The <html> element has no lang attribute');
+    }
+
+    const detected = this.options.contentText ? new LanguageDetector(this.options.contentText).detect() : undefined;
+    if (detected && detected.confidence >= MIN_DETECTION_CONFIDENCE) {
+      const declared: Array<[string, string | undefined]> = [['<html lang>', htmlLang], ['Self hreflang', selfLink?.hreflang]];
+      declared.forEach(([source, code]) => {
+        const language = code?.split(/[-_]/)[0].toLowerCase();
+        if (language && language !== detected.language) {
+          add('language_mismatch', 'warning', `${source} declares "${code}" but the content reads as "${detected.language}"`, code);
+        }
+      });
+    }
+
+    return {
+      links: this.links,
+      has_x_default: hasXDefault,
+      ...(!!selfLink && { self_hreflang: selfLink.hreflang }),
+      ...(!!htmlLang && { html_lang: htmlLang }),
+      ...(!!this.options.contentLanguageHeader && { content_language_header: this.options.contentLanguageHeader }),
+      ...(!!detected && { detected_language: detected }),
+      issues
+    };
+  }
+
+  /**
+   * Missing return links between analyzed pages: A lists B as an alternate but B does not list A
+   */
+  static checkReciprocity(results: SEOAnalysisResult[]): HreflangIssue[] {
+    const pages = new Map<string, SEOAnalysisResult>();
+    const aliases = new Map<string, string>();
+
+    results.forEach(result => {
+      const key = HreflangAnalyzer.normalizeUrl(result.page_metadata.url);
+      pages.set(key, result);
+      const finalUrl = result.http_analysis?.final_url;
+      if (finalUrl) aliases.set(HreflangAnalyzer.normalizeUrl(finalUrl), key);
+    });
+    const resolveKey = (url: string) => {
+      const key = HreflangAnalyzer.normalizeUrl(url);
+      return aliases.get(key) || key;
+    };
+
+    const issues: HreflangIssue[] = [];
+    pages.forEach((result, key) => {
+      (result.hreflang?.links || []).forEach(link => {
+        const targetKey = resolveKey(link.resolved_url || link.href);
+        const target = pages.get(targetKey);
+        if (!target || targetKey === key) return;
+
+        const linksBack = (target.hreflang?.links || []).some(back => resolveKey(back.resolved_url || back.href) === key);
+        if (!linksBack) {
+          issues.push({
+            type: 'missing_return_link',
+            severity: 'error',
+            message: `${target.page_metadata.url} (hreflang="${link.hreflang}") does not link back to this page`,
+            hreflang: link.hreflang,
+            url: result.page_metadata.url
+          });
+        }
+      });
+    });
+
+    return issues;
+  }
+
+  /**
+   * Why an hreflang value is invalid, or null when it is "x-default" or language(-Script)(-REGION)
+   */
+  static validateCode(hreflang: string): string | null {
+    if (hreflang.toLowerCase() === 'x-default') return null;
+    if (hreflang.includes('_')) return `"${hreflang}" uses an underscore; use "${hreflang.replace(/_/g, '-')}"`;
+
+    const match = hreflang.match(/^([a-z]+)(?:-([a-z]{4}))?(?:-([a-z]+))?$/i);
+    if (!match) return `"${hreflang}" is not a language or language-region code`;
+
+    const [, language, , region] = match;
+    const languageLower = language.toLowerCase();
+    if (!LANGUAGE_CODES.has(languageLower)) {
+      const hint = LANGUAGE_HINTS[languageLower];
+      return `"${language}" is not an ISO 639-1 language code${hint ? `; did you mean "${hint}"?` : ''}`;
+    }
+
+    if (region && !REGION_CODES.has(region.toUpperCase())) {
+      const hint = REGION_HINTS[region.toUpperCase()];
+      return `"${region}" is not an ISO 3166-1 region code${hint ? `; did you mean "${hint}"?` : ''}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a possibly relative URL against the page
+   */
+  private resolve(url: string): string {
+    try {
+      return new URL(url, this.pageUrl).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Drop the fragment and trailing slash and lowercase the host so URL variants compare equal
+   */
+  private static normalizeUrl(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      urlObj.hash = '';
+      urlObj.hostname = urlObj.hostname.toLowerCase();
+      if (urlObj.pathname.length > 1) urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+      return urlObj.toString();
+    } catch {
+      return url;
+    }
+  }
+}
@@ -11,18 +11,58 @@ import {
   ImageAltText, 
   UrlAnalysis, 
   MetaDataAnalysis,
-  MetaKeywordsInfo
+  MetaKeywordsInfo,
+  RobotsMetaTag,
+  StructuredDataAnalysis,
+  PageLink,
+  LinkLocation,
+  OutlineHeading,
+  ContentSelectorProfile,
+  ContentSelectorMatch,
+  PageImage,
+  HreflangLink
 } from '@/types/seo-analysis';
+import { getSelectorProfile } from '@/config/selector-profiles';
+import { StructuredDataExtractor } from './structured-data-extractor';
+import { SocialMetadataExtractor } from './social-metadata-extractor';
+import { ContentExtractor } from './content-extractor';
+import { TextProcessor } from './text-processor';
+
+// Meta names that carry robots directives: the generic "robots" plus crawler-specific ones
+const ROBOTS_META_NAME = /^(robots|[a-z-]*bot(-[a-z]+)?|slurp|baiduspider|yandex)$/;
+
+// Page regions a link can sit in, checked in order; anything else is body content
+const LINK_LOCATIONS: Array<[LinkLocation, string]> = [
+  ['nav', 'nav, [role="navigation"]'],
+  ['footer', 'footer, [role="contentinfo"]'],
+  ['header', 'header, [role="banner"]'],
+  ['aside', 'aside, [role="complementary"]']
+];
+
+// Minimum text an include selector must hold to count as the content area
+const MIN_INCLUDE_TEXT_LENGTH = 200;
+
+// Below this much text from the content extractor and fallback selectors, the whole body is used
+const MIN_CONTENT_TEXT_LENGTH = 100;
+
+// Elements whose text forms one block of the main content
+const CONTENT_BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, dt, dd, th, td, blockquote, figcaption, pre';
 
 type CheerioRoot = ReturnType<typeof load>;
+type CheerioSelection = ReturnType<CheerioRoot>;
+type CheerioNode = ReturnType<CheerioSelection['toArray']>[number];
 
 export class HTMLParser {
   private $: CheerioRoot;
   private url: string;
+  private profile: ContentSelectorProfile;
+  private contentArea?: { container: CheerioSelection; match: ContentSelectorMatch; text?: string };
+  private textProcessor?: TextProcessor;
 
-  constructor(html: string, url: string) {
+  constructor(html: string, url: string, profile: ContentSelectorProfile = getSelectorProfile(undefined, url)) {
     this.$ = load(html);
     this.url = url;
+    this.profile = profile;
   }
 
   /**
@@ -41,7 +81,8 @@ export class HTMLParser {
       meta_description: metaDescription,
       favicon_url: this.resolveUrl(favicon),
       language,
-      charset
+      charset,
+      social_metadata: new SocialMetadataExtractor(this.$, this.url).extract(title, metaDescription)
     };
   }
 
@@ -53,33 +94,12 @@ export class HTMLParser {
     const headings: HeadingWithKeywords[] = [];
     const headingTags = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
 
-    // Priority content selectors to focus heading extraction
-    const prioritySelectors = [
-      '.blog-hero-container',
-      '.blog-content-container', 
-      '#main-content-wrapper',
-      '.content-area'
-    ];
-
-    // First, try to find headings within priority content areas
-    let contentContainer = null;
-    for (const selector of prioritySelectors) {
-      const container = this.$(selector).first();
-      if (container.length > 0) {
-        contentContainer = container;
-        break;
-      }
-    }
-
-    // If no priority container found, use body
-    if (!contentContainer) {
-      contentContainer = this.$('body');
-    }
+    const { container: contentContainer } = this.getContentArea();
 
     headingTags.forEach((tag, index) => {
       contentContainer.find(tag).each((i, element) => {
         const text = this.$(element).text().trim();
-        if (text) {
+        if (text && !this.isExcluded(this.$(element))) {
           headings.push({
             tag,
             text,
@@ -93,6 +113,29 @@ export class HTMLParser {
     return headings;
   }
 
+  /**
+   * Every h1-h6 on the page in document order, including empty and image-only headings
+   */
+  extractHeadingOutline(): OutlineHeading[] {
+    const headings: OutlineHeading[] = [];
+
+    this.$('body').find('h1, h2, h3, h4, h5, h6').each((position, element) => {
+      const heading = this.$(element);
+      const text = heading.text().replace(/\s+/g, ' ').trim();
+      const images = heading.find('img');
+      const imageOnly = !text && images.length > 0;
+
+      headings.push({
+        level: parseInt((heading.prop('tagName') || 'H1').slice(1), 10),
+        text: imageOnly ? (images.first().attr('alt') || '').trim() : text,
+        position,
+        ...(imageOnly && { image_only: true })
+      });
+    });
+
+    return headings;
+  }
+
   /**
    * Analyze URL structure and extract keywords
    */
@@ -141,30 +184,7 @@ export class HTMLParser {
     // Extract image alt texts from main content areas
     const imageAltTexts: ImageAltText[] = [];
     
-    // Priority content selectors for image extraction
-    const prioritySelectors = [
-      '.blog-hero-container',
-      '.blog-content-container', 
-      '#main-content-wrapper',
-      '.content-area'
-    ];
-
-    // First, try to find images within priority content areas
-    let contentContainer = null;
-    for (const selector of prioritySelectors) {
-      const container = this.$(selector).first();
-      if (container.length > 0) {
-        contentContainer = container;
-        break;
-      }
-    }
-
-    // If no priority container found, use body
-    if (!contentContainer) {
-      contentContainer = this.$('body');
-    }
-
-    contentContainer.find('img').each((i, element) => {
+    this.getContentImages().forEach(element => {
       const alt = this.$(element).attr('alt') || '';
       const src = this.$(element).attr('src') || '';
       if (alt) {
@@ -181,11 +201,111 @@ export class HTMLParser {
       image_alt_texts: imageAltTexts,
       canonical_url: canonicalUrl,
       robots_meta: robotsMeta,
+      robots_meta_tags: this.extractRobotsMetaTags(),
       meta_keywords: metaKeywords,
       meta_keywords_analysis: metaKeywordsAnalysis
     };
   }
 
+  /**
+   * Every <img> on the page in document order, including images without alt text
+   */
+  extractImages(): PageImage[] {
+    const contentImages = new Set(this.getContentImages());
+    let altTextIndex = 0;
+
+    return this.$('body').find('img').toArray().map((element, position) => {
+      const image = this.$(element);
+      const alt = image.attr('alt');
+      const role = (image.attr('role') || '').toLowerCase();
+      const src = image.attr('src') || image.attr('data-src') || '';
+      const inContent = contentImages.has(element);
+      const picture = image.parent().is('picture') ? image.parent() : null;
+
+      return {
+        src: src.startsWith('data:') ? src : this.resolveUrl(src),
+        alt,
+        decorative: role === 'presentation' || role === 'none' || image.attr('aria-hidden') === 'true',
+        width: image.attr('width'),
+        height: image.attr('height'),
+        loading: image.attr('loading')?.toLowerCase(),
+        fetchpriority: image.attr('fetchpriority')?.toLowerCase(),
+        srcset: image.attr('srcset') || image.attr('data-srcset'),
+        sizes: image.attr('sizes'),
+        picture_source_types: picture
+          ? picture.find('source[type]').toArray().map(source => (this.$(source).attr('type') || '').toLowerCase())
+          : [],
+        position,
+        in_content: inContent,
+        // Same condition as the image alt texts list, so the indexes line up
+        ...(inContent && !!alt && { alt_text_index: altTextIndex++ })
+      };
+    });
+  }
+
+  /**
+   * Images inside the content area that are not excluded by the selector profile
+   */
+  private getContentImages(): CheerioNode[] {
+    return this.getContentArea().container.find('img').toArray()
+      .filter(element => !this.isExcluded(this.$(element)));
+  }
+
+  /**
+   * Extract every robots directive meta tag, including bot-specific ones (e.g. googlebot)
+   */
+  extractRobotsMetaTags(): RobotsMetaTag[] {
+    const tags: RobotsMetaTag[] = [];
+
+    this.$('meta[name][content]').each((_, element) => {
+      const name = (this.$(element).attr('name') || '').trim().toLowerCase();
+      const content = (this.$(element).attr('content') || '').trim();
+      if (ROBOTS_META_NAME.test(name) && content) {
+        tags.push({ name, content });
+      }
+    });
+
+    return tags;
+  }
+
+  /**
+   * Extract <link rel="alternate" hreflang> annotations, keeping the declared href alongside the resolved URL
+   */
+  extractHreflangLinks(): HreflangLink[] {
+    const links: HreflangLink[] = [];
+
+    this.$('link[rel~="alternate"][hreflang]').each((_, element) => {
+      const hreflang = (this.$(element).attr('hreflang') || '').trim();
+      const href = (this.$(element).attr('href') || '').trim();
+      if (!hreflang && !href) return;
+
+      let resolvedUrl: string | undefined;
+      try {
+        resolvedUrl = href ? new URL(href, this.url).toString() : undefined;
+      } catch {
+        resolvedUrl = undefined;
+      }
+
+      links.push({ hreflang, href, ...(!!resolvedUrl && { resolved_url: resolvedUrl }) });
+    });
+
+    return links;
+  }
+
+  /**
+   * The <html lang> attribute as declared, or undefined when missing or empty
+   */
+  getHtmlLang(): string | undefined {
+    return (this.$('html').attr('lang') || '').trim() || undefined;
+  }
+
+  /**
+   * Extract and validate JSON-LD, Microdata and RDFa structured data
+   */
+  extractStructuredData(): StructuredDataAnalysis {
+    return new StructuredDataExtractor(this.$).extract();
+  }
+
   /**
    * Analyze meta keywords tag with enhanced detection
    */
@@ -223,65 +343,142 @@ export class HTMLParser {
 
   /**
    * Extract main content text for analysis
-   * Prioritizes specific blog/content selectors as requested
+   * Reads the content area chosen by the selector profile, without excluded boilerplate
    */
   extractMainContent(): string {
-    // Prioritize specific blog/content selectors as requested
-    const prioritySelectors = [
-      '.blog-hero-container',
-      '.blog-content-container', 
-      '#main-content-wrapper',
-      '.content-area'
-    ];
-
-    // Fallback to general content selectors
-    const fallbackSelectors = [
-      'main',
-      'article',
-      '[role="main"]',
-      '.content',
-      '.post-content',
-      '.entry-content',
-      '#content'
-    ];
-
-    let content = '';
-    let maxContentLength = 0;
-
-    // First, try priority selectors and use the one with the most content
-    for (const selector of prioritySelectors) {
-      const elements = this.$(selector);
-      if (elements.length > 0) {
-        elements.each((_, element) => {
-          const text = this.$(element).text().trim();
-          if (text.length > maxContentLength && text.length > 200) {
-            content = text;
-            maxContentLength = text.length;
-          }
-        });
-      }
-    }
+    const { container, text } = this.getContentArea();
+    return text ?? this.getContentText(container);
+  }
 
-    // If no substantial content found in priority selectors, try fallback selectors
-    if (maxContentLength < 200) {
-      for (const selector of fallbackSelectors) {
-        const element = this.$(selector).first();
-        if (element.length > 0) {
-          const text = element.text().trim();
-          if (text.length > maxContentLength) {
-            content = text;
-            maxContentLength = text.length;
+  /**
+   * Resolve the content area: the profile's include match with the most text, else the
+   * highest-scoring block from the content extractor, else the profile's fallbacks, else the body
+   */
+  getContentArea(): { container: CheerioSelection; match: ContentSelectorMatch; text?: string } {
+    if (this.contentArea) return this.contentArea;
+
+    const pick = (selectors: string[], minLength: number, firstOnly: boolean) => {
+      let best: { container: CheerioSelection; selector: string; length: number } | null = null;
+      for (const selector of selectors) {
+        const elements = this.$(selector).toArray().slice(0, firstOnly ? 1 : undefined);
+        for (const element of elements) {
+          const container = this.$(element);
+          const length = this.getContentText(container).length;
+          if (length > minLength && length > (best?.length ?? 0)) {
+            best = { container, selector, length };
           }
         }
       }
+      return best;
+    };
+
+    const profile = this.profile.name;
+    const included = pick(this.profile.include, MIN_INCLUDE_TEXT_LENGTH, false);
+    if (included) {
+      this.contentArea = { container: included.container, match: { profile, selector: included.selector, source: 'include' } };
+      return this.contentArea;
     }
 
-    // Final fallback to body if no substantial content found
-    if (maxContentLength < 100) {
-      content = this.$('body').text().trim();
+    const scored = new ContentExtractor(this.$, this.profile.exclude).extract();
+    if (scored && scored.text.length > MIN_CONTENT_TEXT_LENGTH) {
+      this.contentArea = {
+        container: scored.container,
+        match: { profile, selector: scored.path, source: 'scored', score: scored.score },
+        text: scored.text
+      };
+      return this.contentArea;
     }
 
-    return content;
+    const fallback = pick(this.profile.fallback, MIN_CONTENT_TEXT_LENGTH, true);
+    this.contentArea = fallback
+      ? { container: fallback.container, match: { profile, selector: fallback.selector, source: 'fallback' } }
+      : { container: this.$('body'), match: { profile, selector: 'body', source: 'body' } };
+
+    return this.contentArea;
+  }
+
+  /**
+   * Text of an element with the profile's excluded elements removed
+   */
+  private getContentText(container: CheerioSelection): string {
+    if (this.profile.exclude.length === 0) return container.text().trim();
+
+    const copy = container.clone();
+    copy.find(this.profile.exclude.join(', ')).remove();
+    return copy.text().trim();
+  }
+
+  /**
+   * Text of each heading, paragraph, list item and other block of the content area, in document order;
+   * blocks holding other blocks are skipped so their text is not read twice
+   */
+  extractContentBlocks(): string[] {
+    const { container } = this.getContentArea();
+    const blocks: string[] = [];
+
+    container.find(CONTENT_BLOCK_SELECTOR).each((_, element) => {
+      const block = this.$(element);
+      if (this.isExcluded(block) || block.find(CONTENT_BLOCK_SELECTOR).length > 0) return;
+
+      const text = block.text().replace(/\s+/g, ' ').trim();
+      if (text) blocks.push(text);
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Whether an element sits inside one of the profile's excluded elements
+   */
+  private isExcluded(element: CheerioSelection): boolean {
+    return this.profile.exclude.length > 0 && element.closest(this.profile.exclude.join(', ')).length > 0;
+  }
+
+  /**
+   * Extract every http(s) anchor with its anchor text, rel tokens, internal/external class and page region
+   * Fragments are dropped; each anchor is kept, so repeated links to one URL appear repeatedly
+   */
+  extractLinks(): PageLink[] {
+    const links: PageLink[] = [];
+    const pageHost = this.getHostname(this.url);
+
+    this.$('a[href]').each((_, element) => {
+      const anchor = this.$(element);
+      const href = (anchor.attr('href') || '').trim();
+      if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) return;
+
+      let resolved: URL;
+      try {
+        resolved = new URL(href, this.url);
+      } catch {
+        return; // Ignore malformed hrefs
+      }
+      if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return;
+      resolved.hash = '';
+
+      const text = anchor.text().replace(/\s+/g, ' ').trim();
+      const imageAlt = anchor.find('img[alt]').first().attr('alt')?.trim();
+      const location = LINK_LOCATIONS.find(([, selector]) => anchor.closest(selector).length > 0)?.[0] || 'body';
+
+      links.push({
+        href: resolved.toString(),
+        text: text || imageAlt || '',
+        rel: (anchor.attr('rel') || '').toLowerCase().split(/\s+/).filter(Boolean),
+        internal: !!pageHost && this.getHostname(resolved.toString()) === pageHost,
+        location,
+        ...(!text && anchor.find('img').length > 0 && { is_image_link: true })
+      });
+    });
+
+    return links;
+  }
+
+  /**
+   * Extract resolved URLs of all anchors on the page
+   * Fragments are dropped and only http(s) links are kept
+   */
+  extractLinkUrls(): string[] {
+    return Array.from(new Set(this.extractLinks().map(link => link.href)));
   }
 
   /**
@@ -296,19 +493,26 @@ export class HTMLParser {
   }
 
   /**
-   * Build structured on-page data
+   * Build structured on-page data; JSON-LD, Microdata and RDFa are only parsed when requested
    */
-  buildStructuredOnPageData(): StructuredOnPageData {
+  buildStructuredOnPageData(includeStructuredData = true): StructuredOnPageData {
     const headings = this.extractHeadingsWithKeywords();
     const urlAnalysis = this.analyzeUrl();
     const metaDataAnalysis = this.extractMetaDataAnalysis();
     const content = this.extractMainContent();
     const contentMetrics = this.getContentMetrics(content);
+    const links = this.extractLinks();
 
     return {
       headings_and_keywords: headings,
       url_analysis: urlAnalysis,
       meta_data_analysis: metaDataAnalysis,
+      content_selector: this.getContentArea().match,
+      ...(includeStructuredData && { structured_data: this.extractStructuredData() }),
+      outbound_links: Array.from(new Set(links.map(link => link.href))),
+      links,
+      images: this.extractImages(),
+      content_language: this.getTextProcessor().language,
       content_length: contentMetrics.content_length,
       word_count: contentMetrics.word_count
     };
@@ -320,15 +524,8 @@ export class HTMLParser {
   private extractKeywordsFromText(text: string): string[] {
     if (!text) return [];
 
-    // Clean and normalize text
-    const cleaned = text
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-
     // Split into words and filter
-    const tokens = cleaned.split(' ')
+    const tokens = this.getTextProcessor().tokenize(text)
       .filter(word => 
         word.length > 2 && 
         word.length < 50 &&
@@ -360,16 +557,31 @@ export class HTMLParser {
   }
 
   /**
-   * Check if word is a stop word
+   * Check if word is a stop word in the content language
    */
   private isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these',
-      'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them'
-    ]);
-    return stopWords.has(word);
+    return this.getTextProcessor().isStopWord(word);
+  }
+
+  /**
+   * Tokenizer, stop words and stemmer for the language detected in the main content, else <html lang>
+   */
+  getTextProcessor(): TextProcessor {
+    if (!this.textProcessor) {
+      this.textProcessor = TextProcessor.forContent(this.extractMainContent(), this.getHtmlLang());
+    }
+    return this.textProcessor;
+  }
+
+  /**
+   * Hostname without a leading www., so example.com and www.example.com count as one site
+   */
+  private getHostname(url: string): string | null {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
   }
 
   /**
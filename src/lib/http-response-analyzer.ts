@@ -0,0 +1,116 @@
+/**
+ * HTTP Response Analyzer
+ * Extracts SEO-relevant response headers and flags redirect chain problems
+ */
+
+import { RedirectHop, SEOResponseHeaders } from '@/types/seo-analysis';
+
+// Chains with at least this many redirects get a warning
+const LONG_CHAIN_REDIRECTS = 3;
+
+// Temporary redirect statuses; permanent moves should use 301 or 308
+const TEMPORARY_REDIRECTS = [302, 303, 307];
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+export class HttpResponseAnalyzer {
+  private chain: RedirectHop[];
+  private headers: SEOResponseHeaders;
+
+  constructor(chain: RedirectHop[], headers: SEOResponseHeaders) {
+    this.chain = chain;
+    this.headers = headers;
+  }
+
+  /**
+   * Pick the SEO-relevant headers from a response
+   */
+  static extractSeoHeaders(headers?: HeaderSource | null): SEOResponseHeaders {
+    if (!headers) return {};
+
+    const read = (name: string) => headers.get(name)?.trim() || undefined;
+    const linkCanonical = HttpResponseAnalyzer.parseLinkCanonical(read('link'));
+    const seoHeaders: SEOResponseHeaders = {
+      content_type: read('content-type'),
+      content_language: read('content-language'),
+      cache_control: read('cache-control'),
+      vary: read('vary'),
+      x_robots_tag: read('x-robots-tag'),
+      link_canonical: linkCanonical
+    };
+
+    // Drop absent headers so the block only lists what the server sent
+    return Object.fromEntries(
+      Object.entries(seoHeaders).filter(([, value]) => value !== undefined)
+    ) as SEOResponseHeaders;
+  }
+
+  /**
+   * Find the rel=canonical target in a Link header, e.g. `<https://example.com/>; rel="canonical"`
+   */
+  static parseLinkCanonical(link?: string): string | undefined {
+    if (!link) return undefined;
+
+    for (const part of link.split(/,(?=\s*<)/)) {
+      const match = part.match(/<([^>]+)>(.*)$/);
+      const rel = match?.[2].match(/rel\s*=\s*"?([^";]+)"?/i)?.[1];
+      if (match && rel && rel.toLowerCase().split(/\s+/).includes('canonical')) {
+        return match[1].trim();
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Warnings for long chains, temporary redirects, protocol switches and non-HTML responses
+   */
+  getWarnings(): string[] {
+    const warnings: string[] = [];
+    const redirects = this.chain.filter(hop => hop.location);
+
+    if (redirects.length >= LONG_CHAIN_REDIRECTS) {
+      warnings.push(`Redirect chain has ${redirects.length} hops; link directly to the final URL`);
+    }
+
+    redirects.forEach(hop => {
+      if (TEMPORARY_REDIRECTS.includes(hop.status_code)) {
+        warnings.push(
+          `${hop.url} uses a temporary ${hop.status_code} redirect; use 301 or 308 if the move is permanent`
+        );
+      }
+
+      if (hop.location && this.getProtocol(hop.url) === 'https:' && this.getProtocol(hop.location) === 'http:') {
+        warnings.push(`${hop.url} redirects from https to insecure http (${hop.location})`);
+      }
+    });
+
+    const protocols = this.chain.map(hop => this.getProtocol(hop.url));
+    const switches = protocols.filter((protocol, index) => index > 0 && protocol !== protocols[index - 1]).length;
+    if (switches > 1) {
+      warnings.push(`Redirect chain switches between http and https ${switches} times`);
+    } else if (switches === 1 && protocols[0] === 'http:' && protocols[1] !== 'https:') {
+      warnings.push('The upgrade to https happens mid-chain; redirect to https on the first hop');
+    }
+
+    const contentType = this.headers.content_type;
+    if (contentType && !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      warnings.push(`Content-Type is ${contentType}, not HTML`);
+    }
+
+    return warnings;
+  }
+
+  /**
+   * URL protocol, or an empty string for unparsable URLs
+   */
+  private getProtocol(url: string): string {
+    try {
+      return new URL(url).protocol;
+    } catch {
+      return '';
+    }
+  }
+}
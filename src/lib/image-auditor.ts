@@ -0,0 +1,163 @@
+/**
+ * Image Auditor
+ * Checks every image on a page for alt text, file naming, layout stability, loading and format issues
+ */
+
+import { ImageAudit, ImageAuditItem, ImageIssue, ImageIssueType, PageImage } from '@/types/seo-analysis';
+
+// The first images in document order are assumed to render above the fold
+const ABOVE_THE_FOLD_IMAGES = 2;
+
+// Screen readers cut alt text off around this length
+const MAX_ALT_LENGTH = 125;
+
+// Formats with a smaller WebP/AVIF equivalent
+const LEGACY_FORMATS = new Set(['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tif', 'tiff']);
+
+// Filename words that say nothing about the image
+const GENERIC_FILENAME_WORDS = new Set([
+  'img', 'image', 'images', 'photo', 'pic', 'picture', 'dsc', 'dscn', 'dscf', 'screenshot', 'screen', 'shot',
+  'untitled', 'file', 'copy', 'scaled', 'final', 'edited', 'large', 'medium', 'small', 'thumb', 'thumbnail', 'banner', 'hero'
+]);
+
+export class ImageAuditor {
+  private images: PageImage[];
+  private keywords: string[];
+
+  constructor(images: PageImage[], keywords: string[]) {
+    this.images = images;
+    this.keywords = keywords.map(keyword => keyword.toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * Audit every image and count issues by type
+   */
+  audit(): ImageAudit {
+    const images = this.images.map(image => this.auditImage(image));
+    const issueCounts: Partial<Record<ImageIssueType, number>> = {};
+    images.forEach(image => image.issues.forEach(issue => {
+      issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+    }));
+
+    return {
+      images,
+      total_images: images.length,
+      images_with_issues: images.filter(image => image.issues.length > 0).length,
+      issue_counts: issueCounts
+    };
+  }
+
+  /**
+   * Build the inventory row for one image
+   */
+  private auditImage(image: PageImage): ImageAuditItem {
+    const alt = image.alt?.trim();
+    const altStatus: ImageAuditItem['alt_status'] = alt
+      ? 'present'
+      : image.decorative ? 'decorative' : alt === undefined ? 'missing' : 'empty';
+    const format = this.getFormat(image.src);
+    const aboveTheFold = image.fetchpriority === 'high' || image.position < ABOVE_THE_FOLD_IMAGES;
+    const issues: ImageIssue[] = [];
+    const add = (type: ImageIssueType, severity: ImageIssue['severity'], message: string) => issues.push({ type, severity, message });
+
+    if (altStatus === 'missing') {
+      add('missing_alt', 'error', 'No alt attribute; add a description, or alt="" if the image is decorative');
+    } else if (altStatus === 'empty') {
+      add('empty_alt', image.in_content ? 'warning' : 'info',
+        'Empty alt marks the image as decorative; describe it if it carries content');
+    } else if (alt) {
+      if (this.isKeywordStuffed(alt)) {
+        add('keyword_stuffed_alt', 'warning', 'Alt text repeats keywords instead of describing the image');
+      }
+      if (alt.length > MAX_ALT_LENGTH) {
+        add('long_alt', 'info', `Alt text is ${alt.length} characters; keep it under ${MAX_ALT_LENGTH}`);
+      }
+    }
+
+    const filename = this.getFilename(image.src);
+    if (filename && !image.src.startsWith('data:') && !this.hasMeaningfulWords(filename)) {
+      add('meaningless_filename', 'info', `Filename "${filename}" does not describe the image`);
+    }
+
+    const hasDimensions = !!image.width && !!image.height;
+    if (!hasDimensions) {
+      add('missing_dimensions', 'warning', 'No width and height attributes; the browser cannot reserve space, causing layout shift');
+    }
+
+    if (image.loading === 'lazy' && aboveTheFold) {
+      add('lazy_above_fold', 'warning', 'loading="lazy" on an image likely above the fold delays the largest contentful paint');
+    }
+
+    if (image.srcset && /\d+w\b/.test(image.srcset) && !image.sizes) {
+      add('srcset_without_sizes', 'warning', 'srcset uses width descriptors without sizes, so browsers assume the image fills the viewport');
+    } else if (!image.srcset && image.in_content && format !== 'svg') {
+      add('no_srcset', 'info', 'No srcset; small screens download the full-size image');
+    }
+
+    const hasModernSource = image.picture_source_types.some(type => type === 'image/webp' || type === 'image/avif');
+    if (format && LEGACY_FORMATS.has(format) && !hasModernSource) {
+      add('legacy_format', 'info', `${format.toUpperCase()} without a WebP or AVIF alternative`);
+    }
+
+    return {
+      src: image.src,
+      filename,
+      ...(image.alt !== undefined && { alt: image.alt }),
+      alt_status: altStatus,
+      ...(!!format && { format }),
+      has_dimensions: hasDimensions,
+      ...(!!image.loading && { loading: image.loading }),
+      above_the_fold: aboveTheFold,
+      has_srcset: !!image.srcset,
+      has_sizes: !!image.sizes,
+      in_content: image.in_content,
+      ...(image.alt_text_index !== undefined && { alt_text_index: image.alt_text_index }),
+      issues
+    };
+  }
+
+  /**
+   * Alt text that repeats a keyword, packs in three keyword mentions, or reads as a comma-separated list
+   */
+  private isKeywordStuffed(alt: string): boolean {
+    const text = alt.toLowerCase();
+    const counts = this.keywords.map(keyword => text.split(keyword).length - 1);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+
+    return counts.some(count => count >= 2) || total >= 3 || alt.split(',').length >= 4;
+  }
+
+  /**
+   * Last path segment of the URL, decoded
+   */
+  private getFilename(src: string): string {
+    if (!src || src.startsWith('data:')) return '';
+    try {
+      const path = new URL(src, 'https://example.invalid').pathname;
+      return decodeURIComponent(path.split('/').pop() || '');
+    } catch {
+      return src.split(/[?#]/)[0].split('/').pop() || '';
+    }
+  }
+
+  /**
+   * Lowercase extension from the URL path, or the subtype of a data: URI
+   */
+  private getFormat(src: string): string | undefined {
+    const dataType = src.match(/^data:image\/([a-z0-9.+-]+)/i);
+    if (dataType) return dataType[1].toLowerCase().replace('svg+xml', 'svg');
+
+    const extension = this.getFilename(src).match(/\.([a-z0-9]+)$/i);
+    return extension ? extension[1].toLowerCase() : undefined;
+  }
+
+  /**
+   * Whether the filename, without its extension, has a real word: three or more letters and not a generic camera or CMS name
+   */
+  private hasMeaningfulWords(filename: string): boolean {
+    return filename
+      .replace(/\.[a-z0-9]+$/i, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .some(word => /^\p{L}{3,}$/u.test(word) && !GENERIC_FILENAME_WORDS.has(word.toLowerCase()));
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Indexability Analyzer
+ * Combines robots directives (meta tags and X-Robots-Tag), canonical, HTTP status
+ * and robots.txt into a single indexability verdict with reasons
+ */
+
+import {
+  HttpAnalysis,
+  IndexabilityAnalysis,
+  IndexabilityReason,
+  IndexabilityVerdict,
+  RobotsDirectives,
+  RobotsDirectiveSource,
+  RobotsMetaTag,
+  RobotsTxtAnalysis
+} from '@/types/seo-analysis';
+
+export interface IndexabilityInputs {
+  url: string;
+  robotsMetaTags: RobotsMetaTag[];
+  canonicalUrl?: string;
+  http?: HttpAnalysis;
+  robotsTxt?: RobotsTxtAnalysis;
+}
+
+// Directives whose name is followed by ":value"; anything else before a colon is a user-agent prefix
+const VALUE_DIRECTIVES = ['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after'];
+
+// max-image-preview settings from most to least restrictive
+const IMAGE_PREVIEW_ORDER = ['none', 'standard', 'large'];
+
+export class IndexabilityAnalyzer {
+  private inputs: IndexabilityInputs;
+  private crawler: string;
+
+  constructor(inputs: IndexabilityInputs, crawler: string = 'Googlebot') {
+    this.inputs = inputs;
+    this.crawler = crawler;
+  }
+
+  /**
+   * Parse a comma-separated robots directive list (meta content or header value)
+   */
+  static parseDirectives(content: string): RobotsDirectives {
+    const directives = IndexabilityAnalyzer.emptyDirectives();
+
+    content.split(',').forEach(part => {
+      const [rawName, ...rest] = part.split(':');
+      const name = rawName.trim().toLowerCase();
+      const value = rest.join(':').trim();
+
+      switch (name) {
+        case 'none':
+          directives.noindex = true;
+          directives.nofollow = true;
+          break;
+        case 'noindex':
+        case 'nofollow':
+        case 'noarchive':
+        case 'nosnippet':
+        case 'noimageindex':
+          directives[name] = true;
+          break;
+        case 'max-snippet':
+        case 'max-video-preview': {
+          const limit = parseInt(value, 10);
+          if (!isNaN(limit)) directives[name === 'max-snippet' ? 'max_snippet' : 'max_video_preview'] = limit;
+          break;
+        }
+        case 'max-image-preview':
+          if (value) directives.max_image_preview = value.toLowerCase();
+          break;
+        case 'unavailable_after':
+          if (value) directives.unavailable_after = value;
+          break;
+      }
+    });
+
+    return directives;
+  }
+
+  /**
+   * Split an X-Robots-Tag header into per-user-agent directive groups,
+   * e.g. "googlebot: noindex, nofollow, otherbot: noarchive"
+   */
+  static parseXRobotsTag(header: string): RobotsDirectiveSource[] {
+    const groups: Array<{ user_agent: string; parts: string[] }> = [];
+    let current = { user_agent: '*', parts: [] as string[] };
+    groups.push(current);
+
+    header.split(',').forEach(part => {
+      const match = part.trim().match(/^([a-z0-9_-]+)\s*:\s*(.*)$/i);
+      if (match && !VALUE_DIRECTIVES.includes(match[1].toLowerCase())) {
+        current = { user_agent: match[1].toLowerCase(), parts: [match[2]] };
+        groups.push(current);
+      } else {
+        current.parts.push(part.trim());
+      }
+    });
+
+    return groups
+      .filter(group => group.parts.some(Boolean))
+      .map(group => {
+        const raw = group.parts.filter(Boolean).join(', ');
+        return {
+          source: 'x-robots-tag' as const,
+          user_agent: group.user_agent,
+          raw,
+          directives: IndexabilityAnalyzer.parseDirectives(raw)
+        };
+      });
+  }
+
+  /**
+   * Compute the verdict and the reasons behind it
+   */
+  analyze(): IndexabilityAnalysis {
+    const sources = this.collectDirectiveSources();
+    const applicable = sources.filter(source => this.appliesToCrawler(source.user_agent));
+    const effective = this.mergeDirectives(applicable.map(source => source.directives));
+    const canonical = this.resolveCanonical();
+
+    const reasons: IndexabilityReason[] = [
+      ...this.evaluateHttpStatus(),
+      ...this.evaluateDirectives(effective, applicable),
+      ...this.evaluateOtherCrawlers(sources),
+      ...this.evaluateCanonical(canonical),
+      ...this.evaluateCanonicalHeader(),
+      ...this.evaluateRobotsTxt()
+    ];
+
+    let verdict: IndexabilityVerdict = 'indexable';
+    if (reasons.some(reason => reason.severity === 'blocking')) {
+      verdict = 'non_indexable';
+    } else if (canonical.type === 'cross_url' || this.inputs.http?.redirected) {
+      verdict = 'canonicalized';
+    }
+
+    return {
+      verdict,
+      is_indexable: verdict !== 'non_indexable',
+      evaluated_for: this.crawler,
+      ...(this.inputs.http && { status_code: this.inputs.http.status_code }),
+      canonical,
+      effective_directives: effective,
+      directive_sources: sources,
+      reasons
+    };
+  }
+
+  /**
+   * Directives from robots meta tags and the X-Robots-Tag header
+   */
+  private collectDirectiveSources(): RobotsDirectiveSource[] {
+    const metaSources: RobotsDirectiveSource[] = this.inputs.robotsMetaTags.map(tag => ({
+      source: 'meta',
+      user_agent: tag.name === 'robots' ? '*' : tag.name,
+      raw: tag.content,
+      directives: IndexabilityAnalyzer.parseDirectives(tag.content)
+    }));
+
+    const header = this.inputs.http?.headers.x_robots_tag;
+    return [...metaSources, ...(header ? IndexabilityAnalyzer.parseXRobotsTag(header) : [])];
+  }
+
+  /**
+   * Combine directive sets, keeping the most restrictive value of each directive
+   */
+  private mergeDirectives(sets: RobotsDirectives[]): RobotsDirectives {
+    return sets.reduce((merged, directives) => {
+      merged.noindex = merged.noindex || directives.noindex;
+      merged.nofollow = merged.nofollow || directives.nofollow;
+      merged.noarchive = merged.noarchive || directives.noarchive;
+      merged.nosnippet = merged.nosnippet || directives.nosnippet;
+      merged.noimageindex = merged.noimageindex || directives.noimageindex;
+
+      merged.max_snippet = this.minDefined(merged.max_snippet, directives.max_snippet);
+      merged.max_video_preview = this.minDefined(merged.max_video_preview, directives.max_video_preview);
+
+      if (directives.max_image_preview && (!merged.max_image_preview ||
+          IMAGE_PREVIEW_ORDER.indexOf(directives.max_image_preview) < IMAGE_PREVIEW_ORDER.indexOf(merged.max_image_preview))) {
+        merged.max_image_preview = directives.max_image_preview;
+      }
+
+      if (directives.unavailable_after && (!merged.unavailable_after ||
+          Date.parse(directives.unavailable_after) < Date.parse(merged.unavailable_after))) {
+        merged.unavailable_after = directives.unavailable_after;
+      }
+
+      return merged;
+    }, IndexabilityAnalyzer.emptyDirectives());
+  }
+
+  /**
+   * HTTP status: errors block indexing, redirects move indexing to the target URL
+   */
+  private evaluateHttpStatus(): IndexabilityReason[] {
+    const http = this.inputs.http;
+    if (!http) {
+      return [{ signal: 'http_status', severity: 'info', message: 'HTTP status not checked (HTML was supplied directly)' }];
+    }
+
+    const reasons: IndexabilityReason[] = [];
+    if (http.status_code >= 400) {
+      reasons.push({ signal: 'http_status', severity: 'blocking', message: `Page returns HTTP ${http.status_code}` });
+    } else {
+      reasons.push({ signal: 'http_status', severity: 'info', message: `Page returns HTTP ${http.status_code}` });
+    }
+
+    if (http.redirected) {
+      reasons.push({
+        signal: 'http_status',
+        severity: 'warning',
+        message: `Requested URL redirects to ${http.final_url}; only the final URL can be indexed`
+      });
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Effective robots directives for the evaluated crawler
+   */
+  private evaluateDirectives(effective: RobotsDirectives, applicable: RobotsDirectiveSource[]): IndexabilityReason[] {
+    const reasons: IndexabilityReason[] = [];
+
+    if (effective.noindex) {
+      applicable.filter(source => source.directives.noindex).forEach(source => {
+        reasons.push({
+          signal: this.signalFor(source),
+          severity: 'blocking',
+          message: `noindex set by ${this.describeSource(source)} ("${source.raw}")`
+        });
+      });
+    }
+
+    if (effective.unavailable_after) {
+      const expiry = Date.parse(effective.unavailable_after);
+      if (isNaN(expiry)) {
+        reasons.push({
+          signal: 'robots_meta',
+          severity: 'warning',
+          message: `unavailable_after date "${effective.unavailable_after}" could not be parsed`
+        });
+      } else if (expiry <= Date.now()) {
+        reasons.push({
+          signal: 'robots_meta',
+          severity: 'blocking',
+          message: `unavailable_after ${effective.unavailable_after} has passed; the page is dropped from results`
+        });
+      } else {
+        reasons.push({
+          signal: 'robots_meta',
+          severity: 'warning',
+          message: `Page will be dropped from results after ${effective.unavailable_after}`
+        });
+      }
+    }
+
+    if (effective.nofollow) {
+      reasons.push({ signal: 'robots_meta', severity: 'warning', message: 'nofollow: links on this page are not followed' });
+    }
+
+    if (effective.nosnippet || effective.max_snippet === 0) {
+      reasons.push({ signal: 'robots_meta', severity: 'warning', message: 'No text snippet will be shown in search results' });
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Noindex aimed at other crawlers does not change the verdict but is worth surfacing
+   */
+  private evaluateOtherCrawlers(sources: RobotsDirectiveSource[]): IndexabilityReason[] {
+    return sources
+      .filter(source => !this.appliesToCrawler(source.user_agent) && source.directives.noindex)
+      .map(source => ({
+        signal: this.signalFor(source),
+        severity: 'info' as const,
+        message: `Page is noindex for ${source.user_agent} via ${this.describeSource(source)}`
+      }));
+  }
+
+  /**
+   * Canonical self-reference vs cross-URL
+   */
+  private evaluateCanonical(canonical: IndexabilityAnalysis['canonical']): IndexabilityReason[] {
+    switch (canonical.type) {
+      case 'missing':
+        return [{ signal: 'canonical', severity: 'info', message: 'No canonical link; the page URL is treated as canonical' }];
+      case 'self':
+        return [{ signal: 'canonical', severity: 'info', message: 'Canonical is self-referencing' }];
+      case 'cross_url':
+        return [{
+          signal: 'canonical',
+          severity: 'warning',
+          message: `Canonical points to ${canonical.url}; that URL is indexed instead of this one`
+        }];
+    }
+  }
+
+  /**
+   * A Link header canonical that disagrees with the HTML canonical sends mixed signals
+   */
+  private evaluateCanonicalHeader(): IndexabilityReason[] {
+    const headerCanonical = this.inputs.http?.headers.link_canonical;
+    const htmlCanonical = (this.inputs.canonicalUrl || '').trim();
+    if (!headerCanonical || !htmlCanonical) return [];
+
+    const pageUrl = this.inputs.http?.final_url || this.inputs.url;
+    if (this.resolveUrl(headerCanonical, pageUrl) === this.resolveUrl(htmlCanonical, pageUrl)) return [];
+
+    return [{
+      signal: 'canonical',
+      severity: 'warning',
+      message: `Link header canonical (${headerCanonical}) differs from the HTML canonical (${htmlCanonical})`
+    }];
+  }
+
+  /**
+   * robots.txt disallow means the crawler never sees the page (or its noindex)
+   */
+  private evaluateRobotsTxt(): IndexabilityReason[] {
+    const check = this.inputs.robotsTxt?.user_agents.find(agent => this.appliesToCrawler(agent.user_agent));
+    if (!check || check.allowed) return [];
+
+    return [{
+      signal: 'robots_txt',
+      severity: 'warning',
+      message: `${this.crawler} is disallowed by robots.txt (${check.matched_rule}); the page can't be crawled and may be indexed without its content`
+    }];
+  }
+
+  /**
+   * Resolve the canonical (HTML link, else Link header) against the final page URL and classify it
+   */
+  private resolveCanonical(): IndexabilityAnalysis['canonical'] {
+    const raw = (this.inputs.canonicalUrl || '').trim() || this.inputs.http?.headers.link_canonical;
+    if (!raw) return { type: 'missing' };
+
+    const pageUrl = this.inputs.http?.final_url || this.inputs.url;
+    const canonical = this.resolveUrl(raw, pageUrl);
+
+    return {
+      url: canonical,
+      type: canonical === this.resolveUrl(pageUrl, pageUrl) ? 'self' : 'cross_url'
+    };
+  }
+
+  /**
+   * Resolve a possibly relative URL and drop its fragment
+   */
+  private resolveUrl(url: string, baseUrl: string): string {
+    try {
+      const resolved = new URL(url, baseUrl);
+      resolved.hash = '';
+      return resolved.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Whether directives for a user-agent apply to the evaluated crawler
+   */
+  private appliesToCrawler(userAgent: string): boolean {
+    return userAgent === '*' || userAgent.toLowerCase() === this.crawler.toLowerCase();
+  }
+
+  /**
+   * Map a directive source to its indexability signal
+   */
+  private signalFor(source: RobotsDirectiveSource): IndexabilityReason['signal'] {
+    return source.source === 'meta' ? 'robots_meta' : 'x_robots_tag';
+  }
+
+  /**
+   * Human-readable origin of a directive, e.g. "meta googlebot tag"
+   */
+  private describeSource(source: RobotsDirectiveSource): string {
+    const target = source.user_agent === '*' ? '' : ` (${source.user_agent})`;
+    return source.source === 'meta'
+      ? `meta ${source.user_agent === '*' ? 'robots' : source.user_agent} tag`
+      : `X-Robots-Tag header${target}`;
+  }
+
+  /**
+   * Smaller of two optional limits
+   */
+  private minDefined(a?: number, b?: number): number | undefined {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return Math.min(a, b);
+  }
+
+  /**
+   * Directive set with nothing restricted
+   */
+  private static emptyDirectives(): RobotsDirectives {
+    return { noindex: false, nofollow: false, noarchive: false, nosnippet: false, noimageindex: false };
+  }
+}
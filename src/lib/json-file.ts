@@ -0,0 +1,107 @@
+/**
+ * JSON File Persistence
+ * Shared plumbing for stores kept in one JSON file each (TF-IDF corpora, the entity knowledge base):
+ * one loaded instance per file per process, unreadable files set aside instead of failing analyses,
+ * and queued writes through a temporary file
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+export class SharedInstances<T> {
+  private instances = new Map<string, Promise<T>>();
+  private maxInstances: number;
+
+  constructor(maxInstances: number = Infinity) {
+    this.maxInstances = maxInstances;
+  }
+
+  /**
+   * Instance for the key, loaded on first use; a failed load is forgotten so the next caller retries it.
+   * Beyond maxInstances the least recently opened instance is dropped; holders keep using it,
+   * and the next open loads the file again
+   */
+  open(key: string, load: () => Promise<T>): Promise<T> {
+    let instance = this.instances.get(key);
+    if (instance) {
+      // Map order is insertion order, so re-inserting marks the key as most recently used
+      this.instances.delete(key);
+    } else {
+      instance = load();
+      instance.catch(() => {
+        if (this.instances.get(key) === instance) this.instances.delete(key);
+      });
+    }
+    this.instances.set(key, instance);
+
+    if (this.instances.size > this.maxInstances) {
+      this.instances.delete(this.instances.keys().next().value as string);
+    }
+    return instance;
+  }
+
+  /**
+   * Whether an instance for the key is loaded or loading
+   */
+  has(key: string): boolean {
+    return this.instances.has(key);
+  }
+}
+
+export class JsonFileWriter {
+  private file: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Write the value built when the write runs; writes are queued so concurrent saves never interleave
+   */
+  write(build: () => unknown): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        // Replace the file through a temporary file so readers never see a partial write
+        await mkdir(path.dirname(this.file), { recursive: true });
+        await writeFile(`${this.file}.tmp`, JSON.stringify(build()));
+        await rename(`${this.file}.tmp`, this.file);
+      });
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Cache key of a store's file; stores without a directory or file live in memory under their own name
+ */
+export function sharedFileKey(file: string, persisted: boolean): string {
+  return persisted ? path.resolve(file) : `memory:${file}`;
+}
+
+/**
+ * Parsed file contents; undefined when the file does not exist, or when it is not valid JSON of the expected
+ * shape, in which case it is renamed to "<file>.corrupt" so the next save starts a fresh one
+ */
+export async function readJsonFile<T>(
+  file: string,
+  isValid: (value: unknown) => value is T,
+  description: string
+): Promise<T | undefined> {
+  let raw: string;
+  try {
+    raw = await readFile(file, 'utf8');
+  } catch {
+    return undefined; // Nothing saved yet
+  }
+
+  try {
+    const value: unknown = JSON.parse(raw);
+    if (isValid(value)) return value;
+    throw new Error(`Unexpected ${description} format`);
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${description} ${file}:`, error);
+    await rename(file, `${file}.corrupt`).catch(() => undefined);
+    return undefined;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Keyword Clusterer
+ * Groups the keywords inferred for one page or a batch of pages into topics by average-linkage agglomerative
+ * clustering, on embedding similarity or, without embeddings, on the context sentences keywords share.
+ * Each cluster names a head term and the pages that target it, which is what content hubs are planned from
+ */
+
+import { EmbeddingIndex } from './embedding-provider';
+import { config } from '@/config/environment';
+import {
+  InferredKeywordsAnalysis,
+  KeywordCluster,
+  KeywordClusterSimilarity,
+  KeywordClustering,
+  KeywordClusterUrl,
+  SEOAnalysisResult
+} from '@/types/seo-analysis';
+
+export interface KeywordClusterPage {
+  url: string;
+  keywords: InferredKeywordsAnalysis;
+}
+
+interface ClusterItem {
+  keyword: string;
+  weights: Map<string, number>; // URL -> confidence of the keyword on that page
+  contexts: Set<string>; // URL and sentence pairs the keyword was found in
+  weight: number; // Summed confidence across pages
+}
+
+// Confidence of inferred keywords that carry none
+const DEFAULT_KEYWORD_CONFIDENCE = 0.5;
+
+// Extractor phrases count for less than keywords that made it through inference
+const EXTRACTION_WEIGHT = 0.5;
+
+export class KeywordClusterer {
+  private items: ClusterItem[];
+
+  constructor(pages: KeywordClusterPage[]) {
+    const items = new Map<string, ClusterItem>();
+    const add = (term: string, url: string, confidence: number, sentences: string[] = []) => {
+      const keyword = term.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (!keyword) return;
+
+      const item = items.get(keyword) || { keyword, weights: new Map(), contexts: new Set<string>(), weight: 0 };
+      item.weights.set(url, Math.max(item.weights.get(url) || 0, confidence));
+      sentences.forEach(sentence => item.contexts.add(`${url}\n${sentence.toLowerCase().trim()}`));
+      items.set(keyword, item);
+    };
+
+    pages.forEach(({ url, keywords }) => {
+      [...keywords.primary.keywords, ...keywords.secondary.keywords].forEach(keyword =>
+        add(keyword.term, url, keyword.confidence_score ?? DEFAULT_KEYWORD_CONFIDENCE, keyword.context_sentences)
+      );
+      keywords.extraction?.candidates.forEach(candidate => add(candidate.phrase, url, candidate.score * EXTRACTION_WEIGHT));
+    });
+
+    items.forEach(item => {
+      item.weight = [...item.weights.values()].reduce((sum, weight) => sum + weight, 0);
+    });
+    this.items = [...items.values()]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, config.maxClusterKeywords);
+  }
+
+  /**
+   * Clusterer over the keywords inferred for analyzed pages
+   */
+  static fromResults(results: SEOAnalysisResult[]): KeywordClusterer {
+    return new KeywordClusterer(results.map(result => ({ url: result.page_metadata.url, keywords: result.inferred_keywords })));
+  }
+
+  /**
+   * Keywords to embed before cluster() is given the vectors
+   */
+  getEmbeddingTexts(): string[] {
+    return this.items.map(item => item.keyword);
+  }
+
+  /**
+   * Merge the two most similar clusters until no pair reaches the threshold; clusters of one keyword are reported as unclustered
+   */
+  cluster(embeddings?: EmbeddingIndex): KeywordClustering {
+    const similarity: KeywordClusterSimilarity = embeddings ? 'embedding' : 'co_occurrence';
+    const threshold = config.keywordClusterThresholds[similarity];
+    const matrix = this.items.map((a, i) =>
+      this.items.map((b, j) => (i === j ? 1 : this.similarity(a, b, embeddings)))
+    );
+
+    const groups = this.agglomerate(matrix, threshold);
+    const clusters = groups
+      .filter(group => group.length > 1)
+      .map(group => this.describe(group, matrix))
+      .sort((a, b) => b.weight - a.weight)
+      .map(({ cluster }) => cluster);
+
+    return {
+      similarity,
+      ...(embeddings && { embedding_provider: embeddings.provider }),
+      threshold,
+      clusters,
+      unclustered: groups.filter(group => group.length === 1).map(([index]) => this.items[index].keyword)
+    };
+  }
+
+  /**
+   * Embedding cosine, or the Jaccard overlap of the sentences two keywords were found in
+   */
+  private similarity(a: ClusterItem, b: ClusterItem, embeddings?: EmbeddingIndex): number {
+    if (embeddings) return embeddings.similarity(a.keyword, b.keyword) ?? 0;
+
+    const shared = [...a.contexts].filter(context => b.contexts.has(context)).length;
+    const union = a.contexts.size + b.contexts.size - shared;
+    return union > 0 ? shared / union : 0;
+  }
+
+  /**
+   * Average-linkage agglomeration; returns groups of item indexes
+   */
+  private agglomerate(matrix: number[][], threshold: number): number[][] {
+    const groups = this.items.map((_, index) => [index]);
+    const linkage = matrix.map(row => [...row]); // Mean similarity between the groups at two indexes
+    const active = new Set(groups.keys());
+
+    for (;;) {
+      let best: { a: number; b: number; similarity: number } | undefined;
+      for (const a of active) {
+        for (const b of active) {
+          if (b <= a || linkage[a][b] < threshold) continue;
+          if (!best || linkage[a][b] > best.similarity) best = { a, b, similarity: linkage[a][b] };
+        }
+      }
+      if (!best) break;
+
+      // Lance–Williams update: the merged group's linkage is the size-weighted mean of its parts'
+      const { a, b } = best;
+      const sizeA = groups[a].length;
+      const sizeB = groups[b].length;
+      active.forEach(c => {
+        if (c === a || c === b) return;
+        linkage[a][c] = linkage[c][a] = (sizeA * linkage[a][c] + sizeB * linkage[b][c]) / (sizeA + sizeB);
+      });
+      groups[a] = [...groups[a], ...groups[b]];
+      active.delete(b);
+    }
+
+    return [...active].map(index => groups[index]);
+  }
+
+  /**
+   * Head term, name, cohesion and pages of a group of two or more items
+   */
+  private describe(group: number[], matrix: number[][]): { cluster: KeywordCluster; weight: number } {
+    const centrality = (index: number) =>
+      group.filter(other => other !== index).reduce((sum, other) => sum + matrix[index][other], 0) / (group.length - 1);
+    const head = group.reduce((best, index) =>
+      this.items[index].weight * centrality(index) > this.items[best].weight * centrality(best) ? index : best
+    );
+    const members = [head, ...group.filter(index => index !== head).sort((a, b) => this.items[b].weight - this.items[a].weight)];
+    const keywords = members.map(index => this.items[index].keyword);
+
+    let pairSimilarity = 0;
+    group.forEach((a, i) => group.slice(i + 1).forEach(b => { pairSimilarity += matrix[a][b]; }));
+    const pairs = (group.length * (group.length - 1)) / 2;
+
+    return {
+      cluster: {
+        name: this.name(keywords),
+        head_term: keywords[0],
+        keywords,
+        cohesion: Math.round((pairSimilarity / pairs) * 100) / 100,
+        urls: this.rankUrls(members)
+      },
+      weight: members.reduce((sum, index) => sum + this.items[index].weight, 0)
+    };
+  }
+
+  /**
+   * Words of the head term that more than half of the members contain, in head-term order
+   */
+  private name(keywords: string[]): string {
+    const memberWords = keywords.map(keyword => new Set(keyword.split(' ')));
+    const shared = keywords[0]
+      .split(' ')
+      .filter(word => memberWords.filter(words => words.has(word)).length > keywords.length / 2);
+    return shared.join(' ') || keywords[0];
+  }
+
+  /**
+   * Pages targeting the members, by their summed confidence for them
+   */
+  private rankUrls(members: number[]): KeywordClusterUrl[] {
+    const urls = new Map<string, KeywordClusterUrl>();
+    members.forEach(index => {
+      const item = this.items[index];
+      item.weights.forEach((weight, url) => {
+        const entry = urls.get(url) || { url, keywords: [], score: 0 };
+        entry.keywords.push(item.keyword);
+        entry.score += weight;
+        urls.set(url, entry);
+      });
+    });
+
+    return [...urls.values()]
+      .map(entry => ({ ...entry, score: Math.round(entry.score * 100) / 100 }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Keyword Extractors
+ * Pluggable unsupervised algorithms that score candidate phrases in the main content:
+ * RAKE (word degree / frequency), YAKE (statistical term features) and TextRank (co-occurrence graph ranking)
+ */
+
+import { TextProcessor } from './text-processor';
+import { KeywordExtractorName, ScoredKeyword } from '@/types/seo-analysis';
+
+export interface KeywordExtractor {
+  readonly name: KeywordExtractorName;
+
+  /**
+   * Candidate phrases, best first, with scores relative to the best (1)
+   */
+  extract(text: string, limit?: number): ScoredKeyword[];
+}
+
+interface Fragment {
+  tokens: string[]; // Lowercase tokens
+  raw: string[]; // Tokens in their original case
+  sentence: number; // Index of the sentence the fragment belongs to
+}
+
+// Longest phrase any extractor returns
+const MAX_PHRASE_WORDS = 4;
+
+// Candidates returned when no limit is given
+const DEFAULT_LIMIT = 20;
+
+// Sentence ends and line breaks (block boundaries) split sentences
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+|[\r\n]+/;
+
+// Punctuation inside a sentence that a phrase never spans
+const PHRASE_BOUNDARY = /[,;:()[\]{}"“”«»„|/]+|\s[-–—]+\s/;
+
+// YAKE: longest n-gram considered
+const YAKE_MAX_NGRAM = 3;
+
+// TextRank: co-occurrence window in tokens, damping factor and convergence settings
+const TEXTRANK_WINDOW = 3;
+const TEXTRANK_DAMPING = 0.85;
+const TEXTRANK_MAX_ITERATIONS = 50;
+const TEXTRANK_TOLERANCE = 1e-4;
+
+/**
+ * Extractor for the algorithm name, using the language's tokenizer and stop words
+ */
+export function createKeywordExtractor(name: KeywordExtractorName, processor: TextProcessor): KeywordExtractor {
+  switch (name) {
+    case 'rake':
+      return new RakeExtractor(processor);
+    case 'yake':
+      return new YakeExtractor(processor);
+    case 'textrank':
+      return new TextRankExtractor(processor);
+  }
+}
+
+abstract class BaseKeywordExtractor implements KeywordExtractor {
+  abstract readonly name: KeywordExtractorName;
+  protected processor: TextProcessor;
+
+  constructor(processor: TextProcessor) {
+    this.processor = processor;
+  }
+
+  abstract extract(text: string, limit?: number): ScoredKeyword[];
+
+  /**
+   * Sentences split at punctuation into fragments that phrases cannot cross
+   */
+  protected split(text: string): Fragment[] {
+    const fragments: Fragment[] = [];
+    text.split(SENTENCE_BOUNDARY).forEach((sentenceText, sentence) => {
+      sentenceText.split(PHRASE_BOUNDARY).forEach(part => {
+        const raw = this.processor.tokenize(part, true);
+        if (raw.length > 0) fragments.push({ raw, tokens: raw.map(token => token.toLowerCase()), sentence });
+      });
+    });
+    return fragments;
+  }
+
+  /**
+   * Whether a lowercase token can be part of a keyword: not a stop word, has a letter, longer than two characters
+   */
+  protected isContentWord(token: string): boolean {
+    return token.length > 2 && /\p{L}/u.test(token) && !this.processor.isStopWord(token);
+  }
+
+  /**
+   * Maximal runs of content words in a fragment, up to the phrase length limit
+   */
+  protected contentRuns(tokens: string[], isKeyword: (token: string) => boolean = token => this.isContentWord(token)): string[][] {
+    const runs: string[][] = [];
+    let run: string[] = [];
+    [...tokens, ''].forEach(token => {
+      if (token && isKeyword(token)) {
+        run.push(token);
+        return;
+      }
+      if (run.length > 0 && run.length <= MAX_PHRASE_WORDS) runs.push(run);
+      run = [];
+    });
+    return runs;
+  }
+
+  /**
+   * Best score per phrase, sorted, scaled so the best is 1 and cut to the limit
+   */
+  protected rank(scores: Map<string, number>, limit: number): ScoredKeyword[] {
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    const best = ranked[0]?.[1] || 1;
+    return ranked.slice(0, limit).map(([phrase, score]) => ({ phrase, score: Number((score / best).toFixed(3)) }));
+  }
+}
+
+/**
+ * RAKE (Rose et al., 2010): phrases are runs of content words between stop words and punctuation;
+ * each word scores degree / frequency and a phrase scores the sum of its words
+ */
+export class RakeExtractor extends BaseKeywordExtractor {
+  readonly name = 'rake' as const;
+
+  /**
+   * Score every candidate phrase by the summed degree-to-frequency ratio of its words
+   */
+  extract(text: string, limit: number = DEFAULT_LIMIT): ScoredKeyword[] {
+    const phrases = this.split(text).flatMap(fragment => this.contentRuns(fragment.tokens));
+    const frequency = new Map<string, number>();
+    const degree = new Map<string, number>();
+
+    phrases.forEach(words => words.forEach(word => {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + words.length);
+    }));
+
+    const scores = new Map<string, number>();
+    phrases.forEach(words => {
+      scores.set(words.join(' '), words.reduce((sum, word) => sum + degree.get(word)! / frequency.get(word)!, 0));
+    });
+    return this.rank(scores, limit);
+  }
+}
+
+/**
+ * YAKE (Campos et al., 2020): each word is scored from its casing, position, frequency, relatedness to context
+ * and spread across sentences (lower is better); n-grams combine their words' scores and are discounted by frequency.
+ * Inner stop words are allowed but, unlike the reference implementation, do not add to the score.
+ */
+export class YakeExtractor extends BaseKeywordExtractor {
+  readonly name = 'yake' as const;
+
+  /**
+   * Score every n-gram that starts and ends with a content word
+   */
+  extract(text: string, limit: number = DEFAULT_LIMIT): ScoredKeyword[] {
+    const fragments = this.split(text);
+    const wordScores = this.scoreWords(fragments);
+
+    const ngramCounts = new Map<string, { words: string[]; count: number }>();
+    fragments.forEach(({ tokens }) => {
+      for (let start = 0; start < tokens.length; start++) {
+        if (!this.isContentWord(tokens[start])) continue;
+        for (let length = 1; length <= YAKE_MAX_NGRAM && start + length <= tokens.length; length++) {
+          const words = tokens.slice(start, start + length);
+          const last = words[words.length - 1];
+          if (!words.every(word => this.isContentWord(word) || this.processor.isStopWord(word))) break;
+          if (!this.isContentWord(last)) continue;
+
+          const phrase = words.join(' ');
+          const entry = ngramCounts.get(phrase) || { words, count: 0 };
+          entry.count++;
+          ngramCounts.set(phrase, entry);
+        }
+      }
+    });
+
+    // Lower YAKE scores are better, so rank by the inverse
+    const scores = new Map<string, number>();
+    ngramCounts.forEach(({ words, count }, phrase) => {
+      const contentScores = words.filter(word => wordScores.has(word)).map(word => wordScores.get(word)!);
+      const product = contentScores.reduce((total, score) => total * score, 1);
+      const sum = contentScores.reduce((total, score) => total + score, 0);
+      scores.set(phrase, 1 / (product / (count * (1 + sum))));
+    });
+    return this.rank(scores, limit);
+  }
+
+  /**
+   * YAKE word score S(t) = T_rel * T_pos / (T_case + T_freq / T_rel + T_sent / T_rel) for every content word
+   */
+  private scoreWords(fragments: Fragment[]): Map<string, number> {
+    const stats = new Map<string, { tf: number; upper: number; acronym: number; sentences: number[]; left: string[]; right: string[] }>();
+    const sentenceCount = new Set(fragments.map(fragment => fragment.sentence)).size || 1;
+
+    fragments.forEach(({ tokens, raw, sentence }) => {
+      tokens.forEach((token, index) => {
+        if (!this.isContentWord(token)) return;
+        if (!stats.has(token)) stats.set(token, { tf: 0, upper: 0, acronym: 0, sentences: [], left: [], right: [] });
+        const stat = stats.get(token)!;
+        const original = raw[index];
+
+        stat.tf++;
+        if (original.length > 1 && original === original.toUpperCase() && original !== token) stat.acronym++;
+        else if (index > 0 && original[0] !== original[0].toLowerCase()) stat.upper++;
+        stat.sentences.push(sentence);
+        if (index > 0) stat.left.push(tokens[index - 1]);
+        if (index < tokens.length - 1) stat.right.push(tokens[index + 1]);
+      });
+    });
+
+    const frequencies = Array.from(stats.values()).map(stat => stat.tf);
+    const meanTf = frequencies.reduce((sum, tf) => sum + tf, 0) / (frequencies.length || 1);
+    const stdTf = Math.sqrt(frequencies.reduce((sum, tf) => sum + (tf - meanTf) ** 2, 0) / (frequencies.length || 1));
+    const maxTf = Math.max(1, ...frequencies);
+    const dispersion = (neighbors: string[]) => (neighbors.length > 0 ? new Set(neighbors).size / neighbors.length : 0);
+
+    const scores = new Map<string, number>();
+    stats.forEach((stat, word) => {
+      const sorted = [...stat.sentences].sort((a, b) => a - b);
+      const median = sorted[Math.floor(sorted.length / 2)];
+
+      const casing = Math.max(stat.upper, stat.acronym) / (1 + Math.log(stat.tf));
+      const position = Math.log(Math.log(3 + median));
+      const frequency = stat.tf / (meanTf + stdTf);
+      const relatedness = 1 + (dispersion(stat.left) + dispersion(stat.right)) * (stat.tf / maxTf);
+      const spread = new Set(stat.sentences).size / sentenceCount;
+
+      scores.set(word, (relatedness * position) / (casing + frequency / relatedness + spread / relatedness));
+    });
+    return scores;
+  }
+}
+
+/**
+ * TextRank (Mihalcea & Tarau, 2004): content words are ranked by PageRank over a co-occurrence graph;
+ * the top third are keywords, adjacent keywords are joined into phrases scored by the sum of their words
+ */
+export class TextRankExtractor extends BaseKeywordExtractor {
+  readonly name = 'textrank' as const;
+
+  /**
+   * Rank words on the co-occurrence graph and collapse adjacent top words into phrases
+   */
+  extract(text: string, limit: number = DEFAULT_LIMIT): ScoredKeyword[] {
+    const fragments = this.split(text);
+    const ranks = this.rankWords(fragments);
+    if (ranks.size === 0) return [];
+
+    const keywordCount = Math.max(5, Math.ceil(ranks.size / 3));
+    const keywords = new Set(Array.from(ranks.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, keywordCount)
+      .map(([word]) => word));
+
+    const scores = new Map<string, number>();
+    fragments.forEach(({ tokens }) => {
+      this.contentRuns(tokens, token => keywords.has(token)).forEach(words => {
+        scores.set(words.join(' '), words.reduce((sum, word) => sum + ranks.get(word)!, 0));
+      });
+    });
+    return this.rank(scores, limit);
+  }
+
+  /**
+   * Weighted PageRank over content words linked when they occur within the window of each other
+   */
+  private rankWords(fragments: Fragment[]): Map<string, number> {
+    const edges = new Map<string, Map<string, number>>();
+    const link = (a: string, b: string) => {
+      if (!edges.has(a)) edges.set(a, new Map());
+      edges.get(a)!.set(b, (edges.get(a)!.get(b) || 0) + 1);
+    };
+
+    fragments.forEach(({ tokens }) => {
+      tokens.forEach((token, index) => {
+        if (!this.isContentWord(token)) return;
+        if (!edges.has(token)) edges.set(token, new Map());
+        for (let other = index + 1; other < Math.min(tokens.length, index + TEXTRANK_WINDOW); other++) {
+          if (!this.isContentWord(tokens[other]) || tokens[other] === token) continue;
+          link(token, tokens[other]);
+          link(tokens[other], token);
+        }
+      });
+    });
+
+    const outWeight = new Map(Array.from(edges.entries()).map(([word, neighbors]) => [
+      word,
+      Array.from(neighbors.values()).reduce((sum, weight) => sum + weight, 0)
+    ]));
+
+    let ranks = new Map(Array.from(edges.keys()).map(word => [word, 1]));
+    for (let iteration = 0; iteration < TEXTRANK_MAX_ITERATIONS; iteration++) {
+      const next = new Map<string, number>();
+      let change = 0;
+      edges.forEach((neighbors, word) => {
+        let incoming = 0;
+        neighbors.forEach((weight, neighbor) => {
+          incoming += (weight / outWeight.get(neighbor)!) * ranks.get(neighbor)!;
+        });
+        const rank = (1 - TEXTRANK_DAMPING) + TEXTRANK_DAMPING * incoming;
+        change = Math.max(change, Math.abs(rank - ranks.get(word)!));
+        next.set(word, rank);
+      });
+      ranks = next;
+      if (change < TEXTRANK_TOLERANCE) break;
+    }
+    return ranks;
+  }
+}
@@ -8,8 +8,21 @@ import {
   PrimaryKeywordAnalysis, 
   SecondaryKeywordAnalysis, 
   InferredKeywordsAnalysis,
+  KeywordExtraction,
   StructuredOnPageData 
 } from '@/types/seo-analysis';
+import { KeywordNormalizer } from './keyword-normalizer';
+import { TextProcessor } from './text-processor';
+
+// Placeholder topic for pages whose headings, URL and title yield no terms; never reported as a keyword
+const FALLBACK_TOPIC = 'general topic';
+
+// Top keyword-extractor phrases added as primary and secondary candidates
+const EXTRACTOR_PRIMARY_CANDIDATES = 10;
+const EXTRACTOR_SECONDARY_CANDIDATES = 15;
+
+// Confidence added for a keyword-extractor score of 1
+const EXTRACTOR_SCORE_WEIGHT = 0.3;
 
 export class KeywordInferenceEngine {
   private structuredData: StructuredOnPageData;
@@ -18,9 +31,16 @@ export class KeywordInferenceEngine {
   private headingKeywords: string[] = [];
   private metaKeywords: string[] = [];
   private metaTagKeywords: string[] = [];
+  private textProcessor: TextProcessor;
+  private normalizer: KeywordNormalizer;
+  private extraction?: KeywordExtraction;
+  private extractorScores = new Map<string, number>();
 
-  constructor(structuredData: StructuredOnPageData) {
+  constructor(structuredData: StructuredOnPageData, extraction?: KeywordExtraction) {
     this.structuredData = structuredData;
+    this.textProcessor = new TextProcessor(structuredData.content_language);
+    this.normalizer = new KeywordNormalizer(structuredData.content_language);
+    this.extraction = extraction;
     this.extractKeywordSources();
   }
 
@@ -33,7 +53,8 @@ export class KeywordInferenceEngine {
 
     return {
       primary: primaryAnalysis,
-      secondary: secondaryAnalysis
+      secondary: secondaryAnalysis,
+      ...(this.extraction && { extraction: this.extraction })
     };
   }
 
@@ -84,6 +105,10 @@ export class KeywordInferenceEngine {
     if (this.structuredData.meta_data_analysis.meta_keywords?.length) {
       this.metaTagKeywords = this.structuredData.meta_data_analysis.meta_keywords;
     }
+    this.extraction?.candidates.forEach(candidate => {
+      const key = this.normalizer.normalize(candidate.phrase);
+      if (key) this.extractorScores.set(key, Math.max(this.extractorScores.get(key) || 0, candidate.score));
+    });
   }
 
   /**
@@ -117,8 +142,11 @@ export class KeywordInferenceEngine {
     // 6. Multi-word semantic entities (AI Mode style)
     const semanticEntities = this.extractSemanticEntities();
     semanticEntities.forEach(entity => candidates.add(entity));
+
+    // 7. Best-scored phrases from the keyword extractor (RAKE, YAKE or TextRank)
+    this.getExtractorPhrases(EXTRACTOR_PRIMARY_CANDIDATES).forEach(phrase => candidates.add(phrase));
     
-    // 7. Traditional SEO signals (only add if no semantic keywords found)
+    // 8. Traditional SEO signals (only add if no semantic keywords found)
     // Only add single words if we don't have enough semantic multi-word keywords
     const multiWordKeywords = Array.from(candidates).filter(kw => kw.includes(' '));
     if (multiWordKeywords.length < 5) {
@@ -143,8 +171,8 @@ export class KeywordInferenceEngine {
     }
 
     // Filter: only keep multi-word, context-meaningful phrases
-    const filtered = Array.from(candidates).filter(kw => this.isValidPrimaryPhrase(kw));
-    return filtered;
+    const filtered = Array.from(candidates).filter(kw => kw !== FALLBACK_TOPIC && this.isValidPrimaryPhrase(kw));
+    return this.mergeVariants(filtered);
   }
 
   /**
@@ -168,9 +196,12 @@ export class KeywordInferenceEngine {
     const frequentKeywords = this.getFrequentNonPrimaryKeywords();
     frequentKeywords.forEach(keyword => candidates.add(keyword));
 
+    // Best-scored phrases from the keyword extractor
+    this.getExtractorPhrases(EXTRACTOR_SECONDARY_CANDIDATES).forEach(phrase => candidates.add(phrase));
+
     // Filter out generic single-word tokens from secondary suggestions
     const filtered = Array.from(candidates).filter(kw => this.isAcceptableSecondary(kw));
-    return filtered;
+    return this.mergeVariants(filtered);
   }
 
   /**
@@ -200,33 +231,40 @@ export class KeywordInferenceEngine {
       }
       
       // 3. Traditional SEO signals (reduced weight)
-      if (this.urlKeywords.includes(keyword)) {
+      if (this.containsVariant(this.urlKeywords, keyword)) {
         extractedFrom.push('url_slug');
         confidenceScore += 0.2; // Reduced from 0.4
       }
 
-      if (this.titleKeywords.includes(keyword)) {
+      if (this.containsVariant(this.titleKeywords, keyword)) {
         extractedFrom.push('title_tag');
         confidenceScore += 0.15; // Reduced from 0.3
       }
 
-      if (this.getH1Keywords().includes(keyword)) {
+      if (this.containsVariant(this.getH1Keywords(), keyword)) {
         extractedFrom.push('h1_heading');
         confidenceScore += 0.15; // Reduced from 0.3
       }
 
-      // 4. Semantic context bonuses
+      // 4. Keyword extractor score for the keyword or one of its variants
+      const extractorScore = this.getExtractorScore(keyword);
+      if (extractorScore > 0) {
+        confidenceScore += EXTRACTOR_SCORE_WEIGHT * extractorScore;
+        extractedFrom.push('keyword_extractor');
+      }
+
+      // 5. Semantic context bonuses
       if (this.hasSemanticContext(keyword)) {
         confidenceScore += 0.2;
         extractedFrom.push('semantic_context');
       }
 
-      // 5. Length bonuses (favor meaningful phrases)
+      // 6. Length bonuses (favor meaningful phrases)
       if (keyword.length >= 5 && keyword.length <= 30) {
         confidenceScore += 0.1;
       }
 
-      // 6. Multiple location bonus (reduced)
+      // 7. Multiple location bonus (reduced)
       if (extractedFrom.length > 1) {
         confidenceScore += 0.05; // Reduced from 0.1
       }
@@ -235,7 +273,8 @@ export class KeywordInferenceEngine {
         term: keyword,
         extracted_from: extractedFrom,
         confidence_score: Math.min(1, confidenceScore),
-        context_sentences: this.getContextSentences(keyword)
+        context_sentences: this.getContextSentences(keyword),
+        variants: this.normalizer.findVariants(keyword, this.getPageTexts())
       };
     }).sort((a, b) => b.confidence_score! - a.confidence_score!);
   }
@@ -301,25 +340,25 @@ export class KeywordInferenceEngine {
       let confidenceScore = 0;
 
       // Check H2-H6 presence
-      if (this.getSubHeadingKeywords().includes(keyword)) {
+      if (this.containsVariant(this.getSubHeadingKeywords(), keyword)) {
         extractedFrom.push('h2_headings');
         confidenceScore += 0.3;
       }
 
       // Check meta description presence
-      if (this.metaKeywords.includes(keyword)) {
+      if (this.containsVariant(this.metaKeywords, keyword)) {
         extractedFrom.push('meta_description');
         confidenceScore += 0.2;
       }
 
       // Check alt text presence
-      if (this.getAltTextKeywords().includes(keyword)) {
+      if (this.containsVariant(this.getAltTextKeywords(), keyword)) {
         extractedFrom.push('image_alt_texts');
         confidenceScore += 0.2;
       }
 
       // Meta keywords presence
-      if (this.metaTagKeywords.includes(keyword)) {
+      if (this.containsVariant(this.metaTagKeywords, keyword)) {
         extractedFrom.push('meta_keywords');
         confidenceScore += 0.1;
       }
@@ -331,6 +370,13 @@ export class KeywordInferenceEngine {
         confidenceScore += 0.2;
       }
 
+      // Keyword extractor score for the keyword or one of its variants
+      const extractorScore = this.getExtractorScore(keyword);
+      if (extractorScore > 0) {
+        extractedFrom.push('keyword_extractor');
+        confidenceScore += EXTRACTOR_SCORE_WEIGHT * extractorScore;
+      }
+
       // Bonus for semantic relevance
       if (this.isSemanticallyRelevant(keyword)) {
         confidenceScore += 0.1;
@@ -340,7 +386,8 @@ export class KeywordInferenceEngine {
         term: keyword,
         extracted_from: extractedFrom,
         confidence_score: Math.min(1, confidenceScore),
-        context_sentences: this.getContextSentences(keyword)
+        context_sentences: this.getContextSentences(keyword),
+        variants: this.normalizer.findVariants(keyword, this.getPageTexts())
       };
     }).sort((a, b) => b.confidence_score! - a.confidence_score!);
   }
@@ -427,10 +474,8 @@ export class KeywordInferenceEngine {
    */
   private extractKeywordsFromText(text: string): string[] {
     if (!text) return [];
-    return text.toLowerCase()
-      .replace(/[^\w\s-]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2 && word.length < 50);
+    return this.textProcessor.tokenize(text)
+      .filter(word => word.length > 2 && word.length < 50 && !this.isStopWord(word));
   }
 
   private extractAllHeadingKeywords(): string[] {
@@ -475,9 +520,9 @@ export class KeywordInferenceEngine {
     // Find keywords that appear in multiple locations
     allKeywords.forEach(keyword => {
       let locationCount = 0;
-      if (this.urlKeywords.includes(keyword)) locationCount++;
-      if (this.titleKeywords.includes(keyword)) locationCount++;
-      if (this.getH1Keywords().includes(keyword)) locationCount++;
+      if (this.containsVariant(this.urlKeywords, keyword)) locationCount++;
+      if (this.containsVariant(this.titleKeywords, keyword)) locationCount++;
+      if (this.containsVariant(this.getH1Keywords(), keyword)) locationCount++;
       
       if (locationCount >= 2) {
         multiLocationKeywords.push(keyword);
@@ -490,21 +535,57 @@ export class KeywordInferenceEngine {
   private getFrequentNonPrimaryKeywords(): string[] {
     // This would require content analysis - simplified for now
     return this.metaKeywords.filter(keyword => 
-      !this.urlKeywords.includes(keyword) && 
-      !this.titleKeywords.includes(keyword) &&
-      !this.getH1Keywords().includes(keyword)
+      !this.containsVariant(this.urlKeywords, keyword) &&
+      !this.containsVariant(this.titleKeywords, keyword) &&
+      !this.containsVariant(this.getH1Keywords(), keyword)
     );
   }
 
   private getKeywordFrequency(keyword: string): number {
-    // Simplified frequency calculation
-    const content = this.structuredData.headings_and_keywords
-      .map(h => h.text)
-      .join(' ')
-      .toLowerCase();
-    
-    const matches = content.match(new RegExp(`\\b${keyword}\\b`, 'g'));
-    return matches ? matches.length : 0;
+    // Simplified frequency calculation; variants such as plurals count towards the keyword
+    return this.structuredData.headings_and_keywords
+      .reduce((count, h) => count + this.normalizer.countOccurrences(keyword, h.text), 0);
+  }
+
+  /**
+   * Top phrases from the keyword extractor, best first
+   */
+  private getExtractorPhrases(limit: number): string[] {
+    return (this.extraction?.candidates || []).slice(0, limit).map(candidate => candidate.phrase);
+  }
+
+  /**
+   * Keyword extractor score (0-1) of the keyword or one of its variants; 0 when it was not extracted
+   */
+  private getExtractorScore(keyword: string): number {
+    return this.extractorScores.get(this.normalizer.normalize(keyword)) || 0;
+  }
+
+  /**
+   * Whether the list holds the keyword or one of its morphological variants
+   */
+  private containsVariant(keywords: string[], keyword: string): boolean {
+    return keywords.some(candidate => this.normalizer.isVariant(candidate, keyword));
+  }
+
+  /**
+   * Keep one candidate per normalized form, so "dating tip" and "dating tips" are scored once
+   */
+  private mergeVariants(candidates: string[]): string[] {
+    return this.normalizer.group(candidates).map(group => group.canonical);
+  }
+
+  /**
+   * Page texts searched for the surface forms of a keyword
+   */
+  private getPageTexts(): string[] {
+    return [
+      ...this.structuredData.headings_and_keywords.map(h => h.text),
+      ...this.structuredData.meta_data_analysis.image_alt_texts.map(alt => alt.text),
+      this.structuredData.url_analysis.path_segments.join(' ').replace(/[-_]+/g, ' '),
+      ...this.metaKeywords,
+      ...this.metaTagKeywords
+    ];
   }
 
 
@@ -609,7 +690,7 @@ export class KeywordInferenceEngine {
     const titleTopic = this.extractTopicFromHeading(titleText);
     if (titleTopic) return titleTopic;
     
-    return 'general topic';
+    return FALLBACK_TOPIC;
   }
 
   /**
@@ -996,16 +1077,8 @@ export class KeywordInferenceEngine {
    * Enhanced topical relevance check
    */
   private isTopicallyRelevant(keyword: string): boolean {
-    // Filter out common stop words and low-value terms
-    const stopWords = [
-      'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has',
-      'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might',
-      'can', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
-      'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'her', 'its', 'our', 'their'
-    ];
-
-    if (stopWords.includes(keyword.toLowerCase())) return false;
+    // Filter out function words in the content language
+    if (this.textProcessor.isStopWord(keyword.toLowerCase())) return false;
     
     // Must be at least 3 characters and not just numbers
     if (keyword.length < 3) return false;
@@ -1056,16 +1129,10 @@ export class KeywordInferenceEngine {
   }
 
   /**
-   * Check if word is a stop word
+   * Check if word is a stop word in the content language
    */
   private isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these',
-      'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them'
-    ]);
-    return stopWords.has(word);
+    return this.textProcessor.isStopWord(word);
   }
 
   /**
@@ -0,0 +1,142 @@
+/**
+ * Keyword Normalizer
+ * Groups morphological variants of keywords ("dating tip", "dating tips") under one canonical form
+ * by comparing stop-word-free, stemmed and accent-folded word keys
+ */
+
+import { TextProcessor } from './text-processor';
+
+export interface KeywordGroup {
+  key: string; // Normalized form shared by every variant, e.g. "date tip"
+  canonical: string; // Most frequent variant; the first one seen on a tie
+  variants: string[]; // Distinct surface forms, in order of first appearance
+  count: number; // Number of terms in the group
+}
+
+interface IndexedText {
+  tokens: string[];
+  wordPositions: number[]; // Token index of each word that is not a stop word
+  wordKeys: string[]; // Normalized key of each of those words
+}
+
+export class KeywordNormalizer {
+  private processor: TextProcessor;
+  private wordKeys = new Map<string, string>();
+  private indexedTexts = new Map<string, IndexedText>();
+
+  constructor(language?: string) {
+    this.processor = new TextProcessor(language);
+  }
+
+  /**
+   * Normalized key of a keyword; empty when it only holds stop words
+   */
+  normalize(keyword: string): string {
+    return this.getWordKeys(keyword).join(' ');
+  }
+
+  /**
+   * Whether two keywords are variants of each other
+   */
+  isVariant(a: string, b: string): boolean {
+    const key = this.normalize(a);
+    return key !== '' && key === this.normalize(b);
+  }
+
+  /**
+   * Group terms by normalized key, in order of first appearance; terms with an empty key are dropped
+   */
+  group(terms: string[]): KeywordGroup[] {
+    const groups = new Map<string, { counts: Map<string, number>; count: number }>();
+
+    terms.forEach(term => {
+      const key = this.normalize(term);
+      if (!key) return;
+      if (!groups.has(key)) groups.set(key, { counts: new Map(), count: 0 });
+      const group = groups.get(key)!;
+      group.counts.set(term, (group.counts.get(term) || 0) + 1);
+      group.count++;
+    });
+
+    return Array.from(groups.entries()).map(([key, group]) => {
+      const variants = Array.from(group.counts.keys());
+      const canonical = variants.reduce((best, variant) =>
+        group.counts.get(variant)! > group.counts.get(best)! ? variant : best
+      );
+      return { key, canonical, variants, count: group.count };
+    });
+  }
+
+  /**
+   * Surface form of every occurrence of the keyword or one of its variants in the text;
+   * stop words between the matched words are kept, so "guia jardineria" finds "guía de jardinería"
+   */
+  findOccurrences(keyword: string, text: string): string[] {
+    const keys = this.getWordKeys(keyword);
+    if (keys.length === 0 || !text) return [];
+
+    const { tokens, wordPositions, wordKeys } = this.index(text);
+    const occurrences: string[] = [];
+    for (let i = 0; i + keys.length <= wordKeys.length; i++) {
+      if (keys.every((key, offset) => wordKeys[i + offset] === key)) {
+        occurrences.push(tokens.slice(wordPositions[i], wordPositions[i + keys.length - 1] + 1).join(' '));
+      }
+    }
+    return occurrences;
+  }
+
+  /**
+   * Number of times the keyword or one of its variants appears in the text
+   */
+  countOccurrences(keyword: string, text: string): number {
+    return this.findOccurrences(keyword, text).length;
+  }
+
+  /**
+   * Distinct surface forms of the keyword found across the texts, in order of first appearance
+   */
+  findVariants(keyword: string, texts: string[]): string[] {
+    return Array.from(new Set(texts.flatMap(text => this.findOccurrences(keyword, text))));
+  }
+
+  /**
+   * Key of each word of the keyword that is not a stop word
+   */
+  private getWordKeys(keyword: string): string[] {
+    return this.processor.tokenize(keyword)
+      .filter(token => !this.processor.isStopWord(token))
+      .map(token => this.getWordKey(token));
+  }
+
+  /**
+   * Stem of the word with its accents removed, cached per word; accents go first so "guía" and "guia" match
+   */
+  private getWordKey(word: string): string {
+    let key = this.wordKeys.get(word);
+    if (key === undefined) {
+      key = this.processor.stem(word.normalize('NFD').replace(/\p{M}/gu, ''));
+      this.wordKeys.set(word, key);
+    }
+    return key;
+  }
+
+  /**
+   * Tokens of the text with the keys of its content words, cached per text
+   */
+  private index(text: string): IndexedText {
+    let indexed = this.indexedTexts.get(text);
+    if (!indexed) {
+      const tokens = this.processor.tokenize(text);
+      const wordPositions: number[] = [];
+      const wordKeys: string[] = [];
+      tokens.forEach((token, position) => {
+        if (this.processor.isStopWord(token)) return;
+        wordPositions.push(position);
+        wordKeys.push(this.getWordKey(token));
+      });
+      indexed = { tokens, wordPositions, wordKeys };
+      this.indexedTexts.set(text, indexed);
+    }
+    return indexed;
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Entity Knowledge Base
+ * Local store of entities with IDs, types, aliases and sameAs URLs, seeded from a bundled file and extended by
+ * importing Wikidata JSON dump subsets. Extracted names are linked to the entry whose context words best match
+ * the sentences they appear in, so "Apple" the company and "apple" the fruit resolve to different IDs
+ */
+
+import { JsonFileWriter, SharedInstances, readJsonFile, sharedFileKey } from './json-file';
+import { TextProcessor } from './text-processor';
+import bundled from '@/config/knowledge-base.json';
+import { config } from '@/config/environment';
+import {
+  EntityType,
+  KnowledgeBaseEntityType,
+  KnowledgeBaseImportResult,
+  KnowledgeBaseStats,
+  LinkedEntity
+} from '@/types/seo-analysis';
+
+export interface KnowledgeBaseEntity {
+  id: string; // Wikidata QID for bundled and imported entities
+  label: string;
+  type: KnowledgeBaseEntityType;
+  description?: string;
+  aliases: string[];
+  context: string[]; // Lowercase words that point to this sense when they surround a mention
+  same_as: string[];
+  popularity: number; // Wikipedia sitelinks; the prior when the context does not decide
+}
+
+interface StoredKnowledgeBase {
+  updated_at?: string;
+  entities: KnowledgeBaseEntity[]; // Imported entities only; bundled ones are always loaded
+}
+
+// Wikidata dump entity, reduced to the fields the importer reads
+interface WikidataEntity {
+  id?: string;
+  labels?: Record<string, { value: string }>;
+  descriptions?: Record<string, { value: string }>;
+  aliases?: Record<string, Array<{ value: string }>>;
+  claims?: Record<string, Array<{ mainsnak?: { datavalue?: { value?: unknown } } }>>;
+  sitelinks?: Record<string, { title: string }>;
+}
+
+// "instance of" (P31) classes that give an entity type; entities of other classes are concepts
+const INSTANCE_OF_TYPES: Record<string, EntityType> = {
+  Q5: 'person',
+  Q43229: 'organization', // organization
+  Q4830453: 'organization', // business
+  Q783794: 'organization', // company
+  Q891723: 'organization', // public company
+  Q3918: 'organization', // university
+  Q163740: 'organization', // nonprofit organization
+  Q515: 'location', // city
+  Q1549591: 'location', // big city
+  Q5119: 'location', // capital
+  Q486972: 'location', // human settlement
+  Q6256: 'location', // country
+  Q3624078: 'location', // sovereign state
+  Q35657: 'location', // U.S. state
+  Q4022: 'location', // river
+  Q8502: 'location', // mountain
+  Q23442: 'location', // island
+  Q9143: 'technology', // programming language
+  Q7397: 'technology', // software
+  Q271680: 'technology', // software framework
+  Q188860: 'technology', // software library
+  Q2424752: 'product', // product
+  Q22645: 'product', // smartphone
+  Q1420: 'product' // motor car
+};
+
+// schema.org type to declare each kind of entity with
+const SCHEMA_TYPES: Record<KnowledgeBaseEntityType, string> = {
+  person: 'Person',
+  organization: 'Organization',
+  location: 'Place',
+  product: 'Product',
+  technology: 'Thing',
+  concept: 'Thing'
+};
+
+// Share of the link score from context overlap, type agreement, an exact-case name match and popularity
+const LINK_WEIGHTS = { context: 0.6, type: 0.15, case: 0.1, popularity: 0.15 };
+
+// Words that never decide between senses
+const english = new TextProcessor('en');
+
+// Knowledge bases already loaded in this process, keyed by file
+const openBases = new SharedInstances<KnowledgeBase>();
+
+export class KnowledgeBase {
+  private file: string;
+  private entities = new Map<string, KnowledgeBaseEntity>();
+  private names = new Map<string, Set<string>>(); // Folded label or alias -> entity IDs
+  private contextWords = new Map<string, Set<string>>(); // Entity ID -> context and description words
+  private imported = new Set<string>();
+  private updatedAt?: string;
+  private writer: JsonFileWriter;
+
+  constructor(file: string = config.knowledgeBaseFile) {
+    this.file = file;
+    this.writer = new JsonFileWriter(file);
+    (bundled.entities as KnowledgeBaseEntity[]).forEach(entity => this.add(entity, false));
+  }
+
+  /**
+   * Shared knowledge base with the imported entities loaded from disk; an empty file name keeps imports in memory only
+   */
+  static open(file: string = config.knowledgeBaseFile): Promise<KnowledgeBase> {
+    return openBases.open(sharedFileKey(file, !!file), () => new KnowledgeBase(file).load());
+  }
+
+  /**
+   * Entities from a Wikidata dump: a JSON array, a wbgetentities response, or one entity per line
+   * as in the first lines of latest-all.json, which are not valid JSON on their own
+   */
+  static parseWikidataDump(content: string): unknown[] {
+    try {
+      const parsed = JSON.parse(content);
+      if (Array.isArray(parsed)) return parsed;
+      if (parsed && typeof parsed.entities === 'object') return Object.values(parsed.entities);
+      return [parsed];
+    } catch {
+      return content
+        .split('\n')
+        .map(line => line.trim().replace(/,$/, ''))
+        .filter(line => line && line !== '[' && line !== ']')
+        .map(line => JSON.parse(line));
+    }
+  }
+
+  get size(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Entity by ID
+   */
+  get(id: string): KnowledgeBaseEntity | undefined {
+    return this.entities.get(id);
+  }
+
+  /**
+   * Entities whose label or an alias matches the name, ignoring case and accents
+   */
+  getCandidates(name: string): KnowledgeBaseEntity[] {
+    return [...(this.names.get(foldName(name)) || [])].map(id => this.entities.get(id)!);
+  }
+
+  /**
+   * Add or replace an entity
+   */
+  add(entity: KnowledgeBaseEntity, imported = true): void {
+    this.remove(entity.id);
+
+    this.entities.set(entity.id, entity);
+    [entity.label, ...entity.aliases].forEach(name => {
+      const key = foldName(name);
+      if (!this.names.has(key)) this.names.set(key, new Set());
+      this.names.get(key)!.add(entity.id);
+    });
+    this.contextWords.set(entity.id, new Set([...entity.context, ...contextWordsOf(entity.description || '')]));
+
+    if (imported) {
+      this.imported.add(entity.id);
+      this.updatedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Import entities in Wikidata JSON format; entities without an ID or label, or with fields not shaped
+   * like Wikidata's, are skipped before anything is added
+   */
+  importWikidata(entities: unknown[], language = 'en'): KnowledgeBaseImportResult {
+    let imported = 0;
+    entities.forEach(value => {
+      const entity = isWikidataEntity(value, language) ? KnowledgeBase.fromWikidata(value, language) : undefined;
+      if (entity) {
+        this.add(entity);
+        imported++;
+      }
+    });
+    return { imported, skipped: entities.length - imported };
+  }
+
+  /**
+   * Best matching entity for an extracted name, using the sentences it appears in to pick between senses
+   */
+  link(mention: string, type?: KnowledgeBaseEntityType, context: string[] = []): LinkedEntity | undefined {
+    const candidates = this.getCandidates(mention);
+    if (candidates.length === 0) return undefined;
+
+    const mentionWords = new Set(contextWordsOf(mention));
+    const surrounding = new Set(context.flatMap(contextWordsOf).filter(word => !mentionWords.has(word)));
+    const maxPopularity = Math.max(...candidates.map(candidate => candidate.popularity));
+
+    const scored = candidates.map(candidate => {
+      const words = this.contextWords.get(candidate.id)!;
+      const matches = [...surrounding].filter(word => words.has(word)).length;
+      const names = [candidate.label, ...candidate.aliases];
+      const caseScore = names.includes(mention) ? 1 : mention === mention.toLowerCase() ? 0.5 : 0;
+      const score =
+        LINK_WEIGHTS.context * (matches / (matches + 2)) +
+        LINK_WEIGHTS.type * (candidate.type === type ? 1 : 0) +
+        LINK_WEIGHTS.case * caseScore +
+        LINK_WEIGHTS.popularity * (maxPopularity > 0 ? Math.log1p(candidate.popularity) / Math.log1p(maxPopularity) : 1);
+      return { candidate, score };
+    });
+
+    const best = scored.reduce((top, entry) => (entry.score > top.score ? entry : top));
+    if (best.score < config.minEntityLinkConfidence) return undefined;
+
+    const { candidate } = best;
+    return {
+      mention,
+      id: candidate.id,
+      label: candidate.label,
+      type: candidate.type,
+      schema_type: SCHEMA_TYPES[candidate.type],
+      ...(candidate.description && { description: candidate.description }),
+      aliases: candidate.aliases,
+      same_as: candidate.same_as,
+      confidence: Math.round(best.score * 100) / 100
+    };
+  }
+
+  /**
+   * Entity counts and the time of the last import
+   */
+  getStats(): KnowledgeBaseStats {
+    return {
+      entity_count: this.entities.size,
+      imported_count: this.imported.size,
+      ...(this.updatedAt && { updated_at: this.updatedAt })
+    };
+  }
+
+  /**
+   * Persist the imported entities
+   */
+  save(): Promise<void> {
+    if (!this.file) return Promise.resolve();
+
+    return this.writer.write((): StoredKnowledgeBase => ({
+      updated_at: this.updatedAt,
+      entities: [...this.imported].map(id => this.entities.get(id)!)
+    }));
+  }
+
+  /**
+   * Drop an entity and its names from the indexes
+   */
+  private remove(id: string): void {
+    const entity = this.entities.get(id);
+    if (!entity) return;
+
+    [entity.label, ...entity.aliases].forEach(name => this.names.get(foldName(name))?.delete(id));
+    this.entities.delete(id);
+    this.contextWords.delete(id);
+    this.imported.delete(id);
+  }
+
+  /**
+   * Read the imported entities, if any were saved
+   */
+  private async load(): Promise<KnowledgeBase> {
+    if (!this.file) return this;
+
+    const stored = await readJsonFile(this.file, isStoredKnowledgeBase, 'knowledge base');
+    if (!stored) return this;
+
+    stored.entities.forEach(entity => this.add(entity));
+    this.updatedAt = stored.updated_at;
+    return this;
+  }
+
+  /**
+   * Knowledge-base entry for a Wikidata entity in the given language; undefined without an ID or label
+   */
+  private static fromWikidata(entity: WikidataEntity, language: string): KnowledgeBaseEntity | undefined {
+    const label = entity.labels?.[language]?.value;
+    if (!entity.id || !/^Q\d+$/.test(entity.id) || !label) return undefined;
+
+    const claimValues = (property: string) => (entity.claims?.[property] || []).map(claim => claim.mainsnak?.datavalue?.value);
+    const classes = claimValues('P31').map(value => (value as { id?: string } | undefined)?.id);
+    const type = classes
+      .map(id => (typeof id === 'string' && Object.hasOwn(INSTANCE_OF_TYPES, id) ? INSTANCE_OF_TYPES[id] : undefined))
+      .find(Boolean) || 'concept';
+    const websites = claimValues('P856').filter((value): value is string => typeof value === 'string');
+    const article = entity.sitelinks?.[`${language}wiki`]?.title;
+    const description = entity.descriptions?.[language]?.value;
+
+    return {
+      id: entity.id,
+      label,
+      type,
+      ...(description && { description }),
+      aliases: (entity.aliases?.[language] || []).map(alias => alias.value),
+      context: [],
+      same_as: [
+        `https://www.wikidata.org/wiki/${entity.id}`,
+        ...(article ? [`https://${language}.wikipedia.org/wiki/${article.replace(/ /g, '_')}`] : []),
+        ...websites
+      ],
+      popularity: Object.keys(entity.sitelinks || {}).length
+    };
+  }
+}
+
+/**
+ * Whether the fields the importer reads have Wikidata's shape: language-keyed { value } terms, alias lists,
+ * claim lists and sitelinks with titles. Only the requested language's terms are checked
+ */
+function isWikidataEntity(value: unknown, language: string): value is WikidataEntity {
+  if (!isRecord(value) || (value.id !== undefined && typeof value.id !== 'string')) return false;
+
+  const isTerm = (term: unknown) => isRecord(term) && typeof term.value === 'string';
+  const termsValid = (terms: unknown, check: (term: unknown) => boolean) =>
+    terms === undefined || (isRecord(terms) && (terms[language] === undefined || check(terms[language])));
+  const claimsValid = value.claims === undefined ||
+    (isRecord(value.claims) && Object.values(value.claims).every(claims => Array.isArray(claims) && claims.every(isRecord)));
+  const sitelinksValid = value.sitelinks === undefined ||
+    (isRecord(value.sitelinks) && Object.values(value.sitelinks).every(link => isRecord(link) && typeof link.title === 'string'));
+
+  return termsValid(value.labels, isTerm) &&
+    termsValid(value.descriptions, isTerm) &&
+    termsValid(value.aliases, aliases => Array.isArray(aliases) && aliases.every(isTerm)) &&
+    claimsValid &&
+    sitelinksValid;
+}
+
+/**
+ * Whether parsed JSON has the shape of a saved knowledge base
+ */
+function isStoredKnowledgeBase(value: unknown): value is StoredKnowledgeBase {
+  const entities = isRecord(value) ? value.entities : undefined;
+  return Array.isArray(entities) && entities.every(entity =>
+    isRecord(entity) &&
+    typeof entity.id === 'string' &&
+    typeof entity.label === 'string' &&
+    typeof entity.type === 'string' && Object.hasOwn(SCHEMA_TYPES, entity.type) &&
+    (entity.description === undefined || typeof entity.description === 'string') &&
+    [entity.aliases, entity.context, entity.same_as].every(list => Array.isArray(list) && list.every(item => typeof item === 'string')) &&
+    typeof entity.popularity === 'number'
+  );
+}
+
+/**
+ * Non-null, non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lookup key of a name: lowercase, accents folded, whitespace collapsed
+ */
+function foldName(name: string): string {
+  return name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Lowercase words of three or more letters that are not stop words
+ */
+function contextWordsOf(text: string): string[] {
+  return (foldName(text).match(/\p{L}{3,}/gu) || []).filter(word => !english.isStopWord(word));
+}
@@ -0,0 +1,106 @@
+/**
+ * Language Detector
+ * Guesses the content language offline by comparing character n-gram profiles (Cavnar & Trenkle out-of-place ranking),
+ * discounted by how many words are the language's stop words so close relatives such as Spanish and Portuguese separate
+ */
+
+import { languageProfiles } from '@/config/language-profiles';
+import { DetectedLanguage, SupportedLanguage } from '@/types/seo-analysis';
+
+// Profiles keep this many of their most frequent n-grams
+const PROFILE_SIZE = 300;
+
+// Character n-gram lengths; words are padded with spaces so n-grams also capture word starts and ends
+const NGRAM_LENGTHS = [1, 2, 3];
+
+// Fewer letters than this is too little text to judge
+const MIN_LETTERS = 40;
+
+// Reference profiles, built on first use from each language's sample text and stop words
+let referenceProfiles: Map<SupportedLanguage, Map<string, number>> | undefined;
+
+export class LanguageDetector {
+  private text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  /**
+   * Language whose n-gram profile is closest to the text, or undefined for short or ambiguous text
+   */
+  detect(): DetectedLanguage | undefined {
+    const ranking = this.rank();
+    if (ranking.length < 2) return undefined;
+
+    const [best, runnerUp] = ranking;
+    // How much closer the winner is than the next language, relative to the next language's distance
+    const confidence = (runnerUp.distance - best.distance) / runnerUp.distance;
+    return confidence > 0 ? { language: best.language, confidence: Number(confidence.toFixed(2)) } : undefined;
+  }
+
+  /**
+   * Every supported language with its stop-word-discounted distance to the text, closest first; empty for short text
+   */
+  rank(): Array<{ language: SupportedLanguage; distance: number }> {
+    const normalized = LanguageDetector.normalize(this.text);
+    if (normalized.replace(/ /g, '').length < MIN_LETTERS) return [];
+
+    const textProfile = LanguageDetector.buildProfile(normalized);
+    const words = normalized.split(' ');
+    return Array.from(LanguageDetector.getReferenceProfiles().entries())
+      .map(([language, reference]) => {
+        let distance = 0;
+        textProfile.forEach((rank, ngram) => {
+          const referenceRank = reference.get(ngram);
+          distance += referenceRank === undefined ? PROFILE_SIZE : Math.abs(rank - referenceRank);
+        });
+
+        const stopWords = new Set(languageProfiles[language].stop_words);
+        const stopWordShare = words.filter(word => stopWords.has(word)).length / words.length;
+        return { language, distance: Math.round(distance * (1 - stopWordShare)) };
+      })
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Lowercase letters only, one space between words
+   */
+  private static normalize(text: string): string {
+    return text.toLowerCase().normalize('NFC').replace(/[^\p{L}]+/gu, ' ').trim();
+  }
+
+  /**
+   * Rank of each of the most frequent n-grams, 0 being the most frequent
+   */
+  private static buildProfile(normalized: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    normalized.split(' ').forEach(word => {
+      const padded = ` ${word} `;
+      NGRAM_LENGTHS.forEach(length => {
+        for (let i = 0; i + length <= padded.length; i++) {
+          const ngram = padded.slice(i, i + length);
+          if (ngram !== ' ') counts.set(ngram, (counts.get(ngram) || 0) + 1);
+        }
+      });
+    });
+
+    const ranked = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, PROFILE_SIZE);
+    return new Map(ranked.map(([ngram], rank) => [ngram, rank]));
+  }
+
+  /**
+   * Reference profiles per language, cached for the life of the process
+   */
+  private static getReferenceProfiles(): Map<SupportedLanguage, Map<string, number>> {
+    if (!referenceProfiles) {
+      referenceProfiles = new Map(Object.values(languageProfiles).map(profile => [
+        profile.code,
+        LanguageDetector.buildProfile(LanguageDetector.normalize(`${profile.sample} ${profile.stop_words.join(' ')}`))
+      ]));
+    }
+    return referenceProfiles;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Link Analyzer
+ * Summarizes a page's links and reports which inferred keywords are used as internal anchor text
+ */
+
+import { AnchorKeywordUsage, InferredKeywordsAnalysis, LinkAnalysis, LinkLocation, PageLink } from '@/types/seo-analysis';
+
+// Anchor texts that tell search engines nothing about the target page
+const GENERIC_ANCHORS = new Set([
+  'click here', 'here', 'read more', 'learn more', 'more', 'this', 'link', 'continue reading',
+  'see more', 'find out more', 'details', 'more info', 'go', 'this page'
+]);
+
+export class LinkAnalyzer {
+  private links: PageLink[];
+  private keywords: InferredKeywordsAnalysis;
+
+  constructor(links: PageLink[], keywords: InferredKeywordsAnalysis) {
+    this.links = links;
+    this.keywords = keywords;
+  }
+
+  /**
+   * Count links by type, rel and location, and build the anchor-text keyword report
+   */
+  analyze(): LinkAnalysis {
+    const internal = this.links.filter(link => link.internal);
+    const byLocation: Record<LinkLocation, number> = { nav: 0, header: 0, footer: 0, aside: 0, body: 0 };
+    this.links.forEach(link => byLocation[link.location]++);
+
+    const hasRel = (rel: string) => this.links.filter(link => link.rel.includes(rel)).length;
+
+    return {
+      internal_links: internal.length,
+      external_links: this.links.length - internal.length,
+      unique_internal_targets: new Set(internal.map(link => link.href)).size,
+      nofollow_links: hasRel('nofollow'),
+      sponsored_links: hasRel('sponsored'),
+      ugc_links: hasRel('ugc'),
+      by_location: byLocation,
+      anchor_keywords: this.buildAnchorKeywordReport(),
+      generic_anchors: [
+        ...new Set(internal.map(link => link.text).filter(text => GENERIC_ANCHORS.has(text.toLowerCase())))
+      ],
+      empty_anchors: this.links.filter(link => !link.text).length
+    };
+  }
+
+  /**
+   * Distinct internal pages linked from a page, with the first anchor text used for each
+   */
+  static getInternalPages(links: PageLink[], pageUrl: string, limit: number = 20): Array<{ url: string; anchor: string }> {
+    const pages = new Map<string, string>();
+    links
+      .filter(link => link.internal && link.href !== pageUrl)
+      .forEach(link => {
+        if (!pages.has(link.href)) pages.set(link.href, link.text);
+      });
+
+    return Array.from(pages, ([url, anchor]) => ({ url, anchor })).slice(0, limit);
+  }
+
+  /**
+   * Every primary and secondary keyword with the anchors that contain it,
+   * including keywords no internal anchor uses yet
+   */
+  private buildAnchorKeywordReport(): AnchorKeywordUsage[] {
+    const keywords = [
+      ...this.keywords.primary.keywords.map(keyword => ({ term: keyword.term, type: 'primary' as const })),
+      ...this.keywords.secondary.keywords.map(keyword => ({ term: keyword.term, type: 'secondary' as const }))
+    ];
+
+    return keywords.map(({ term, type }) => {
+      const matching = this.links.filter(link => this.containsKeyword(link.text, term));
+      const internal = matching.filter(link => link.internal);
+
+      return {
+        keyword: term,
+        keyword_type: type,
+        internal_anchor_count: internal.length,
+        external_anchor_count: matching.length - internal.length,
+        anchors: [...new Set(internal.map(link => link.text))],
+        targets: [...new Set(internal.map(link => link.href))]
+      };
+    });
+  }
+
+  /**
+   * Whether anchor text contains the keyword as whole words, ignoring case
+   */
+  private containsKeyword(text: string, keyword: string): boolean {
+    if (!text || !keyword.trim()) return false;
+
+    const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(^|\\W)${escaped}(\\W|$)`, 'i').test(text);
+  }
+}
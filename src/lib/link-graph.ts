@@ -0,0 +1,225 @@
+/**
+ * Site Link Graph
+ * Assembles internal links across analyzed pages into a graph, scores pages with PageRank,
+ * finds orphan sitemap URLs and suggests links that pass authority to weak pages
+ */
+
+import { InternalLinkSuggestion, LinkGraphNode, SEOAnalysisResult, SiteLinkGraph } from '@/types/seo-analysis';
+
+export interface LinkGraphOptions {
+  sitemapUrls?: string[];
+  maxSuggestions?: number;
+  suggestionsPerTarget?: number;
+}
+
+// Standard PageRank damping factor and convergence settings
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const CONVERGENCE_THRESHOLD = 1e-8;
+
+interface GraphPage {
+  url: string;
+  result?: SEOAnalysisResult;
+  targets: Set<string>; // All internal links, keyed by normalized URL
+  followedTargets: Set<string>; // Links without rel=nofollow, which pass PageRank
+}
+
+export class LinkGraphAnalyzer {
+  private results: SEOAnalysisResult[];
+  private options: Required<LinkGraphOptions>;
+
+  constructor(results: SEOAnalysisResult[], options: LinkGraphOptions = {}) {
+    this.results = results;
+    this.options = {
+      sitemapUrls: options.sitemapUrls ?? [],
+      maxSuggestions: options.maxSuggestions ?? 20,
+      suggestionsPerTarget: options.suggestionsPerTarget ?? 2
+    };
+  }
+
+  /**
+   * Build the graph, score every node and suggest links for orphan and weak pages
+   */
+  analyze(): SiteLinkGraph {
+    const pages = this.buildPages();
+    const ranks = this.computePageRank(pages);
+    const maxRank = Math.max(...Array.from(ranks.values()), 0);
+    const sitemapKeys = new Set(this.options.sitemapUrls.map(url => this.normalizeUrl(url)));
+
+    const inbound = new Map<string, number>();
+    pages.forEach(page => page.targets.forEach(target => {
+      if (target !== this.normalizeUrl(page.url)) inbound.set(target, (inbound.get(target) || 0) + 1);
+    }));
+
+    const nodes: LinkGraphNode[] = Array.from(pages.entries()).map(([key, page]) => {
+      const rank = ranks.get(key) || 0;
+      const inSitemap = sitemapKeys.has(key);
+      return {
+        url: page.url,
+        pagerank: Number(rank.toFixed(6)),
+        internal_link_strength: maxRank > 0 ? Math.round((rank / maxRank) * 100) : 0,
+        inbound_links: inbound.get(key) || 0,
+        outbound_links: page.targets.size,
+        analyzed: !!page.result,
+        ...(this.options.sitemapUrls.length > 0 && { in_sitemap: inSitemap }),
+        is_orphan: inSitemap && !inbound.get(key)
+      };
+    });
+    nodes.sort((a, b) => b.pagerank - a.pagerank);
+
+    return {
+      nodes,
+      edges: Array.from(pages.values()).reduce((total, page) => total + page.followedTargets.size, 0),
+      orphan_pages: nodes.filter(node => node.is_orphan).map(node => node.url),
+      link_suggestions: this.suggestLinks(pages, nodes)
+    };
+  }
+
+  /**
+   * One graph node per analyzed page and sitemap URL, with links restricted to those nodes
+   */
+  private buildPages(): Map<string, GraphPage> {
+    const pages = new Map<string, GraphPage>();
+    const aliases = new Map<string, string>();
+
+    this.results.forEach(result => {
+      const key = this.normalizeUrl(result.page_metadata.url);
+      pages.set(key, { url: result.page_metadata.url, result, targets: new Set(), followedTargets: new Set() });
+
+      // Links to a URL that redirects here count as links to this page
+      const finalUrl = result.http_analysis?.final_url;
+      if (finalUrl) aliases.set(this.normalizeUrl(finalUrl), key);
+    });
+
+    this.options.sitemapUrls.forEach(url => {
+      const key = this.normalizeUrl(url);
+      if (!pages.has(key) && !aliases.has(key)) {
+        pages.set(key, { url, targets: new Set(), followedTargets: new Set() });
+      }
+    });
+
+    pages.forEach((page, key) => {
+      (page.result?.structured_on_page_data.links || []).forEach(link => {
+        if (!link.internal) return;
+
+        const normalized = this.normalizeUrl(link.href);
+        const target = aliases.get(normalized) || normalized;
+        if (target === key || !pages.has(target)) return;
+
+        page.targets.add(target);
+        if (!link.rel.includes('nofollow')) page.followedTargets.add(target);
+      });
+    });
+
+    return pages;
+  }
+
+  /**
+   * Iterative PageRank over followed links; dangling pages spread their rank evenly
+   */
+  private computePageRank(pages: Map<string, GraphPage>): Map<string, number> {
+    const keys = Array.from(pages.keys());
+    const count = keys.length;
+    let ranks = new Map(keys.map(key => [key, count > 0 ? 1 / count : 0]));
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS && count > 0; iteration++) {
+      const danglingRank = keys
+        .filter(key => pages.get(key)!.followedTargets.size === 0)
+        .reduce((total, key) => total + ranks.get(key)!, 0);
+      const base = (1 - DAMPING) / count + (DAMPING * danglingRank) / count;
+      const next = new Map(keys.map(key => [key, base]));
+
+      pages.forEach((page, key) => {
+        const share = (DAMPING * ranks.get(key)!) / page.followedTargets.size;
+        page.followedTargets.forEach(target => next.set(target, next.get(target)! + share));
+      });
+
+      const delta = keys.reduce((total, key) => total + Math.abs(next.get(key)! - ranks.get(key)!), 0);
+      ranks = next;
+      if (delta < CONVERGENCE_THRESHOLD) break;
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Source→target pairs for orphan pages and the weaker half of the site,
+   * preferring strong sources that already cover the target's primary keyword
+   */
+  private suggestLinks(pages: Map<string, GraphPage>, nodes: LinkGraphNode[]): InternalLinkSuggestion[] {
+    const suggestions: InternalLinkSuggestion[] = [];
+    const byUrl = new Map(Array.from(pages.entries()).map(([key, page]) => [page.url, { key, page }]));
+    const analyzedNodes = nodes.filter(node => node.analyzed);
+    const weakThreshold = analyzedNodes[Math.floor(analyzedNodes.length / 2)]?.pagerank ?? 0;
+
+    const targets = nodes
+      .filter(node => node.is_orphan || (node.analyzed && node.pagerank <= weakThreshold))
+      .sort((a, b) => Number(b.is_orphan) - Number(a.is_orphan) || a.pagerank - b.pagerank);
+
+    for (const target of targets) {
+      const { key: targetKey, page: targetPage } = byUrl.get(target.url)!;
+      const keywords = targetPage.result?.inferred_keywords.primary.keywords.map(keyword => keyword.term) || [];
+      if (keywords.length === 0) continue;
+
+      const sources = analyzedNodes
+        .filter(source => source.url !== target.url && !byUrl.get(source.url)!.page.targets.has(targetKey))
+        .map(source => ({ source, relevance: this.getRelevance(byUrl.get(source.url)!.page.result!, keywords) }))
+        .filter(({ relevance }) => relevance > 0 || target.is_orphan)
+        .sort((a, b) => b.relevance * b.source.pagerank - a.relevance * a.source.pagerank || b.source.pagerank - a.source.pagerank)
+        .slice(0, this.options.suggestionsPerTarget);
+
+      sources.forEach(({ source, relevance }, index) => {
+        const problem = target.is_orphan
+          ? 'Orphan page: no internal links point here'
+          : `Weak internal link strength (${target.internal_link_strength}/100)`;
+        const fit = relevance > 0
+          ? `source shares topic words with "${keywords[0]}"`
+          : `source is a strong page (${source.internal_link_strength}/100)`;
+
+        suggestions.push({
+          source_url: source.url,
+          target_url: target.url,
+          // Vary anchors across suggestions for the same target
+          anchor_text: keywords[index % keywords.length],
+          reason: `${problem}; ${fit}`
+        });
+      });
+
+      if (suggestions.length >= this.options.maxSuggestions) break;
+    }
+
+    return suggestions.slice(0, this.options.maxSuggestions);
+  }
+
+  /**
+   * Fraction of the target keyword's words that appear in the source page's title, headings and keywords
+   */
+  private getRelevance(source: SEOAnalysisResult, keywords: string[]): number {
+    const sourceText = [
+      source.page_metadata.title_tag,
+      ...source.structured_on_page_data.headings_and_keywords.map(heading => heading.text),
+      ...source.inferred_keywords.primary.keywords.map(keyword => keyword.term),
+      ...source.inferred_keywords.secondary.keywords.map(keyword => keyword.term)
+    ].join(' ').toLowerCase();
+    const sourceWords = new Set(sourceText.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+    const words = keywords[0].toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length === 0) return 0;
+    return words.filter(word => sourceWords.has(word)).length / words.length;
+  }
+
+  /**
+   * Graph key for a URL: lowercase host, no fragment, no trailing slash except on the root
+   */
+  private normalizeUrl(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      urlObj.hash = '';
+      urlObj.hostname = urlObj.hostname.toLowerCase();
+      if (urlObj.pathname.length > 1) urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+      return urlObj.toString();
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Named Entity Recognizer
+ * Offline statistical NER: a greedy averaged-perceptron BIO tagger over word shape, context and gazetteer features.
+ * The weights ship as a JSON file produced by scripts/train-ner.ts
+ */
+
+import gazetteer from '@/config/ner/gazetteer.json';
+import defaultModel from '@/config/ner/model.json';
+import { EntityBucket, EntityExtraction, EntityType, RecognizedEntity } from '@/types/seo-analysis';
+
+export interface EntityModel {
+  version: number;
+  tags: string[]; // "O" plus a B- and I- tag per entity type
+  weights: Record<string, Record<string, number>>; // Feature -> tag -> averaged weight; zero weights are left out
+}
+
+export interface EntityMention {
+  text: string;
+  type: EntityType;
+  start: number;
+  end: number; // Exclusive
+}
+
+export interface AnnotatedSentence {
+  text: string;
+  entities: EntityMention[];
+}
+
+interface Token {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+  sentenceStart: boolean;
+  gazetteer?: string; // BIO tag of a gazetteer match with the same case
+  gazetteerFolded?: string; // BIO tag of a case-insensitive gazetteer match
+}
+
+interface GazetteerIndex {
+  entries: Map<string, { type: EntityType; forms: Set<string> }>; // Keyed by lowercase tokens joined with spaces
+  longest: number; // Tokens in the longest entry
+  firstNames: Set<string>;
+  regions: Set<string>; // States and countries that may follow a city after a comma
+}
+
+// EntityExtraction bucket that lists each entity type
+export const ENTITY_BUCKETS: Record<EntityType, EntityBucket> = {
+  person: 'people',
+  organization: 'organizations',
+  location: 'locations',
+  product: 'products',
+  technology: 'technologies'
+};
+
+const ENTITY_TYPES = Object.keys(ENTITY_BUCKETS) as EntityType[];
+
+// Tag of tokens outside every entity, and the context tags before the first token
+const OUTSIDE = 'O';
+const START = '-START-';
+
+// Initials ("J."), words with inner joiners ("Node.js", "AT&T", "O'Brien") and "C++"/"C#" endings, or single punctuation marks
+const TOKEN_PATTERN = /\p{Lu}\.(?![\p{L}\p{N}])|[\p{L}\p{N}]+(?:[.'’&-][\p{L}\p{N}]+)*(?:\+\+|#)?|[^\s\p{L}\p{N}]/gu;
+
+// Punctuation tokens that are never part of an entity
+const BOUNDARY_PUNCTUATION = /^[.,;:!?()[\]{}"“”«»|/]$/;
+
+// Punctuation that ends a sentence unless it follows an abbreviation
+const SENTENCE_END = new Set(['.', '!', '?']);
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'inc', 'corp', 'co', 'ltd', 'vs', 'e.g', 'i.e', 'u.s']);
+
+// Inline annotation used by the training and evaluation corpora: "[person Ada Lovelace] wrote ..."
+const ANNOTATION_PATTERN = new RegExp(`\\[(${ENTITY_TYPES.join('|')}) ([^\\]]+)\\]`, 'g');
+
+// Averaged weights closer to zero than this are dropped from the saved model
+const MIN_SAVED_WEIGHT = 0.01;
+
+/**
+ * Parse an inline-annotated sentence into its plain text and entity spans
+ */
+export function parseAnnotatedSentence(line: string): AnnotatedSentence {
+  const entities: EntityMention[] = [];
+  let text = '';
+  let last = 0;
+
+  for (const match of line.matchAll(ANNOTATION_PATTERN)) {
+    text += line.slice(last, match.index);
+    entities.push({ text: match[2], type: match[1] as EntityType, start: text.length, end: text.length + match[2].length });
+    text += match[2];
+    last = match.index! + match[0].length;
+  }
+
+  return { text: text + line.slice(last), entities };
+}
+
+export class NamedEntityRecognizer {
+  private static gazetteerIndex?: GazetteerIndex;
+  private model: EntityModel;
+
+  constructor(model: EntityModel = defaultModel) {
+    this.model = model;
+  }
+
+  /**
+   * Entities in the text grouped by type and case-insensitive name, in order of first mention
+   */
+  recognize(text: string): RecognizedEntity[] {
+    const entities = new Map<string, RecognizedEntity>();
+
+    this.findMentions(text).forEach(mention => {
+      const key = `${mention.type}:${mention.text.toLowerCase()}`;
+      const entity = entities.get(key) ?? { text: mention.text, type: mention.type, count: 0, offsets: [] };
+      entity.count++;
+      entity.offsets.push({ start: mention.start, end: mention.end });
+      entities.set(key, entity);
+    });
+
+    return [...entities.values()];
+  }
+
+  /**
+   * Entity names per EntityExtraction bucket plus the typed entities with their offsets and counts
+   * Technology names are lowercased so differently cased mentions read the same
+   */
+  extract(text: string): EntityExtraction {
+    const entities = this.recognize(text);
+    const extraction: EntityExtraction = { people: [], organizations: [], locations: [], products: [], technologies: [], entities };
+
+    entities.forEach(entity => {
+      extraction[ENTITY_BUCKETS[entity.type]].push(entity.type === 'technology' ? entity.text.toLowerCase() : entity.text);
+    });
+    extraction.technologies = [...new Set(extraction.technologies)];
+
+    return extraction;
+  }
+
+  /**
+   * Every entity mention in the text, in order
+   */
+  findMentions(text: string): EntityMention[] {
+    const tokens = NamedEntityRecognizer.tokenize(text);
+    const tags = this.tag(tokens);
+    const mentions: EntityMention[] = [];
+
+    tokens.forEach((token, index) => {
+      const tag = tags[index];
+      if (tag === OUTSIDE) return;
+
+      const type = tag.slice(2) as EntityType;
+      const current = mentions[mentions.length - 1];
+      if (tag.startsWith('I-') && current?.type === type && current.end === tokens[index - 1].end) {
+        current.end = token.end;
+      } else {
+        mentions.push({ text: '', type, start: token.start, end: token.end });
+      }
+    });
+
+    return this.mergeRegions(text, mentions).map(mention => ({ ...mention, text: text.slice(mention.start, mention.end) }));
+  }
+
+  /**
+   * Join "City, Region" locations such as "San Francisco, California" into one mention
+   */
+  private mergeRegions(text: string, mentions: EntityMention[]): EntityMention[] {
+    const { regions } = NamedEntityRecognizer.getGazetteer();
+    const merged: EntityMention[] = [];
+
+    mentions.forEach(mention => {
+      const previous = merged[merged.length - 1];
+      if (
+        previous?.type === 'location' && mention.type === 'location' &&
+        /^\s*,\s*$/.test(text.slice(previous.end, mention.start)) &&
+        regions.has(text.slice(mention.start, mention.end)) &&
+        !regions.has(text.slice(previous.start, previous.end))
+      ) {
+        previous.end = mention.end;
+      } else {
+        merged.push({ ...mention });
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Greedy left-to-right BIO tags for the tokens
+   */
+  private tag(tokens: Token[]): string[] {
+    const tags: string[] = [];
+
+    tokens.forEach((token, index) => {
+      const features = NamedEntityRecognizer.features(tokens, index, tags[index - 1] ?? START, tags[index - 2] ?? START);
+      tags.push(NamedEntityRecognizer.predict(this.model.weights, this.model.tags, features, token, tags[index - 1] ?? START));
+    });
+
+    return tags;
+  }
+
+  /**
+   * Train averaged-perceptron weights on annotated sentences
+   */
+  static train(sentences: AnnotatedSentence[], iterations = 10, random: () => number = Math.random): EntityModel {
+    const tags = [OUTSIDE, ...ENTITY_TYPES.flatMap(type => [`B-${type}`, `I-${type}`])];
+    const weights: Record<string, Record<string, number>> = {};
+    const totals = new Map<string, number>();
+    const stamps = new Map<string, number>();
+    let instances = 0;
+
+    const update = (feature: string, tag: string, delta: number) => {
+      const key = `${feature}\u0000${tag}`;
+      const weight = weights[feature]?.[tag] ?? 0;
+      totals.set(key, (totals.get(key) ?? 0) + (instances - (stamps.get(key) ?? 0)) * weight);
+      stamps.set(key, instances);
+      (weights[feature] ??= {})[tag] = weight + delta;
+    };
+
+    const examples = sentences.map(sentence => {
+      const tokens = NamedEntityRecognizer.tokenize(sentence.text);
+      return { tokens, gold: NamedEntityRecognizer.goldTags(tokens, sentence.entities) };
+    });
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      shuffle(examples, random).forEach(({ tokens, gold }) => {
+        const guesses: string[] = [];
+
+        tokens.forEach((token, index) => {
+          const previous = guesses[index - 1] ?? START;
+          const features = NamedEntityRecognizer.features(tokens, index, previous, guesses[index - 2] ?? START);
+          // Unconstrained during training, so weights of invalid continuations are corrected too
+          const guess = NamedEntityRecognizer.predict(weights, tags, features, token);
+          instances++;
+
+          if (guess !== gold[index]) {
+            features.forEach(feature => {
+              update(feature, gold[index], 1);
+              update(feature, guess, -1);
+            });
+          }
+          guesses.push(guess);
+        });
+      });
+    }
+
+    const averaged: Record<string, Record<string, number>> = {};
+    Object.entries(weights).forEach(([feature, tagWeights]) => {
+      Object.entries(tagWeights).forEach(([tag, weight]) => {
+        const key = `${feature}\u0000${tag}`;
+        const total = (totals.get(key) ?? 0) + (instances - (stamps.get(key) ?? 0)) * weight;
+        const average = Math.round((total / instances) * 1000) / 1000;
+        if (Math.abs(average) >= MIN_SAVED_WEIGHT) (averaged[feature] ??= {})[tag] = average;
+      });
+    });
+
+    return { version: 1, tags, weights: averaged };
+  }
+
+  /**
+   * Highest scoring tag for the token; punctuation is always outside
+   * Given the previous tag, only valid BIO continuations are considered
+   */
+  private static predict(
+    weights: EntityModel['weights'],
+    tags: string[],
+    features: string[],
+    token: Token,
+    previous?: string
+  ): string {
+    if (BOUNDARY_PUNCTUATION.test(token.text)) return OUTSIDE;
+
+    const scores = new Map<string, number>();
+    features.forEach(feature => {
+      Object.entries(weights[feature] ?? {}).forEach(([tag, weight]) => scores.set(tag, (scores.get(tag) ?? 0) + weight));
+    });
+
+    let best = OUTSIDE;
+    let bestScore = -Infinity;
+    tags.forEach(tag => {
+      if (previous !== undefined && tag.startsWith('I-') && previous.slice(2) !== tag.slice(2)) return;
+      const score = scores.get(tag) ?? 0;
+      if (score > bestScore) {
+        best = tag;
+        bestScore = score;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Features of the token at the index, given the two previous tags
+   */
+  private static features(tokens: Token[], index: number, previous: string, previous2: string): string[] {
+    const { firstNames } = NamedEntityRecognizer.getGazetteer();
+    const token = tokens[index];
+    const before = tokens[index - 1];
+    const after = tokens[index + 1];
+    const shape = wordShape(token.text);
+
+    const features = [
+      'bias',
+      `w=${token.lower}`,
+      `shape=${shape}`,
+      `prefix=${token.lower.slice(0, 3)}`,
+      `suffix=${token.lower.slice(-3)}`,
+      `t-1=${previous}`,
+      `t-2,t-1=${previous2},${previous}`,
+      `t-1,shape=${previous},${shape}`,
+      `t-1,folded=${previous},${token.gazetteerFolded ?? OUTSIDE}`,
+      `w-1=${before?.lower ?? START}`,
+      `w-2=${tokens[index - 2]?.lower ?? START}`,
+      `shape-1=${before ? wordShape(before.text) : START}`,
+      `w+1=${after?.lower ?? START}`,
+      `w+2=${tokens[index + 2]?.lower ?? START}`,
+      `shape+1=${after ? wordShape(after.text) : START}`
+    ];
+
+    if (token.sentenceStart) features.push('start', `start,shape=${shape}`);
+    if (token.gazetteer) features.push(`gazetteer=${token.gazetteer}`, `gazetteer,shape=${token.gazetteer},${shape}`);
+    if (token.gazetteerFolded) features.push(`folded=${token.gazetteerFolded}`, `folded,shape=${token.gazetteerFolded},${shape}`);
+    if (before?.gazetteer) features.push(`gazetteer-1=${before.gazetteer}`);
+    if (after?.gazetteer) features.push(`gazetteer+1=${after.gazetteer}`);
+    if (firstNames.has(token.text)) features.push('first-name');
+    if (before && firstNames.has(before.text)) features.push('first-name-1');
+
+    return features;
+  }
+
+  /**
+   * Tokens with their offsets, sentence starts and gazetteer matches
+   */
+  private static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      const previous = tokens[tokens.length - 1];
+      const start = match.index!;
+      const sentenceStart = !previous ||
+        text.slice(previous.end, start).includes('\n') ||
+        (SENTENCE_END.has(previous.text) && !isAbbreviation(tokens[tokens.length - 2]));
+
+      tokens.push({ text: match[0], lower: match[0].toLowerCase(), start, end: start + match[0].length, sentenceStart });
+    }
+
+    NamedEntityRecognizer.matchGazetteer(tokens);
+    return tokens;
+  }
+
+  /**
+   * Mark the longest gazetteer entries starting at each token
+   */
+  private static matchGazetteer(tokens: Token[]): void {
+    const { entries, longest } = NamedEntityRecognizer.getGazetteer();
+
+    for (let index = 0; index < tokens.length;) {
+      let length = Math.min(longest, tokens.length - index);
+      for (; length > 0; length--) {
+        const span = tokens.slice(index, index + length);
+        const entry = entries.get(span.map(token => token.lower).join(' '));
+        if (!entry) continue;
+
+        const exact = entry.forms.has(span.map(token => token.text).join(' '));
+        span.forEach((token, position) => {
+          const tag = `${position === 0 ? 'B' : 'I'}-${entry.type}`;
+          token.gazetteerFolded = tag;
+          if (exact) token.gazetteer = tag;
+        });
+        break;
+      }
+      index += Math.max(length, 1);
+    }
+  }
+
+  /**
+   * Gold BIO tags of the tokens for the annotated spans
+   */
+  private static goldTags(tokens: Token[], entities: EntityMention[]): string[] {
+    return tokens.map(token => {
+      const entity = entities.find(candidate => token.start >= candidate.start && token.end <= candidate.end);
+      if (!entity) return OUTSIDE;
+      return `${token.start === entity.start ? 'B' : 'I'}-${entity.type}`;
+    });
+  }
+
+  /**
+   * Gazetteer lookup tables, built on first use
+   */
+  private static getGazetteer(): GazetteerIndex {
+    if (NamedEntityRecognizer.gazetteerIndex) return NamedEntityRecognizer.gazetteerIndex;
+
+    const entries: GazetteerIndex['entries'] = new Map();
+    let longest = 1;
+
+    ENTITY_TYPES.forEach(type => {
+      gazetteer[type].forEach(name => {
+        const words = [...name.matchAll(TOKEN_PATTERN)].map(match => match[0]);
+        const key = words.join(' ').toLowerCase();
+        const entry = entries.get(key) ?? { type, forms: new Set<string>() };
+        entry.forms.add(words.join(' '));
+        entries.set(key, entry);
+        longest = Math.max(longest, words.length);
+      });
+    });
+
+    NamedEntityRecognizer.gazetteerIndex = {
+      entries,
+      longest,
+      firstNames: new Set(gazetteer.first_names),
+      regions: new Set(gazetteer.regions)
+    };
+    return NamedEntityRecognizer.gazetteerIndex;
+  }
+}
+
+/**
+ * Compressed character classes of a word: "TechCorp" -> "XxXx", "iPhone15" -> "xXxd"
+ */
+function wordShape(word: string): string {
+  return word
+    .replace(/\p{Lu}/gu, 'X')
+    .replace(/\p{Ll}/gu, 'x')
+    .replace(/\p{N}/gu, 'd')
+    .replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Whether a period after the token belongs to an abbreviation ("Dr.", "Inc.")
+ */
+function isAbbreviation(token?: Token): boolean {
+  return !!token && ABBREVIATIONS.has(token.lower);
+}
+
+/**
+ * Shuffled copy of the items
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+  }
+  return shuffled;
+}
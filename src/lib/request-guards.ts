@@ -0,0 +1,155 @@
+/**
+ * Request Guards
+ * URL security validation and per-IP rate limiting shared by the public API routes
+ */
+
+import { NextRequest } from 'next/server';
+import { config } from '@/config/environment';
+
+// Rate limiting store (in-memory for simplicity)
+const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+
+/**
+ * Enhanced URL validation with security checks
+ */
+export function validateUrlSecurity(url: string): { isValid: boolean; message: string } {
+  try {
+    const urlObj = new URL(url);
+    
+    // Only allow HTTP and HTTPS
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return { isValid: false, message: 'Only HTTP and HTTPS URLs are allowed' };
+    }
+
+    // Check for private/localhost IPs (SSRF protection)
+    if (urlObj.hostname === 'localhost' || 
+        urlObj.hostname === '127.0.0.1' ||
+        urlObj.hostname === '[::1]' ||
+        urlObj.hostname.startsWith('169.254.') ||
+        urlObj.hostname.startsWith('192.168.') ||
+        urlObj.hostname.startsWith('10.') ||
+        urlObj.hostname.startsWith('172.') ||
+        urlObj.hostname === '0.0.0.0') {
+      return { isValid: false, message: 'Private/localhost URLs are not allowed' };
+    }
+
+    // Check for suspicious patterns
+    const suspiciousPatterns = [
+      /file:\/\//,
+      /ftp:\/\//,
+      /gopher:\/\//,
+      /data:/,
+      /javascript:/,
+      /vbscript:/
+    ];
+
+    if (suspiciousPatterns.some(pattern => pattern.test(url))) {
+      return { isValid: false, message: 'Suspicious URL pattern detected' };
+    }
+
+    return { isValid: true, message: '' };
+  } catch {
+    return { isValid: false, message: 'Invalid URL format' };
+  }
+}
+
+/**
+ * Fetch a URL following redirects by hand, so every target passes the URL check before it is requested;
+ * refused, looping or overlong redirect chains throw. Returns the final response and its URL
+ */
+export async function fetchCheckingRedirects(
+  url: string,
+  init: RequestInit,
+  validateUrl: (url: string) => { isValid: boolean; message: string } = validateUrlSecurity
+): Promise<{ response: Response; url: string }> {
+  const visited = new Set<string>([url]);
+  let currentUrl = url;
+
+  for (;;) {
+    const response = await fetch(currentUrl, { ...init, redirect: 'manual' });
+    const location = response.headers?.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    if (visited.has(nextUrl)) {
+      throw new Error(`Redirect loop at ${nextUrl}`);
+    }
+    if (visited.size > config.maxRedirects) {
+      throw new Error(`More than ${config.maxRedirects} redirects`);
+    }
+    const urlCheck = validateUrl(nextUrl);
+    if (!urlCheck.isValid) {
+      throw new Error(`Redirect to ${nextUrl} refused: ${urlCheck.message}`);
+    }
+    visited.add(nextUrl);
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Get client IP address
+ */
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+  
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  
+  if (realIP) {
+    return realIP;
+  }
+  
+  return 'unknown';
+}
+
+/**
+ * Check rate limit for client IP
+ * Each endpoint keeps its own counter via the scope prefix
+ */
+export function checkRateLimit(clientIP: string, scope: string, maxRequests: number = 10): boolean {
+  const now = Date.now();
+  const windowMs = 60 * 1000; // 1 minute window
+
+  const key = `${scope}_${clientIP}`;
+  const current = rateLimitStore.get(key);
+
+  if (!current || now > current.resetTime) {
+    // Reset or create new entry
+    rateLimitStore.set(key, {
+      count: 1,
+      resetTime: now + windowMs
+    });
+    return true;
+  }
+
+  if (current.count >= maxRequests) {
+    return false;
+  }
+
+  // Increment count
+  current.count++;
+  rateLimitStore.set(key, current);
+
+  // Clean up expired entries periodically
+  if (Math.random() < 0.1) { // 10% chance
+    cleanupExpiredEntries();
+  }
+
+  return true;
+}
+
+/**
+ * Clean up expired rate limit entries
+ */
+function cleanupExpiredEntries(): void {
+  const now = Date.now();
+  for (const [key, value] of rateLimitStore.entries()) {
+    if (now > value.resetTime) {
+      rateLimitStore.delete(key);
+    }
+  }
+}
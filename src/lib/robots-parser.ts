@@ -0,0 +1,165 @@
+/**
+ * robots.txt Parser
+ * Evaluates Allow/Disallow/Crawl-delay rules per user-agent following the
+ * Robots Exclusion Protocol (RFC 9309): most specific group, longest matching rule
+ */
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsCheck {
+  allowed: boolean;
+  matched_rule?: RobotsRule;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export class RobotsTxtParser {
+  private groups: RobotsGroup[] = [];
+  private sitemaps: string[] = [];
+
+  constructor(content: string) {
+    this.parse(content);
+  }
+
+  /**
+   * Extract the robots.txt product token from a full User-Agent string
+   */
+  static getProductToken(userAgent: string): string {
+    return (userAgent.trim().split(/[\s/]/)[0] || '*').toLowerCase();
+  }
+
+  /**
+   * Check whether a URL (or path) may be fetched by the given user-agent
+   */
+  check(url: string, userAgent: string): RobotsCheck {
+    const path = this.getPath(url);
+    const group = this.findGroup(userAgent);
+    if (!group) return { allowed: true };
+
+    let best: RobotsRule | undefined;
+    group.rules.forEach(rule => {
+      if (!rule.path || !this.matches(rule.path, path)) return;
+
+      // Longest match wins; on equal length the less restrictive Allow wins
+      if (!best ||
+          rule.path.length > best.path.length ||
+          (rule.path.length === best.path.length && rule.type === 'allow')) {
+        best = rule;
+      }
+    });
+
+    return { allowed: !best || best.type === 'allow', matched_rule: best };
+  }
+
+  /**
+   * Check whether a URL may be fetched by the given user-agent
+   */
+  isAllowed(url: string, userAgent: string): boolean {
+    return this.check(url, userAgent).allowed;
+  }
+
+  /**
+   * Crawl-delay in seconds for the given user-agent, if declared
+   */
+  getCrawlDelay(userAgent: string): number | undefined {
+    return this.findGroup(userAgent)?.crawlDelay;
+  }
+
+  /**
+   * Sitemap URLs declared in the file
+   */
+  getSitemaps(): string[] {
+    return [...this.sitemaps];
+  }
+
+  /**
+   * Split the file into user-agent groups
+   */
+  private parse(content: string): void {
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    content.split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = { agents: [], rules: [] };
+            this.groups.push(current);
+          }
+          current.agents.push(value.toLowerCase());
+          lastWasAgent = true;
+          return;
+        case 'allow':
+        case 'disallow':
+          current?.rules.push({ type: field as RobotsRule['type'], path: value });
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay)) current.crawlDelay = delay;
+          break;
+        }
+        case 'sitemap':
+          if (value) this.sitemaps.push(value);
+          break;
+      }
+      lastWasAgent = false;
+    });
+  }
+
+  /**
+   * Pick the group for a user-agent: the longest matching agent token, else '*'
+   */
+  private findGroup(userAgent: string): RobotsGroup | undefined {
+    const token = RobotsTxtParser.getProductToken(userAgent);
+    let best: { group: RobotsGroup; length: number } | undefined;
+
+    this.groups.forEach(group => {
+      group.agents.forEach(agent => {
+        if (agent === '*' || !token.startsWith(agent)) return;
+        if (!best || agent.length > best.length) best = { group, length: agent.length };
+      });
+    });
+
+    return best?.group || this.groups.find(group => group.agents.includes('*'));
+  }
+
+  /**
+   * Match a rule path (with * and $ wildcards) against a URL path
+   */
+  private matches(rulePath: string, path: string): boolean {
+    const anchored = rulePath.endsWith('$');
+    const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+  }
+
+  /**
+   * Path plus query string, which is what robots rules are matched against
+   */
+  private getPath(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      return `${urlObj.pathname}${urlObj.search}`;
+    } catch {
+      return url.startsWith('/') ? url : `/${url}`;
+    }
+  }
+}
@@ -13,23 +13,31 @@ import {
   QueryFanOutAnalysis,
   UserIntentSignals
 } from '@/types/seo-analysis';
+import { DocumentFrequencyStore } from './document-frequency-store';
+import { ENTITY_BUCKETS, NamedEntityRecognizer } from './named-entity-recognizer';
 
 export class SemanticAnalyzer {
   private content: string;
+  private originalContent: string;
   private headings: Array<{ text: string; keywords: string[] }>;
   private urlKeywords: string[];
   private metaKeywords: string[];
+  private corpus?: DocumentFrequencyStore;
+  private entities?: EntityExtraction;
 
   constructor(
     content: string,
     headings: Array<{ text: string; keywords: string[] }>,
     urlKeywords: string[],
-    metaKeywords: string[]
+    metaKeywords: string[],
+    corpus?: DocumentFrequencyStore // IDF source; without one terms are ranked by frequency alone
   ) {
     this.content = content.toLowerCase();
+    this.originalContent = content;
     this.headings = headings;
     this.urlKeywords = urlKeywords;
     this.metaKeywords = metaKeywords;
+    this.corpus = corpus;
   }
 
   /**
@@ -140,7 +148,7 @@ export class SemanticAnalyzer {
     });
 
     // Entity mentions get medium weight
-    Object.values(entities).flat().forEach(entity => {
+    Object.values(ENTITY_BUCKETS).flatMap(bucket => entities[bucket]).forEach(entity => {
       topicScores.set(entity.toLowerCase(), (topicScores.get(entity.toLowerCase()) || 0) + 4);
     });
 
@@ -235,135 +243,11 @@ export class SemanticAnalyzer {
   }
 
   /**
-   * Extract named entities from content
+   * Extract named entities from the original-case content
    */
   private extractEntities(): EntityExtraction {
-    return {
-      people: this.extractPeople(),
-      organizations: this.extractOrganizations(),
-      locations: this.extractLocations(),
-      products: this.extractProducts(),
-      technologies: this.extractTechnologies()
-    };
-  }
-
-  /**
-   * Extract people names (simplified approach)
-   */
-  private extractPeople(): string[] {
-    const peoplePatterns = [
-      /^[A-Z][a-z]+ [A-Z][a-z]+$/, // First Last
-      /^[A-Z]\. [A-Z][a-z]+$/, // F. Last
-      /^[A-Z][a-z]+ [A-Z]\. [A-Z][a-z]+$/ // First M. Last
-    ];
-
-    const people: string[] = [];
-    const sentences = this.content.split(/[.!?]+/);
-
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const potentialName = `${words[i]} ${words[i + 1]}`;
-        if (peoplePatterns.some(pattern => pattern.test(potentialName))) {
-          people.push(potentialName);
-        }
-      }
-    });
-
-    return [...new Set(people)];
-  }
-
-  /**
-   * Extract organization names
-   */
-  private extractOrganizations(): string[] {
-    const orgKeywords = ['inc', 'corp', 'llc', 'ltd', 'company', 'corporation', 'enterprise', 'group', 'systems', 'solutions'];
-    const organizations: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (orgKeywords.includes(word)) {
-          // Look for company name before the keyword
-          const potentialOrg = words.slice(Math.max(0, i - 2), i + 1).join(' ');
-          if (potentialOrg.length > 3) {
-            organizations.push(potentialOrg);
-          }
-        }
-      }
-    });
-
-    return [...new Set(organizations)];
-  }
-
-  /**
-   * Extract location names
-   */
-  private extractLocations(): string[] {
-    const locationKeywords = ['city', 'state', 'country', 'street', 'avenue', 'road', 'boulevard', 'park', 'square'];
-    const locations: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (locationKeywords.includes(word)) {
-          const potentialLocation = words.slice(Math.max(0, i - 1), i + 1).join(' ');
-          if (potentialLocation.length > 3) {
-            locations.push(potentialLocation);
-          }
-        }
-      }
-    });
-
-    return [...new Set(locations)];
-  }
-
-  /**
-   * Extract product names
-   */
-  private extractProducts(): string[] {
-    const productKeywords = ['model', 'version', 'series', 'pro', 'max', 'mini', 'plus', 'edition'];
-    const products: string[] = [];
-
-    const sentences = this.content.split(/[.!?]+/);
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        const word = words[i].toLowerCase();
-        if (productKeywords.includes(word)) {
-          const potentialProduct = words.slice(Math.max(0, i - 1), i + 1).join(' ');
-          if (potentialProduct.length > 3) {
-            products.push(potentialProduct);
-          }
-        }
-      }
-    });
-
-    return [...new Set(products)];
-  }
-
-  /**
-   * Extract technology terms
-   */
-  private extractTechnologies(): string[] {
-    const techKeywords = [
-      'api', 'javascript', 'python', 'react', 'vue', 'angular', 'node', 'php', 'java', 'c++', 'c#',
-      'html', 'css', 'sql', 'mongodb', 'mysql', 'postgresql', 'redis', 'docker', 'kubernetes',
-      'aws', 'azure', 'gcp', 'machine learning', 'ai', 'artificial intelligence', 'blockchain'
-    ];
-
-    const technologies: string[] = [];
-    techKeywords.forEach(tech => {
-      if (this.content.includes(tech.toLowerCase())) {
-        technologies.push(tech);
-      }
-    });
-
-    return [...new Set(technologies)];
+    this.entities ??= new NamedEntityRecognizer().extract(this.originalContent);
+    return this.entities;
   }
 
   /**
@@ -550,12 +434,11 @@ export class SemanticAnalyzer {
   }
 
   /**
-   * Calculate TF-IDF score
+   * Calculate TF-IDF score against the project corpus
    */
   private calculateTFIDF(term: string, termFreq: number, totalTerms: number): number {
     const tf = termFreq / totalTerms;
-    // Simplified IDF calculation
-    const idf = Math.log(totalTerms / termFreq);
+    const idf = this.corpus ? this.corpus.inverseDocumentFrequency(this.corpus.getTermKey(term)) : 1;
     return tf * idf;
   }
 
@@ -649,7 +532,8 @@ export class SemanticAnalyzer {
     const readability = this.calculateReadabilityScore();
     const wordCount = this.content.split(/\s+/).length;
     const headingCount = this.headings.length;
-    const entityCount = Object.values(this.extractEntities()).flat().length;
+    const entities = this.extractEntities();
+    const entityCount = Object.values(ENTITY_BUCKETS).flatMap(bucket => entities[bucket]).length;
     
     // AI Overview optimization factors
     let score = readability * 0.4; // 40% readability
@@ -855,7 +739,7 @@ export class SemanticAnalyzer {
 
   private calculateEntityCoverage(): number {
     const entities = this.extractEntities();
-    return Object.values(entities).flat().length;
+    return Object.values(ENTITY_BUCKETS).flatMap(bucket => entities[bucket]).length;
   }
 
   private calculateSemanticDepth(): number {
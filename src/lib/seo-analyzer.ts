@@ -6,16 +6,78 @@
 import { HTMLParser } from './html-parser';
 import { AdvancedSemanticAnalyzer } from './advanced-semantic-analyzer';
 import { KeywordInferenceEngine } from './keyword-inference';
+import { createKeywordExtractor } from './keyword-extractors';
 import { GeminiClient } from './gemini-client';
+import { RobotsTxtParser } from './robots-parser';
+import { IndexabilityAnalyzer } from './indexability-analyzer';
+import { HttpResponseAnalyzer } from './http-response-analyzer';
+import { StructuredDataExtractor } from './structured-data-extractor';
+import { LinkAnalyzer } from './link-analyzer';
+import { HeadingAuditor } from './heading-auditor';
+import { ImageAuditor } from './image-auditor';
+import { HreflangAnalyzer } from './hreflang-analyzer';
+import { DocumentFrequencyStore } from './document-frequency-store';
+import { KnowledgeBase } from './knowledge-base';
+import { EmbeddingIndex, loadEmbeddingProvider } from './embedding-provider';
+import { KeywordClusterer } from './keyword-clusterer';
+import { fetchCheckingRedirects, validateUrlSecurity } from './request-guards';
+import { config } from '@/config/environment';
+import { getSelectorProfile } from '@/config/selector-profiles';
 import { 
   SEOAnalysisResult, 
   AnalysisRequest, 
   AnalysisResponse, 
-  AnalysisError
+  AnalysisError,
+  AnalysisDepth,
+  AnalysisStage,
+  ContentSemanticAnalysis,
+  EntityExtraction,
+  HeadingAudit,
+  HreflangAnalysis,
+  HttpAnalysis,
+  ImageAudit,
+  IndexabilityAnalysis,
+  KeywordClustering,
+  KeywordExtraction,
+  LinkAnalysis,
+  RedirectHop,
+  RobotsTxtAnalysis
 } from '@/types/seo-analysis';
 
+interface FetchResult {
+  html: string | null;
+  http: HttpAnalysis | null;
+  error?: string;
+  errorType?: AnalysisError['type']; // Set when a redirect was refused rather than failed
+}
+
+interface RobotsFetchResult {
+  parser: RobotsTxtParser | null;
+  status_code?: number;
+}
+
+// Result sections that only exist when the page was fetched
+type FetchedSections = Pick<SEOAnalysisResult, 'http_analysis' | 'robots_txt'>;
+
+// Stages executed for each analysis depth; deeper levels are supersets of shallower ones
+const BASIC_STAGES: AnalysisStage[] = ['metadata', 'headings', 'indexability', 'keyword_inference'];
+const STANDARD_STAGES: AnalysisStage[] = [
+  ...BASIC_STAGES,
+  'structured_data', 'link_analysis', 'heading_audit', 'image_audit', 'hreflang', 'semantic_analysis'
+];
+const DEPTH_STAGES: Record<AnalysisDepth, AnalysisStage[]> = {
+  basic: BASIC_STAGES,
+  standard: STANDARD_STAGES,
+  comprehensive: [...STANDARD_STAGES, 'eeat', 'query_fan_out', 'ai_analysis']
+};
+
 export class SEOAnalyzer {
   private geminiClient: GeminiClient | null = null;
+  // robots.txt per origin and last fetch time per origin, shared across pages of a crawl
+  private robotsCache = new Map<string, Promise<RobotsFetchResult>>();
+  private lastFetchByOrigin = new Map<string, number>();
+  // TF-IDF corpora changed while a batch runs, saved once when it ends; null outside a batch
+  private batchCorpora: Set<DocumentFrequencyStore> | null = null;
 
   constructor(geminiApiKey?: string) {
     if (geminiApiKey && GeminiClient.validateApiKey(geminiApiKey)) {
@@ -28,37 +90,208 @@ export class SEOAnalyzer {
    */
   async analyzeURL(request: AnalysisRequest): Promise<AnalysisResponse> {
     const startTime = Date.now();
-    
+
+    // Validate URL
+    if (!this.isValidURL(request.url)) {
+      return this.createErrorResponse('URL_INVALID', 'Invalid URL format');
+    }
+
+    // Check robots.txt before touching the page
+    const robots = await this.analyzeRobotsTxt(request.url);
+    if (!robots.allowed && request.respect_robots_txt !== false) {
+      const rule = robots.user_agents[0]?.matched_rule;
+      return this.createErrorResponse(
+        'ROBOTS_BLOCKED',
+        `Blocked by robots.txt for ${robots.bot_user_agent}`,
+        rule && `Matched rule: ${rule}`
+      );
+    }
+    await this.waitForCrawlDelay(request.url, robots.crawl_delay);
+
+    // Fetch HTML content
+    const { html, http, error, errorType } = await this.fetchHTML(request.url, request.respect_robots_txt !== false);
+    if (!html || !http) {
+      return this.createErrorResponse(
+        errorType || 'FETCH_ERROR',
+        'Failed to fetch webpage content',
+        error,
+        http?.status_code
+      );
+    }
+
+    return this.runPipeline(html, request, startTime, { http_analysis: http, robots_txt: robots });
+  }
+
+  /**
+   * Analyze HTML supplied by the caller (pasted or uploaded) without fetching;
+   * the virtual URL stands in for the page address in URL analysis and link resolution
+   */
+  async analyzeHTML(
+    html: string,
+    virtualUrl: string,
+    options: Omit<AnalysisRequest, 'url' | 'html'> = {}
+  ): Promise<AnalysisResponse> {
+    const startTime = Date.now();
+
+    if (!this.isValidURL(virtualUrl)) {
+      return this.createErrorResponse('URL_INVALID', 'Invalid URL format');
+    }
+
+    if (!html.trim()) {
+      return this.createErrorResponse('PARSE_ERROR', 'No HTML content provided');
+    }
+
+    return this.runPipeline(html, { ...options, url: virtualUrl }, startTime);
+  }
+
+  /**
+   * Run a series of analyses, such as a crawl or sitemap audit, writing each TF-IDF corpus they change once at the end
+   */
+  async runBatch<T>(task: () => Promise<T>): Promise<T> {
+    if (this.batchCorpora) return task(); // Saved when the outer batch ends
+
+    const corpora = new Set<DocumentFrequencyStore>();
+    this.batchCorpora = corpora;
     try {
-      // Validate URL
-      if (!this.isValidURL(request.url)) {
-        return this.createErrorResponse('URL_INVALID', 'Invalid URL format');
-      }
+      return await task();
+    } finally {
+      this.batchCorpora = null;
+      await Promise.all([...corpora].map(corpus => this.saveCorpus(corpus)));
+    }
+  }
 
-      // Fetch HTML content
-      const html = await this.fetchHTML(request.url);
-      if (!html) {
-        return this.createErrorResponse('FETCH_ERROR', 'Failed to fetch webpage content');
+  /**
+   * Run the analysis stages for the requested depth over an HTML document
+   */
+  private async runPipeline(
+    html: string,
+    request: AnalysisRequest,
+    startTime: number,
+    fetched: FetchedSections = {}
+  ): Promise<AnalysisResponse> {
+    try {
+      const depth: AnalysisDepth = request.analysis_depth || 'comprehensive';
+      const stages = SEOAnalyzer.getStagesForDepth(depth);
+      const stagesRun: AnalysisStage[] = [];
+
+      // Parse HTML and extract structured data (metadata + headings); relative URLs resolve against
+      // the address the page was served from, while the result stays keyed by the requested URL
+      const pageUrl = fetched.http_analysis?.final_url || request.url;
+      const parser = new HTMLParser(html, pageUrl, getSelectorProfile(request.selector_profile, pageUrl));
+      const pageMetadata = { ...parser.extractPageMetadata(), url: request.url };
+      const structuredData = parser.buildStructuredOnPageData(stages.includes('structured_data'));
+      stagesRun.push('metadata', 'headings');
+      if (structuredData.structured_data) stagesRun.push('structured_data');
+
+      // Indexability verdict from robots directives, canonical, HTTP status and robots.txt
+      let indexability: IndexabilityAnalysis | undefined;
+      if (stages.includes('indexability')) {
+        indexability = new IndexabilityAnalyzer({
+          url: pageUrl,
+          robotsMetaTags: structuredData.meta_data_analysis.robots_meta_tags || [],
+          canonicalUrl: structuredData.meta_data_analysis.canonical_url,
+          http: fetched.http_analysis,
+          robotsTxt: fetched.robots_txt
+        }, config.robotsCheckUserAgents[0]).analyze();
+        stagesRun.push('indexability');
       }
 
-      // Parse HTML and extract structured data
-      const parser = new HTMLParser(html, request.url);
-      const pageMetadata = parser.extractPageMetadata();
-      const structuredData = parser.buildStructuredOnPageData();
-      const content = parser.extractMainContent();
-
-      // Perform advanced semantic analysis
-      const semanticAnalyzer = new AdvancedSemanticAnalyzer(
-        content,
-        structuredData.headings_and_keywords,
-        structuredData.url_analysis.keywords,
-        structuredData.meta_data_analysis.description_keywords
-      );
-      const semanticAnalysis = semanticAnalyzer.analyzeSemantics();
+      // Score candidate phrases with the selected extractor; blocks keep headings and paragraphs apart
+      const extractorName = request.keyword_extractor || config.defaultKeywordExtractor;
+      const contentBlocks = parser.extractContentBlocks();
+      const extraction: KeywordExtraction = {
+        extractor: extractorName,
+        candidates: createKeywordExtractor(extractorName, parser.getTextProcessor()).extract(
+          contentBlocks.length > 0 ? contentBlocks.join('\n') : parser.extractMainContent()
+        )
+      };
 
       // Infer keywords
-      const keywordEngine = new KeywordInferenceEngine(structuredData);
+      const keywordEngine = new KeywordInferenceEngine(structuredData, extraction);
       const keywordAnalysis = keywordEngine.inferKeywords();
+      stagesRun.push('keyword_inference');
+
+      // Link counts and the anchor-text keyword report
+      let linkAnalysis: LinkAnalysis | undefined;
+      if (stages.includes('link_analysis')) {
+        linkAnalysis = new LinkAnalyzer(structuredData.links || [], keywordAnalysis).analyze();
+        stagesRun.push('link_analysis');
+      }
+
+      // Heading outline and structure rules
+      let headingAudit: HeadingAudit | undefined;
+      if (stages.includes('heading_audit')) {
+        headingAudit = new HeadingAuditor(
+          parser.extractHeadingOutline(),
+          keywordAnalysis.primary.keywords.map(keyword => keyword.term)
+        ).audit();
+        stagesRun.push('heading_audit');
+      }
+
+      // Image inventory: alt text, filenames, dimensions, loading and formats
+      let imageAudit: ImageAudit | undefined;
+      if (stages.includes('image_audit')) {
+        imageAudit = new ImageAuditor(
+          structuredData.images || [],
+          [...keywordAnalysis.primary.keywords, ...keywordAnalysis.secondary.keywords].map(keyword => keyword.term)
+        ).audit();
+        stagesRun.push('image_audit');
+      }
+
+      // hreflang annotations and declared vs detected content language
+      let hreflang: HreflangAnalysis | undefined;
+      if (stages.includes('hreflang')) {
+        hreflang = new HreflangAnalyzer(parser.extractHreflangLinks(), pageUrl, {
+          htmlLang: parser.getHtmlLang(),
+          contentLanguageHeader: fetched.http_analysis?.headers.content_language,
+          contentText: parser.extractMainContent(),
+          canonicalUrl: structuredData.meta_data_analysis.canonical_url
+        }).analyze();
+        stagesRun.push('hreflang');
+      }
+
+      // Entities declared in JSON-LD, Microdata or RDFa
+      const structuredEntities = StructuredDataExtractor.toEntityExtraction(
+        structuredData.structured_data?.entities || []
+      );
+
+      // Perform advanced semantic analysis (standard and comprehensive only)
+      // and topic clusters of the inferred keywords, on one set of embeddings
+      let semanticAnalysis: ContentSemanticAnalysis = this.createEmptySemanticAnalysis(structuredEntities);
+      let keywordClusters: KeywordClustering | undefined;
+      if (stages.includes('semantic_analysis')) {
+        // Project corpus for TF-IDF; fetched pages join it, supplied HTML is only scored against it
+        const corpus = await DocumentFrequencyStore.open(request.project || DocumentFrequencyStore.projectForUrl(request.url));
+        if (fetched.http_analysis) {
+          corpus.addDocument(request.url, parser.extractMainContent(), structuredData.content_language);
+          await this.saveCorpus(corpus);
+        }
+
+        const semanticAnalyzer = new AdvancedSemanticAnalyzer(
+          parser.extractMainContent(),
+          structuredData.headings_and_keywords,
+          structuredData.url_analysis.keywords,
+          structuredData.meta_data_analysis.description_keywords,
+          structuredEntities,
+          structuredData.content_language
+        );
+        const keywordClusterer = new KeywordClusterer([{ url: request.url, keywords: keywordAnalysis }]);
+        const embeddings = await EmbeddingIndex.create(
+          await loadEmbeddingProvider(),
+          [...semanticAnalyzer.getEmbeddingTexts(), ...keywordClusterer.getEmbeddingTexts()]
+        );
+        semanticAnalysis = semanticAnalyzer.analyzeSemantics({
+          includeEEAT: stages.includes('eeat'),
+          includeQueryFanOut: stages.includes('query_fan_out'),
+          corpus,
+          knowledgeBase: await KnowledgeBase.open(),
+          embeddings
+        });
+        keywordClusters = keywordClusterer.cluster(embeddings);
+        stagesRun.push('semantic_analysis');
+        if (semanticAnalysis.eeat_score) stagesRun.push('eeat');
+        if (semanticAnalysis.query_fan_out) stagesRun.push('query_fan_out');
+      }
 
       // Create base analysis result with new structure
       const analysisResult: SEOAnalysisResult = {
@@ -76,15 +309,27 @@ export class SEOAnalyzer {
           ai_overview_optimization: '',
           confidence_assessment: ''
         },
+        analysis_depth: depth,
+        stages_run: stagesRun,
+        input_source: fetched.http_analysis ? 'url' : 'html',
+        ...fetched,
+        ...(indexability && { indexability }),
+        ...(linkAnalysis && { link_analysis: linkAnalysis }),
+        ...(headingAudit && { heading_audit: headingAudit }),
+        ...(imageAudit && { image_audit: imageAudit }),
+        ...(hreflang && { hreflang }),
+        ...(keywordClusters && { keyword_clusters: keywordClusters }),
         analysis_timestamp: new Date().toISOString(),
         processing_time_ms: Date.now() - startTime
       };
 
-      // Add AI analysis if requested and available
-      if (request.include_ai_analysis && this.geminiClient) {
+      // Add AI analysis if requested, available and allowed at this depth;
+      // keyword recommendations are pointless for a page that cannot be indexed
+      if (request.include_ai_analysis && this.geminiClient && stages.includes('ai_analysis') && indexability?.is_indexable) {
         try {
           const aiAnalysis = await this.geminiClient.analyzeSEO(analysisResult);
           analysisResult.gemini_analysis = aiAnalysis;
+          stagesRun.push('ai_analysis');
         } catch (error) {
           console.warn('AI analysis failed, continuing with basic analysis:', error);
           // Continue without AI analysis rather than failing completely
@@ -102,6 +347,50 @@ export class SEOAnalyzer {
     }
   }
 
+  /**
+   * Save a changed corpus now, or when the running batch ends
+   */
+  private async saveCorpus(corpus: DocumentFrequencyStore): Promise<void> {
+    if (this.batchCorpora) {
+      this.batchCorpora.add(corpus);
+      return;
+    }
+    await corpus.save().catch(error => console.warn('Failed to save TF-IDF corpus:', error));
+  }
+
+  /**
+   * Get the pipeline stages that run for an analysis depth
+   */
+  static getStagesForDepth(depth: AnalysisDepth): AnalysisStage[] {
+    return [...DEPTH_STAGES[depth]];
+  }
+
+  /**
+   * Placeholder semantic analysis for depths that skip the semantic stage;
+   * entities declared in structured data are still reported
+   */
+  private createEmptySemanticAnalysis(structuredEntities?: EntityExtraction): ContentSemanticAnalysis {
+    const emptyEntities = structuredEntities || {
+      people: [],
+      organizations: [],
+      locations: [],
+      products: [],
+      technologies: []
+    };
+
+    return {
+      core_topic_analysis: {
+        main_topic: { topic: '', confidence_score: 0, reasoning: 'Semantic analysis not run at this analysis depth' },
+        inferred_entities: emptyEntities,
+        co_occurring_terms: []
+      },
+      entity_extraction: emptyEntities,
+      semantic_relationships: [],
+      top_frequent_terms: [],
+      content_topics: []
+    };
+  }
+
   /**
    * Validate URL format
    */
@@ -115,41 +404,226 @@ export class SEOAnalyzer {
   }
 
   /**
-   * Fetch HTML content from URL
+   * Evaluate robots.txt rules for the page against our bot and the major search engine crawlers
    */
-  private async fetchHTML(url: string): Promise<string | null> {
-    try {
+  private async analyzeRobotsTxt(url: string): Promise<RobotsTxtAnalysis> {
+    const robotsUrl = new URL('/robots.txt', url).toString();
+    const { parser, status_code } = await this.getRobotsTxt(robotsUrl);
+    const botName = this.getAgentName(config.botUserAgent);
+    const findings: string[] = [];
+
+    const userAgents = [config.botUserAgent, ...config.robotsCheckUserAgents].map(userAgent => {
+      const check = parser ? parser.check(url, userAgent) : { allowed: true, matched_rule: undefined };
+      const rule = check.matched_rule;
+      const matchedRule = rule && `${rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${rule.path}`;
+      const name = this.getAgentName(userAgent);
+
+      if (!check.allowed) {
+        findings.push(`This page is disallowed for ${name} by robots.txt (${matchedRule})`);
+      }
+      return { user_agent: name, allowed: check.allowed, ...(matchedRule && { matched_rule: matchedRule }) };
+    });
+
+    const crawlDelay = parser?.getCrawlDelay(config.botUserAgent);
+    if (crawlDelay) {
+      findings.push(`robots.txt asks ${botName} to wait ${crawlDelay}s between requests (Crawl-delay)`);
+    }
+    if (!parser && status_code !== undefined && status_code >= 500) {
+      findings.push(`robots.txt returned HTTP ${status_code}; search engines may treat the whole site as disallowed`);
+    }
+
+    return {
+      robots_txt_url: robotsUrl,
+      found: !!parser,
+      ...(status_code !== undefined && { status_code }),
+      bot_user_agent: botName,
+      allowed: userAgents[0].allowed,
+      ...(crawlDelay && { crawl_delay: crawlDelay }),
+      user_agents: userAgents,
+      sitemaps: parser?.getSitemaps() || [],
+      findings
+    };
+  }
+
+  /**
+   * Fetch and parse robots.txt once per origin; a missing or unreachable file allows everything
+   */
+  private getRobotsTxt(robotsUrl: string): Promise<RobotsFetchResult> {
+    const cached = this.robotsCache.get(robotsUrl);
+    if (cached) return cached;
+
+    const pending = (async (): Promise<RobotsFetchResult> => {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
-        signal: controller.signal
-      });
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      try {
+        // A redirect to a private address is refused like an unreachable file
+        const { response } = await fetchCheckingRedirects(robotsUrl, {
+          headers: { 'User-Agent': config.botUserAgent },
+          signal: controller.signal
+        });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        if (!response.ok) {
+          return { parser: null, status_code: response.status };
+        }
+
+        return { parser: new RobotsTxtParser(await response.text()), status_code: response.status };
+      } catch (error) {
+        console.warn('robots.txt fetch failed, assuming allowed:', error);
+        return { parser: null };
+      } finally {
+        clearTimeout(timeoutId);
       }
+    })();
 
-      const text = await response.text();
-      clearTimeout(timeoutId);
-      return text;
+    this.robotsCache.set(robotsUrl, pending);
+    return pending;
+  }
+
+  /**
+   * Honor Crawl-delay between consecutive fetches to the same origin (capped)
+   */
+  private async waitForCrawlDelay(url: string, crawlDelay?: number): Promise<void> {
+    const origin = new URL(url).origin;
+    const lastFetch = this.lastFetchByOrigin.get(origin);
+
+    if (crawlDelay && lastFetch !== undefined) {
+      const delayMs = Math.min(crawlDelay, config.maxCrawlDelaySeconds) * 1000;
+      const waitMs = lastFetch + delayMs - Date.now();
+      if (waitMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      }
+    }
+
+    this.lastFetchByOrigin.set(origin, Date.now());
+  }
+
+  /**
+   * Short agent name (product token) for display, e.g. "Googlebot"
+   */
+  private getAgentName(userAgent: string): string {
+    return userAgent.trim().split(/[\s/]/)[0] || userAgent;
+  }
+
+  /**
+   * Fetch HTML content from URL, following redirects hop by hop so each one is recorded and checked
+   */
+  private async fetchHTML(url: string, respectRobotsTxt = true): Promise<FetchResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    const startTime = Date.now();
+    const chain: RedirectHop[] = [];
+    let currentUrl = url;
+
+    try {
+      for (;;) {
+        const hopStart = Date.now();
+        const response = await fetch(currentUrl, {
+          headers: {
+            'User-Agent': config.botUserAgent
+          },
+          redirect: 'manual',
+          signal: controller.signal
+        });
+
+        const location = response.headers?.get('location');
+        const isRedirect = response.status >= 300 && response.status < 400 && !!location;
+        const nextUrl = isRedirect ? new URL(location as string, currentUrl).toString() : undefined;
+        chain.push({
+          url: currentUrl,
+          status_code: response.status,
+          ...(nextUrl && { location: nextUrl }),
+          duration_ms: Date.now() - hopStart
+        });
+
+        if (nextUrl) {
+          if (chain.some(hop => hop.url === nextUrl)) {
+            return { html: null, http: this.buildHttpAnalysis(chain, response, startTime), error: `Redirect loop at ${nextUrl}` };
+          }
+          if (chain.length > config.maxRedirects) {
+            return { html: null, http: this.buildHttpAnalysis(chain, response, startTime), error: `More than ${config.maxRedirects} redirects` };
+          }
+          const refusal = await this.checkRedirectTarget(nextUrl, respectRobotsTxt);
+          if (refusal) {
+            return { html: null, http: this.buildHttpAnalysis(chain, response, startTime), ...refusal };
+          }
+          currentUrl = nextUrl;
+          continue;
+        }
+
+        const http = this.buildHttpAnalysis(chain, response, startTime);
+        if (!response.ok) {
+          return { html: null, http, error: `HTTP ${response.status}: ${response.statusText}` };
+        }
+
+        return { html: await response.text(), http };
+      }
     } catch (error) {
       console.error('Fetch Error:', error);
-      return null;
+      return { html: null, http: null, error: error instanceof Error ? error.message : 'Unknown error' };
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
+  /**
+   * Reason not to follow a redirect: a private or non-HTTP target, or one robots.txt disallows for our bot
+   */
+  private async checkRedirectTarget(
+    url: string,
+    respectRobotsTxt: boolean
+  ): Promise<Pick<FetchResult, 'error' | 'errorType'> | undefined> {
+    const urlCheck = validateUrlSecurity(url);
+    if (!urlCheck.isValid) {
+      return { errorType: 'URL_INVALID', error: `Redirect to ${url} refused: ${urlCheck.message}` };
+    }
+    if (!respectRobotsTxt) return undefined;
+
+    const robots = await this.analyzeRobotsTxt(url);
+    if (!robots.allowed) {
+      const rule = robots.user_agents[0]?.matched_rule;
+      return {
+        errorType: 'ROBOTS_BLOCKED',
+        error: `Redirect to ${url} is blocked by robots.txt for ${robots.bot_user_agent}${rule ? ` (${rule})` : ''}`
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Summarize the redirect chain and final response headers
+   */
+  private buildHttpAnalysis(chain: RedirectHop[], finalResponse: Response, startTime: number): HttpAnalysis {
+    const headers = HttpResponseAnalyzer.extractSeoHeaders(finalResponse.headers);
+    const finalHop = chain[chain.length - 1];
+
+    return {
+      status_code: finalResponse.status,
+      final_url: finalHop.url,
+      redirected: chain.length > 1,
+      redirect_chain: chain,
+      headers,
+      total_time_ms: Date.now() - startTime,
+      warnings: new HttpResponseAnalyzer(chain, headers).getWarnings()
+    };
+  }
+
   /**
    * Create error response
    */
-  private createErrorResponse(type: AnalysisError['type'], message: string): AnalysisResponse {
+  private createErrorResponse(
+    type: AnalysisError['type'],
+    message: string,
+    details?: string,
+    statusCode?: number
+  ): AnalysisResponse {
     return {
       success: false,
       error: {
         type,
         message,
+        ...(details && { details }),
+        ...(statusCode !== undefined && { status_code: statusCode }),
         timestamp: new Date().toISOString()
       }
     };
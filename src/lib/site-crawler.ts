@@ -0,0 +1,145 @@
+/**
+ * Site Crawler
+ * Breadth-first crawl from a seed URL that runs the per-page SEO analysis on every page in scope
+ */
+
+import { DocumentFrequencyStore } from './document-frequency-store';
+import { SEOAnalyzer } from './seo-analyzer';
+import { SiteReportBuilder } from './site-report';
+import {
+  AnalysisDepth,
+  CrawledPage,
+  CrawlScope,
+  SiteCrawlReport
+} from '@/types/seo-analysis';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  scope?: CrawlScope;
+  analysisDepth?: AnalysisDepth;
+  project?: string; // TF-IDF corpus for every crawled page; defaults to the seed URL's host
+  validateUrl?: (url: string) => { isValid: boolean; message: string };
+}
+
+// Links to these resources are never queued for analysis
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|woff2?|ttf|eot)$/i;
+
+export class SiteCrawler {
+  private analyzer: SEOAnalyzer;
+  private options: Required<CrawlOptions>;
+
+  constructor(analyzer: SEOAnalyzer, options: CrawlOptions = {}) {
+    this.analyzer = analyzer;
+    this.options = {
+      maxDepth: options.maxDepth ?? 2,
+      maxPages: options.maxPages ?? 20,
+      scope: options.scope ?? 'same-host',
+      analysisDepth: options.analysisDepth ?? 'basic',
+      project: options.project ?? '',
+      validateUrl: options.validateUrl ?? (() => ({ isValid: true, message: '' }))
+    };
+  }
+
+  /**
+   * Crawl the site starting at the seed URL and build a site-level report
+   */
+  async crawl(seedUrl: string): Promise<SiteCrawlReport> {
+    const startTime = Date.now();
+    const seed = this.normalizeUrl(seedUrl);
+    const pages: CrawledPage[] = [];
+    const project = this.options.project || DocumentFrequencyStore.projectForUrl(seedUrl);
+
+    if (seed) {
+      // One batch, so the project corpus is written once rather than after every page
+      await this.analyzer.runBatch(async () => {
+        const queue: Array<{ url: string; depth: number }> = [{ url: seed, depth: 0 }];
+        const seen = new Set<string>([seed]);
+        const visited = new Set<string>(); // Final URLs of analyzed pages, so redirect aliases are analyzed once
+        let scopeUrl = seed;
+
+        while (queue.length > 0 && pages.length < this.options.maxPages) {
+          const { url, depth } = queue.shift()!;
+          const response = await this.analyzer.analyzeURL({
+            url,
+            include_ai_analysis: false,
+            analysis_depth: this.options.analysisDepth,
+            project
+          });
+
+          if (!response.success || !response.data) {
+            pages.push({ url, depth, success: false, error: response.error });
+            continue;
+          }
+
+          const finalUrl = response.data.http_analysis?.final_url;
+          const finalKey = (finalUrl && this.normalizeUrl(finalUrl)) || url;
+          if (visited.has(finalKey)) continue;
+          visited.add(finalKey);
+          seen.add(finalKey);
+
+          // The scope follows the seed's redirect, e.g. from the apex domain to www
+          if (depth === 0) scopeUrl = finalKey;
+
+          pages.push({ url, depth, success: true, result: response.data });
+
+          if (depth >= this.options.maxDepth) continue;
+
+          (response.data.structured_on_page_data.outbound_links || []).forEach(link => {
+            const normalized = this.normalizeUrl(link);
+            if (!normalized || seen.has(normalized) || !this.isInScope(normalized, scopeUrl)) return;
+            seen.add(normalized);
+            if (!this.options.validateUrl(normalized).isValid) return;
+            queue.push({ url: normalized, depth: depth + 1 });
+          });
+        }
+      });
+    }
+
+    return {
+      seed_url: seedUrl,
+      scope: this.options.scope,
+      max_depth: this.options.maxDepth,
+      max_pages: this.options.maxPages,
+      ...(await new SiteReportBuilder(pages).build()),
+      crawl_timestamp: new Date().toISOString(),
+      processing_time_ms: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Check whether a URL falls inside the crawl scope of the seed
+   */
+  isInScope(url: string, seedUrl: string): boolean {
+    try {
+      const target = new URL(url);
+      const seed = new URL(seedUrl);
+
+      if (this.options.scope === 'same-host') {
+        return target.hostname === seed.hostname;
+      }
+
+      const baseDomain = seed.hostname.replace(/^www\./, '');
+      return target.hostname === baseDomain || target.hostname.endsWith(`.${baseDomain}`);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Normalize a URL for de-duplication; returns null for URLs that should not be crawled
+   */
+  private normalizeUrl(url: string): string | null {
+    try {
+      const urlObj = new URL(url);
+      if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') return null;
+      if (NON_HTML_EXTENSIONS.test(urlObj.pathname)) return null;
+
+      urlObj.hash = '';
+      urlObj.hostname = urlObj.hostname.toLowerCase();
+      return urlObj.toString();
+    } catch {
+      return null;
+    }
+  }
+}
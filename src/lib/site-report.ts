@@ -0,0 +1,110 @@
+/**
+ * Site Report Builder
+ * Aggregates per-page analysis results into a site-level report
+ */
+
+import { LinkGraphAnalyzer } from './link-graph';
+import { HreflangAnalyzer } from './hreflang-analyzer';
+import { KeywordClusterer } from './keyword-clusterer';
+import { CannibalizationDetector } from './cannibalization-detector';
+import { EmbeddingIndex, loadEmbeddingProvider } from './embedding-provider';
+import {
+  CrawledPage,
+  DuplicateMetadataGroup,
+  PageKeywordMapEntry,
+  SEOAnalysisResult,
+  SiteReport
+} from '@/types/seo-analysis';
+
+export interface SiteReportOptions {
+  sitemapUrls?: string[]; // Enables orphan page detection
+}
+
+export class SiteReportBuilder {
+  private pages: CrawledPage[];
+  private options: SiteReportOptions;
+
+  constructor(pages: CrawledPage[], options: SiteReportOptions = {}) {
+    this.pages = pages;
+    this.options = options;
+  }
+
+  /**
+   * Build the aggregated site report
+   */
+  async build(): Promise<SiteReport> {
+    const analyzed = this.getAnalyzedResults();
+    const linkGraph = new LinkGraphAnalyzer(analyzed, { sitemapUrls: this.options.sitemapUrls }).analyze();
+
+    // The measured link strength replaces the AI's estimate wherever authority analysis ran
+    const strengthByUrl = new Map(linkGraph.nodes.map(node => [node.url, node.internal_link_strength]));
+    analyzed.forEach(result => {
+      const authority = result.gemini_analysis.authority_analysis;
+      const strength = strengthByUrl.get(result.page_metadata.url);
+      if (authority && strength !== undefined) authority.internal_link_strength = strength;
+    });
+
+    // Topic clusters across every page's keywords, with the pages that target each
+    const keywordClusterer = KeywordClusterer.fromResults(analyzed);
+    const embeddings = await EmbeddingIndex.create(await loadEmbeddingProvider(), keywordClusterer.getEmbeddingTexts());
+
+    return {
+      pages_analyzed: analyzed.length,
+      pages_failed: this.pages.length - analyzed.length,
+      keyword_map: this.buildKeywordMap(analyzed),
+      duplicate_titles: this.findDuplicates(analyzed, result => result.page_metadata.title_tag),
+      duplicate_descriptions: this.findDuplicates(analyzed, result => result.page_metadata.meta_description),
+      pages_without_primary_keyword: analyzed
+        .filter(result => result.inferred_keywords.primary.keywords.length === 0)
+        .map(result => result.page_metadata.url),
+      link_graph: linkGraph,
+      hreflang_issues: HreflangAnalyzer.checkReciprocity(analyzed),
+      keyword_clusters: keywordClusterer.cluster(embeddings),
+      keyword_cannibalization: new CannibalizationDetector(analyzed, linkGraph).detect(),
+      pages: this.pages
+    };
+  }
+
+  /**
+   * Successful page results in crawl order
+   */
+  private getAnalyzedResults(): SEOAnalysisResult[] {
+    return this.pages
+      .filter(page => page.success && page.result)
+      .map(page => page.result as SEOAnalysisResult);
+  }
+
+  /**
+   * Map each page to its inferred keywords
+   */
+  private buildKeywordMap(results: SEOAnalysisResult[]): PageKeywordMapEntry[] {
+    return results.map(result => ({
+      url: result.page_metadata.url,
+      title: result.page_metadata.title_tag,
+      primary_keywords: result.inferred_keywords.primary.keywords.map(kw => kw.term),
+      secondary_keywords: result.inferred_keywords.secondary.keywords.map(kw => kw.term)
+    }));
+  }
+
+  /**
+   * Group pages sharing the same (normalized) metadata value
+   */
+  private findDuplicates(
+    results: SEOAnalysisResult[],
+    getValue: (result: SEOAnalysisResult) => string
+  ): DuplicateMetadataGroup[] {
+    const groups = new Map<string, DuplicateMetadataGroup>();
+
+    results.forEach(result => {
+      const value = (getValue(result) || '').trim();
+      if (!value) return;
+
+      const key = value.toLowerCase().replace(/\s+/g, ' ');
+      const group = groups.get(key) || { value, urls: [] };
+      group.urls.push(result.page_metadata.url);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values()).filter(group => group.urls.length > 1);
+  }
+}
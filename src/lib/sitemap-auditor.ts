@@ -0,0 +1,290 @@
+/**
+ * Sitemap Auditor
+ * Runs the per-page SEO analysis on every <loc> in a sitemap (or sitemap index)
+ * and flags URLs that redirect, fail, or canonicalize elsewhere
+ */
+
+import { gunzipSync } from 'zlib';
+import { SEOAnalyzer } from './seo-analyzer';
+import { SitemapParser } from './sitemap-parser';
+import { SiteReportBuilder } from './site-report';
+import { fetchCheckingRedirects } from './request-guards';
+import { config } from '@/config/environment';
+import {
+  AnalysisDepth,
+  AnalysisResponse,
+  CrawledPage,
+  SitemapEntry,
+  SitemapIssue,
+  SitemapReport,
+  SitemapUrlAudit
+} from '@/types/seo-analysis';
+
+export interface SitemapAuditOptions {
+  maxUrls?: number;
+  maxSitemaps?: number;
+  analysisDepth?: AnalysisDepth;
+  project?: string; // TF-IDF corpus for every listed page; defaults to each page's host
+  validateUrl?: (url: string) => { isValid: boolean; message: string };
+}
+
+export class SitemapAuditor {
+  private analyzer: SEOAnalyzer;
+  private options: Required<SitemapAuditOptions>;
+
+  constructor(analyzer: SEOAnalyzer, options: SitemapAuditOptions = {}) {
+    this.analyzer = analyzer;
+    this.options = {
+      maxUrls: options.maxUrls ?? 50,
+      maxSitemaps: options.maxSitemaps ?? 10,
+      analysisDepth: options.analysisDepth ?? 'basic',
+      project: options.project ?? '',
+      validateUrl: options.validateUrl ?? (() => ({ isValid: true, message: '' }))
+    };
+  }
+
+  /**
+   * Fetch a sitemap (or sitemap index) by URL and audit every page it lists
+   */
+  async auditUrl(sitemapUrl: string): Promise<SitemapReport> {
+    const startTime = Date.now();
+    const xml = await this.fetchSitemap(sitemapUrl);
+    return this.audit(xml, sitemapUrl, [sitemapUrl], startTime);
+  }
+
+  /**
+   * Audit an uploaded sitemap (or sitemap index) document
+   */
+  async auditXml(xml: string, source: string = 'upload'): Promise<SitemapReport> {
+    return this.audit(xml, source, [], Date.now());
+  }
+
+  /**
+   * Collect entries from the document, analyze each page and build the report
+   */
+  private async audit(
+    xml: string,
+    source: string,
+    sitemapsProcessed: string[],
+    startTime: number
+  ): Promise<SitemapReport> {
+    const entries = await this.collectEntries(xml, sitemapsProcessed);
+    const selected = entries.slice(0, this.options.maxUrls);
+    const pages: CrawledPage[] = [];
+    const audits: SitemapUrlAudit[] = [];
+
+    // One batch, so the project corpus is written once rather than after every page
+    await this.analyzer.runBatch(async () => {
+      for (const entry of selected) {
+        const urlCheck = this.options.validateUrl(entry.loc);
+        if (!urlCheck.isValid) {
+          audits.push(this.createAudit(entry, [{ type: 'blocked_url', message: urlCheck.message }]));
+          continue;
+        }
+
+        const response = await this.analyzer.analyzeURL({
+          url: entry.loc,
+          include_ai_analysis: false,
+          analysis_depth: this.options.analysisDepth,
+          ...(this.options.project && { project: this.options.project })
+        });
+
+        pages.push(response.success && response.data
+          ? { url: entry.loc, depth: 0, success: true, result: response.data }
+          : { url: entry.loc, depth: 0, success: false, error: response.error });
+        audits.push(this.auditEntry(entry, response));
+      }
+    });
+
+    return {
+      source,
+      sitemaps_processed: sitemapsProcessed,
+      urls_found: entries.length,
+      truncated: entries.length > selected.length,
+      entries: audits,
+      urls_with_issues: audits.filter(audit => audit.issues.length > 0).length,
+      ...(await new SiteReportBuilder(pages, {
+        sitemapUrls: pages.filter(page => page.success).map(page => page.url)
+      }).build()),
+      audit_timestamp: new Date().toISOString(),
+      processing_time_ms: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Parse the document, following sitemap index children up to the sitemap budget
+   */
+  private async collectEntries(xml: string, sitemapsProcessed: string[]): Promise<SitemapEntry[]> {
+    const parsed = new SitemapParser(xml).parse();
+    if (parsed.type === 'unknown') {
+      throw new Error('Document is not a sitemap or sitemap index');
+    }
+
+    const entries = [...parsed.entries];
+    const queue = [...parsed.sitemaps];
+    const seenLocs = new Set(entries.map(entry => entry.loc));
+
+    while (queue.length > 0 && entries.length < this.options.maxUrls) {
+      if (sitemapsProcessed.length >= this.options.maxSitemaps) break;
+
+      const childUrl = queue.shift()!;
+      if (sitemapsProcessed.includes(childUrl) || !this.options.validateUrl(childUrl).isValid) continue;
+      sitemapsProcessed.push(childUrl);
+
+      try {
+        const child = new SitemapParser(await this.fetchSitemap(childUrl)).parse();
+        queue.push(...child.sitemaps);
+        child.entries.forEach(entry => {
+          if (seenLocs.has(entry.loc)) return;
+          seenLocs.add(entry.loc);
+          entries.push(entry);
+        });
+      } catch (error) {
+        console.warn(`Skipping child sitemap ${childUrl}:`, error);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Turn the analysis response for a sitemap entry into an audit row
+   */
+  private auditEntry(entry: SitemapEntry, response: AnalysisResponse): SitemapUrlAudit {
+    if (!response.success || !response.data) {
+      const statusCode = response.error?.status_code;
+      let issue: SitemapIssue;
+      if (response.error?.type === 'ROBOTS_BLOCKED') {
+        issue = { type: 'robots_blocked', message: response.error.message };
+      } else if (statusCode !== undefined) {
+        issue = { type: 'http_error', message: `URL returned HTTP ${statusCode}` };
+      } else {
+        issue = { type: 'fetch_error', message: response.error?.details || response.error?.message || 'Failed to fetch URL' };
+      }
+
+      return { ...this.createAudit(entry, [issue]), status_code: statusCode };
+    }
+
+    const result = response.data;
+    const issues: SitemapIssue[] = [];
+    const http = result.http_analysis;
+    const finalUrl = http?.final_url || entry.loc;
+
+    if (http?.redirected || this.normalizeUrl(finalUrl) !== this.normalizeUrl(entry.loc)) {
+      const firstHop = http?.redirect_chain[0];
+      const status = firstHop?.location ? ` (${firstHop.status_code})` : '';
+      issues.push({ type: 'redirect', message: `URL redirects${status} to ${finalUrl}` });
+    }
+
+    const canonical = result.structured_on_page_data.meta_data_analysis.canonical_url;
+    const canonicalUrl = canonical ? this.resolveUrl(canonical, finalUrl) : undefined;
+    if (canonicalUrl && this.normalizeUrl(canonicalUrl) !== this.normalizeUrl(entry.loc)) {
+      issues.push({ type: 'canonical_mismatch', message: `Canonical points to ${canonicalUrl}` });
+    }
+
+    return {
+      ...entry,
+      primary_keywords: result.inferred_keywords.primary.keywords.map(kw => kw.term),
+      secondary_keywords: result.inferred_keywords.secondary.keywords.map(kw => kw.term),
+      status_code: http?.status_code,
+      final_url: finalUrl,
+      canonical_url: canonicalUrl,
+      issues
+    };
+  }
+
+  /**
+   * Audit row without analysis data
+   */
+  private createAudit(entry: SitemapEntry, issues: SitemapIssue[]): SitemapUrlAudit {
+    return { ...entry, primary_keywords: [], secondary_keywords: [], issues };
+  }
+
+  /**
+   * Download a sitemap document, inflating gzipped (.xml.gz) sitemaps; both the download
+   * and the inflated document are limited to config.maxSitemapBytes
+   */
+  private async fetchSitemap(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      // Redirect targets pass the same URL check as the sitemap URL itself
+      const { response, url: finalUrl } = await fetchCheckingRedirects(url, {
+        headers: {
+          'User-Agent': config.botUserAgent,
+          'Accept': 'application/xml, text/xml;q=0.9, */*;q=0.8'
+        },
+        signal: controller.signal
+      }, this.options.validateUrl);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const body = await this.readBody(response, config.maxSitemapBytes);
+      if (/\.gz$/i.test(new URL(finalUrl).pathname)) {
+        try {
+          return gunzipSync(body, { maxOutputLength: config.maxSitemapBytes }).toString('utf8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new Error(`Sitemap inflates to more than ${config.maxSitemapBytes} bytes`);
+          }
+          throw error;
+        }
+      }
+
+      return body.toString('utf8');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Read a response body, refusing a declared or streamed size above the limit
+   */
+  private async readBody(response: Response, maxBytes: number): Promise<Buffer> {
+    const tooLarge = () => new Error(`Sitemap is larger than ${maxBytes} bytes`);
+    if (Number(response.headers.get('content-length')) > maxBytes) throw tooLarge();
+    if (!response.body) return Buffer.alloc(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Resolve a possibly relative URL against the page URL
+   */
+  private resolveUrl(url: string, baseUrl: string): string {
+    try {
+      return new URL(url, baseUrl).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Normalize a URL for comparison (fragment dropped, host lowercased by URL parsing)
+   */
+  private normalizeUrl(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      urlObj.hash = '';
+      return urlObj.toString();
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Sitemap Parser
+ * Reads XML sitemaps (urlset) and sitemap indexes (sitemapindex)
+ */
+
+import { load } from 'cheerio';
+import { SitemapEntry } from '@/types/seo-analysis';
+
+type CheerioRoot = ReturnType<typeof load>;
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex' | 'unknown';
+  entries: SitemapEntry[];
+  sitemaps: string[];
+}
+
+export class SitemapParser {
+  private $: CheerioRoot;
+
+  constructor(xml: string) {
+    this.$ = load(xml, { xmlMode: true });
+  }
+
+  /**
+   * Parse the document into page entries or child sitemap locations
+   */
+  parse(): ParsedSitemap {
+    const root = this.$.root().children().first();
+    const rootName = (root.prop('tagName') || '').toLowerCase().replace(/^.*:/, '');
+
+    if (rootName === 'sitemapindex') {
+      return { type: 'sitemapindex', entries: [], sitemaps: this.extractSitemapLocations() };
+    }
+
+    if (rootName === 'urlset') {
+      return { type: 'urlset', entries: this.extractUrlEntries(), sitemaps: [] };
+    }
+
+    return { type: 'unknown', entries: [], sitemaps: [] };
+  }
+
+  /**
+   * Extract <url> entries with their optional lastmod, changefreq and priority
+   */
+  private extractUrlEntries(): SitemapEntry[] {
+    const entries: SitemapEntry[] = [];
+    const seen = new Set<string>();
+
+    this.$('url').each((_, element) => {
+      const $url = this.$(element);
+      const loc = $url.children('loc').first().text().trim();
+      if (!loc || seen.has(loc)) return;
+      seen.add(loc);
+
+      const entry: SitemapEntry = { loc };
+      const lastmod = $url.children('lastmod').first().text().trim();
+      const changefreq = $url.children('changefreq').first().text().trim();
+      const priority = parseFloat($url.children('priority').first().text());
+
+      if (lastmod) entry.lastmod = lastmod;
+      if (changefreq) entry.changefreq = changefreq;
+      if (!isNaN(priority)) entry.priority = priority;
+
+      entries.push(entry);
+    });
+
+    return entries;
+  }
+
+  /**
+   * Extract child sitemap locations from a sitemap index
+   */
+  private extractSitemapLocations(): string[] {
+    const locations = this.$('sitemap')
+      .map((_, element) => this.$(element).children('loc').first().text().trim())
+      .get()
+      .filter(Boolean);
+
+    return Array.from(new Set(locations));
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Social Metadata Extractor
+ * Parses Open Graph and Twitter Card tags, validates them and builds share previews
+ */
+
+import { load } from 'cheerio';
+import {
+  OpenGraphData,
+  SocialImage,
+  SocialMetadataAnalysis,
+  SocialMetadataIssue,
+  SocialPreview,
+  TwitterCardData
+} from '@/types/seo-analysis';
+
+type CheerioRoot = ReturnType<typeof load>;
+
+// Card types X understands
+const TWITTER_CARDS = ['summary', 'summary_large_image', 'app', 'player'];
+
+// Facebook rejects smaller images; the recommended size renders a full-width preview
+const OG_MIN_IMAGE = { width: 200, height: 200 };
+const OG_RECOMMENDED_IMAGE = { width: 1200, height: 630 };
+
+// Smallest image X accepts for summary_large_image cards
+const TWITTER_MIN_LARGE_IMAGE = { width: 300, height: 157 };
+
+// Large previews are cropped to 1.91:1; ratios further off than this lose noticeable content
+const LARGE_IMAGE_RATIO = 1.91;
+const RATIO_TOLERANCE = 0.15;
+
+// Share titles/descriptions sharing less than this fraction of words with the page's own are flagged
+const MIN_TEXT_OVERLAP = 0.5;
+
+export class SocialMetadataExtractor {
+  private $: CheerioRoot;
+  private url: string;
+
+  constructor($: CheerioRoot, url: string) {
+    this.$ = $;
+    this.url = url;
+  }
+
+  /**
+   * Extract Open Graph and Twitter Card data, compared against the page's title and description
+   */
+  extract(pageTitle: string, pageDescription: string): SocialMetadataAnalysis {
+    const tags = this.readTags();
+    const openGraph = this.buildOpenGraph(tags);
+    const twitter = this.buildTwitterCard(tags);
+
+    return {
+      open_graph: openGraph,
+      twitter,
+      previews: this.buildPreviews(openGraph, twitter, pageTitle, pageDescription),
+      issues: [
+        ...this.validateOpenGraph(openGraph, pageTitle, pageDescription),
+        ...this.validateTwitterCard(twitter, openGraph)
+      ]
+    };
+  }
+
+  /**
+   * First value of every og:* and twitter:* tag, whether declared with property= or name=
+   */
+  private readTags(): Map<string, string> {
+    const tags = new Map<string, string>();
+
+    this.$('meta[content]').each((_, element) => {
+      const key = (this.$(element).attr('property') || this.$(element).attr('name') || '').trim().toLowerCase();
+      const content = (this.$(element).attr('content') || '').trim();
+      if ((key.startsWith('og:') || key.startsWith('twitter:')) && content && !tags.has(key)) {
+        tags.set(key, content);
+      }
+    });
+
+    return tags;
+  }
+
+  /**
+   * Open Graph block from the og:* tags
+   */
+  private buildOpenGraph(tags: Map<string, string>): OpenGraphData {
+    return this.compact({
+      title: tags.get('og:title'),
+      description: tags.get('og:description'),
+      type: tags.get('og:type'),
+      url: tags.get('og:url'),
+      site_name: tags.get('og:site_name'),
+      locale: tags.get('og:locale'),
+      image: this.buildImage(tags, 'og:image', tags.get('og:image') || tags.get('og:image:url'))
+    });
+  }
+
+  /**
+   * Twitter Card block from the twitter:* tags
+   */
+  private buildTwitterCard(tags: Map<string, string>): TwitterCardData {
+    return this.compact({
+      card: tags.get('twitter:card'),
+      title: tags.get('twitter:title'),
+      description: tags.get('twitter:description'),
+      site: tags.get('twitter:site'),
+      creator: tags.get('twitter:creator'),
+      image: this.buildImage(tags, 'twitter:image', tags.get('twitter:image') || tags.get('twitter:image:src'))
+    });
+  }
+
+  /**
+   * Image with its declared dimensions and alt text
+   */
+  private buildImage(tags: Map<string, string>, prefix: string, url?: string): SocialImage | undefined {
+    if (!url) return undefined;
+
+    const width = parseInt(tags.get(`${prefix}:width`) || '', 10);
+    const height = parseInt(tags.get(`${prefix}:height`) || '', 10);
+
+    return this.compact({
+      url,
+      width: width > 0 ? width : undefined,
+      height: height > 0 ? height : undefined,
+      alt: tags.get(`${prefix}:alt`)
+    });
+  }
+
+  /**
+   * What Facebook, LinkedIn and X show, after each platform's fallbacks
+   */
+  private buildPreviews(
+    openGraph: OpenGraphData,
+    twitter: TwitterCardData,
+    pageTitle: string,
+    pageDescription: string
+  ): SocialPreview[] {
+    const domain = this.getHostname(openGraph.url) || this.getHostname(this.url) || '';
+    const title = openGraph.title || pageTitle;
+    const description = openGraph.description || pageDescription;
+    const ogImage = this.isAbsoluteUrl(openGraph.image?.url) ? openGraph.image?.url : undefined;
+    const twitterImage = twitter.image?.url || openGraph.image?.url;
+
+    // Facebook falls back to a small thumbnail for images under 600px wide
+    const facebookLarge = !!ogImage && (openGraph.image?.width === undefined || openGraph.image.width >= 600);
+
+    return [
+      { platform: 'facebook', title, description, image_url: ogImage, domain, large_image: facebookLarge },
+      { platform: 'linkedin', title, description, image_url: ogImage, domain, large_image: !!ogImage },
+      {
+        platform: 'x',
+        title: twitter.title || title,
+        description: twitter.description || description,
+        image_url: this.isAbsoluteUrl(twitterImage) ? twitterImage : undefined,
+        domain,
+        large_image: twitter.card === 'summary_large_image'
+      }
+    ];
+  }
+
+  /**
+   * Missing tags, unusable URLs, image size problems and mismatches with the page's own title/description
+   */
+  private validateOpenGraph(openGraph: OpenGraphData, pageTitle: string, pageDescription: string): SocialMetadataIssue[] {
+    const issues: SocialMetadataIssue[] = [];
+
+    if (!openGraph.title) {
+      issues.push({
+        tag: 'og:title',
+        severity: pageTitle ? 'warning' : 'error',
+        message: pageTitle ? 'og:title is missing; platforms fall back to the <title> tag' : 'og:title and <title> are both missing'
+      });
+    } else if (pageTitle && !this.isConsistent(openGraph.title, pageTitle)) {
+      issues.push({ tag: 'og:title', severity: 'warning', message: `og:title "${openGraph.title}" does not match the page title "${pageTitle}"` });
+    }
+
+    if (!openGraph.description) {
+      issues.push({ tag: 'og:description', severity: 'warning', message: 'og:description is missing; platforms fall back to the meta description or page text' });
+    } else if (pageDescription && !this.isConsistent(openGraph.description, pageDescription)) {
+      issues.push({ tag: 'og:description', severity: 'warning', message: 'og:description does not match the meta description' });
+    }
+
+    if (!openGraph.image) {
+      issues.push({ tag: 'og:image', severity: 'error', message: 'og:image is missing; shares render without an image' });
+    } else {
+      issues.push(...this.validateImage('og:image', openGraph.image, OG_MIN_IMAGE, true));
+    }
+
+    if (!openGraph.url) {
+      issues.push({ tag: 'og:url', severity: 'warning', message: 'og:url is missing; shares of URL variants will not be consolidated' });
+    } else if (!this.isAbsoluteUrl(openGraph.url)) {
+      issues.push(this.relativeUrlIssue('og:url', openGraph.url));
+    }
+
+    if (!openGraph.type) {
+      issues.push({ tag: 'og:type', severity: 'warning', message: 'og:type is missing; platforms assume "website"' });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Card type, image and title checks for X
+   */
+  private validateTwitterCard(twitter: TwitterCardData, openGraph: OpenGraphData): SocialMetadataIssue[] {
+    const issues: SocialMetadataIssue[] = [];
+
+    if (!twitter.card) {
+      issues.push({ tag: 'twitter:card', severity: 'warning', message: 'twitter:card is missing; X may not render a card' });
+    } else if (!TWITTER_CARDS.includes(twitter.card)) {
+      issues.push({ tag: 'twitter:card', severity: 'error', message: `twitter:card "${twitter.card}" is not one of ${TWITTER_CARDS.join(', ')}` });
+    }
+
+    if (twitter.image) {
+      const minimum = twitter.card === 'summary_large_image' ? TWITTER_MIN_LARGE_IMAGE : { width: 0, height: 0 };
+      issues.push(...this.validateImage('twitter:image', twitter.image, minimum, false));
+    } else if (twitter.card === 'summary_large_image' && !openGraph.image) {
+      issues.push({ tag: 'twitter:image', severity: 'error', message: 'summary_large_image card has no twitter:image or og:image' });
+    }
+
+    if (twitter.title && openGraph.title && !this.isConsistent(twitter.title, openGraph.title)) {
+      issues.push({ tag: 'twitter:title', severity: 'warning', message: 'twitter:title and og:title tell different stories' });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Absolute URL, minimum size, recommended size and aspect ratio checks for a share image
+   */
+  private validateImage(
+    tag: string,
+    image: SocialImage,
+    minimum: { width: number; height: number },
+    recommendSize: boolean
+  ): SocialMetadataIssue[] {
+    const issues: SocialMetadataIssue[] = [];
+
+    if (!this.isAbsoluteUrl(image.url)) {
+      issues.push(this.relativeUrlIssue(tag, image.url));
+    }
+
+    if (image.width === undefined || image.height === undefined) {
+      if (recommendSize) {
+        issues.push({
+          tag,
+          severity: 'warning',
+          message: `${tag}:width and ${tag}:height are not declared; the first share may render without an image`
+        });
+      }
+      return issues;
+    }
+
+    const size = `${image.width}x${image.height}`;
+    if (image.width < minimum.width || image.height < minimum.height) {
+      issues.push({ tag, severity: 'error', message: `${tag} is ${size}; the minimum is ${minimum.width}x${minimum.height}` });
+      return issues;
+    }
+
+    if (recommendSize && (image.width < OG_RECOMMENDED_IMAGE.width || image.height < OG_RECOMMENDED_IMAGE.height)) {
+      issues.push({
+        tag,
+        severity: 'warning',
+        message: `${tag} is ${size}; ${OG_RECOMMENDED_IMAGE.width}x${OG_RECOMMENDED_IMAGE.height} is recommended for large previews`
+      });
+    }
+
+    const ratio = image.width / image.height;
+    if (Math.abs(ratio - LARGE_IMAGE_RATIO) / LARGE_IMAGE_RATIO > RATIO_TOLERANCE) {
+      issues.push({
+        tag,
+        severity: 'warning',
+        message: `${tag} is ${size} (${ratio.toFixed(2)}:1); large previews crop it to ${LARGE_IMAGE_RATIO}:1`
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Issue for a URL that platforms will not resolve against the page
+   */
+  private relativeUrlIssue(tag: string, url: string): SocialMetadataIssue {
+    return { tag, severity: 'error', message: `${tag} must be an absolute URL (got "${url}")` };
+  }
+
+  /**
+   * Whether two texts share enough words to describe the same page
+   */
+  private isConsistent(a: string, b: string): boolean {
+    const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return true;
+
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / Math.min(wordsA.size, wordsB.size) >= MIN_TEXT_OVERLAP;
+  }
+
+  /**
+   * Whether a URL is absolute http(s)
+   */
+  private isAbsoluteUrl(url?: string): url is string {
+    return !!url && /^https?:\/\//i.test(url);
+  }
+
+  /**
+   * Hostname of a URL, or undefined if it cannot be parsed
+   */
+  private getHostname(url?: string): string | undefined {
+    try {
+      return url ? new URL(url).hostname : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Drop undefined fields so blocks only list declared tags
+   */
+  private compact<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+  }
+}
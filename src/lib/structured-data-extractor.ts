@@ -0,0 +1,382 @@
+/**
+ * Structured Data Extractor
+ * Parses JSON-LD, Microdata and RDFa into schema.org entities and validates them
+ */
+
+import { load } from 'cheerio';
+import {
+  EntityBucket,
+  EntityExtraction,
+  StructuredDataAnalysis,
+  StructuredDataEntity,
+  StructuredDataFormat,
+  StructuredDataType
+} from '@/types/seo-analysis';
+
+type CheerioRoot = ReturnType<typeof load>;
+type CheerioSelection = ReturnType<CheerioRoot>;
+type SchemaNode = Record<string, unknown>;
+
+interface SchemaRule {
+  required: string[];
+  recommended: string[];
+}
+
+// Required and recommended properties per supported type, after Google's rich result guidelines;
+// "a|b" is satisfied by either property
+const SCHEMA_RULES: Record<StructuredDataType, SchemaRule> = {
+  Article: { required: ['headline'], recommended: ['image', 'datePublished', 'dateModified', 'author', 'publisher'] },
+  Product: { required: ['name', 'offers|review|aggregateRating'], recommended: ['image', 'description', 'brand', 'sku'] },
+  FAQPage: { required: ['mainEntity'], recommended: [] },
+  HowTo: { required: ['name', 'step'], recommended: ['image', 'totalTime', 'supply', 'tool', 'estimatedCost'] },
+  Organization: { required: ['name'], recommended: ['url', 'logo', 'sameAs', 'contactPoint'] },
+  BreadcrumbList: { required: ['itemListElement'], recommended: [] },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification', 'priceRange']
+  }
+};
+
+// Common schema.org subtypes, validated with their parent type's rules
+const SUBTYPES: Record<string, StructuredDataType> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  ScholarlyArticle: 'Article',
+  Report: 'Article',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+  OnlineStore: 'Organization',
+  Restaurant: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  Hotel: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  LegalService: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  AutomotiveBusiness: 'LocalBusiness',
+  HealthAndBeautyBusiness: 'LocalBusiness'
+};
+
+// Google truncates Article headlines longer than this
+const MAX_HEADLINE_LENGTH = 110;
+
+// Types whose names feed each EntityExtraction bucket
+const ENTITY_TYPES: Record<EntityBucket, string[]> = {
+  people: ['Person'],
+  organizations: ['Organization', 'LocalBusiness', 'Brand', ...Object.keys(SUBTYPES).filter(type => !SUBTYPES[type].endsWith('Article'))],
+  locations: ['Place', 'City', 'State', 'Country', 'AdministrativeArea'],
+  products: ['Product', 'ProductModel'],
+  technologies: ['SoftwareApplication', 'WebApplication', 'MobileApplication']
+};
+
+// Properties whose plain-string values name a person or an organization
+const PERSON_PROPERTIES = ['author', 'creator', 'founder'];
+const ORGANIZATION_PROPERTIES = ['publisher', 'brand', 'manufacturer', 'provider'];
+
+export class StructuredDataExtractor {
+  private $: CheerioRoot;
+  private parseErrors: string[] = [];
+
+  constructor($: CheerioRoot) {
+    this.$ = $;
+  }
+
+  /**
+   * Extract and validate every JSON-LD, Microdata and RDFa entity on the page
+   */
+  extract(): StructuredDataAnalysis {
+    this.parseErrors = [];
+
+    const entities = [
+      ...this.extractJsonLd().map(node => StructuredDataExtractor.validate(node, 'json-ld')),
+      ...this.extractItems('microdata').map(node => StructuredDataExtractor.validate(node, 'microdata')),
+      ...this.extractItems('rdfa').map(node => StructuredDataExtractor.validate(node, 'rdfa'))
+    ];
+
+    return {
+      entities,
+      formats_found: [...new Set(entities.map(entity => entity.format))],
+      parse_errors: this.parseErrors
+    };
+  }
+
+  /**
+   * Check a schema.org node against the rules for its type
+   */
+  static validate(node: SchemaNode, format: StructuredDataFormat): StructuredDataEntity {
+    const type = StructuredDataExtractor.getType(node);
+    const validatedAs = type in SCHEMA_RULES ? (type as StructuredDataType) : SUBTYPES[type];
+    const rules = validatedAs ? SCHEMA_RULES[validatedAs] : { required: [], recommended: [] };
+    const isMissing = (property: string) => !property.split('|').some(name => hasValue(node[name]));
+
+    const missingRequired = [
+      ...rules.required.filter(isMissing),
+      ...(validatedAs ? StructuredDataExtractor.checkNested(validatedAs, node) : [])
+    ];
+    const warnings: string[] = [];
+
+    const headline = textOf(node.headline);
+    if (validatedAs === 'Article' && headline && headline.length > MAX_HEADLINE_LENGTH) {
+      warnings.push(`Headline is ${headline.length} characters; keep it under ${MAX_HEADLINE_LENGTH}`);
+    }
+
+    const properties = { ...node };
+    delete properties['@context'];
+
+    return {
+      format,
+      type,
+      ...(validatedAs && { validated_as: validatedAs }),
+      ...((textOf(node.name) || headline) && { name: textOf(node.name) || headline }),
+      properties,
+      missing_required: missingRequired,
+      missing_recommended: rules.recommended.filter(isMissing),
+      warnings,
+      is_valid: missingRequired.length === 0
+    };
+  }
+
+  /**
+   * Collect the people, organizations, places, products and software named in structured data
+   */
+  static toEntityExtraction(entities: StructuredDataEntity[]): EntityExtraction {
+    const buckets: EntityExtraction = { people: [], organizations: [], locations: [], products: [], technologies: [] };
+    const add = (bucket: EntityBucket, name?: string) => {
+      if (name && !buckets[bucket].some(existing => existing.toLowerCase() === name.toLowerCase())) {
+        buckets[bucket].push(name);
+      }
+    };
+
+    const visit = (value: unknown, property?: string) => {
+      if (Array.isArray(value)) {
+        value.forEach(item => visit(item, property));
+        return;
+      }
+
+      if (typeof value === 'string') {
+        if (property && PERSON_PROPERTIES.includes(property)) add('people', value.trim());
+        if (property && ORGANIZATION_PROPERTIES.includes(property)) add('organizations', value.trim());
+        return;
+      }
+
+      if (!isNode(value)) return;
+
+      const type = StructuredDataExtractor.getType(value);
+      const name = textOf(value.name);
+      (Object.keys(ENTITY_TYPES) as EntityBucket[]).forEach(bucket => {
+        if (ENTITY_TYPES[bucket].includes(type)) add(bucket, name);
+      });
+
+      if (type === 'PostalAddress') {
+        ['addressLocality', 'addressRegion', 'addressCountry'].forEach(field => add('locations', textOf(value[field])));
+      }
+
+      Object.entries(value).forEach(([key, child]) => {
+        if (!key.startsWith('@')) visit(child, key);
+      });
+    };
+
+    entities.forEach(entity => visit({ ...entity.properties, '@type': entity.type }));
+    return buckets;
+  }
+
+  /**
+   * Parse every JSON-LD script block, flattening arrays and @graph containers
+   */
+  private extractJsonLd(): SchemaNode[] {
+    const nodes: SchemaNode[] = [];
+
+    this.$('script[type="application/ld+json"]').each((index, element) => {
+      // Some CMSs wrap the JSON in HTML comments or CDATA markers
+      const json = (this.$(element).html() || '')
+        .trim()
+        .replace(/^(<!--|(\/\/\s*)?<!\[CDATA\[)/, '')
+        .replace(/(-->|(\/\/\s*)?\]\]>)$/, '')
+        .trim();
+      if (!json) return;
+
+      try {
+        this.collectJsonLdNodes(JSON.parse(json), nodes);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        this.parseErrors.push(`JSON-LD block ${index + 1} is not valid JSON: ${reason}`);
+      }
+    });
+
+    return nodes;
+  }
+
+  /**
+   * Add typed JSON-LD nodes to the list
+   */
+  private collectJsonLdNodes(value: unknown, nodes: SchemaNode[]): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectJsonLdNodes(item, nodes));
+      return;
+    }
+    if (!isNode(value)) return;
+
+    if (Array.isArray(value['@graph'])) {
+      this.collectJsonLdNodes(value['@graph'], nodes);
+    }
+    if (value['@type']) {
+      nodes.push(value);
+    }
+  }
+
+  /**
+   * Read top-level Microdata items (itemscope) or RDFa resources (typeof)
+   */
+  private extractItems(format: 'microdata' | 'rdfa'): SchemaNode[] {
+    const selector = format === 'microdata' ? '[itemscope]:not([itemprop])' : '[typeof]:not([property])';
+    const items: SchemaNode[] = [];
+
+    this.$(selector).each((_, element) => {
+      items.push(this.readItem(this.$(element), format));
+    });
+
+    return items;
+  }
+
+  /**
+   * Build a node from an item element and the properties in its scope
+   */
+  private readItem(element: CheerioSelection, format: 'microdata' | 'rdfa'): SchemaNode {
+    const type = format === 'microdata' ? element.attr('itemtype') : element.attr('typeof');
+    const item: SchemaNode = { '@type': normalizeType(type || '') };
+    this.readProperties(element, format, item);
+    return item;
+  }
+
+  /**
+   * Walk descendants, stopping at nested items, which become property values of their own
+   */
+  private readProperties(scope: CheerioSelection, format: 'microdata' | 'rdfa', item: SchemaNode): void {
+    const propertyAttribute = format === 'microdata' ? 'itemprop' : 'property';
+    const itemSelector = format === 'microdata' ? '[itemscope]' : '[typeof]';
+
+    scope.children().each((_, child) => {
+      const $child = this.$(child);
+      const isItem = $child.is(itemSelector);
+      const names = ($child.attr(propertyAttribute) || '').split(/\s+/).filter(Boolean).map(normalizeType);
+
+      if (names.length > 0) {
+        const value = isItem ? this.readItem($child, format) : this.readValue($child);
+        names.forEach(name => {
+          const existing = item[name];
+          item[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+        });
+      }
+
+      if (!isItem) {
+        this.readProperties($child, format, item);
+      }
+    });
+  }
+
+  /**
+   * Property value per HTML element, following the Microdata and RDFa value rules
+   */
+  private readValue(element: CheerioSelection): string {
+    const attribute =
+      element.attr('content') ??
+      element.attr('resource') ??
+      (element.is('a, link, area') ? element.attr('href') : undefined) ??
+      (element.is('img, audio, video, source, embed, iframe') ? element.attr('src') : undefined) ??
+      (element.is('time') ? element.attr('datetime') : undefined) ??
+      (element.is('data, meter') ? element.attr('value') : undefined);
+
+    return (attribute ?? element.text()).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Rules that apply to the items inside FAQPage, HowTo and BreadcrumbList
+   */
+  private static checkNested(type: StructuredDataType, node: SchemaNode): string[] {
+    const missing: string[] = [];
+
+    if (type === 'FAQPage') {
+      toArray(node.mainEntity).forEach((question, index) => {
+        if (!isNode(question)) return;
+        if (!hasValue(question.name)) missing.push(`mainEntity[${index}].name`);
+        const answer = toArray(question.acceptedAnswer)[0];
+        if (!isNode(answer) || !hasValue(answer.text)) missing.push(`mainEntity[${index}].acceptedAnswer.text`);
+      });
+    }
+
+    if (type === 'HowTo') {
+      toArray(node.step).forEach((step, index) => {
+        if (isNode(step) && !hasValue(step.text) && !hasValue(step.itemListElement)) {
+          missing.push(`step[${index}].text`);
+        }
+      });
+    }
+
+    if (type === 'BreadcrumbList') {
+      const items = toArray(node.itemListElement);
+      items.forEach((listItem, index) => {
+        if (!isNode(listItem)) return;
+        const target = isNode(listItem.item) ? listItem.item : undefined;
+        if (!hasValue(listItem.position)) missing.push(`itemListElement[${index}].position`);
+        if (!hasValue(listItem.name) && !hasValue(target?.name)) missing.push(`itemListElement[${index}].name`);
+        // The last crumb may omit the URL: it is the current page
+        if (index < items.length - 1 && !hasValue(listItem.item)) missing.push(`itemListElement[${index}].item`);
+      });
+    }
+
+    return missing;
+  }
+
+  /**
+   * First declared schema.org type of a node, without its vocabulary prefix
+   */
+  private static getType(node: SchemaNode): string {
+    const type = toArray(node['@type']).find(value => typeof value === 'string');
+    return normalizeType(typeof type === 'string' ? type : '');
+  }
+}
+
+/**
+ * Strip vocabulary URLs and prefixes, e.g. "https://schema.org/Article" or "schema:Article"
+ */
+function normalizeType(type: string): string {
+  return (type.trim().split(/\s+/)[0] || '').replace(/^.*[/#:]/, '');
+}
+
+/**
+ * Plain JSON object (not an array)
+ */
+function isNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Treat single values and arrays alike
+ */
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Present and non-empty
+ */
+function hasValue(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(hasValue);
+  return value !== undefined && value !== null;
+}
+
+/**
+ * Text of a value, a first array item or a nested node's name
+ */
+function textOf(value: unknown): string | undefined {
+  const first = toArray(value)[0];
+  if (typeof first === 'string') return first.trim() || undefined;
+  if (typeof first === 'number') return String(first);
+  return isNode(first) ? textOf(first.name) : undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * Text Processor
+ * Language-specific tokenization, stop words and stemming for the keyword and semantic analyzers
+ */
+
+import {
+  PorterStemmer,
+  PorterStemmerDe,
+  PorterStemmerEs,
+  PorterStemmerFr,
+  PorterStemmerIt,
+  PorterStemmerNl,
+  PorterStemmerPt
+} from 'natural/lib/natural/stemmers';
+import { LanguageDetector } from './language-detector';
+import { getLanguageProfile, languageProfiles } from '@/config/language-profiles';
+import { LanguageProfile, SupportedLanguage } from '@/types/seo-analysis';
+
+// Snowball-style stemmer per language; imported from the stemmers module so the rest of natural is not loaded
+const STEMMERS: Record<SupportedLanguage, { stem(token: string): string }> = {
+  en: PorterStemmer,
+  es: PorterStemmerEs,
+  de: PorterStemmerDe,
+  fr: PorterStemmerFr,
+  pt: PorterStemmerPt,
+  it: PorterStemmerIt,
+  nl: PorterStemmerNl
+};
+
+// Detected languages below this confidence lose to the declared language
+const MIN_DETECTION_CONFIDENCE = 0.2;
+
+export class TextProcessor {
+  readonly language: SupportedLanguage;
+  private profile: LanguageProfile;
+  private stopWords: Set<string>;
+  private elision: RegExp | null;
+
+  constructor(language?: string) {
+    this.profile = getLanguageProfile(language) || languageProfiles.en;
+    this.language = this.profile.code;
+    this.stopWords = new Set(this.profile.stop_words);
+    this.elision = this.profile.elisions.length > 0
+      ? new RegExp(`^(${this.profile.elisions.join('|')})['’]`, 'iu')
+      : null;
+  }
+
+  /**
+   * Processor for the detected content language, else the declared language (e.g. <html lang>), else English
+   */
+  static forContent(text: string, declaredLanguage?: string): TextProcessor {
+    const detected = new LanguageDetector(text).detect();
+    if (detected && detected.confidence >= MIN_DETECTION_CONFIDENCE) return new TextProcessor(detected.language);
+    return new TextProcessor(declaredLanguage);
+  }
+
+  /**
+   * Word tokens: letters and digits with inner hyphens, elided articles and English possessives removed;
+   * lowercased unless the casing is needed (e.g. to spot proper nouns)
+   */
+  tokenize(text: string, preserveCase = false): string[] {
+    if (!text) return [];
+
+    return (preserveCase ? text : text.toLowerCase())
+      .normalize('NFC')
+      .split(/[^\p{L}\p{N}\p{M}'’-]+/u)
+      .map(token => {
+        let word = this.elision ? token.replace(this.elision, '') : token;
+        if (this.language === 'en') word = word.replace(/['’]s$/, '');
+        return word.replace(/^['’-]+|['’-]+$/g, '');
+      })
+      .filter(Boolean);
+  }
+
+  /**
+   * Whether the lowercase word is a function word in this language
+   */
+  isStopWord(word: string): boolean {
+    return this.stopWords.has(word);
+  }
+
+  /**
+   * Stem of a lowercase word; multi-word phrases are stemmed word by word
+   */
+  stem(word: string): string {
+    return word
+      .split(' ')
+      .map(part => (part.length > 2 && /^\p{L}+$/u.test(part) ? STEMMERS[this.language].stem(part) : part))
+      .join(' ');
+  }
+}
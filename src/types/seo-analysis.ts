@@ -8,6 +8,7 @@ export interface KeywordAnalysis {
   extracted_from: string[];
   confidence_score?: number;
   context_sentences?: string[];
+  variants?: string[]; // Surface forms of the keyword found on the page, e.g. "dating tip" and "dating tips"
 }
 
 export interface PrimaryKeywordAnalysis {
@@ -25,6 +26,44 @@ export interface SecondaryKeywordAnalysis {
 export interface InferredKeywordsAnalysis {
   primary: PrimaryKeywordAnalysis;
   secondary: SecondaryKeywordAnalysis;
+  extraction?: KeywordExtraction; // Scored phrases from the keyword extractor, before inference
+}
+
+export type KeywordExtractorName = 'rake' | 'yake' | 'textrank';
+
+export interface ScoredKeyword {
+  phrase: string;
+  score: number; // 0-1, relative to the best candidate of the same extraction
+}
+
+export interface KeywordExtraction {
+  extractor: KeywordExtractorName;
+  candidates: ScoredKeyword[];
+}
+
+// Similarity keywords are clustered on: embedding cosine, or shared context sentences without embeddings
+export type KeywordClusterSimilarity = 'embedding' | 'co_occurrence';
+
+export interface KeywordClusterUrl {
+  url: string;
+  keywords: string[]; // Cluster members inferred for this page
+  score: number; // Summed confidence of those members
+}
+
+export interface KeywordCluster {
+  name: string; // Words most members share, or the head term
+  head_term: string; // Member closest to the rest of the cluster, weighted by confidence
+  keywords: string[]; // Members, head term first
+  cohesion: number; // Mean pairwise similarity of the members, 0-1
+  urls: KeywordClusterUrl[]; // Best-matching page first, the natural hub for the topic
+}
+
+export interface KeywordClustering {
+  similarity: KeywordClusterSimilarity;
+  embedding_provider?: EmbeddingProviderName;
+  threshold: number; // Average-linkage similarity below which clusters stop merging
+  clusters: KeywordCluster[];
+  unclustered: string[]; // Keywords not similar enough to any other
 }
 
 export interface HeadingWithKeywords {
@@ -34,12 +73,103 @@ export interface HeadingWithKeywords {
   position?: number;
 }
 
+export interface OutlineHeading {
+  level: number; // 1-6
+  text: string; // Heading text, or the image alt text for image-only headings
+  position: number; // Document order among all headings
+  image_only?: boolean;
+}
+
+export interface HeadingNode extends OutlineHeading {
+  children: HeadingNode[];
+}
+
+export type HeadingRule =
+  | 'missing_h1'
+  | 'multiple_h1'
+  | 'skipped_level'
+  | 'empty_heading'
+  | 'duplicate_heading'
+  | 'image_only_heading'
+  | 'no_primary_keyword';
+
+export interface HeadingIssue {
+  rule: HeadingRule;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  positions: number[]; // Headings the issue refers to
+}
+
+export interface HeadingAudit {
+  outline: HeadingNode[];
+  heading_count: number;
+  h1_count: number;
+  issues: HeadingIssue[];
+}
+
 export interface ImageAltText {
   text: string;
   keywords: string[];
   src?: string;
 }
 
+export interface PageImage {
+  src: string; // Resolved URL, or the raw value for data: URIs
+  alt?: string; // Undefined when the alt attribute is missing
+  decorative: boolean; // role="presentation"/"none" or aria-hidden="true"
+  width?: string;
+  height?: string;
+  loading?: string;
+  fetchpriority?: string;
+  srcset?: string;
+  sizes?: string;
+  picture_source_types: string[]; // type attributes of <source> siblings inside a <picture>
+  position: number; // Document order among all images
+  in_content: boolean; // Inside the content area used for analysis
+  alt_text_index?: number; // Index of the matching ImageAltText entry
+}
+
+export type ImageIssueType =
+  | 'missing_alt'
+  | 'empty_alt'
+  | 'keyword_stuffed_alt'
+  | 'long_alt'
+  | 'meaningless_filename'
+  | 'missing_dimensions'
+  | 'lazy_above_fold'
+  | 'srcset_without_sizes'
+  | 'no_srcset'
+  | 'legacy_format';
+
+export interface ImageIssue {
+  type: ImageIssueType;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface ImageAuditItem {
+  src: string;
+  filename: string;
+  alt?: string;
+  alt_status: 'present' | 'missing' | 'empty' | 'decorative';
+  format?: string; // Lowercase file extension, e.g. "webp"
+  has_dimensions: boolean;
+  loading?: string;
+  above_the_fold: boolean;
+  has_srcset: boolean;
+  has_sizes: boolean;
+  in_content: boolean;
+  alt_text_index?: number; // Links the row to structured_on_page_data.meta_data_analysis.image_alt_texts
+  issues: ImageIssue[];
+}
+
+export interface ImageAudit {
+  images: ImageAuditItem[];
+  total_images: number;
+  images_with_issues: number;
+  issue_counts: Partial<Record<ImageIssueType, number>>;
+}
+
 export interface UrlAnalysis {
   slug: string;
   keywords: string[];
@@ -54,19 +184,98 @@ export interface MetaKeywordsInfo {
   warning?: string; // Warning about meta keywords being deprecated
 }
 
+export interface RobotsMetaTag {
+  name: string; // "robots" or a crawler name such as "googlebot"
+  content: string;
+}
+
 export interface MetaDataAnalysis {
   description_keywords: string[];
   image_alt_texts: ImageAltText[];
   canonical_url?: string;
   robots_meta?: string;
+  robots_meta_tags?: RobotsMetaTag[];
   meta_keywords?: string[];
   meta_keywords_analysis: MetaKeywordsInfo;
 }
 
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+export type StructuredDataType =
+  | 'Article'
+  | 'Product'
+  | 'FAQPage'
+  | 'HowTo'
+  | 'Organization'
+  | 'BreadcrumbList'
+  | 'LocalBusiness';
+
+export interface StructuredDataEntity {
+  format: StructuredDataFormat;
+  type: string; // schema.org type as declared, e.g. "BlogPosting"
+  validated_as?: StructuredDataType; // Supported type the entity was checked against
+  name?: string;
+  properties: Record<string, unknown>;
+  missing_required: string[]; // "a|b" means at least one of a or b
+  missing_recommended: string[];
+  warnings: string[];
+  is_valid: boolean;
+}
+
+export interface StructuredDataAnalysis {
+  entities: StructuredDataEntity[];
+  formats_found: StructuredDataFormat[];
+  parse_errors: string[];
+}
+
+export type LinkLocation = 'nav' | 'header' | 'footer' | 'aside' | 'body';
+
+export interface PageLink {
+  href: string; // Resolved absolute URL without the fragment
+  text: string; // Anchor text, or the image alt text for image links
+  rel: string[]; // Lowercased rel tokens, e.g. ["nofollow", "sponsored"]
+  internal: boolean;
+  location: LinkLocation;
+  is_image_link?: boolean;
+}
+
+export interface ContentSelectorProfile {
+  name: string;
+  label: string;
+  domains?: string[]; // Hostnames (and their subdomains) that use this profile by default
+  include: string[]; // Content areas, in priority order
+  exclude: string[]; // Boilerplate removed from the content area (nav, cookie banners, widgets)
+  fallback: string[]; // Tried in order when no include selector has enough text
+}
+
+// Languages with stop words, tokenization rules, stemming and a detection profile
+export type SupportedLanguage = 'en' | 'es' | 'de' | 'fr' | 'pt' | 'it' | 'nl';
+
+export interface LanguageProfile {
+  code: SupportedLanguage;
+  name: string;
+  stop_words: string[];
+  elisions: string[]; // Prefixes joined to the next word by an apostrophe, e.g. "l" in "l'analyse"
+  sample: string; // Reference text the n-gram detection profile is built from
+}
+
+export interface ContentSelectorMatch {
+  profile: string;
+  selector: string; // Selector that supplied the content area, the DOM path picked by scoring, or "body"
+  source: 'include' | 'scored' | 'fallback' | 'body';
+  score?: number; // Content score of the scored container
+}
+
 export interface StructuredOnPageData {
   headings_and_keywords: HeadingWithKeywords[];
   url_analysis: UrlAnalysis;
   meta_data_analysis: MetaDataAnalysis;
+  content_selector?: ContentSelectorMatch; // Which content area headings, images and text were read from
+  structured_data?: StructuredDataAnalysis; // JSON-LD, Microdata and RDFa found on the page
+  outbound_links?: string[]; // Resolved http(s) anchor URLs, used by the site crawler
+  links?: PageLink[]; // Every http(s) anchor with its text, rel and position on the page
+  images?: PageImage[]; // Every <img> on the page, with or without alt text
+  content_language?: SupportedLanguage; // Language whose stop words, tokenizer and stemmer were used
   content_length: number;
   word_count: number;
 }
@@ -77,8 +286,54 @@ export interface EntityExtraction {
   locations: string[];
   products: string[];
   technologies: string[];
+  entities?: RecognizedEntity[]; // Typed mentions found by the named-entity recognizer
+}
+
+export type EntityBucket = Exclude<keyof EntityExtraction, 'entities'>;
+
+export type EntityType = 'person' | 'organization' | 'location' | 'product' | 'technology';
+
+export interface EntityOffset {
+  start: number; // Character offset of the mention in the analyzed content
+  end: number; // Exclusive
+}
+
+export interface RecognizedEntity {
+  text: string; // Surface form of the first mention
+  type: EntityType;
+  count: number; // Mentions in the content
+  offsets: EntityOffset[];
+  kb_id?: string; // Knowledge-base entity the mentions were linked to
+}
+
+export type KnowledgeBaseEntityType = EntityType | 'concept';
+
+export interface LinkedEntity {
+  mention: string; // Entity name as extracted from the page
+  id: string; // Knowledge-base ID, e.g. the Wikidata QID "Q312"
+  label: string;
+  type: KnowledgeBaseEntityType; // May differ from the extracted type when context points to another sense
+  schema_type: string; // schema.org type to declare it with, e.g. "Organization"
+  description?: string;
+  aliases: string[];
+  same_as: string[]; // URLs for the schema.org sameAs property
+  confidence: number; // 0-1
 }
 
+export interface KnowledgeBaseStats {
+  entity_count: number;
+  imported_count: number; // Entities imported on top of the bundled ones
+  updated_at?: string;
+}
+
+export interface KnowledgeBaseImportResult {
+  imported: number;
+  skipped: number; // Entities without an ID or label in the language, or with fields not shaped like Wikidata's
+}
+
+// Backend that turns keywords, sentences and headings into vectors for semantic similarity
+export type EmbeddingProviderName = 'onnx' | 'hashed-ngram';
+
 export interface SemanticRelationship {
   term: string;
   related_to_primary_keyword: boolean;
@@ -92,6 +347,7 @@ export interface FrequentTerm {
   count: number;
   normalized_frequency: number;
   tf_idf_score?: number;
+  variants?: string[]; // Forms counted under this term when there is more than one
 }
 
 export interface CoreTopicAnalysis {
@@ -106,6 +362,7 @@ export interface CoreTopicAnalysis {
     locations: string[];
     products: string[];
     technologies: string[];
+    linked?: LinkedEntity[]; // Entities matched to knowledge-base IDs, when a knowledge base is available
   };
   co_occurring_terms: string[];
 }
@@ -123,6 +380,15 @@ export interface ContentSemanticAnalysis {
   content_quality_score?: number;
   topical_authority_score?: number;
   user_intent_signals?: UserIntentSignals;
+  tf_idf_corpus?: CorpusStats; // Corpus the IDF part of tf_idf_score was computed against
+  embedding_provider?: EmbeddingProviderName; // Backend behind co_occurrence_score when it measures embedding similarity
+}
+
+export interface CorpusStats {
+  project: string;
+  document_count: number;
+  term_count: number; // Distinct normalized terms across the corpus
+  updated_at?: string;
 }
 
 export interface AIInsights {
@@ -290,8 +556,119 @@ export interface PageMetadata {
   favicon_url?: string;
   language?: string;
   charset?: string;
+  social_metadata?: SocialMetadataAnalysis;
+}
+
+export interface HreflangLink {
+  hreflang: string; // As declared, e.g. "en-GB" or "x-default"
+  href: string; // As declared
+  resolved_url?: string; // Absolute URL, when the href parses
+}
+
+export type HreflangIssueType =
+  | 'invalid_code'
+  | 'relative_url'
+  | 'duplicate_hreflang'
+  | 'missing_self_reference'
+  | 'missing_x_default'
+  | 'missing_return_link'
+  | 'missing_html_lang'
+  | 'language_mismatch';
+
+export interface HreflangIssue {
+  type: HreflangIssueType;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  hreflang?: string;
+  url?: string; // Page the issue was found on, for site-level reciprocity checks
+}
+
+export interface DetectedLanguage {
+  language: string; // ISO 639-1 code
+  confidence: number; // 0-1
+}
+
+export interface HreflangAnalysis {
+  links: HreflangLink[];
+  has_x_default: boolean;
+  self_hreflang?: string; // hreflang of the entry that points at this page
+  html_lang?: string; // <html lang>, undefined when the attribute is missing
+  content_language_header?: string;
+  detected_language?: DetectedLanguage;
+  issues: HreflangIssue[];
+}
+
+export interface SocialImage {
+  url: string; // As declared; relative URLs are flagged, not resolved
+  width?: number;
+  height?: number;
+  alt?: string;
 }
 
+export interface OpenGraphData {
+  title?: string;
+  description?: string;
+  type?: string;
+  url?: string;
+  site_name?: string;
+  locale?: string;
+  image?: SocialImage;
+}
+
+export interface TwitterCardData {
+  card?: string;
+  title?: string;
+  description?: string;
+  site?: string;
+  creator?: string;
+  image?: SocialImage;
+}
+
+export type SocialPlatform = 'facebook' | 'linkedin' | 'x';
+
+export interface SocialPreview {
+  platform: SocialPlatform;
+  title: string;
+  description: string;
+  image_url?: string;
+  domain: string;
+  large_image: boolean;
+}
+
+export interface SocialMetadataIssue {
+  tag: string; // e.g. "og:image"
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SocialMetadataAnalysis {
+  open_graph: OpenGraphData;
+  twitter: TwitterCardData;
+  previews: SocialPreview[]; // What each platform shows, after its fallbacks
+  issues: SocialMetadataIssue[];
+}
+
+export type AnalysisDepth = 'basic' | 'standard' | 'comprehensive';
+
+/**
+ * Pipeline stages that can run for a page. Which ones run is decided by the
+ * requested analysis depth (see SEOAnalyzer.getStagesForDepth).
+ */
+export type AnalysisStage =
+  | 'metadata'
+  | 'headings'
+  | 'indexability'
+  | 'keyword_inference'
+  | 'structured_data'
+  | 'link_analysis'
+  | 'heading_audit'
+  | 'image_audit'
+  | 'hreflang'
+  | 'semantic_analysis'
+  | 'eeat'
+  | 'query_fan_out'
+  | 'ai_analysis';
+
 export interface SEOAnalysisResult {
   page_metadata: PageMetadata;
   structured_on_page_data: StructuredOnPageData;
@@ -299,21 +676,152 @@ export interface SEOAnalysisResult {
   inferred_keywords: InferredKeywordsAnalysis;
   ai_insights: AIInsights | null;
   gemini_analysis: GeminiAnalysis;
+  analysis_depth?: AnalysisDepth;
+  stages_run?: AnalysisStage[];
+  input_source?: AnalysisInputSource;
+  http_analysis?: HttpAnalysis;
+  robots_txt?: RobotsTxtAnalysis;
+  // Page audits; only set when their stage ran (indexability at every depth, the others from standard)
+  indexability?: IndexabilityAnalysis;
+  link_analysis?: LinkAnalysis;
+  heading_audit?: HeadingAudit;
+  image_audit?: ImageAudit;
+  hreflang?: HreflangAnalysis;
+  keyword_clusters?: KeywordClustering; // Topic groups of the inferred keywords (standard and comprehensive only)
   analysis_timestamp: string;
   processing_time_ms: number;
 }
 
+// Whether the page was fetched from its URL or supplied as raw HTML
+export type AnalysisInputSource = 'url' | 'html';
+
+export interface AnchorKeywordUsage {
+  keyword: string;
+  keyword_type: 'primary' | 'secondary';
+  internal_anchor_count: number;
+  external_anchor_count: number;
+  anchors: string[]; // Distinct internal anchor texts containing the keyword
+  targets: string[]; // Distinct internal URLs those anchors point to
+}
+
+export interface LinkAnalysis {
+  internal_links: number;
+  external_links: number;
+  unique_internal_targets: number;
+  nofollow_links: number;
+  sponsored_links: number;
+  ugc_links: number;
+  by_location: Record<LinkLocation, number>;
+  anchor_keywords: AnchorKeywordUsage[];
+  generic_anchors: string[]; // Internal anchors such as "click here" that say nothing about the target
+  empty_anchors: number; // Links with neither text nor image alt
+}
+
+export interface RedirectHop {
+  url: string;
+  status_code: number;
+  location?: string; // Resolved Location header for 3xx responses
+  duration_ms: number;
+}
+
+// Response headers that affect crawling, indexing or caching
+export interface SEOResponseHeaders {
+  content_type?: string;
+  content_language?: string;
+  cache_control?: string;
+  vary?: string;
+  x_robots_tag?: string;
+  link_canonical?: string; // rel=canonical from the Link header
+}
+
+export interface HttpAnalysis {
+  status_code: number;
+  final_url: string;
+  redirected: boolean;
+  redirect_chain: RedirectHop[]; // Every response in order, ending with the final one
+  headers: SEOResponseHeaders;
+  total_time_ms: number;
+  warnings: string[];
+}
+
+export interface RobotsDirectives {
+  noindex: boolean;
+  nofollow: boolean;
+  noarchive: boolean;
+  nosnippet: boolean;
+  noimageindex: boolean;
+  max_snippet?: number;
+  max_image_preview?: string;
+  max_video_preview?: number;
+  unavailable_after?: string;
+}
+
+export interface RobotsDirectiveSource {
+  source: 'meta' | 'x-robots-tag';
+  user_agent: string; // "*" when the directives apply to all crawlers
+  raw: string;
+  directives: RobotsDirectives;
+}
+
+export type IndexabilityVerdict = 'indexable' | 'canonicalized' | 'non_indexable';
+
+export type IndexabilitySignal = 'http_status' | 'robots_meta' | 'x_robots_tag' | 'canonical' | 'robots_txt';
+
+export interface IndexabilityReason {
+  signal: IndexabilitySignal;
+  severity: 'blocking' | 'warning' | 'info';
+  message: string;
+}
+
+export interface IndexabilityAnalysis {
+  verdict: IndexabilityVerdict;
+  is_indexable: boolean;
+  evaluated_for: string; // crawler the effective directives were resolved for
+  status_code?: number;
+  canonical: {
+    url?: string;
+    type: 'self' | 'cross_url' | 'missing';
+  };
+  effective_directives: RobotsDirectives;
+  directive_sources: RobotsDirectiveSource[];
+  reasons: IndexabilityReason[];
+}
+
+export interface RobotsUserAgentCheck {
+  user_agent: string;
+  allowed: boolean;
+  matched_rule?: string;
+}
+
+export interface RobotsTxtAnalysis {
+  robots_txt_url: string;
+  found: boolean;
+  status_code?: number;
+  bot_user_agent: string;
+  allowed: boolean;
+  crawl_delay?: number;
+  user_agents: RobotsUserAgentCheck[];
+  sitemaps: string[];
+  findings: string[];
+}
+
 export interface AnalysisError {
-  type: 'URL_INVALID' | 'FETCH_ERROR' | 'PARSE_ERROR' | 'GEMINI_ERROR' | 'RATE_LIMIT';
+  type: 'URL_INVALID' | 'FETCH_ERROR' | 'ROBOTS_BLOCKED' | 'PARSE_ERROR' | 'GEMINI_ERROR' | 'RATE_LIMIT';
   message: string;
   details?: string;
+  status_code?: number;
   timestamp: string;
 }
 
 export interface AnalysisRequest {
   url: string;
+  html?: string;
+  respect_robots_txt?: boolean;
   include_ai_analysis?: boolean;
-  analysis_depth?: 'basic' | 'standard' | 'comprehensive';
+  analysis_depth?: AnalysisDepth;
+  selector_profile?: string; // Content selector profile name; defaults to the profile for the URL's domain
+  keyword_extractor?: KeywordExtractorName; // Algorithm that scores candidate phrases from the main content
+  project?: string; // TF-IDF corpus to score against and, for fetched pages, to add to; defaults to the URL's host
 }
 
 export interface AnalysisResponse {
@@ -321,3 +829,142 @@ export interface AnalysisResponse {
   data?: SEOAnalysisResult;
   error?: AnalysisError;
 }
+
+// Multi-page (site-level) analysis
+
+export type CrawlScope = 'same-host' | 'same-domain';
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  success: boolean;
+  result?: SEOAnalysisResult;
+  error?: AnalysisError;
+}
+
+export interface PageKeywordMapEntry {
+  url: string;
+  title: string;
+  primary_keywords: string[];
+  secondary_keywords: string[];
+}
+
+export interface DuplicateMetadataGroup {
+  value: string;
+  urls: string[];
+}
+
+export interface CannibalizationPage {
+  url: string;
+  title: string;
+  h1?: string;
+  keywords: string[]; // The page's primary keywords that compete for the term
+  word_count: number;
+  internal_link_strength: number; // 0-100 from the site link graph
+  inbound_links: number;
+  score: number; // 0-1 from content depth and internal links; the highest is the suggested winner
+}
+
+export interface KeywordCannibalization {
+  keyword: string; // Most common form of the contested term
+  variants: string[]; // Stemmed and near-duplicate forms matched to it
+  severity: 'high' | 'medium' | 'low'; // How much the competing pages' titles, H1s and URLs also overlap
+  overlap: {
+    title: number; // Mean word overlap between the pages' titles, 0-1
+    h1: number;
+    url: number; // Of the URL path words
+  };
+  pages: CannibalizationPage[]; // Suggested winner first
+  suggested_winner: string;
+  recommendation: string;
+}
+
+export interface LinkGraphNode {
+  url: string;
+  pagerank: number; // Share of internal PageRank; all nodes sum to 1
+  internal_link_strength: number; // 0-100, relative to the strongest page
+  inbound_links: number; // Distinct analyzed pages linking here
+  outbound_links: number; // Distinct internal URLs this page links to
+  analyzed: boolean; // False for sitemap URLs that were not analyzed
+  in_sitemap?: boolean;
+  is_orphan: boolean;
+}
+
+export interface InternalLinkSuggestion {
+  source_url: string;
+  target_url: string;
+  anchor_text: string; // One of the target page's primary keywords
+  reason: string;
+}
+
+export interface SiteLinkGraph {
+  nodes: LinkGraphNode[]; // Strongest first
+  edges: number; // Distinct followed source→target links between nodes
+  orphan_pages: string[]; // Sitemap URLs no analyzed page links to
+  link_suggestions: InternalLinkSuggestion[];
+}
+
+export interface SiteReport {
+  pages_analyzed: number;
+  pages_failed: number;
+  keyword_map: PageKeywordMapEntry[];
+  duplicate_titles: DuplicateMetadataGroup[];
+  duplicate_descriptions: DuplicateMetadataGroup[];
+  pages_without_primary_keyword: string[];
+  link_graph?: SiteLinkGraph;
+  hreflang_issues?: HreflangIssue[]; // Missing return links between analyzed pages
+  keyword_clusters?: KeywordClustering; // Topic groups of the keywords inferred across all analyzed pages
+  keyword_cannibalization?: KeywordCannibalization[]; // Primary keywords targeted by more than one page
+  pages: CrawledPage[];
+}
+
+export interface SiteCrawlReport extends SiteReport {
+  seed_url: string;
+  scope: CrawlScope;
+  max_depth: number;
+  max_pages: number;
+  crawl_timestamp: string;
+  processing_time_ms: number;
+}
+
+// Sitemap ingestion
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
+}
+
+export type SitemapIssueType =
+  | 'redirect'
+  | 'http_error'
+  | 'fetch_error'
+  | 'robots_blocked'
+  | 'canonical_mismatch'
+  | 'blocked_url';
+
+export interface SitemapIssue {
+  type: SitemapIssueType;
+  message: string;
+}
+
+export interface SitemapUrlAudit extends SitemapEntry {
+  primary_keywords: string[];
+  secondary_keywords: string[];
+  status_code?: number;
+  final_url?: string;
+  canonical_url?: string;
+  issues: SitemapIssue[];
+}
+
+export interface SitemapReport extends SiteReport {
+  source: string;
+  sitemaps_processed: string[];
+  urls_found: number;
+  truncated: boolean;
+  entries: SitemapUrlAudit[];
+  urls_with_issues: number;
+  audit_timestamp: string;
+  processing_time_ms: number;
+}